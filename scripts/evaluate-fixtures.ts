@@ -0,0 +1,158 @@
+/*
+  # Contrôle hors ligne de l'extraction de liens et du scoring (CI)
+
+  Rejoue les cas de scripts/fixtures/harvest/cases.json sans aucun appel réseau :
+    - pages HTML des fixtures (dont des DOM rendus après JavaScript) servies au crawler par un
+      moteur de rendu factice ; les liens extraits doivent correspondre exactement aux documents attendus
+    - réponses LLM enregistrées (LLM_PROVIDER=fixture) lues comme une réponse de moissonnage, puis
+      scorées contre les documents attendus ; les scores doivent être ceux indiqués dans le cas
+
+    LLM_PROVIDER=fixture deno run --allow-read --allow-env scripts/evaluate-fixtures.ts
+
+  Code de sortie 1 si un écart est constaté, 2 si un autre fournisseur LLM est demandé.
+*/
+
+import { crawlSite } from '../supabase/functions/_shared/crawler.ts';
+import type { PageRenderer } from '../supabase/functions/_shared/renderer.ts';
+import type { HarvestFilters, HarvestSelectors, PaginationRules } from '../supabase/functions/_shared/types.ts';
+import { parseHarvestContent } from '../supabase/functions/_shared/harvestContent.ts';
+import {
+  EVALUATED_FIELDS,
+  evaluateVariant,
+  scoreDocuments,
+  type EvaluatedField,
+  type EvaluationBundle,
+  type GoldenDocument
+} from '../src/lib/promptEvaluation.ts';
+
+interface ExpectedScore {
+  precision: number;
+  recall: number;
+  f1: number;
+  field_accuracy: Record<EvaluatedField, number | null>;
+}
+
+interface FixtureCase {
+  name: string;
+  description: string;
+  start_url: string;
+  max_pages: number;
+  selectors: HarvestSelectors;
+  filters: HarvestFilters;
+  pagination: PaginationRules | null;
+  // URL → fichier HTML (relatif au dossier des fixtures)
+  pages: Record<string, string>;
+  golden: GoldenDocument[];
+  // Variante (voir variantKey) → réponse LLM enregistrée et scores attendus
+  responses: Record<string, { file: string; expected: ExpectedScore }>;
+}
+
+const FIXTURES_DIR = new URL('./fixtures/harvest/', import.meta.url);
+
+const provider = Deno.env.get('LLM_PROVIDER') || 'fixture';
+if (provider !== 'fixture') {
+  console.error(`❌ LLM_PROVIDER=${provider} : seules les réponses enregistrées (LLM_PROVIDER=fixture) sont disponibles hors ligne`);
+  Deno.exit(2);
+}
+
+const readFixture = (path: string) => Deno.readTextFile(new URL(path, FIXTURES_DIR));
+const { cases }: { cases: FixtureCase[] } = JSON.parse(await readFixture('cases.json'));
+const failures: string[] = [];
+
+// Moteur de rendu factice : le DOM enregistré de chaque URL connue, 404 sinon
+function fixtureRenderer(fixture: FixtureCase): PageRenderer {
+  return async (url) => {
+    const file = fixture.pages[url];
+    return {
+      status: file ? 200 : 404,
+      pages: file ? [{ url, html: await readFixture(file) }] : [],
+      interactions: { load_more: 0, pagination: 0 },
+      warnings: []
+    };
+  };
+}
+
+// 1. Extraction de liens : aucun document manquant ni inattendu
+for (const fixture of cases) {
+  const result = await crawlSite({
+    startUrl: fixture.start_url,
+    selectors: fixture.selectors,
+    filters: fixture.filters,
+    maxPages: fixture.max_pages,
+    delayBetweenRequests: 0,
+    renderer: fixtureRenderer(fixture),
+    pagination: fixture.pagination,
+    onWarning: async (message, details) => {
+      failures.push(`${fixture.name}: avertissement du crawler « ${message} » ${JSON.stringify(details ?? {})}`);
+    }
+  });
+
+  const score = scoreDocuments(fixture.golden, result.documents);
+  console.log(`\n=== Extraction : ${fixture.name} (${result.pagesFetched} page(s)) ===`);
+  console.log(`P ${score.precision}  R ${score.recall}  (${score.matched}/${score.expected} attendus, ${score.returned} extraits)`);
+
+  for (const url of score.missing) failures.push(`${fixture.name}: lien attendu non extrait ${url}`);
+  for (const url of score.unexpected) failures.push(`${fixture.name}: lien extrait inattendu ${url}`);
+  if (result.pagesFailed > 0) failures.push(`${fixture.name}: ${result.pagesFailed} page(s) sans fixture`);
+}
+
+// 2. Scoring des réponses enregistrées, variante par variante
+const bundle: EvaluationBundle = {
+  version: 1,
+  generatedAt: new Date().toISOString(),
+  cases: await Promise.all(cases.map(async fixture => ({
+    dataSourceId: fixture.name,
+    dataSourceName: fixture.name,
+    golden: fixture.golden,
+    responses: Object.fromEntries(await Promise.all(
+      Object.entries(fixture.responses).map(async ([variant, { file }]) => [variant, await readFixture(file)])
+    ))
+  })))
+};
+
+const closeTo = (actual: number | null, expected: number | null) =>
+  actual === expected || (actual !== null && expected !== null && Math.abs(actual - expected) < 0.0001);
+
+const variants = Array.from(new Set(cases.flatMap(fixture => Object.keys(fixture.responses))));
+for (const variant of variants) {
+  console.log(`\n=== Scoring : ${variant} ===`);
+
+  for (const evaluated of evaluateVariant(bundle, variant).cases) {
+    const recorded = bundle.cases.find(evaluationCase => evaluationCase.dataSourceId === evaluated.dataSourceId)!.responses[variant];
+    if (recorded === undefined) continue;
+    const { expected } = cases.find(fixture => fixture.name === evaluated.dataSourceId)!.responses[variant];
+    const { score } = evaluated;
+
+    // La réponse enregistrée doit rester utilisable par le moissonnage (structure du schéma)
+    if (!parseHarvestContent(recorded).data) {
+      failures.push(`${evaluated.dataSourceName} / ${variant}: réponse enregistrée hors schéma`);
+    }
+    if (evaluated.error || !score) {
+      failures.push(`${evaluated.dataSourceName} / ${variant}: ${evaluated.error ?? 'aucun score'}`);
+      continue;
+    }
+
+    console.log(`- ${evaluated.dataSourceName}: P ${score.precision}  R ${score.recall}  F1 ${score.f1}  ` +
+      EVALUATED_FIELDS.map(field => `${field} ${score.fieldAccuracy[field]}`).join('  '));
+
+    const checks: [string, number | null, number | null][] = [
+      ['précision', score.precision, expected.precision],
+      ['rappel', score.recall, expected.recall],
+      ['F1', score.f1, expected.f1],
+      ...EVALUATED_FIELDS.map(field => [field, score.fieldAccuracy[field], expected.field_accuracy[field]] as [string, number | null, number | null])
+    ];
+    for (const [label, actual, wanted] of checks) {
+      if (!closeTo(actual, wanted)) {
+        failures.push(`${evaluated.dataSourceName} / ${variant}: ${label} ${actual} au lieu de ${wanted}`);
+      }
+    }
+  }
+}
+
+if (failures.length > 0) {
+  console.error(`\n❌ ${failures.length} écart(s) :`);
+  for (const failure of failures) console.error(`- ${failure}`);
+  Deno.exit(1);
+}
+
+console.log(`\n✅ ${cases.length} cas : extraction de liens et scores conformes aux fixtures`);
@@ -0,0 +1,70 @@
+/*
+  # Évaluation A/B des prompts de moissonnage (CI, hors ligne)
+
+  Rejoue les réponses LLM enregistrées d'un jeu exporté depuis le tableau de bord
+  (Templates de prompts → Évaluation → Exporter) ; aucun appel réseau.
+
+    deno run --allow-read scripts/evaluate-prompts.ts <jeu.json> <variante A> <variante B> [--max-recall-drop=0.05]
+
+  Variante : harvest_system:v1|harvest_user:v2. Code de sortie 1 si le rappel de B
+  est inférieur à celui de A de plus de max-recall-drop (0 par défaut).
+*/
+
+import {
+  EVALUATED_FIELDS,
+  evaluateVariant,
+  type DocumentScore,
+  type EvaluationBundle
+} from '../src/lib/promptEvaluation.ts';
+
+function percent(value: number | null): string {
+  return value === null ? '   —  ' : `${(value * 100).toFixed(1).padStart(5)}%`;
+}
+
+function formatScore(score: DocumentScore): string {
+  return [
+    `P ${percent(score.precision)}`,
+    `R ${percent(score.recall)}`,
+    `F1 ${percent(score.f1)}`,
+    ...EVALUATED_FIELDS.map(field => `${field} ${percent(score.fieldAccuracy[field])}`),
+    `(${score.matched}/${score.expected} attendus, ${score.returned} renvoyés)`
+  ].join('  ');
+}
+
+const positional = Deno.args.filter(arg => !arg.startsWith('--'));
+const maxRecallDrop = Number(Deno.args.find(arg => arg.startsWith('--max-recall-drop='))?.split('=')[1] ?? 0);
+
+if (positional.length !== 3) {
+  console.error('Usage: deno run --allow-read scripts/evaluate-prompts.ts <jeu.json> <variante A> <variante B> [--max-recall-drop=0.05]');
+  Deno.exit(2);
+}
+
+const [bundlePath, variantA, variantB] = positional;
+const bundle: EvaluationBundle = JSON.parse(await Deno.readTextFile(bundlePath));
+
+const results = [evaluateVariant(bundle, variantA), evaluateVariant(bundle, variantB)];
+
+for (const result of results) {
+  console.log(`\n=== ${result.variant} ===`);
+  for (const evaluationCase of result.cases) {
+    const detail = evaluationCase.score ? formatScore(evaluationCase.score) : '';
+    console.log(`- ${evaluationCase.dataSourceName}: ${evaluationCase.error ? `⚠️ ${evaluationCase.error} ` : ''}${detail}`);
+  }
+  console.log(`TOTAL: ${formatScore(result.total)}`);
+}
+
+const [a, b] = results;
+const recallDelta = b.total.recall - a.total.recall;
+console.log(`\nΔ rappel ${(recallDelta * 100).toFixed(1)} pts, Δ précision ${((b.total.precision - a.total.precision) * 100).toFixed(1)} pts`);
+
+const unrecorded = b.cases.filter(evaluationCase => !evaluationCase.score).length;
+if (unrecorded > 0) {
+  console.warn(`⚠️ ${unrecorded} source(s) sans réponse enregistrée pour ${variantB}`);
+}
+
+if (recallDelta < -maxRecallDrop) {
+  console.error(`❌ Régression du rappel au-delà de ${(maxRecallDrop * 100).toFixed(1)} pts`);
+  Deno.exit(1);
+}
+
+console.log('✅ Pas de régression du rappel');
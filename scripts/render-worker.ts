@@ -0,0 +1,187 @@
+/*
+  # Worker de rendu JavaScript (Chromium headless via Playwright)
+
+  Charge les pages des sources dont harvesting_configs.render_js est activé, pour le crawler
+  des fonctions edge (RENDER_WORKER_URL). Installation de Chromium, une fois :
+
+    deno run -A npm:playwright install chromium
+    npm run render:worker
+
+  Variables d'environnement :
+    - RENDER_WORKER_PORT  - Port d'écoute (8787 par défaut)
+    - RENDER_WORKER_TOKEN - Jeton attendu en Authorization: Bearer (facultatif, à définir
+      aussi dans les secrets edge si le worker est exposé)
+
+  POST /render { url, user_agent, wait_for_selector, load_more_selector, pagination_selector, max_pages, headers }
+    → { success, status, final_url, pages: [{ url, html }], interactions, warnings }
+*/
+
+import { chromium, type Browser, type Page } from 'npm:playwright@1';
+
+interface RenderRequest {
+  url: string;
+  user_agent?: string;
+  wait_for_selector?: string | null;
+  load_more_selector?: string | null;
+  pagination_selector?: string | null;
+  max_pages?: number;
+  // Identifiants de la source : ajoutés uniquement aux requêtes vers l'hôte de url
+  headers?: Record<string, string>;
+}
+
+const PORT = Number(Deno.env.get('RENDER_WORKER_PORT') || 8787);
+const TOKEN = Deno.env.get('RENDER_WORKER_TOKEN');
+const NAVIGATION_TIMEOUT_MS = 30000;
+const SELECTOR_TIMEOUT_MS = 10000;
+const MAX_LOAD_MORE_CLICKS = 20;
+const MAX_RENDERED_PAGES = 20;
+
+let browser: Browser | null = null;
+
+// Un seul navigateur pour toutes les requêtes ; relancé s'il a été fermé
+async function getBrowser(): Promise<Browser> {
+  if (!browser || !browser.isConnected()) {
+    browser = await chromium.launch({ headless: true });
+    console.log('🧭 Chromium headless démarré');
+  }
+  return browser;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Attendre que le réseau se calme après une interaction, sans échouer si la page reste active
+async function settle(page: Page): Promise<void> {
+  await page.waitForLoadState('networkidle', { timeout: SELECTOR_TIMEOUT_MS }).catch(() => {});
+}
+
+// Cliquer « charger plus » tant que le bouton est visible ; renvoie le nombre de clics
+async function clickLoadMore(page: Page, selector: string, warnings: string[]): Promise<number> {
+  let clicks = 0;
+  while (clicks < MAX_LOAD_MORE_CLICKS) {
+    const button = page.locator(selector).first();
+    if (!await button.isVisible().catch(() => false)) break;
+
+    try {
+      await button.click({ timeout: SELECTOR_TIMEOUT_MS });
+      clicks++;
+      await settle(page);
+    } catch (error) {
+      warnings.push(`Clic « charger plus » impossible: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
+      break;
+    }
+  }
+
+  if (clicks === MAX_LOAD_MORE_CLICKS) {
+    warnings.push(`Limite de ${MAX_LOAD_MORE_CLICKS} clics « charger plus » atteinte`);
+  }
+  return clicks;
+}
+
+async function render(request: RenderRequest) {
+  const warnings: string[] = [];
+  const interactions = { load_more: 0, pagination: 0 };
+  const pages: { url: string; html: string }[] = [];
+  const maxPages = Math.min(MAX_RENDERED_PAGES, Math.max(1, request.max_pages || 1));
+
+  const context = await (await getBrowser()).newContext({
+    userAgent: request.user_agent || undefined
+  });
+
+  const authHeaders = request.headers || {};
+  if (Object.keys(authHeaders).length > 0) {
+    const host = new URL(request.url).hostname.replace(/^www\./, '');
+    await context.route('**/*', route => {
+      const requestHost = new URL(route.request().url()).hostname.replace(/^www\./, '');
+      return requestHost === host
+        ? route.continue({ headers: { ...route.request().headers(), ...authHeaders } })
+        : route.continue();
+    });
+  }
+
+  try {
+    const page = await context.newPage();
+    const response = await page.goto(request.url, { waitUntil: 'networkidle', timeout: NAVIGATION_TIMEOUT_MS });
+    const status = response?.status() ?? 200;
+    if (status >= 400) {
+      return { status, final_url: page.url(), pages, interactions, warnings };
+    }
+
+    // Instantané de la page courante, après attente et « charger plus »
+    const snapshot = async () => {
+      if (request.wait_for_selector) {
+        await page.waitForSelector(request.wait_for_selector, { timeout: SELECTOR_TIMEOUT_MS })
+          .catch(() => warnings.push(`Sélecteur attendu introuvable: ${request.wait_for_selector}`));
+      }
+      if (request.load_more_selector) {
+        interactions.load_more += await clickLoadMore(page, request.load_more_selector, warnings);
+      }
+      pages.push({ url: page.url(), html: await page.content() });
+    };
+
+    await snapshot();
+
+    // Pagination JavaScript : chaque page suivante est un instantané de plus
+    while (request.pagination_selector && pages.length < maxPages) {
+      const next = page.locator(request.pagination_selector).first();
+      if (!await next.isVisible().catch(() => false)) break;
+
+      const before = await page.content();
+      try {
+        await next.click({ timeout: SELECTOR_TIMEOUT_MS });
+      } catch (error) {
+        warnings.push(`Clic « page suivante » impossible: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
+        break;
+      }
+      await settle(page);
+
+      // Bouton présent mais sans effet (dernière page désactivée par CSS, par exemple)
+      if (await page.content() === before) break;
+
+      interactions.pagination++;
+      await snapshot();
+    }
+
+    return { status, final_url: page.url(), pages, interactions, warnings };
+  } finally {
+    await context.close();
+  }
+}
+
+Deno.serve({ port: PORT }, async (req: Request) => {
+  const { pathname } = new URL(req.url);
+  if (req.method !== 'POST' || pathname !== '/render') {
+    return jsonResponse({ success: false, error: 'Route inconnue' }, 404);
+  }
+
+  if (TOKEN && req.headers.get('Authorization') !== `Bearer ${TOKEN}`) {
+    return jsonResponse({ success: false, error: 'Jeton invalide' }, 401);
+  }
+
+  let request: RenderRequest;
+  try {
+    request = await req.json();
+    new URL(request.url);
+  } catch {
+    return jsonResponse({ success: false, error: 'Requête invalide : url requise' }, 400);
+  }
+
+  try {
+    console.log('🖥️ Rendu:', request.url);
+    const result = await render(request);
+    console.log(`✅ Rendu terminé: ${result.pages.length} page(s), HTTP ${result.status}`);
+    return jsonResponse({ success: true, ...result });
+  } catch (error) {
+    console.error('❌ Erreur de rendu:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Erreur inconnue'
+    }, 500);
+  }
+});
+
+console.log(`🚀 Worker de rendu à l'écoute sur le port ${PORT}`);
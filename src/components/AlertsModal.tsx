@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { X, AlertTriangle, Clock, MessageSquare, Save } from 'lucide-react';
+import { X, AlertTriangle, Clock, MessageSquare, Save, ShieldCheck } from 'lucide-react';
 import { HarvestLogService } from '../services/harvestLogService';
+import { CrawlComplianceService } from '../services/crawlComplianceService';
 import { DataSourceService } from '../services/dataSourceService';
 import type { Database } from '../lib/database.types';
 
@@ -34,6 +35,7 @@ const AlertsModal: React.FC<AlertsModalProps> = ({
   const [siteInfo, setSiteInfo] = useState<DataSource | null>(null);
   const [editingComment, setEditingComment] = useState<string | null>(null);
   const [commentText, setCommentText] = useState('');
+  const [downloadingReport, setDownloadingReport] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -42,6 +44,18 @@ const AlertsModal: React.FC<AlertsModalProps> = ({
     }
   }, [isOpen, websiteId]);
 
+  const handleDownloadComplianceReport = async () => {
+    setDownloadingReport(true);
+    try {
+      await CrawlComplianceService.downloadReport(websiteId);
+    } catch (error) {
+      console.error('❌ Erreur rapport de conformité:', error);
+      alert(`Impossible de générer le rapport de conformité: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
+    } finally {
+      setDownloadingReport(false);
+    }
+  };
+
   const loadAlerts = async () => {
     setLoading(true);
     try {
@@ -318,7 +332,16 @@ const AlertsModal: React.FC<AlertsModalProps> = ({
         </div>
 
         <div className="border-t border-gray-200 p-4 bg-gray-50">
-          <div className="flex justify-end">
+          <div className="flex justify-between">
+            <button
+              onClick={handleDownloadComplianceReport}
+              disabled={downloadingReport}
+              className="flex items-center bg-white border border-gray-300 hover:bg-gray-100 text-gray-700 px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+              title="Télécharger le rapport de conformité robots.txt (JSON)"
+            >
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              {downloadingReport ? 'Génération...' : 'Rapport de conformité'}
+            </button>
             <button
               onClick={onClose}
               className="bg-gray-600 hover:bg-gray-700 text-white px-6 py-2 rounded-lg transition-colors"
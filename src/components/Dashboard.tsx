@@ -2,11 +2,17 @@ import React, { useState, useEffect } from 'react';
 import WebsiteManager from './WebsiteManager';
 import DatabaseTest from './DatabaseTest';
 import SystemHealthCheck from './SystemHealthCheck';
+import LlmSpendPanel from './LlmSpendPanel';
+import PromptTemplatesPanel from './PromptTemplatesPanel';
+import PromptEvaluationPanel from './PromptEvaluationPanel';
 
 const Dashboard: React.FC = () => {
   return (
     <div className="space-y-6">
       <SystemHealthCheck />
+      <LlmSpendPanel />
+      <PromptTemplatesPanel />
+      <PromptEvaluationPanel />
       <DatabaseTest />
       <WebsiteManager />
     </div>
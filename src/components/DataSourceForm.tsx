@@ -201,6 +201,8 @@ const DataSourceForm: React.FC<DataSourceFormProps> = ({ source, onSubmit, onCan
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="web">Site Web</option>
+              <option value="crawler">Crawler (sélecteurs CSS)</option>
+              <option value="sitemap">Sitemap / flux RSS-Atom (sans IA)</option>
               <option value="api">API REST</option>
               <option value="rss">Flux RSS</option>
               <option value="json">JSON</option>
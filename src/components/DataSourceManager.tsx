@@ -144,7 +144,11 @@ const DataSourceManager: React.FC = () => {
       return 'Manuel';
     }
     
-    // TODO: Calculer la prochaine date basée sur la fréquence
+    // Date planifiée en base (trigger + planificateur), sinon estimation à partir d'aujourd'hui
+    if (config.next_run_at) {
+      return new Date(config.next_run_at).toLocaleDateString('fr-FR');
+    }
+
     const now = new Date();
     switch (config.frequency) {
       case 'daily':
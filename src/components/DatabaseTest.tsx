@@ -49,7 +49,7 @@ const DatabaseTest: React.FC = () => {
       console.log('✅ Connexion Supabase réussie');
       
       // Test de l'existence des tables
-      const tables = ['data_sources', 'harvesting_configs', 'harvest_results', 'harvest_logs'];
+      const tables = ['data_sources', 'harvesting_configs', 'harvest_results', 'harvest_logs'] as const;
       const tableResults: Record<string, boolean> = {};
 
       for (const table of tables) {
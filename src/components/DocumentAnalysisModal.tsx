@@ -55,7 +55,7 @@ const DocumentAnalysisModal: React.FC<DocumentAnalysisModalProps> = ({
           ...existingMetadata,
           embedding: {
             embedding: embeddingResult.embedding,
-            embedding_model: 'text-embedding-ada-002',
+            embedding_model: embeddingResult.model || 'text-embedding-ada-002',
             text_hash: embeddingResult.contentHash,
             created_at: new Date().toISOString()
           }
@@ -172,7 +172,9 @@ const DocumentAnalysisModal: React.FC<DocumentAnalysisModalProps> = ({
         const contentAnalysisResult = await ContentAnalysisService.analyzeContent(
           analysisResult.extractedText,
           docData.document_name,
-          docData.url_doc
+          docData.url_doc,
+          null,
+          docData.harvest_result_parent_id ?? null
         );
 
         setContentAnalysis({
@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { X, GitCompare, ExternalLink } from 'lucide-react';
+import {
+  DocumentChangeService,
+  CHANGE_TYPE_LABELS,
+  type ChangeStatus,
+  type DocumentChange
+} from '../services/documentChangeService';
+import type { OpenAIDocument } from '../lib/database.types';
+
+interface DocumentChangesModalProps {
+  isOpen: boolean;
+  websiteId: string;
+  websiteName: string;
+  onClose: () => void;
+}
+
+const PERIODS = [
+  { days: 7, label: '7 derniers jours' },
+  { days: 30, label: '30 derniers jours' },
+  { days: 90, label: '90 derniers jours' }
+];
+
+const CHANGE_TYPE_STYLES: Record<string, string> = {
+  new: 'bg-green-100 text-green-800',
+  updated: 'bg-blue-100 text-blue-800',
+  disappeared: 'bg-orange-100 text-orange-800'
+};
+
+const DocumentChangesModal: React.FC<DocumentChangesModalProps> = ({
+  isOpen,
+  websiteId,
+  websiteName,
+  onClose
+}) => {
+  const [changes, setChanges] = useState<DocumentChange[]>([]);
+  const [periodDays, setPeriodDays] = useState(7);
+  const [typeFilter, setTypeFilter] = useState<'all' | ChangeStatus>('all');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || !websiteId) return;
+
+    const loadChanges = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const since = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000);
+        setChanges(await DocumentChangeService.getChangesSince(websiteId, since));
+      } catch (err) {
+        console.error('❌ Erreur chargement des changements:', err);
+        setError(err instanceof Error ? err.message : 'Erreur lors du chargement');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadChanges();
+  }, [isOpen, websiteId, periodDays]);
+
+  const countByType = (type: ChangeStatus) => changes.filter(change => change.change_type === type).length;
+  const visibleChanges = typeFilter === 'all' ? changes : changes.filter(change => change.change_type === typeFilter);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full mx-4 max-h-[90vh] overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="bg-teal-100 p-2 rounded-lg">
+              <GitCompare className="h-5 w-5 text-teal-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Changements détectés</h3>
+              <p className="text-sm text-gray-500">{websiteName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 border-b border-gray-200 flex flex-wrap items-center gap-4">
+          <select
+            value={periodDays}
+            onChange={(e) => setPeriodDays(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+          >
+            {PERIODS.map(period => (
+              <option key={period.days} value={period.days}>{period.label}</option>
+            ))}
+          </select>
+
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {(['all', 'new', 'updated', 'disappeared'] as const).map(type => (
+              <button
+                key={type}
+                onClick={() => setTypeFilter(type)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  typeFilter === type
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {type === 'all' ? `Tous (${changes.length})` : `${CHANGE_TYPE_LABELS[type]}s (${countByType(type)})`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-y-auto max-h-[calc(90vh-260px)]">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-teal-600"></div>
+              <span className="ml-3 text-gray-600">Chargement des changements...</span>
+            </div>
+          ) : error ? (
+            <div className="p-8 text-center text-red-600">{error}</div>
+          ) : visibleChanges.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              Aucun changement détecté sur la période.
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changement</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Document</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Détecté le</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleChanges.map(change => {
+                  const document = (change.document || {}) as Partial<OpenAIDocument>;
+                  return (
+                    <tr key={change.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${CHANGE_TYPE_STYLES[change.change_type] || 'bg-gray-100 text-gray-800'}`}>
+                          {CHANGE_TYPE_LABELS[change.change_type as ChangeStatus] ?? change.change_type}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-gray-900">
+                          {document.document_name || document.filename || change.url_doc.split('/').pop()}
+                        </div>
+                        <a
+                          href={change.url_doc}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-blue-600 hover:text-blue-800 flex items-center space-x-1 break-all"
+                        >
+                          <span>{change.url_doc}</span>
+                          <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                        </a>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(change.detected_at).toLocaleString('fr-FR')}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="border-t border-gray-200 p-4 bg-gray-50">
+          <div className="flex justify-end">
+            <button
+              onClick={onClose}
+              className="bg-gray-600 hover:bg-gray-700 text-white px-6 py-2 rounded-lg transition-colors"
+            >
+              Fermer
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentChangesModal;
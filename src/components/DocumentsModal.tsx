@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { X, Globe, Search, Eye, Calendar, FileText, ExternalLink, Brain, ChevronDown } from 'lucide-react';
+import { X, Globe, Search, Eye, Calendar, FileText, ExternalLink, Brain, ChevronDown, Archive } from 'lucide-react';
 import Pagination from './Pagination';
 import { HarvestResultService } from '../services/harvestResultService';
+import { DocumentProxyService } from '../services/documentProxyService';
+import { WarcArchiveService, type WarcCapture } from '../services/warcArchiveService';
+import PdfViewer from './PdfViewer';
 
 // Lazy loading de la modale d'analyse
 const DocumentAnalysisModal = React.lazy(() => import('./DocumentAnalysisModal'));
@@ -29,11 +32,22 @@ interface Document {
   notes: string;
   obstacles: string;
   blobUrl?: string; // URL blob pour contourner CORS
+  rangeUrl?: string; // URL du proxy lue par plages (PDF)
+  rangeHeaders?: Record<string, string>; // En-têtes des requêtes par plages (jeton utilisateur)
+  cachedAt?: string; // Date de la copie servie par le cache de documents
+  archive?: ArchiveView; // Copie archivée (capture WARC) affichée
   hasAnalysis?: boolean; // Indique si le document a déjà été analysé
   analysisKeywords?: string[]; // Mots-clés de l'analyse
   hasEmbeddings?: boolean; // Indique si le document a des embeddings
 }
 
+interface ArchiveView {
+  capture: WarcCapture;
+  documentCaptures: WarcCapture[];
+  sourceCaptures: WarcCapture[];
+  isHtml: boolean;
+}
+
 interface DocumentsModalProps {
   isOpen: boolean;
   websiteName: string;
@@ -173,27 +187,29 @@ const DocumentsModal: React.FC<DocumentsModalProps> = ({
     console.log('🔍 Tentative de visualisation:', doc.document_name);
     
     try {
-      // Utiliser le proxy pour récupérer le document et créer une URL blob
-      const proxyUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/document-proxy`;
-      const response = await fetch(proxyUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ url: doc.url_doc })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Erreur proxy: ${response.status}`);
+      // Métadonnées d'abord : un PDF servi par plages est lu page à page, sans téléchargement complet
+      const metadata = await DocumentProxyService.getMetadata(doc.url_doc, websiteId);
+      const cachedAt = metadata.cached ? metadata.fetched_at : undefined;
+      if (metadata.content_type.includes('pdf') && metadata.accept_ranges) {
+        setViewerDocument({
+          ...doc,
+          rangeUrl: DocumentProxyService.documentUrl(doc.url_doc, websiteId),
+          rangeHeaders: await DocumentProxyService.authHeaders(),
+          cachedAt
+        });
+        console.log('✅ PDF ouvert par plages via proxy');
+        return;
       }
 
-      const blob = await response.blob();
+      // Sinon récupérer le document via le proxy et créer une URL blob
+      const buffer = await DocumentProxyService.download(doc.url_doc, { dataSourceId: websiteId });
+      const blob = new Blob([buffer], { type: metadata.content_type });
       const blobUrl = URL.createObjectURL(blob);
       
       setViewerDocument({
         ...doc,
-        blobUrl
+        blobUrl,
+        cachedAt
       });
       
       console.log('✅ Document chargé via proxy');
@@ -203,6 +219,59 @@ const DocumentsModal: React.FC<DocumentsModalProps> = ({
     }
   };
 
+  // Copie archivée (capture WARC d'une exécution) : consultable même si l'URL d'origine n'existe plus.
+  // Sans capture précisée : la plus récente du document, sinon celle de sa page source
+  const handleViewArchive = async (doc: Document, capture?: WarcCapture) => {
+    setViewerError('');
+    if (viewerDocument?.blobUrl) {
+      URL.revokeObjectURL(viewerDocument.blobUrl);
+    }
+    setViewerDocument({ ...doc, blobUrl: undefined, rangeUrl: undefined, rangeHeaders: undefined, cachedAt: undefined });
+
+    try {
+      const documentCaptures = doc.archive?.documentCaptures
+        ?? await WarcArchiveService.getCaptures(doc.url_doc, websiteId);
+      const sourceCaptures = doc.archive?.sourceCaptures
+        ?? (doc.source ? await WarcArchiveService.getCaptures(doc.source, websiteId) : []);
+      const selected = capture ?? documentCaptures[0] ?? sourceCaptures[0];
+
+      if (!selected) {
+        setViewerError('Aucune copie archivée pour ce document : activez la capture WARC de la source pour archiver les prochaines exécutions.');
+        return;
+      }
+
+      const copy = await WarcArchiveService.fetchCopy(selected);
+      setViewerDocument({
+        ...doc,
+        blobUrl: URL.createObjectURL(copy.blob),
+        rangeUrl: undefined,
+        cachedAt: undefined,
+        archive: {
+          capture: selected,
+          documentCaptures,
+          sourceCaptures,
+          isHtml: copy.contentType.includes('html')
+        }
+      });
+      console.log('✅ Copie archivée chargée:', selected.target_uri, selected.captured_at);
+    } catch (error) {
+      console.error('❌ Erreur chargement copie archivée:', error);
+      setViewerError(`Impossible de charger la copie archivée: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
+    }
+  };
+
+  const handleSelectCapture = (captureId: string) => {
+    if (!viewerDocument?.archive) return;
+    const { documentCaptures, sourceCaptures } = viewerDocument.archive;
+    const capture = [...documentCaptures, ...sourceCaptures].find(c => c.id === captureId);
+    if (capture) {
+      handleViewArchive(viewerDocument, capture);
+    }
+  };
+
+  const formatCaptureLabel = (capture: WarcCapture) =>
+    `${new Date(capture.captured_at).toLocaleString('fr-FR')}${capture.record_type === 'resource' ? ' (rendu JavaScript)' : ''}${capture.truncated ? ' - tronquée' : ''}`;
+
   // Fonction pour sauvegarder le PDF localement (optionnel)
   const savePdfLocally = async (filename: string, blob: Blob) => {
     try {
@@ -577,6 +646,13 @@ const DocumentsModal: React.FC<DocumentsModalProps> = ({
                               >
                                 <Eye className="h-4 w-4" />
                               </button>
+                              <button
+                                onClick={() => handleViewArchive(document)}
+                                className="text-amber-600 hover:text-amber-800 hover:bg-amber-50 p-2 rounded-lg transition-colors"
+                                title="Voir la copie archivée (WARC)"
+                              >
+                                <Archive className="h-4 w-4" />
+                              </button>
                             </div>
                           </td>
                         </tr>
@@ -617,9 +693,53 @@ const DocumentsModal: React.FC<DocumentsModalProps> = ({
                 <div>
                   <h3 className="text-lg font-medium text-gray-900">Visualisation du Document</h3>
                   <p className="text-sm text-gray-600 truncate max-w-md">{viewerDocument.document_name}</p>
+                  {viewerDocument.cachedAt && (
+                    <p className="text-xs text-gray-500">
+                      Copie en cache du {new Date(viewerDocument.cachedAt).toLocaleString('fr-FR')}
+                    </p>
+                  )}
+                  {viewerDocument.archive && (
+                    <p className="text-xs text-amber-700 truncate max-w-md" title={viewerDocument.archive.capture.target_uri}>
+                      Copie archivée (WARC) du {new Date(viewerDocument.archive.capture.captured_at).toLocaleString('fr-FR')}
+                      {viewerDocument.archive.capture.http_status !== null && ` • HTTP ${viewerDocument.archive.capture.http_status}`}
+                      {viewerDocument.archive.capture.payload_sha256 && ` • SHA-256 ${viewerDocument.archive.capture.payload_sha256.slice(0, 12)}…`}
+                      {viewerDocument.archive.capture.truncated && ' • contenu tronqué'}
+                    </p>
+                  )}
                 </div>
               </div>
               <div className="flex items-center space-x-2">
+                {viewerDocument.archive ? (
+                  <select
+                    value={viewerDocument.archive.capture.id}
+                    onChange={(e) => handleSelectCapture(e.target.value)}
+                    className="text-sm px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    title="Captures archivées"
+                  >
+                    {viewerDocument.archive.documentCaptures.length > 0 && (
+                      <optgroup label="Document">
+                        {viewerDocument.archive.documentCaptures.map(capture => (
+                          <option key={capture.id} value={capture.id}>{formatCaptureLabel(capture)}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                    {viewerDocument.archive.sourceCaptures.length > 0 && (
+                      <optgroup label="Page source">
+                        {viewerDocument.archive.sourceCaptures.map(capture => (
+                          <option key={capture.id} value={capture.id}>{formatCaptureLabel(capture)}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
+                ) : (
+                  <button
+                    onClick={() => handleViewArchive(viewerDocument)}
+                    className="text-amber-600 hover:text-amber-800 hover:bg-amber-50 p-2 rounded-lg transition-colors"
+                    title="Voir la copie archivée (WARC)"
+                  >
+                    <Archive className="h-5 w-5" />
+                  </button>
+                )}
                 <button
                   onClick={() => window.open(viewerDocument.url_doc, '_blank')}
                   className="text-gray-600 hover:text-gray-800 hover:bg-gray-100 p-2 rounded-lg transition-colors"
@@ -643,19 +763,40 @@ const DocumentsModal: React.FC<DocumentsModalProps> = ({
                     <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
                     <h3 className="text-lg font-medium text-gray-900 mb-2">Erreur de visualisation</h3>
                     <p className="text-gray-600 mb-4">{viewerError}</p>
-                    <button
-                      onClick={() => window.open(viewerDocument.url_doc, '_blank')}
-                      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 mx-auto transition-colors"
-                    >
-                      <ExternalLink className="h-4 w-4" />
-                      <span>Ouvrir dans un nouvel onglet</span>
-                    </button>
+                    <div className="flex items-center justify-center space-x-3">
+                      <button
+                        onClick={() => window.open(viewerDocument.url_doc, '_blank')}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                        <span>Ouvrir dans un nouvel onglet</span>
+                      </button>
+                      {!viewerDocument.archive && (
+                        <button
+                          onClick={() => handleViewArchive(viewerDocument)}
+                          className="bg-amber-600 hover:bg-amber-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
+                        >
+                          <Archive className="h-4 w-4" />
+                          <span>Voir la copie archivée</span>
+                        </button>
+                      )}
+                    </div>
                   </div>
                 </div>
+              ) : viewerDocument.rangeUrl ? (
+                <div className="w-full h-full bg-gray-100">
+                  <PdfViewer
+                    url={viewerDocument.rangeUrl}
+                    httpHeaders={viewerDocument.rangeHeaders}
+                    onError={(message) => setViewerError(`Impossible de charger le document: ${message}`)}
+                  />
+                </div>
               ) : (
                 <div className="w-full h-full bg-gray-100">
                   <iframe
                     src={viewerDocument.blobUrl || viewerDocument.url_doc}
+                    // Page archivée : scripts et formulaires désactivés, origine isolée de l'application
+                    sandbox={viewerDocument.archive?.isHtml ? '' : undefined}
                     className="w-full h-full border-0"
                     title={viewerDocument.document_name}
                     onError={() => setViewerError('Impossible de charger le document')}
@@ -844,6 +985,13 @@ const DocumentsModal: React.FC<DocumentsModalProps> = ({
                     <Eye className="h-4 w-4" />
                     <span>Visualiser le document</span>
                   </button>
+                  <button
+                    onClick={() => handleViewArchive(selectedDocument)}
+                    className="bg-amber-600 hover:bg-amber-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
+                  >
+                    <Archive className="h-4 w-4" />
+                    <span>Copie archivée</span>
+                  </button>
                 </div>
                 <button
                   onClick={handleCloseDetails}
@@ -0,0 +1,99 @@
+import React from 'react';
+import { CheckCircle, XCircle, Square, Loader2, RotateCcw, X } from 'lucide-react';
+import { JOB_STATUS_LABELS } from '../services/harvestJobService';
+import type { BatchSiteResult, HarvestBatchSummary } from '../hooks/useHarvestBatch';
+
+interface HarvestBatchProgressProps {
+  results: BatchSiteResult[];
+  summary: HarvestBatchSummary;
+  sourceNames: Record<string, string>;
+  error: string | null;
+  onClose: () => void;
+}
+
+const getStatusIcon = (status: BatchSiteResult['status']) => {
+  switch (status) {
+    case 'done':
+      return <CheckCircle className="h-4 w-4 text-green-500" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-500" />;
+    case 'cancelled':
+      return <Square className="h-4 w-4 text-gray-400" />;
+    default:
+      return <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />;
+  }
+};
+
+// Progression d'un moissonnage multiple : les sites terminés s'affichent au fil de l'eau, puis le bilan
+const HarvestBatchProgress: React.FC<HarvestBatchProgressProps> = ({ results, summary, sourceNames, error, onClose }) => {
+  // Terminés dans l'ordre de fin, puis ceux encore en file ou en cours
+  const ordered = [...results].sort((a, b) => {
+    if (a.finishedAt && b.finishedAt) return a.finishedAt.localeCompare(b.finishedAt);
+    if (a.finishedAt) return -1;
+    if (b.finishedAt) return 1;
+    return 0;
+  });
+  const progress = summary.total > 0 ? Math.round((summary.finished / summary.total) * 100) : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="flex items-center justify-between p-4 border-b border-gray-100">
+        <div>
+          <h3 className="text-md font-medium text-gray-900">
+            {summary.complete ? 'Moissonnage multiple terminé' : 'Moissonnage multiple en cours'}
+          </h3>
+          <p className="text-sm text-gray-600">
+            {summary.finished}/{summary.total} site(s) terminé(s) · {summary.succeeded} réussi(s) · {summary.failed} échec(s)
+            {summary.cancelled > 0 && ` · ${summary.cancelled} annulé(s)`}
+            {` · ${summary.retries} nouvelle(s) tentative(s)`}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          title={summary.complete ? 'Fermer le bilan' : 'Masquer le suivi (les jobs continuent)'}
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="px-4 pt-3">
+        <div className="w-full bg-gray-100 rounded-full h-2">
+          <div
+            className={`h-2 rounded-full transition-all ${summary.failed > 0 ? 'bg-orange-500' : 'bg-green-500'}`}
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <p className="px-4 pt-2 text-xs text-red-600">{error}</p>
+      )}
+
+      <ul className="p-4 space-y-1 max-h-72 overflow-y-auto text-sm">
+        {ordered.map(result => (
+          <li key={result.jobId} className="flex items-center justify-between py-1">
+            <div className="flex items-center space-x-2 min-w-0">
+              {getStatusIcon(result.status)}
+              <span className="text-gray-900 truncate">{sourceNames[result.dataSourceId] || result.dataSourceId}</span>
+              {result.status === 'failed' && result.error && (
+                <span className="text-xs text-red-600 truncate" title={result.error}>{result.error}</span>
+              )}
+            </div>
+            <div className="flex items-center space-x-3 text-xs text-gray-500 flex-shrink-0 ml-4">
+              {result.retries > 0 && (
+                <span className="flex items-center space-x-1" title="Nouvelles tentatives">
+                  <RotateCcw className="h-3 w-3" />
+                  <span>{result.retries}</span>
+                </span>
+              )}
+              <span>{JOB_STATUS_LABELS[result.status]}</span>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HarvestBatchProgress;
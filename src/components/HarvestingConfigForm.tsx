@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save, Settings, Calendar, FileText, Globe2 } from 'lucide-react';
+import { LLM_PROVIDER_LABELS, type LLMProviderKind } from '../services/llmProviderService';
 import type { Database } from '../lib/database.types';
 
 type DataSource = Database['public']['Tables']['data_sources']['Row'];
@@ -39,7 +40,9 @@ const HarvestingConfigForm: React.FC<HarvestingConfigFormProps> = ({
       maxSize: ''
     },
     maxPages: 10,
-    delayBetweenRequests: 1000
+    delayBetweenRequests: 1000,
+    llmProvider: '',
+    llmModel: ''
   });
   const [loading, setLoading] = useState(false);
 
@@ -69,7 +72,9 @@ const HarvestingConfigForm: React.FC<HarvestingConfigFormProps> = ({
           maxSize: filters.maxSize || ''
         },
         maxPages: config.max_pages || 10,
-        delayBetweenRequests: config.delay_between_requests || 1000
+        delayBetweenRequests: config.delay_between_requests || 1000,
+        llmProvider: config.llm_provider || '',
+        llmModel: config.llm_model || ''
       });
     }
   }, [config]);
@@ -90,7 +95,9 @@ const HarvestingConfigForm: React.FC<HarvestingConfigFormProps> = ({
         },
         filters: formData.filters,
         max_pages: formData.maxPages,
-        delay_between_requests: formData.delayBetweenRequests
+        delay_between_requests: formData.delayBetweenRequests,
+        llm_provider: formData.llmProvider || null,
+        llm_model: formData.llmProvider && formData.llmModel.trim() ? formData.llmModel.trim() : null
       };
 
       await onSubmit(configData);
@@ -425,6 +432,37 @@ const HarvestingConfigForm: React.FC<HarvestingConfigFormProps> = ({
                   />
                 </div>
               </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Fournisseur LLM
+                  </label>
+                  <select
+                    value={formData.llmProvider}
+                    onChange={(e) => setFormData(prev => ({ ...prev, llmProvider: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Par défaut (configuration de l'application)</option>
+                    {(Object.keys(LLM_PROVIDER_LABELS) as LLMProviderKind[]).map(kind => (
+                      <option key={kind} value={kind}>{LLM_PROVIDER_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Modèle
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.llmModel}
+                    onChange={(e) => setFormData(prev => ({ ...prev, llmModel: e.target.value }))}
+                    disabled={!formData.llmProvider || formData.llmProvider === 'fixture'}
+                    placeholder="Modèle par défaut du fournisseur"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                  />
+                </div>
+              </div>
             </div>
           </div>
 
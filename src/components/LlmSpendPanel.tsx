@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { DollarSign, Settings, AlertTriangle } from 'lucide-react';
+import { LLMUsageService, type LLMBudget, type LLMMonthlySpend } from '../services/llmUsageService';
+import { DataSourceService } from '../services/dataSourceService';
+
+const MONTHS_SHOWN = 6;
+
+interface SpendRow {
+  dataSourceId: string | null;
+  name: string;
+  byMonth: Record<string, number>;
+}
+
+function monthKeys(): string[] {
+  const now = new Date();
+  return Array.from({ length: MONTHS_SHOWN }, (_, index) => {
+    const month = new Date(now.getFullYear(), now.getMonth() - index, 1);
+    return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`;
+  });
+}
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+const LlmSpendPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [spend, setSpend] = useState<LLMMonthlySpend[]>([]);
+  const [budgets, setBudgets] = useState<LLMBudget[]>([]);
+  const [sourceNames, setSourceNames] = useState<Record<string, string>>({});
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const months = monthKeys();
+  const currentMonth = months[0];
+
+  const loadSpend = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const [spendRows, budgetRows, sources] = await Promise.all([
+        LLMUsageService.getMonthlySpend(MONTHS_SHOWN),
+        LLMUsageService.getBudgets(),
+        DataSourceService.getAllDataSources()
+      ]);
+      setSpend(spendRows);
+      setBudgets(budgetRows);
+      setSourceNames(Object.fromEntries(sources.map(source => [source.id, source.name])));
+      setDrafts({});
+    } catch (err) {
+      console.error('❌ Erreur chargement des dépenses LLM:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors du chargement');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSpend();
+  }, [loadSpend]);
+
+  const budgetKey = (dataSourceId: string | null) => dataSourceId ?? 'global';
+  const budgetFor = (dataSourceId: string | null) => budgets.find(budget => budget.data_source_id === dataSourceId);
+
+  // Une ligne par source ayant consommé ou disposant d'un budget
+  const rows: SpendRow[] = [];
+  const rowFor = (dataSourceId: string | null) => {
+    let row = rows.find(candidate => candidate.dataSourceId === dataSourceId);
+    if (!row) {
+      row = {
+        dataSourceId,
+        name: dataSourceId ? sourceNames[dataSourceId] || 'Source supprimée' : 'Hors source (analyses manuelles)',
+        byMonth: {}
+      };
+      rows.push(row);
+    }
+    return row;
+  };
+  spend.forEach(entry => {
+    const row = rowFor(entry.data_source_id);
+    const key = entry.month.slice(0, 7);
+    row.byMonth[key] = (row.byMonth[key] || 0) + Number(entry.cost);
+  });
+  budgets.filter(budget => budget.data_source_id).forEach(budget => rowFor(budget.data_source_id));
+  rows.sort((a, b) => (b.byMonth[currentMonth] || 0) - (a.byMonth[currentMonth] || 0));
+
+  const totalByMonth = (month: string) => rows.reduce((total, row) => total + (row.byMonth[month] || 0), 0);
+  const globalBudget = budgetFor(null);
+  const globalExceeded = !!globalBudget && totalByMonth(currentMonth) >= Number(globalBudget.monthly_limit);
+
+  const saveBudget = async (dataSourceId: string | null) => {
+    const draft = drafts[budgetKey(dataSourceId)];
+    if (draft === undefined) return;
+
+    try {
+      const existing = budgetFor(dataSourceId);
+      if (draft.trim() === '') {
+        if (existing) await LLMUsageService.deleteBudget(existing.id);
+      } else {
+        const limit = Number(draft.replace(',', '.'));
+        if (!Number.isFinite(limit) || limit < 0) {
+          setError('Budget invalide : montant positif en USD attendu');
+          return;
+        }
+        await LLMUsageService.setBudget(dataSourceId, limit);
+      }
+      await loadSpend();
+    } catch (err) {
+      console.error('❌ Erreur enregistrement du budget LLM:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors de l\'enregistrement');
+    }
+  };
+
+  const renderBudgetInput = (dataSourceId: string | null) => {
+    const key = budgetKey(dataSourceId);
+    const budget = budgetFor(dataSourceId);
+    return (
+      <input
+        type="text"
+        inputMode="decimal"
+        placeholder="Aucun"
+        value={drafts[key] ?? (budget ? String(budget.monthly_limit) : '')}
+        onChange={(e) => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+        onBlur={() => saveBudget(dataSourceId)}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className="w-24 px-2 py-1 border border-gray-300 rounded text-xs text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border mb-6">
+      <div
+        className="flex items-center justify-between p-4 cursor-pointer hover:bg-gray-50 transition-colors"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center space-x-3">
+          {globalExceeded
+            ? <AlertTriangle className="h-5 w-5 text-red-500" />
+            : <DollarSign className="h-5 w-5 text-green-600" />}
+          <div>
+            <h3 className="text-md font-medium text-gray-900">Dépenses LLM</h3>
+            <p className="text-sm text-gray-600">
+              {loading
+                ? 'Chargement...'
+                : `Mois en cours : ${formatCost(totalByMonth(currentMonth))}${globalBudget ? ` / ${formatCost(Number(globalBudget.monthly_limit))}` : ''}${globalExceeded ? ' — budget dépassé, nouveaux moissonnages LLM bloqués' : ''}`}
+            </p>
+          </div>
+        </div>
+        <Settings className={`h-4 w-4 text-gray-500 transform transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </div>
+
+      {isExpanded && (
+        <div className="border-t border-gray-100 p-4 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700">{error}</div>
+          )}
+
+          <div className="flex items-center justify-between bg-gray-50 rounded-lg p-3 text-xs">
+            <span className="text-gray-600">Budget mensuel global (USD, toutes sources)</span>
+            {renderBudgetInput(null)}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-xs">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Site</th>
+                  {months.map(month => (
+                    <th key={month} className="px-3 py-2 text-right font-medium text-gray-500 uppercase tracking-wider">
+                      {new Date(`${month}-01T00:00:00`).toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' })}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase tracking-wider">Budget mensuel</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={months.length + 2} className="px-3 py-6 text-center text-gray-500">
+                      Aucune consommation LLM enregistrée.
+                    </td>
+                  </tr>
+                ) : rows.map(row => {
+                  const budget = budgetFor(row.dataSourceId);
+                  const exceeded = !!budget && (row.byMonth[currentMonth] || 0) >= Number(budget.monthly_limit);
+                  return (
+                    <tr key={budgetKey(row.dataSourceId)} className={exceeded ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                      <td className="px-3 py-2 text-gray-900">{row.name}</td>
+                      {months.map(month => (
+                        <td key={month} className="px-3 py-2 text-right text-gray-700">
+                          {row.byMonth[month] ? formatCost(row.byMonth[month]) : '—'}
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 text-right">
+                        {row.dataSourceId ? renderBudgetInput(row.dataSourceId) : null}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              {rows.length > 0 && (
+                <tfoot className="bg-gray-50 font-medium">
+                  <tr>
+                    <td className="px-3 py-2 text-gray-900">Total</td>
+                    {months.map(month => (
+                      <td key={month} className="px-3 py-2 text-right text-gray-900">{formatCost(totalByMonth(month))}</td>
+                    ))}
+                    <td />
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Coûts estimés à partir des tarifs OpenAI ; les fournisseurs local et fixtures sont comptés à 0. Une source ou le total
+            au-delà de son budget ne peut plus lancer de moissonnage LLM jusqu'au mois suivant.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LlmSpendPanel;
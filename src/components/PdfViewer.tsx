@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorker from 'pdfjs-dist/build/pdf.worker.mjs?url';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorker;
+
+// Taille des plages demandées au proxy : seules les pages affichées sont téléchargées
+const RANGE_CHUNK_SIZE = 256 * 1024;
+
+interface PdfViewerProps {
+  url: string;
+  httpHeaders?: Record<string, string>;
+  onError?: (message: string) => void;
+}
+
+// Lecteur PDF par plages d'octets (Range) : le document n'est jamais téléchargé en entier d'avance
+const PdfViewer: React.FC<PdfViewerProps> = ({ url, httpHeaders, onError }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [pdfDocument, setPdfDocument] = useState<pdfjsLib.PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [rendering, setRendering] = useState(true);
+  // En-têtes et rappel recréés à chaque rendu du parent : seule l'URL relance le chargement
+  const optionsRef = useRef({ httpHeaders, onError });
+  optionsRef.current = { httpHeaders, onError };
+
+  useEffect(() => {
+    const loadingTask = pdfjsLib.getDocument({
+      url,
+      httpHeaders: optionsRef.current.httpHeaders,
+      rangeChunkSize: RANGE_CHUNK_SIZE,
+      disableAutoFetch: true,
+      disableStream: true
+    });
+
+    loadingTask.promise
+      .then(loaded => {
+        console.log('📄 PDF ouvert par plages:', loaded.numPages, 'pages');
+        setPdfDocument(loaded);
+        setPageNumber(1);
+      })
+      .catch(error => {
+        console.error('❌ Erreur ouverture PDF:', error);
+        optionsRef.current.onError?.(error instanceof Error ? error.message : 'Impossible d\'ouvrir le PDF');
+      });
+
+    return () => {
+      loadingTask.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!pdfDocument || !canvasRef.current) return;
+
+    let cancelled = false;
+    let renderTask: ReturnType<pdfjsLib.PDFPageProxy['render']> | null = null;
+    setRendering(true);
+
+    pdfDocument.getPage(pageNumber).then(page => {
+      if (cancelled || !canvasRef.current) return;
+
+      const canvas = canvasRef.current;
+      const width = containerRef.current?.clientWidth || 800;
+      const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+
+      renderTask = page.render({ canvas, viewport });
+      return renderTask.promise;
+    })
+      .catch(error => {
+        if (!cancelled) console.error('❌ Erreur rendu page PDF:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdfDocument, pageNumber]);
+
+  const numPages = pdfDocument?.numPages ?? 0;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-center space-x-4 py-2 border-b border-gray-200 bg-white">
+        <button
+          onClick={() => setPageNumber(page => Math.max(1, page - 1))}
+          disabled={pageNumber <= 1}
+          className="p-1 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+          title="Page précédente"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <span className="text-sm text-gray-700">
+          {numPages > 0 ? `Page ${pageNumber} / ${numPages}` : 'Chargement...'}
+        </span>
+        <button
+          onClick={() => setPageNumber(page => Math.min(numPages, page + 1))}
+          disabled={pageNumber >= numPages}
+          className="p-1 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+          title="Page suivante"
+        >
+          <ChevronRight className="h-5 w-5" />
+        </button>
+        {rendering && <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />}
+      </div>
+      <div ref={containerRef} className="flex-1 overflow-auto p-4">
+        <canvas ref={canvasRef} className="mx-auto shadow" />
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
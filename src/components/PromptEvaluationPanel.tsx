@@ -0,0 +1,371 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FlaskConical, Settings, Download, Mic, Play, Save } from 'lucide-react';
+import { PromptEvaluationService } from '../services/promptEvaluationService';
+import { PromptTemplateService, type PromptTemplate } from '../services/promptTemplateService';
+import { DataSourceService } from '../services/dataSourceService';
+import {
+  EVALUATED_FIELDS,
+  variantKey,
+  type DocumentScore,
+  type EvaluationBundle,
+  type GoldenDocument,
+  type VariantResult
+} from '../lib/promptEvaluation';
+import type { Database } from '../lib/database.types';
+
+type DataSource = Database['public']['Tables']['data_sources']['Row'];
+
+interface VariantSelection {
+  systemId: string;
+  userId: string;
+}
+
+function percent(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+const ScoreCells: React.FC<{ score: DocumentScore | null }> = ({ score }) => (
+  <>
+    <td className="px-2 py-1 text-right">{score ? percent(score.precision) : '—'}</td>
+    <td className="px-2 py-1 text-right">{score ? percent(score.recall) : '—'}</td>
+    <td className="px-2 py-1 text-right">{score ? percent(score.f1) : '—'}</td>
+    {EVALUATED_FIELDS.map(field => (
+      <td key={field} className="px-2 py-1 text-right">{score ? percent(score.fieldAccuracy[field]) : '—'}</td>
+    ))}
+  </>
+);
+
+const PromptEvaluationPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [sources, setSources] = useState<DataSource[]>([]);
+  const [systemVersions, setSystemVersions] = useState<PromptTemplate[]>([]);
+  const [userVersions, setUserVersions] = useState<PromptTemplate[]>([]);
+  const [goldenSourceId, setGoldenSourceId] = useState('');
+  const [goldenText, setGoldenText] = useState('[]');
+  const [goldenSourceIds, setGoldenSourceIds] = useState<string[]>([]);
+  const [variantA, setVariantA] = useState<VariantSelection>({ systemId: '', userId: '' });
+  const [variantB, setVariantB] = useState<VariantSelection>({ systemId: '', userId: '' });
+  const [results, setResults] = useState<{ a: VariantResult; b: VariantResult } | null>(null);
+  const [busy, setBusy] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const loadData = useCallback(async () => {
+    setError('');
+    try {
+      const [sourceRows, systemRows, userRows, goldens] = await Promise.all([
+        DataSourceService.getAllDataSources(),
+        PromptTemplateService.getVersions('harvest_system'),
+        PromptTemplateService.getVersions('harvest_user'),
+        PromptEvaluationService.getGoldens()
+      ]);
+      setSources(sourceRows);
+      setSystemVersions(systemRows);
+      setUserVersions(userRows);
+      setGoldenSourceIds(goldens.map(golden => golden.data_source_id));
+
+      // Par défaut : versions actives en A, plus récentes en B
+      const activeSystem = systemRows.find(version => version.is_active)?.id ?? '';
+      const activeUser = userRows.find(version => version.is_active)?.id ?? '';
+      setVariantA(prev => prev.systemId ? prev : { systemId: activeSystem, userId: activeUser });
+      setVariantB(prev => prev.systemId ? prev : { systemId: systemRows[0]?.id ?? '', userId: userRows[0]?.id ?? '' });
+    } catch (err) {
+      console.error('❌ Erreur chargement de l\'évaluation:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors du chargement');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isExpanded) {
+      loadData();
+    }
+  }, [isExpanded, loadData]);
+
+  useEffect(() => {
+    if (!goldenSourceId) return;
+    PromptEvaluationService.getGoldens()
+      .then(goldens => {
+        const golden = goldens.find(candidate => candidate.data_source_id === goldenSourceId);
+        setGoldenText(JSON.stringify(golden?.documents ?? [], null, 2));
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Erreur lors du chargement de la référence'));
+  }, [goldenSourceId]);
+
+  const resolveVariant = (selection: VariantSelection) => {
+    const system = systemVersions.find(version => version.id === selection.systemId);
+    const user = userVersions.find(version => version.id === selection.userId);
+    return system && user ? { system, user } : null;
+  };
+
+  const keyOf = (selection: VariantSelection) => {
+    const variant = resolveVariant(selection);
+    return variant ? variantKey(variant.system.version, variant.user.version) : null;
+  };
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError('');
+    setMessage('');
+    try {
+      await action();
+    } catch (err) {
+      console.error(`❌ Erreur ${label}:`, err);
+      setError(err instanceof Error ? err.message : 'Erreur inconnue');
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const handleDraftGolden = () => run('pré-remplissage', async () => {
+    const documents = await PromptEvaluationService.draftGoldenFromLatestResult(goldenSourceId);
+    setGoldenText(JSON.stringify(documents, null, 2));
+    setMessage(`${documents.length} document(s) repris du dernier résultat : relisez-les avant d'enregistrer`);
+  });
+
+  const handleSaveGolden = () => run('enregistrement de la référence', async () => {
+    let documents: GoldenDocument[];
+    try {
+      documents = JSON.parse(goldenText);
+    } catch {
+      throw new Error('JSON invalide : un tableau de documents { url_doc, date_edition, langue, type_document } est attendu');
+    }
+    if (!Array.isArray(documents)) {
+      throw new Error('La référence doit être un tableau de documents');
+    }
+    await PromptEvaluationService.saveGolden(goldenSourceId, documents);
+    setMessage(`Référence enregistrée (${documents.length} document(s))`);
+    await loadData();
+  });
+
+  // Appels LLM réels, uniquement pour les sources sans réponse enregistrée pour A ou B
+  const handleRecordMissing = () => run('enregistrement des réponses', async () => {
+    const bundle = await PromptEvaluationService.buildBundle();
+    let recorded = 0;
+
+    for (const selection of [variantA, variantB]) {
+      const variant = resolveVariant(selection);
+      if (!variant) continue;
+      const key = PromptEvaluationService.variantKeyOf(variant);
+
+      for (const evaluationCase of bundle.cases) {
+        if (evaluationCase.responses[key] !== undefined) continue;
+        const dataSource = sources.find(source => source.id === evaluationCase.dataSourceId);
+        if (!dataSource) continue;
+
+        setBusy(`enregistrement ${evaluationCase.dataSourceName} (${key})`);
+        await PromptEvaluationService.recordVariant(dataSource, variant);
+        evaluationCase.responses[key] = '';
+        recorded++;
+      }
+    }
+
+    setMessage(recorded === 0 ? 'Toutes les réponses sont déjà enregistrées' : `${recorded} réponse(s) enregistrée(s)`);
+  });
+
+  const handleCompare = () => run('comparaison', async () => {
+    const keyA = keyOf(variantA);
+    const keyB = keyOf(variantB);
+    if (!keyA || !keyB) {
+      throw new Error('Sélectionnez les versions des deux variantes');
+    }
+    setResults(PromptEvaluationService.compare(await PromptEvaluationService.buildBundle(), keyA, keyB));
+  });
+
+  const handleExport = () => run('export', async () => {
+    const bundle: EvaluationBundle = await PromptEvaluationService.buildBundle();
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = `prompt-eval_${new Date().toISOString().slice(0, 10)}.json`;
+    window.document.body.appendChild(a);
+    a.click();
+    window.document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  });
+
+  const renderVariantSelect = (label: string, selection: VariantSelection, onChange: (selection: VariantSelection) => void) => (
+    <div className="flex items-center space-x-2 text-xs">
+      <span className="font-medium text-gray-700 w-6">{label}</span>
+      <select
+        value={selection.systemId}
+        onChange={(e) => onChange({ ...selection, systemId: e.target.value })}
+        className="px-2 py-1 border border-gray-300 rounded"
+      >
+        {systemVersions.map(version => (
+          <option key={version.id} value={version.id}>système v{version.version}{version.is_active ? ' (active)' : ''}</option>
+        ))}
+      </select>
+      <select
+        value={selection.userId}
+        onChange={(e) => onChange({ ...selection, userId: e.target.value })}
+        className="px-2 py-1 border border-gray-300 rounded"
+      >
+        {userVersions.map(version => (
+          <option key={version.id} value={version.id}>site v{version.version}{version.is_active ? ' (active)' : ''}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border mb-6">
+      <div
+        className="flex items-center justify-between p-4 cursor-pointer hover:bg-gray-50 transition-colors"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center space-x-3">
+          <FlaskConical className="h-5 w-5 text-purple-600" />
+          <div>
+            <h3 className="text-md font-medium text-gray-900">Évaluation des prompts</h3>
+            <p className="text-sm text-gray-600">Comparer deux versions de prompts sur des listes de documents de référence</p>
+          </div>
+        </div>
+        <Settings className={`h-4 w-4 text-gray-500 transform transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </div>
+
+      {isExpanded && (
+        <div className="border-t border-gray-100 p-4 space-y-4">
+          {error && <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700">{error}</div>}
+          {message && <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-xs text-green-700">{message}</div>}
+          {busy && (
+            <div className="flex items-center space-x-2 text-xs text-gray-600">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-purple-600"></div>
+              <span>En cours : {busy}...</span>
+            </div>
+          )}
+
+          {/* Références */}
+          <div className="bg-gray-50 rounded-lg p-3 space-y-2">
+            <h4 className="text-sm font-medium text-gray-900">Documents de référence ({goldenSourceIds.length} source(s))</h4>
+            <select
+              value={goldenSourceId}
+              onChange={(e) => setGoldenSourceId(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-xs"
+            >
+              <option value="">Choisir une source...</option>
+              {sources.map(source => (
+                <option key={source.id} value={source.id}>
+                  {source.name}{goldenSourceIds.includes(source.id) ? ' ✓' : ''}
+                </option>
+              ))}
+            </select>
+            {goldenSourceId && (
+              <>
+                <textarea
+                  value={goldenText}
+                  onChange={(e) => setGoldenText(e.target.value)}
+                  rows={8}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+                <div className="flex space-x-2">
+                  <button
+                    onClick={handleDraftGolden}
+                    disabled={!!busy}
+                    className="px-3 py-1 text-xs rounded-lg border border-gray-300 hover:bg-white transition-colors"
+                  >
+                    Pré-remplir depuis le dernier résultat
+                  </button>
+                  <button
+                    onClick={handleSaveGolden}
+                    disabled={!!busy}
+                    className="px-3 py-1 text-xs rounded-lg bg-purple-600 hover:bg-purple-700 text-white flex items-center space-x-1 transition-colors"
+                  >
+                    <Save className="h-3 w-3" />
+                    <span>Enregistrer la référence</span>
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Variantes */}
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-900">Variantes</h4>
+            {renderVariantSelect('A', variantA, setVariantA)}
+            {renderVariantSelect('B', variantB, setVariantB)}
+            <div className="flex flex-wrap gap-2 pt-1">
+              <button
+                onClick={handleRecordMissing}
+                disabled={!!busy}
+                className="px-3 py-1 text-xs rounded-lg border border-gray-300 hover:bg-gray-50 flex items-center space-x-1 transition-colors"
+                title="Appelle le LLM pour les sources de référence sans réponse enregistrée"
+              >
+                <Mic className="h-3 w-3" />
+                <span>Enregistrer les réponses manquantes</span>
+              </button>
+              <button
+                onClick={handleCompare}
+                disabled={!!busy}
+                className="px-3 py-1 text-xs rounded-lg bg-purple-600 hover:bg-purple-700 text-white flex items-center space-x-1 transition-colors"
+              >
+                <Play className="h-3 w-3" />
+                <span>Comparer (hors ligne)</span>
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={!!busy}
+                className="px-3 py-1 text-xs rounded-lg border border-gray-300 hover:bg-gray-50 flex items-center space-x-1 transition-colors"
+                title="Jeu rejouable en CI : npm run eval:prompts -- <fichier> <A> <B>"
+              >
+                <Download className="h-3 w-3" />
+                <span>Exporter le jeu (CI)</span>
+              </button>
+            </div>
+          </div>
+
+          {results && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium text-gray-500">Source</th>
+                    <th className="px-2 py-1 text-left font-medium text-gray-500">Variante</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">Précision</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">Rappel</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">F1</th>
+                    {EVALUATED_FIELDS.map(field => (
+                      <th key={field} className="px-2 py-1 text-right font-medium text-gray-500">{field}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {results.a.cases.map((caseA, index) => {
+                    const caseB = results.b.cases[index];
+                    return (
+                      <React.Fragment key={caseA.dataSourceId}>
+                        <tr>
+                          <td rowSpan={2} className="px-2 py-1 text-gray-900 align-top">{caseA.dataSourceName}</td>
+                          <td className="px-2 py-1 text-gray-600" title={caseA.error}>A{caseA.error ? ' ⚠️' : ''}</td>
+                          <ScoreCells score={caseA.score} />
+                        </tr>
+                        <tr>
+                          <td className="px-2 py-1 text-gray-600" title={caseB.error}>B{caseB.error ? ' ⚠️' : ''}</td>
+                          <ScoreCells score={caseB.score} />
+                        </tr>
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+                <tfoot className="bg-gray-50 font-medium">
+                  <tr>
+                    <td rowSpan={2} className="px-2 py-1 text-gray-900 align-top">Total</td>
+                    <td className="px-2 py-1" title={results.a.variant}>A</td>
+                    <ScoreCells score={results.a.total} />
+                  </tr>
+                  <tr>
+                    <td className="px-2 py-1" title={results.b.variant}>B</td>
+                    <ScoreCells score={results.b.total} />
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptEvaluationPanel;
@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FileText, Settings, RotateCcw, GitCompare, Save } from 'lucide-react';
+import {
+  PromptTemplateService,
+  PROMPT_TEMPLATE_LABELS,
+  PROMPT_TEMPLATE_VARIABLES,
+  type PromptTemplate,
+  type PromptTemplateName
+} from '../services/promptTemplateService';
+import { diffLines } from '../lib/textDiff';
+
+const DIFF_STYLES = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through'
+};
+
+const DIFF_PREFIXES = { same: ' ', added: '+', removed: '-' };
+
+const PromptTemplatesPanel: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [templateName, setTemplateName] = useState<PromptTemplateName>('harvest_system');
+  const [versions, setVersions] = useState<PromptTemplate[]>([]);
+  const [draft, setDraft] = useState('');
+  const [description, setDescription] = useState('');
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const activeVersion = versions.find(version => version.is_active) ?? null;
+  const compared = versions.find(version => version.id === compareId) ?? null;
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const rows = await PromptTemplateService.getVersions(templateName);
+      setVersions(rows);
+      setDraft(rows.find(version => version.is_active)?.content ?? '');
+      setDescription('');
+      setCompareId(null);
+    } catch (err) {
+      console.error('❌ Erreur chargement des templates:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors du chargement');
+    } finally {
+      setLoading(false);
+    }
+  }, [templateName]);
+
+  useEffect(() => {
+    if (isExpanded) {
+      loadVersions();
+    }
+  }, [isExpanded, loadVersions]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await PromptTemplateService.createVersion(templateName, draft, description.trim() || undefined);
+      await loadVersions();
+    } catch (err) {
+      console.error('❌ Erreur enregistrement du template:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors de l\'enregistrement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRollback = async (version: PromptTemplate) => {
+    setError('');
+    try {
+      await PromptTemplateService.activate(version.id);
+      await loadVersions();
+    } catch (err) {
+      console.error('❌ Erreur restauration du template:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors de la restauration');
+    }
+  };
+
+  const draftChanged = !!activeVersion && draft !== activeVersion.content;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border mb-6">
+      <div
+        className="flex items-center justify-between p-4 cursor-pointer hover:bg-gray-50 transition-colors"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center space-x-3">
+          <FileText className="h-5 w-5 text-indigo-600" />
+          <div>
+            <h3 className="text-md font-medium text-gray-900">Templates de prompts</h3>
+            <p className="text-sm text-gray-600">Versions des prompts système et site utilisés par le moissonnage IA</p>
+          </div>
+        </div>
+        <Settings className={`h-4 w-4 text-gray-500 transform transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </div>
+
+      {isExpanded && (
+        <div className="border-t border-gray-100 p-4 space-y-4">
+          <div className="flex bg-gray-100 rounded-lg p-1 w-fit">
+            {(Object.keys(PROMPT_TEMPLATE_LABELS) as PromptTemplateName[]).map(name => (
+              <button
+                key={name}
+                onClick={() => setTemplateName(name)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  templateName === name ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {PROMPT_TEMPLATE_LABELS[name]}
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-700">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center space-x-3 text-sm text-gray-600">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-600"></div>
+              <span>Chargement des versions...</span>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-900">Versions</h4>
+                {versions.length === 0 ? (
+                  <p className="text-xs text-gray-500">Aucune version enregistrée.</p>
+                ) : versions.map(version => (
+                  <div
+                    key={version.id}
+                    className={`rounded-lg border p-2 text-xs ${compareId === version.id ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">
+                        v{version.version}
+                        {version.is_active && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full bg-green-100 text-green-800">Active</span>
+                        )}
+                      </span>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => setCompareId(compareId === version.id ? null : version.id)}
+                          className="text-indigo-600 hover:text-indigo-800"
+                          title="Comparer avec le texte en cours d'édition"
+                        >
+                          <GitCompare className="h-4 w-4" />
+                        </button>
+                        {!version.is_active && (
+                          <button
+                            onClick={() => handleRollback(version)}
+                            className="text-orange-600 hover:text-orange-800"
+                            title="Restaurer cette version"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="text-gray-500 mt-1">{new Date(version.created_at).toLocaleString('fr-FR')}</div>
+                    {version.description && <div className="text-gray-600 mt-1">{version.description}</div>}
+                  </div>
+                ))}
+              </div>
+
+              <div className="lg:col-span-2 space-y-3">
+                {compared ? (
+                  <>
+                    <h4 className="text-sm font-medium text-gray-900">
+                      Différences v{compared.version} → {draftChanged ? 'texte édité' : `v${activeVersion?.version ?? '?'} (active)`}
+                    </h4>
+                    <pre className="bg-gray-50 rounded-lg p-3 text-xs font-mono overflow-auto max-h-96 whitespace-pre-wrap">
+                      {diffLines(compared.content, draft).map((line, index) => (
+                        <div key={index} className={DIFF_STYLES[line.type]}>
+                          {DIFF_PREFIXES[line.type]} {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  </>
+                ) : (
+                  <>
+                    <h4 className="text-sm font-medium text-gray-900">Nouvelle version</h4>
+                    <textarea
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      rows={14}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    />
+                    <div className="flex items-center space-x-3">
+                      <input
+                        type="text"
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        placeholder="Description de la modification"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                      />
+                      <button
+                        onClick={handleSave}
+                        disabled={saving || !draftChanged || !draft.trim()}
+                        className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 text-white px-4 py-2 rounded-lg text-sm flex items-center space-x-2 transition-colors"
+                      >
+                        <Save className="h-4 w-4" />
+                        <span>{saving ? 'Enregistrement...' : 'Enregistrer et activer'}</span>
+                      </button>
+                    </div>
+                  </>
+                )}
+
+                <details className="text-xs text-gray-600">
+                  <summary className="cursor-pointer font-medium">Variables disponibles</summary>
+                  <p className="mt-2">
+                    {'{{variable}}'} est remplacée par sa valeur ; {'{{#variable}}...{{/variable}}'} n'est conservé que si la variable est renseignée.
+                  </p>
+                  <ul className="mt-2 space-y-1">
+                    {Object.entries(PROMPT_TEMPLATE_VARIABLES).map(([name, label]) => (
+                      <li key={name}>
+                        <code className="bg-gray-100 px-1 rounded">{`{{${name}}}`}</code> — {label}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplatesPanel;
@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { KeyRound, Trash2, PlugZap, Plus, X } from 'lucide-react';
+import {
+  SourceCredentialService,
+  AUTH_TYPE_LABELS,
+  type AuthType,
+  type CredentialStatus,
+  type SourceCredentialsInput
+} from '../services/sourceCredentialService';
+
+interface SourceCredentialsPanelProps {
+  dataSourceId: string;
+}
+
+interface HeaderRow {
+  name: string;
+  value: string;
+}
+
+const EMPTY_DRAFT = {
+  username: '',
+  password: '',
+  token: '',
+  headerName: '',
+  prefix: '',
+  loginUrl: '',
+  usernameField: '',
+  passwordField: '',
+  headers: [{ name: '', value: '' }] as HeaderRow[]
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Identifiants d'une source authentifiée : saisie en écriture seule, seul le statut est relu
+const SourceCredentialsPanel: React.FC<SourceCredentialsPanelProps> = ({ dataSourceId }) => {
+  const [status, setStatus] = useState<CredentialStatus | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [authType, setAuthType] = useState<AuthType>('basic');
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [testMessage, setTestMessage] = useState('');
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await SourceCredentialService.getStatus(dataSourceId));
+    } catch (err) {
+      console.error('❌ Erreur chargement des identifiants:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors du chargement');
+    }
+  }, [dataSourceId]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const buildCredentials = (): SourceCredentialsInput => {
+    switch (authType) {
+      case 'basic':
+        return { type: 'basic', username: draft.username, password: draft.password };
+      case 'bearer':
+        return {
+          type: 'bearer',
+          token: draft.token,
+          header_name: draft.headerName || undefined,
+          prefix: draft.prefix || undefined
+        };
+      case 'headers':
+        return {
+          type: 'headers',
+          headers: Object.fromEntries(
+            draft.headers.filter(row => row.name.trim()).map(row => [row.name.trim(), row.value])
+          )
+        };
+      case 'form_login':
+        return {
+          type: 'form_login',
+          login_url: draft.loginUrl,
+          username: draft.username,
+          password: draft.password,
+          username_field: draft.usernameField || undefined,
+          password_field: draft.passwordField || undefined
+        };
+    }
+  };
+
+  const handleSave = async () => {
+    setBusy(true);
+    setError('');
+    setTestMessage('');
+    try {
+      setStatus(await SourceCredentialService.save(dataSourceId, buildCredentials()));
+      setDraft(EMPTY_DRAFT);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur lors de l\'enregistrement');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setBusy(true);
+    setError('');
+    setTestMessage('');
+    try {
+      await SourceCredentialService.remove(dataSourceId);
+      setStatus(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur lors de la suppression');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setBusy(true);
+    setError('');
+    setTestMessage('');
+    try {
+      const result = await SourceCredentialService.test(dataSourceId);
+      setStatus(result.status);
+      setTestMessage(result.test.ok
+        ? `✅ Accès autorisé (HTTP ${result.test.http_status})`
+        : `❌ Accès refusé${result.test.http_status ? ` (HTTP ${result.test.http_status})` : ''}${result.test.error ? ` : ${result.test.error}` : ''}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur lors du test');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateHeader = (index: number, field: keyof HeaderRow, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      headers: prev.headers.map((row, rowIndex) => rowIndex === index ? { ...row, [field]: value } : row)
+    }));
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-200">
+      <div className="flex items-center space-x-2 mb-3">
+        <KeyRound className="h-5 w-5 text-amber-600" />
+        <h4 className="text-md font-medium text-gray-900">Authentification</h4>
+      </div>
+
+      {status ? (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm space-y-1">
+          <p className="text-gray-900">
+            {AUTH_TYPE_LABELS[status.auth_type as AuthType] || status.auth_type}
+            <span className="text-gray-500"> · mis à jour le {new Date(status.updated_at).toLocaleString('fr-FR')}</span>
+          </p>
+          {status.login_url && (
+            <p className="text-xs text-gray-600">Page de connexion : {status.login_url}</p>
+          )}
+          {status.auth_type === 'form_login' && (
+            <p className="text-xs text-gray-600">
+              {status.has_session ? 'Session active' : 'Aucune session active'}
+              {status.last_login_at && ` · dernière connexion le ${new Date(status.last_login_at).toLocaleString('fr-FR')}`}
+            </p>
+          )}
+          {status.last_login_error && (
+            <p className="text-xs text-red-600">Dernière connexion en échec : {status.last_login_error}</p>
+          )}
+          <div className="flex space-x-3 pt-2">
+            <button type="button" onClick={handleTest} disabled={busy} className="text-xs text-blue-700 hover:text-blue-900 flex items-center space-x-1 disabled:opacity-50">
+              <PlugZap className="h-3 w-3" />
+              <span>Tester</span>
+            </button>
+            <button type="button" onClick={() => setEditing(true)} disabled={busy} className="text-xs text-gray-700 hover:text-gray-900 disabled:opacity-50">
+              Remplacer
+            </button>
+            <button type="button" onClick={handleRemove} disabled={busy} className="text-xs text-red-600 hover:text-red-800 flex items-center space-x-1 disabled:opacity-50">
+              <Trash2 className="h-3 w-3" />
+              <span>Supprimer</span>
+            </button>
+          </div>
+        </div>
+      ) : !editing && (
+        <button type="button" onClick={() => setEditing(true)} className="text-sm text-blue-700 hover:text-blue-900 flex items-center space-x-1">
+          <Plus className="h-4 w-4" />
+          <span>Ajouter des identifiants</span>
+        </button>
+      )}
+
+      {editing && (
+        <div className="mt-3 space-y-3">
+          <select
+            value={authType}
+            onChange={(e) => setAuthType(e.target.value as AuthType)}
+            className={inputClassName}
+          >
+            {(Object.keys(AUTH_TYPE_LABELS) as AuthType[]).map(type => (
+              <option key={type} value={type}>{AUTH_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+
+          {authType === 'form_login' && (
+            <input type="url" value={draft.loginUrl} onChange={(e) => setDraft(prev => ({ ...prev, loginUrl: e.target.value }))} placeholder="URL de la page de connexion" className={inputClassName} />
+          )}
+
+          {(authType === 'basic' || authType === 'form_login') && (
+            <div className="grid grid-cols-2 gap-3">
+              <input type="text" autoComplete="off" value={draft.username} onChange={(e) => setDraft(prev => ({ ...prev, username: e.target.value }))} placeholder="Identifiant" className={inputClassName} />
+              <input type="password" autoComplete="new-password" value={draft.password} onChange={(e) => setDraft(prev => ({ ...prev, password: e.target.value }))} placeholder="Mot de passe" className={inputClassName} />
+            </div>
+          )}
+
+          {authType === 'form_login' && (
+            <div className="grid grid-cols-2 gap-3">
+              <input type="text" value={draft.usernameField} onChange={(e) => setDraft(prev => ({ ...prev, usernameField: e.target.value }))} placeholder="Champ identifiant (auto)" className={inputClassName} />
+              <input type="text" value={draft.passwordField} onChange={(e) => setDraft(prev => ({ ...prev, passwordField: e.target.value }))} placeholder="Champ mot de passe (auto)" className={inputClassName} />
+            </div>
+          )}
+
+          {authType === 'bearer' && (
+            <>
+              <input type="password" autoComplete="new-password" value={draft.token} onChange={(e) => setDraft(prev => ({ ...prev, token: e.target.value }))} placeholder="Jeton" className={inputClassName} />
+              <div className="grid grid-cols-2 gap-3">
+                <input type="text" value={draft.headerName} onChange={(e) => setDraft(prev => ({ ...prev, headerName: e.target.value }))} placeholder="En-tête (Authorization)" className={inputClassName} />
+                <input type="text" value={draft.prefix} onChange={(e) => setDraft(prev => ({ ...prev, prefix: e.target.value }))} placeholder="Préfixe (Bearer )" className={inputClassName} />
+              </div>
+            </>
+          )}
+
+          {authType === 'headers' && (
+            <div className="space-y-2">
+              {draft.headers.map((row, index) => (
+                <div key={index} className="grid grid-cols-2 gap-3">
+                  <input type="text" value={row.name} onChange={(e) => updateHeader(index, 'name', e.target.value)} placeholder="X-Api-Key" className={inputClassName} />
+                  <input type="password" autoComplete="new-password" value={row.value} onChange={(e) => updateHeader(index, 'value', e.target.value)} placeholder="Valeur" className={inputClassName} />
+                </div>
+              ))}
+              <button type="button" onClick={() => setDraft(prev => ({ ...prev, headers: [...prev.headers, { name: '', value: '' }] }))} className="text-xs text-blue-700 hover:text-blue-900">
+                + Ajouter un en-tête
+              </button>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={() => { setEditing(false); setDraft(EMPTY_DRAFT); }} className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center space-x-1">
+              <X className="h-3 w-3" />
+              <span>Annuler</span>
+            </button>
+            <button type="button" onClick={handleSave} disabled={busy} className="px-3 py-1 text-sm bg-blue-800 hover:bg-blue-900 disabled:bg-blue-400 text-white rounded-lg">
+              Enregistrer les identifiants
+            </button>
+          </div>
+        </div>
+      )}
+
+      {testMessage && <p className="text-xs text-gray-700 mt-2">{testMessage}</p>}
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+      <p className="text-xs text-gray-500 mt-2">
+        Les identifiants sont chiffrés côté serveur et ne sont plus jamais affichés ; ils ne sont envoyés qu'au site de la source (crawler et proxy de documents).
+      </p>
+    </div>
+  );
+};
+
+export default SourceCredentialsPanel;
@@ -1,5 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { CheckCircle, XCircle, AlertTriangle, Settings } from 'lucide-react';
+import { LLMProviderService, type LLMGatewayStatus } from '../services/llmProviderService';
+import { PromptTemplateService } from '../services/promptTemplateService';
+import { HarvestJobService } from '../services/harvestJobService';
+
+const CIRCUIT_STATE_LABELS: Record<NonNullable<LLMGatewayStatus['circuit']>['state'], string> = {
+  closed: 'Fermé',
+  open: 'Ouvert',
+  half_open: 'Essai en cours'
+};
 
 interface HealthStatus {
   supabase: {
@@ -9,8 +18,11 @@ interface HealthStatus {
   };
   openai: {
     configured: boolean;
-    apiKey: boolean;
-    promptId: boolean;
+    gateway: boolean;
+    systemPromptVersion: number | null;
+    quota: LLMGatewayStatus['quota'] | null;
+    circuit: LLMGatewayStatus['circuit'];
+    pausedJobs: number;
   };
   overall: 'healthy' | 'warning' | 'error';
 }
@@ -23,16 +35,38 @@ const SystemHealthCheck: React.FC = () => {
     checkSystemHealth();
   }, []);
 
-  const checkSystemHealth = () => {
+  const checkSystemHealth = async () => {
     console.log('🔍 Vérification de la santé du système...');
     
     // Vérification Supabase (existant)
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
     const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
     
-    // Vérification OpenAI (nouveau)
-    const openaiKey = import.meta.env.VITE_OPENAI_API_KEY;
-    const openaiPromptId = import.meta.env.VITE_OPENAI_PROMPT_ID;
+    // Vérification OpenAI : la clé est un secret de llm-gateway, interrogée via l'opération status
+    // Prompt système : version active du template harvest_system
+    let gatewayStatus: LLMGatewayStatus | null = null;
+    let systemPromptVersion: number | null = null;
+    let pausedJobs = 0;
+    if (supabaseUrl && supabaseKey) {
+      try {
+        gatewayStatus = await LLMProviderService.getGatewayStatus();
+      } catch (error) {
+        console.error('❌ Passerelle LLM injoignable:', error);
+      }
+      try {
+        systemPromptVersion = (await PromptTemplateService.getActive('harvest_system')).version;
+      } catch (error) {
+        console.error('❌ Template de prompt système indisponible:', error);
+      }
+      // Disjoncteur LLM : jobs en file suspendus après des erreurs répétées du fournisseur
+      if (gatewayStatus?.circuit && gatewayStatus.circuit.state !== 'closed') {
+        try {
+          pausedJobs = await HarvestJobService.countCircuitPausedJobs();
+        } catch (error) {
+          console.error('❌ Jobs en pause illisibles:', error);
+        }
+      }
+    }
     
     const supabaseStatus = {
       configured: !!(supabaseUrl && supabaseKey),
@@ -41,16 +75,20 @@ const SystemHealthCheck: React.FC = () => {
     };
     
     const openaiStatus = {
-      configured: !!(openaiKey && openaiPromptId),
-      apiKey: !!openaiKey,
-      promptId: !!openaiPromptId
+      configured: !!(gatewayStatus?.configured && systemPromptVersion),
+      gateway: !!gatewayStatus?.configured,
+      systemPromptVersion,
+      quota: gatewayStatus?.quota ?? null,
+      circuit: gatewayStatus?.circuit ?? null,
+      pausedJobs
     };
+    const circuitOpen = !!openaiStatus.circuit && openaiStatus.circuit.state !== 'closed';
     
     let overall: 'healthy' | 'warning' | 'error' = 'healthy';
     
     if (!supabaseStatus.configured) {
       overall = 'error';
-    } else if (!openaiStatus.configured) {
+    } else if (!openaiStatus.configured || circuitOpen) {
       overall = 'warning';
     }
     
@@ -154,13 +192,49 @@ const SystemHealthCheck: React.FC = () => {
             </div>
             <div className="space-y-1 text-xs">
               <div className="flex items-center justify-between">
-                <span className="text-gray-600">Clé API configurée</span>
-                {getStatusIcon(healthStatus.openai.apiKey)}
+                <span className="text-gray-600">Clé API configurée (llm-gateway)</span>
+                {getStatusIcon(healthStatus.openai.gateway)}
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-gray-600">ID Prompt configuré</span>
-                {getStatusIcon(healthStatus.openai.promptId)}
+                <span className="text-gray-600">
+                  Prompt système actif{healthStatus.openai.systemPromptVersion ? ` (v${healthStatus.openai.systemPromptVersion})` : ''}
+                </span>
+                {getStatusIcon(!!healthStatus.openai.systemPromptVersion)}
               </div>
+              {healthStatus.openai.quota && (
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-600">Quota du jour</span>
+                  <span className="text-gray-700">
+                    {healthStatus.openai.quota.request_count}/{healthStatus.openai.quota.request_limit ?? '∞'} requêtes · {healthStatus.openai.quota.token_count.toLocaleString('fr-FR')}/{healthStatus.openai.quota.token_limit?.toLocaleString('fr-FR') ?? '∞'} tokens
+                  </span>
+                </div>
+              )}
+              {healthStatus.openai.circuit && (
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-600">Disjoncteur LLM</span>
+                  <span className={healthStatus.openai.circuit.state === 'closed' ? 'text-gray-700' : 'text-orange-600 font-medium'}>
+                    {CIRCUIT_STATE_LABELS[healthStatus.openai.circuit.state]}
+                    {healthStatus.openai.circuit.state !== 'closed' && healthStatus.openai.circuit.retry_at && (
+                      <> · essai à {new Date(healthStatus.openai.circuit.retry_at).toLocaleTimeString('fr-FR')}</>
+                    )}
+                  </span>
+                </div>
+              )}
+              {healthStatus.openai.circuit && healthStatus.openai.circuit.state !== 'closed' && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">Dernière erreur</span>
+                    <span className="text-gray-700 truncate ml-4" title={healthStatus.openai.circuit.last_error ?? undefined}>
+                      {healthStatus.openai.circuit.last_status ?? '—'}
+                      {healthStatus.openai.circuit.last_error ? ` · ${healthStatus.openai.circuit.last_error}` : ''}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">Jobs en pause</span>
+                    <span className="text-gray-700">{healthStatus.openai.pausedJobs}</span>
+                  </div>
+                </>
+              )}
             </div>
           </div>
 
@@ -173,7 +247,10 @@ const SystemHealthCheck: React.FC = () => {
                   <li>• Cliquez sur "Connect to Supabase" en haut à droite</li>
                 )}
                 {!healthStatus.openai.configured && (
-                  <li>• Ajoutez les variables OpenAI dans votre fichier .env</li>
+                  <li>• Définissez le secret OPENAI_API_KEY de la fonction edge llm-gateway et activez une version du template harvest_system</li>
+                )}
+                {healthStatus.openai.circuit && healthStatus.openai.circuit.state !== 'closed' && (
+                  <li>• Disjoncteur LLM ouvert après des erreurs 401/429/5xx répétées : les jobs en file reprendront après un appel d'essai réussi</li>
                 )}
               </ul>
             </div>
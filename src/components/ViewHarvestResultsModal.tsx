@@ -1,7 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { X, Eye, Download, FileText, AlertTriangle, CheckCircle, Clock } from 'lucide-react';
+import { X, Eye, Download, FileText, AlertTriangle, CheckCircle, Clock, History, Archive } from 'lucide-react';
 import { HarvestResultService } from '../services/harvestResultService';
+import {
+  HarvestRunService,
+  RUN_STATUS_LABELS,
+  RUN_TRIGGER_LABELS,
+  type HarvestRun,
+  type RunStatus,
+  type RunTrigger
+} from '../services/harvestRunService';
 import { HarvestDataImporter } from '../services/harvestDataImporter';
+import { WarcArchiveService, type WarcFile } from '../services/warcArchiveService';
 import type { Database } from '../lib/database.types';
 
 type HarvestResult = Database['public']['Tables']['harvest_results']['Row'];
@@ -35,6 +44,9 @@ const ViewHarvestResultsModal: React.FC<ViewHarvestResultsModalProps> = ({
   onImportData
 }) => {
   const [harvestResult, setHarvestResult] = useState<HarvestResult | null>(null);
+  const [runs, setRuns] = useState<HarvestRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [warcFiles, setWarcFiles] = useState<WarcFile[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [jsonView, setJsonView] = useState<'formatted' | 'raw'>('formatted');
@@ -54,11 +66,48 @@ const ViewHarvestResultsModal: React.FC<ViewHarvestResultsModalProps> = ({
     setError('');
     
     try {
-      console.log('🔍 Chargement du dernier résultat pour:', websiteId);
-      const result = await HarvestResultService.getLatestResultByDataSource(websiteId);
+      console.log('🔍 Chargement des exécutions pour:', websiteId);
+      const runList = await HarvestRunService.getRunsByDataSource(websiteId);
+      setRuns(runList);
+      setSelectedRunId(runList[0]?.id ?? null);
+      
+      // Sans exécution enregistrée (résultats antérieurs aux harvest_runs), afficher le dernier résultat
+      await loadResult(runList[0]?.id ?? null);
+    } catch (err) {
+      console.error('❌ Erreur chargement exécutions:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors du chargement');
+      setHarvestResult(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelectRun = async (runId: string) => {
+    setSelectedRunId(runId);
+    setImportResult(null);
+    setLoading(true);
+    setError('');
+    
+    try {
+      await loadResult(runId);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadResult = async (runId: string | null) => {
+    try {
+      // Fichiers WARC de l'exécution (capture activée sur la source)
+      setWarcFiles(runId ? await WarcArchiveService.getRunFiles(runId) : []);
+
+      const result = runId
+        ? await HarvestResultService.getResultByRun(runId)
+        : await HarvestResultService.getLatestResultByDataSource(websiteId);
       
       if (!result) {
-        setError('Aucun résultat de moissonnage trouvé pour ce site.');
+        setError(runId
+          ? 'Aucun résultat enregistré pour cette exécution.'
+          : 'Aucun résultat de moissonnage trouvé pour ce site.');
         setHarvestResult(null);
       } else {
         console.log('✅ Résultat chargé:', result.id);
@@ -72,11 +121,24 @@ const ViewHarvestResultsModal: React.FC<ViewHarvestResultsModalProps> = ({
       console.error('❌ Erreur chargement résultat:', err);
       setError(err instanceof Error ? err.message : 'Erreur lors du chargement');
       setHarvestResult(null);
-    } finally {
-      setLoading(false);
     }
   };
 
+  const selectedRun = runs.find(run => run.id === selectedRunId) ?? null;
+
+  const formatRunLabel = (run: HarvestRun) => {
+    const date = new Date(run.started_at);
+    const status = RUN_STATUS_LABELS[run.status as RunStatus] ?? run.status;
+    const trigger = RUN_TRIGGER_LABELS[run.trigger as RunTrigger] ?? run.trigger;
+    return `${date.toLocaleDateString('fr-FR')} ${date.toLocaleTimeString('fr-FR')} · ${trigger} · ${status} · ${run.documents_found} doc(s)`;
+  };
+
+  const formatRunDuration = (run: HarvestRun) => {
+    if (!run.finished_at) return '—';
+    const seconds = Math.round((new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}min ${seconds % 60}s`;
+  };
+
   const handleDownloadJson = () => {
     if (!harvestResult) return;
     
@@ -188,6 +250,108 @@ const ViewHarvestResultsModal: React.FC<ViewHarvestResultsModalProps> = ({
         </div>
 
         <div className="flex-1 overflow-y-auto max-h-[calc(90vh-200px)]">
+          {/* Historique des exécutions */}
+          {runs.length > 0 && (
+            <div className="px-6 pt-6 space-y-4">
+              <div className="flex items-center space-x-3">
+                <History className="h-5 w-5 text-gray-600" />
+                <label htmlFor="harvest-run" className="text-sm font-medium text-gray-700">Exécution :</label>
+                <select
+                  id="harvest-run"
+                  value={selectedRunId ?? ''}
+                  onChange={(e) => handleSelectRun(e.target.value)}
+                  disabled={loading || importing}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                >
+                  {runs.map(run => (
+                    <option key={run.id} value={run.id}>{formatRunLabel(run)}</option>
+                  ))}
+                </select>
+              </div>
+
+              {selectedRun && (
+                <div className="bg-indigo-50 rounded-lg p-4">
+                  <div className="grid grid-cols-2 lg:grid-cols-6 gap-4 text-sm">
+                    <div>
+                      <span className="text-gray-600">Déclenchement :</span>
+                      <div className="font-medium mt-1">
+                        {RUN_TRIGGER_LABELS[selectedRun.trigger as RunTrigger] ?? selectedRun.trigger}
+                      </div>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Moteur :</span>
+                      <div className="font-medium mt-1">{selectedRun.engine}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Durée :</span>
+                      <div className="font-medium mt-1">{formatRunDuration(selectedRun)}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Pages récupérées :</span>
+                      <div className="font-medium mt-1">{selectedRun.pages_fetched}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Coût LLM :</span>
+                      <div className="font-medium mt-1">${Number(selectedRun.llm_cost).toFixed(4)}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Documents :</span>
+                      <div className="font-medium mt-1">{selectedRun.documents_found}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Nouveaux :</span>
+                      <div className="font-medium mt-1 text-green-600">{selectedRun.documents_new}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Modifiés :</span>
+                      <div className="font-medium mt-1 text-blue-600">{selectedRun.documents_changed}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Inchangés :</span>
+                      <div className="font-medium mt-1">{selectedRun.documents_unchanged}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Disparus :</span>
+                      <div className="font-medium mt-1 text-orange-600">{selectedRun.documents_removed}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Erreurs :</span>
+                      <div className={`font-medium mt-1 ${selectedRun.error_count > 0 ? 'text-red-600' : ''}`}>
+                        {selectedRun.error_count}
+                      </div>
+                    </div>
+                  </div>
+
+                  {selectedRun.error_message && (
+                    <p className="text-red-700 text-sm mt-3">{selectedRun.error_message}</p>
+                  )}
+
+                  {warcFiles.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-gray-200">
+                      <div className="flex items-center space-x-2 text-sm text-gray-600 mb-2">
+                        <Archive className="h-4 w-4" />
+                        <span>Capture WARC : {warcFiles.reduce((sum, file) => sum + file.record_count, 0)} enregistrement(s)</span>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {warcFiles.map(file => (
+                          <button
+                            key={file.id}
+                            onClick={() => WarcArchiveService.downloadFile(file).catch(err => setError(err instanceof Error ? err.message : 'Erreur de téléchargement'))}
+                            className="text-xs bg-white border border-gray-300 hover:bg-gray-100 px-2 py-1 rounded flex items-center space-x-1 transition-colors"
+                            title={`SHA-256 ${file.sha256}`}
+                          >
+                            <Download className="h-3 w-3" />
+                            <span>{file.storage_path.split('/').pop()} ({Math.round(file.size / 1024)} Ko)</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {loading ? (
             <div className="flex items-center justify-center py-12">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
@@ -198,9 +362,11 @@ const ViewHarvestResultsModal: React.FC<ViewHarvestResultsModalProps> = ({
               <AlertTriangle className="h-12 w-12 text-orange-300 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">Aucun résultat disponible</h3>
               <p className="text-gray-500 mb-4">{error}</p>
-              <p className="text-sm text-gray-400">
-                Lancez d'abord un moissonnage pour ce site pour voir les résultats.
-              </p>
+              {runs.length === 0 && (
+                <p className="text-sm text-gray-400">
+                  Lancez d'abord un moissonnage pour ce site pour voir les résultats.
+                </p>
+              )}
             </div>
           ) : harvestResult ? (
             <div className="p-6 space-y-6">
@@ -384,6 +550,9 @@ const ViewHarvestResultsModal: React.FC<ViewHarvestResultsModalProps> = ({
                     <div>
                       <span className="text-gray-600">Documents importés:</span>
                       <span className="ml-2 font-medium text-green-600">{importResult.documentsImported || 0}</span>
+                      {importResult.documentsSkipped > 0 && (
+                        <span className="ml-2 text-gray-500">({importResult.documentsSkipped} inchangé(s) ignoré(s))</span>
+                      )}
                     </div>
                     <div>
                       <span className="text-gray-600">Logs importés:</span>
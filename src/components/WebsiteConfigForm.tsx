@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save, Settings, Calendar, FileText, Globe2 } from 'lucide-react';
 import { DatabaseConstraintService } from '../services/databaseConstraintService';
+import { HARVEST_MODES } from '../services/harvestingService';
+import SourceCredentialsPanel from './SourceCredentialsPanel';
 import type { Database } from '../lib/database.types';
 
 type DataSource = Database['public']['Tables']['data_sources']['Row'];
@@ -26,6 +28,7 @@ export default function WebsiteConfigForm({
     status: 'active',
     description: '',
     specialInstructions: '',
+    warcCapture: false,
     frequency: 'daily',
     documentFormats: ['pdf', 'docx'],
     languages: ['FR'],
@@ -37,7 +40,20 @@ export default function WebsiteConfigForm({
       titleSelector: '',
       contentSelector: '',
       dateSelector: '',
-      linkSelector: ''
+      linkSelector: '',
+      waitForSelector: '',
+      loadMoreSelector: '',
+      paginationSelector: ''
+    },
+    renderJs: false,
+    pagination: {
+      strategy: '',
+      nextSelector: '',
+      urlTemplate: '',
+      startPage: '1',
+      pageStep: '1',
+      archiveTemplate: '',
+      stopOnNoNewLinks: true
     },
     filters: {
       keywords: '',
@@ -67,7 +83,8 @@ export default function WebsiteConfigForm({
         status: website.status,
         description: website.description,
         specialInstructions: website.special_instructions || '',
-        generatedPrompt: website.generated_prompt || ''
+        generatedPrompt: website.generated_prompt || '',
+        warcCapture: website.warc_capture ?? false
       }));
     }
     
@@ -75,6 +92,15 @@ export default function WebsiteConfigForm({
     if (config) {
       const selectors = config.selectors as any || {};
       const filters = config.filters as any || {};
+      const pagination = (config.pagination || {}) as {
+        strategy?: string;
+        nextSelector?: string;
+        urlTemplate?: string;
+        startPage?: number;
+        pageStep?: number;
+        archiveTemplate?: string;
+        stopOnNoNewLinks?: boolean;
+      };
       
       setFormData(prev => ({
         ...prev,
@@ -89,7 +115,20 @@ export default function WebsiteConfigForm({
           titleSelector: selectors.titleSelector || '',
           contentSelector: selectors.contentSelector || '',
           dateSelector: selectors.dateSelector || '',
-          linkSelector: selectors.linkSelector || ''
+          linkSelector: selectors.linkSelector || '',
+          waitForSelector: selectors.waitForSelector || '',
+          loadMoreSelector: selectors.loadMoreSelector || '',
+          paginationSelector: selectors.paginationSelector || ''
+        },
+        renderJs: config.render_js ?? false,
+        pagination: {
+          strategy: pagination.strategy || '',
+          nextSelector: pagination.nextSelector || '',
+          urlTemplate: pagination.urlTemplate || '',
+          startPage: String(pagination.startPage ?? 1),
+          pageStep: String(pagination.pageStep ?? 1),
+          archiveTemplate: pagination.archiveTemplate || '',
+          stopOnNoNewLinks: pagination.stopOnNoNewLinks !== false
         },
         filters: {
           keywords: filters.keywords || '',
@@ -248,10 +287,40 @@ export default function WebsiteConfigForm({
       }
     }
 
+    const { pagination } = formData;
+    if (formData.type === 'crawler') {
+      if (pagination.strategy === 'next_link' && !pagination.nextSelector.trim()) {
+        newErrors.pagination = 'Le sélecteur « page suivante » est requis';
+      } else if (pagination.strategy === 'url_template' && !pagination.urlTemplate.includes('{page}')) {
+        newErrors.pagination = 'Le modèle d\'URL doit contenir {page}';
+      } else if (pagination.strategy === 'date_archive' && !pagination.archiveTemplate.includes('{year}')) {
+        newErrors.pagination = 'Le modèle d\'archive doit contenir {year}';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  // Règles de pagination enregistrées : seuls les champs de la stratégie choisie
+  const buildPagination = () => {
+    const { pagination } = formData;
+    const rules: Record<string, unknown> = {
+      strategy: pagination.strategy,
+      stopOnNoNewLinks: pagination.stopOnNoNewLinks
+    };
+    if (pagination.strategy === 'next_link') {
+      rules.nextSelector = pagination.nextSelector.trim();
+    } else if (pagination.strategy === 'url_template') {
+      rules.urlTemplate = pagination.urlTemplate.trim();
+      rules.startPage = parseInt(pagination.startPage) || 1;
+      rules.pageStep = parseInt(pagination.pageStep) || 1;
+    } else if (pagination.strategy === 'date_archive') {
+      rules.archiveTemplate = pagination.archiveTemplate.trim();
+    }
+    return rules;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -269,7 +338,8 @@ export default function WebsiteConfigForm({
         status: formData.status,
         description: formData.description,
         special_instructions: formData.specialInstructions,
-        generated_prompt: generatedPrompt
+        generated_prompt: generatedPrompt,
+        warc_capture: formData.warcCapture
       };
 
       const configData = {
@@ -281,6 +351,8 @@ export default function WebsiteConfigForm({
           dateRange: formData.dateRange
         },
         filters: formData.filters,
+        render_js: formData.type === 'crawler' && formData.renderJs,
+        pagination: formData.type === 'crawler' && formData.pagination.strategy ? buildPagination() : null,
         max_pages: formData.maxPages ? parseInt(formData.maxPages.toString()) : null,
         delay_between_requests: formData.delayBetweenRequests ? parseInt(formData.delayBetweenRequests.toString()) : null
       };
@@ -399,6 +471,47 @@ export default function WebsiteConfigForm({
                 {errors.url && <p className="text-red-500 text-xs mt-1">{errors.url}</p>}
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Mode de moissonnage
+                </label>
+                <select
+                  value={formData.type}
+                  onChange={(e) => handleChange('type', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {HARVEST_MODES.map(mode => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                  ))}
+                </select>
+                {formData.type === 'crawler' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Le crawler parcourt le site côté serveur en appliquant les sélecteurs CSS, la limite de pages et le délai entre requêtes.
+                  </p>
+                )}
+                {formData.type === 'sitemap' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Les documents sont listés depuis sitemap.xml ou les flux RSS/Atom du site, filtrés par formats et par période (lastmod / pubDate). L'URL peut pointer directement vers un sitemap ou un flux.
+                  </p>
+                )}
+                {(formData.type === 'crawler' || formData.type === 'sitemap') && (
+                  <div className="mt-3">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.warcCapture}
+                        onChange={(e) => setFormData(prev => ({ ...prev, warcCapture: e.target.checked }))}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-gray-700">Archiver les réponses au format WARC</span>
+                    </label>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Traçabilité : chaque page de liste, sitemap ou flux et chaque fichier de document obtenu pendant une exécution est enregistré (en-têtes et horodatage) dans des fichiers WARC rattachés à l'exécution, consultables depuis la liste des documents.
+                    </p>
+                  </div>
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Statut
@@ -605,6 +718,185 @@ export default function WebsiteConfigForm({
                   />
                 </div>
               </div>
+
+              {formData.type === 'crawler' && (
+                <div className="space-y-3 pt-2">
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={formData.renderJs}
+                      onChange={(e) => setFormData(prev => ({ ...prev, renderJs: e.target.checked }))}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-sm text-gray-700">Rendu JavaScript (navigateur headless)</span>
+                  </label>
+                  <p className="text-xs text-gray-500">
+                    Pour les sites dont la liste de documents est construite en JavaScript : les pages sont chargées par le worker de rendu (Chromium) avant l'extraction des liens.
+                  </p>
+
+                  {formData.renderJs && (
+                    <div className="grid grid-cols-1 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Élément à attendre
+                        </label>
+                        <input
+                          type="text"
+                          value={formData.selectors.waitForSelector}
+                          onChange={(e) => setFormData(prev => ({
+                            ...prev,
+                            selectors: { ...prev.selectors, waitForSelector: e.target.value }
+                          }))}
+                          placeholder=".document-list, #results"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Bouton « charger plus »
+                        </label>
+                        <input
+                          type="text"
+                          value={formData.selectors.loadMoreSelector}
+                          onChange={(e) => setFormData(prev => ({
+                            ...prev,
+                            selectors: { ...prev.selectors, loadMoreSelector: e.target.value }
+                          }))}
+                          placeholder="button.load-more"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Page suivante
+                        </label>
+                        <input
+                          type="text"
+                          value={formData.selectors.paginationSelector}
+                          onChange={(e) => setFormData(prev => ({
+                            ...prev,
+                            selectors: { ...prev.selectors, paginationSelector: e.target.value }
+                          }))}
+                          placeholder=".pagination .next, a[rel='next']"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {formData.type === 'crawler' && (
+                <div className="space-y-3 pt-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Pagination des pages de liste
+                    </label>
+                    <select
+                      value={formData.pagination.strategy}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        pagination: { ...prev.pagination, strategy: e.target.value }
+                      }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Aucune (crawl des liens du site)</option>
+                      <option value="next_link">Lien « page suivante »</option>
+                      <option value="url_template">URL numérotée ({'{page}'})</option>
+                      <option value="date_archive">Archives par date ({'{year}'} / {'{month}'})</option>
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Parcours déterministe des archives, arrêté par la limite de pages, une page sans nouveau document ou des documents antérieurs au début de la période.
+                    </p>
+                  </div>
+
+                  {formData.pagination.strategy === 'next_link' && (
+                    <input
+                      type="text"
+                      value={formData.pagination.nextSelector}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        pagination: { ...prev.pagination, nextSelector: e.target.value }
+                      }))}
+                      placeholder="a[rel='next'], .pagination .next"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  )}
+
+                  {formData.pagination.strategy === 'url_template' && (
+                    <div className="space-y-3">
+                      <input
+                        type="text"
+                        value={formData.pagination.urlTemplate}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          pagination: { ...prev.pagination, urlTemplate: e.target.value }
+                        }))}
+                        placeholder="https://exemple.org/publications?page={page}"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Première page</label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={formData.pagination.startPage}
+                            onChange={(e) => setFormData(prev => ({
+                              ...prev,
+                              pagination: { ...prev.pagination, startPage: e.target.value }
+                            }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Pas</label>
+                          <input
+                            type="number"
+                            min="1"
+                            value={formData.pagination.pageStep}
+                            onChange={(e) => setFormData(prev => ({
+                              ...prev,
+                              pagination: { ...prev.pagination, pageStep: e.target.value }
+                            }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {formData.pagination.strategy === 'date_archive' && (
+                    <input
+                      type="text"
+                      value={formData.pagination.archiveTemplate}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        pagination: { ...prev.pagination, archiveTemplate: e.target.value }
+                      }))}
+                      placeholder="https://exemple.org/archives/{year}/{month}/"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  )}
+
+                  {formData.pagination.strategy && formData.pagination.strategy !== 'date_archive' && (
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.pagination.stopOnNoNewLinks}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          pagination: { ...prev.pagination, stopOnNoNewLinks: e.target.checked }
+                        }))}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-gray-700">Arrêter sur une page sans nouveau document</span>
+                    </label>
+                  )}
+
+                  {errors.pagination && <p className="text-red-500 text-xs mt-1">{errors.pagination}</p>}
+                </div>
+              )}
             </div>
 
             {/* Filtres et limites */}
@@ -737,6 +1029,9 @@ export default function WebsiteConfigForm({
             </div>
           </div>
 
+          {/* Identifiants (source existante uniquement) */}
+          {website?.id && <SourceCredentialsPanel dataSourceId={website.id} />}
+
           {/* Aperçu du prompt généré */}
           <div className="mt-8 pt-6 border-t border-gray-200">
             <div className="flex items-center space-x-2 mb-3">
@@ -1,13 +1,18 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { Search, Filter, Globe, Play, Square, Trash2, AlertTriangle, ChevronDown, Clock, Upload } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Search, Filter, Globe, Play, Pause, Square, Trash2, AlertTriangle, ChevronDown, Clock, Upload, GitCompare } from 'lucide-react';
 import { Eye } from 'lucide-react';
 import { useDataSources } from '../hooks/useDataSources';
 import { useHarvestingConfigs } from '../hooks/useHarvestingConfigs';
 import { useDebounce } from '../hooks/useDebounce';
+import { useHarvestJobs } from '../hooks/useHarvestJobs';
+import { useHarvestBatch } from '../hooks/useHarvestBatch';
 import { isSupabaseConfigured } from '../lib/supabase';
 import { HarvestLogService } from '../services/harvestLogService';
-import { OpenAIHarvestingService } from '../services/openAIHarvestingService';
+import { HarvestSchedulerService } from '../services/harvestSchedulerService';
+import { HarvestWorkerService } from '../services/harvestWorkerService';
+import { JOB_STATUS_LABELS, type HarvestJobStatus } from '../services/harvestJobService';
 import Pagination from './Pagination';
+import HarvestBatchProgress from './HarvestBatchProgress';
 
 // Lazy loading des modales lourdes pour améliorer les performances
 const WebsiteConfigForm = React.lazy(() => import('./WebsiteConfigForm'));
@@ -17,10 +22,17 @@ const DeleteConfirmationModal = React.lazy(() => import('./DeleteConfirmationMod
 const DocumentsModal = React.lazy(() => import('./DocumentsModal'));
 const HarvestImportModal = React.lazy(() => import('./HarvestImportModal'));
 const ViewHarvestResultsModal = React.lazy(() => import('./ViewHarvestResultsModal'));
+const DocumentChangesModal = React.lazy(() => import('./DocumentChangesModal'));
 
 const WebsiteManager: React.FC = () => {
   const { dataSources, loading, error, createDataSource, updateDataSource, deleteDataSource } = useDataSources();
-  const { configs, createConfig, updateConfig, getConfigByDataSource } = useHarvestingConfigs();
+  const { createConfig, updateConfig, getConfigByDataSource, refetch: refetchConfigs } = useHarvestingConfigs();
+  const { getActiveJobByDataSource, enqueue, cancel, pause, resume } = useHarvestJobs();
+  const harvestBatch = useHarvestBatch();
+  const sourceNames = useMemo(
+    () => Object.fromEntries(dataSources.map(source => [source.id, source.name])),
+    [dataSources]
+  );
 
   // Charger les compteurs d'alertes pour tous les sites
   useEffect(() => {
@@ -49,6 +61,29 @@ const WebsiteManager: React.FC = () => {
     loadAlertCounts();
   }, [dataSources]);
 
+  // Planificateur local : déclenche les moissonnages échus tant que l'application est ouverte
+  const refetchConfigsRef = useRef(refetchConfigs);
+  refetchConfigsRef.current = refetchConfigs;
+
+  useEffect(() => {
+    if (!isSupabaseConfigured() || !HarvestSchedulerService.isLocalSchedulerEnabled()) return;
+
+    HarvestSchedulerService.start(() => {
+      // Rafraîchir next_run_at / last_run_at affichés
+      refetchConfigsRef.current();
+    });
+
+    return () => HarvestSchedulerService.stop();
+  }, []);
+
+  // Worker navigateur : exécute les jobs 'web_browser' (fournisseur LLM local ou fixtures) mis en file
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+
+    HarvestWorkerService.start();
+    return () => HarvestWorkerService.stop();
+  }, []);
+
   const [showConfigForm, setShowConfigForm] = useState(false);
   const [editingWebsite, setEditingWebsite] = useState<string | null>(null);
   const [selectedWebsites, setSelectedWebsites] = useState<Set<string>>(new Set());
@@ -62,7 +97,6 @@ const WebsiteManager: React.FC = () => {
   // Debounce de la recherche pour améliorer les performances
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
   
-  const [harvestingStates, setHarvestingStates] = useState<Record<string, boolean>>({});
   const [confirmationModal, setConfirmationModal] = useState<{
     isOpen: boolean;
     websiteId: string;
@@ -122,6 +156,15 @@ const WebsiteManager: React.FC = () => {
     websiteId: '',
     websiteName: ''
   });
+  const [changesModal, setChangesModal] = useState<{
+    isOpen: boolean;
+    websiteId: string;
+    websiteName: string;
+  }>({
+    isOpen: false,
+    websiteId: '',
+    websiteName: ''
+  });
   
   // Vérifier si Supabase est configuré
   if (!isSupabaseConfigured()) {
@@ -282,41 +325,31 @@ const WebsiteManager: React.FC = () => {
     if (selectedWebsites.size === 0) return;
     
     try {
-      console.log('Lancement du moissonnage pour les sites:', Array.from(selectedWebsites));
-      
-      // Mettre à jour l'état pour afficher les spinners
-      const selectedIds = Array.from(selectedWebsites);
-      selectedIds.forEach(websiteId => {
-        setHarvestingStates(prev => ({ ...prev, [websiteId]: true }));
-      });
-      
-      // Récupérer les sites sélectionnés
-      const selectedSites = dataSources.filter(site => selectedWebsites.has(site.id));
-      
-      // Lancer le moissonnage OpenAI multiple
-      const results = await OpenAIHarvestingService.harvestMultipleWebsites(selectedSites);
-      
-      // Arrêter les spinners pour tous les sites
-      selectedIds.forEach(websiteId => {
-        setHarvestingStates(prev => ({ ...prev, [websiteId]: false }));
-      });
+      console.log('Mise en file du moissonnage pour les sites:', Array.from(selectedWebsites));
       
-      // Log des résultats
-      const successCount = results.filter(r => r.success).length;
-      const errorCount = results.filter(r => !r.success).length;
-      console.log(`Moissonnage multiple terminé: ${successCount} succès, ${errorCount} échecs`);
+      // Les jobs sont exécutés par les workers (serveur ou navigateur selon le type de chaque site)
+      const { queued, skipped } = await enqueue(Array.from(selectedWebsites));
+      console.log(`Moissonnage multiple: ${queued.length} en file, ${skipped.length} ignoré(s)`);
       
-    } catch (err) {
-      console.error('Erreur lors du lancement du moissonnage multiple:', err);
+      // Suivi du lot : résultats affichés au fil de l'eau, puis bilan par site
+      if (queued.length > 0) {
+        harvestBatch.start(queued);
+      }
       
-      // Arrêter tous les spinners en cas d'erreur globale
-      Array.from(selectedWebsites).forEach(websiteId => {
-        setHarvestingStates(prev => ({ ...prev, [websiteId]: false }));
-      });
+      if (skipped.length > 0) {
+        const names = skipped.map(item => {
+          const site = dataSources.find(s => s.id === item.data_source_id);
+          return `- ${site?.name || item.data_source_id}: ${item.reason}`;
+        });
+        alert(`Certains sites n'ont pas été mis en file :\n${names.join('\n')}`);
       }
+    } catch (err) {
+      console.error('Erreur lors de la mise en file du moissonnage multiple:', err);
+      alert(`Erreur lors du lancement du moissonnage: ${err instanceof Error ? err.message : 'Erreur inconnue'}`);
+    }
       
-      // Désélectionner tous les sites après le lancement
-      setSelectedWebsites(new Set());
+    // Désélectionner tous les sites après le lancement
+    setSelectedWebsites(new Set());
   };
 
   const handleToggleHarvesting = async (websiteId: string, isRunning: boolean) => {
@@ -332,63 +365,46 @@ const WebsiteManager: React.FC = () => {
     }
 
     // Démarrer le moissonnage directement (pas de confirmation nécessaire)
-    await executeHarvestingToggle(websiteId, isRunning);
+    try {
+      console.log('Mise en file du moissonnage pour:', websiteId);
+      const { skipped } = await enqueue([websiteId]);
+      if (skipped.length > 0) {
+        alert(`Moissonnage non lancé : ${skipped[0].reason}`);
+      }
+    } catch (err) {
+      console.error('Erreur lors du lancement du moissonnage:', err);
+      alert(`Erreur lors du lancement du moissonnage: ${err instanceof Error ? err.message : 'Erreur inconnue'}`);
+    }
   };
 
-  const executeHarvestingToggle = async (websiteId: string, isRunning: boolean) => {
+  // Pause d'un job actif, ou reprise s'il est déjà en pause
+  const handleTogglePause = async (websiteId: string) => {
+    const job = getActiveJobByDataSource(websiteId);
+    if (!job) return;
+
     try {
-      // Mettre à jour l'état local
-      setHarvestingStates(prev => ({
-        ...prev,
-        [websiteId]: !isRunning
-      }));
-
-      if (!isRunning) {
-        // Démarrer le moissonnage
-        console.log('Démarrage du moissonnage pour:', websiteId);
-        
-        // Récupérer les données du site
-        const website = dataSources.find(s => s.id === websiteId);
-        if (!website) {
-          throw new Error('Site non trouvé');
-        }
-        
-        // Lancer le moissonnage OpenAI
-        const result = await OpenAIHarvestingService.harvestWebsite(website);
-        
-        // Arrêter le spinner
-        setHarvestingStates(prev => ({
-          ...prev,
-          [websiteId]: false
-        }));
-        
-        if (result.success) {
-          console.log('Moissonnage terminé avec succès pour:', websiteId);
-        } else {
-          console.error('Moissonnage échoué pour:', websiteId, result.error);
-        }
-        
+      if (job.status === 'paused') {
+        await resume(job.id);
       } else {
-        // Arrêter le moissonnage
-        console.log('Arrêt du moissonnage pour:', websiteId);
-        // Note: L'arrêt forcé n'est pas implémenté pour OpenAI
-        setHarvestingStates(prev => ({
-          ...prev,
-          [websiteId]: false
-        }));
+        await pause(job.id);
       }
     } catch (err) {
-      console.error('Erreur lors du contrôle du moissonnage:', err);
-      // Restaurer l'état précédent en cas d'erreur
-      setHarvestingStates(prev => ({
-        ...prev,
-        [websiteId]: isRunning
-      }));
+      console.error('Erreur lors de la pause / reprise du moissonnage:', err);
+      alert(`Erreur: ${err instanceof Error ? err.message : 'Erreur inconnue'}`);
     }
   };
 
   const handleConfirmStop = async () => {
-    await executeHarvestingToggle(confirmationModal.websiteId, true);
+    const job = getActiveJobByDataSource(confirmationModal.websiteId);
+    if (job) {
+      try {
+        console.log('Annulation du moissonnage pour:', confirmationModal.websiteId);
+        await cancel(job.id);
+      } catch (err) {
+        console.error('Erreur lors de l\'annulation du moissonnage:', err);
+        alert(`Erreur lors de l'annulation: ${err instanceof Error ? err.message : 'Erreur inconnue'}`);
+      }
+    }
     setConfirmationModal({ isOpen: false, websiteId: '', websiteName: '' });
   };
 
@@ -434,6 +450,21 @@ const WebsiteManager: React.FC = () => {
     }
   };
 
+  const handleViewChanges = (websiteId: string) => {
+    const website = dataSources.find(s => s.id === websiteId);
+    if (website) {
+      setChangesModal({
+        isOpen: true,
+        websiteId,
+        websiteName: website.name
+      });
+    }
+  };
+
+  const handleCloseChanges = () => {
+    setChangesModal({ isOpen: false, websiteId: '', websiteName: '' });
+  };
+
   const handleCloseViewResults = () => {
     setViewResultsModal({ isOpen: false, websiteId: '', websiteName: '' });
   };
@@ -524,6 +555,11 @@ const WebsiteManager: React.FC = () => {
     if (!config || config.frequency === 'manual') {
       return 'Manuel';
     }
+
+    // Date planifiée en base (trigger + planificateur), sinon estimation à partir d'aujourd'hui
+    if (config.next_run_at) {
+      return new Date(config.next_run_at).toLocaleDateString('fr-FR');
+    }
     
     const now = new Date();
     switch (config.frequency) {
@@ -542,8 +578,9 @@ const WebsiteManager: React.FC = () => {
     return alertCounts[sourceId] || 0;
   };
 
+  // Un job actif (en file, en cours ou en pause) compte comme un moissonnage en cours
   const isHarvestingRunning = (sourceId: string) => {
-    return harvestingStates[sourceId] || false;
+    return !!getActiveJobByDataSource(sourceId);
   };
 
   if (loading) {
@@ -603,6 +640,16 @@ const WebsiteManager: React.FC = () => {
         </div>
       </div>
 
+      {harvestBatch.active && (
+        <HarvestBatchProgress
+          results={harvestBatch.results}
+          summary={harvestBatch.summary}
+          sourceNames={sourceNames}
+          error={harvestBatch.error}
+          onClose={harvestBatch.clear}
+        />
+      )}
+
       {/* Barre de recherche et filtres */}
       <div className="bg-white rounded-lg shadow-sm border p-4">
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0 lg:space-x-4">
@@ -713,6 +760,8 @@ const WebsiteManager: React.FC = () => {
                   {paginatedWebsites.map((website) => {
                     const alertCount = getAlertCount(website.id);
                     const isRunning = isHarvestingRunning(website.id);
+                    const activeJob = getActiveJobByDataSource(website.id);
+                    const jobLabel = activeJob ? JOB_STATUS_LABELS[activeJob.status as HarvestJobStatus] : '';
                     
                     return (
                       <tr key={website.id} className={`hover:bg-gray-50 transition-colors ${
@@ -795,14 +844,25 @@ const WebsiteManager: React.FC = () => {
                                   ? 'text-red-600 hover:text-red-800 hover:bg-red-50' 
                                   : 'text-green-600 hover:text-green-800 hover:bg-green-50'
                               }`}
-                              title={isRunning ? 'Arrêter le moissonnage' : 'Lancer le moissonnage'}
+                              title={isRunning ? `Annuler le moissonnage (${jobLabel})` : 'Lancer le moissonnage'}
                             >
-                              {isRunning ? (
+                              {activeJob?.status === 'running' ? (
                                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-red-600"></div>
+                              ) : isRunning ? (
+                                <Square className="h-4 w-4" />
                               ) : (
                                 <Play className="h-4 w-4" />
                               )}
                             </button>
+                            {activeJob && (
+                              <button
+                                onClick={() => handleTogglePause(website.id)}
+                                className="text-amber-600 hover:text-amber-800 hover:bg-amber-50 p-2 rounded-lg transition-colors"
+                                title={activeJob.status === 'paused' ? 'Reprendre le moissonnage' : 'Mettre le moissonnage en pause'}
+                              >
+                                {activeJob.status === 'paused' ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                              </button>
+                            )}
                             <button
                               onClick={() => handleViewDocuments(website.id)}
                               className="text-blue-600 hover:text-blue-800 hover:bg-blue-50 p-2 rounded-lg transition-colors"
@@ -817,6 +877,13 @@ const WebsiteManager: React.FC = () => {
                             >
                               <Eye className="h-4 w-4" />
                             </button>
+                            <button
+                              onClick={() => handleViewChanges(website.id)}
+                              className="text-teal-600 hover:text-teal-800 hover:bg-teal-50 p-2 rounded-lg transition-colors"
+                              title="Voir ce qui a changé depuis les derniers moissonnages"
+                            >
+                              <GitCompare className="h-4 w-4" />
+                            </button>
                             <button
                               onClick={() => handleImportResults(website.id)}
                               className="text-purple-600 hover:text-purple-800 hover:bg-purple-50 p-2 rounded-lg transition-colors"
@@ -878,7 +945,7 @@ const WebsiteManager: React.FC = () => {
           <ConfirmationModal
             isOpen={confirmationModal.isOpen}
             title="Arrêter le moissonnage"
-            message={`Voulez-vous arrêter le moissonnage en cours pour "${confirmationModal.websiteName}" ?\n\nCette action interrompra immédiatement la collecte de données pour ce site.`}
+            message={`Voulez-vous arrêter le moissonnage en cours pour "${confirmationModal.websiteName}" ?\n\nLa collecte s'arrêtera au prochain point de contrôle (entre deux pages), sans enregistrer de résultat partiel.`}
             confirmText="Arrêter"
             cancelText="Continuer"
             type="warning"
@@ -958,6 +1025,18 @@ const WebsiteManager: React.FC = () => {
           />
         </React.Suspense>
       )}
+
+      {/* Modale des changements détectés entre exécutions */}
+      {changesModal.isOpen && (
+        <React.Suspense fallback={<div className="fixed inset-0 bg-black bg-opacity-50 z-50" />}>
+          <DocumentChangesModal
+            isOpen={changesModal.isOpen}
+            websiteId={changesModal.websiteId}
+            websiteName={changesModal.websiteName}
+            onClose={handleCloseChanges}
+          />
+        </React.Suspense>
+      )}
     </div>
   );
 };
@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { HarvestJobService, type HarvestJobStatus } from '../services/harvestJobService';
+import { HarvestRunService } from '../services/harvestRunService';
+import { HarvestWorkerService } from '../services/harvestWorkerService';
+
+const POLL_INTERVAL_MS = 3000;
+const TERMINAL_STATUSES: HarvestJobStatus[] = ['done', 'failed', 'cancelled'];
+
+export interface BatchSiteResult {
+  jobId: string;
+  dataSourceId: string;
+  status: HarvestJobStatus;
+  // Réservations supplémentaires du job et nouvelles tentatives d'appel de ses exécutions
+  retries: number;
+  error: string | null;
+  finishedAt: string | null;
+}
+
+export interface HarvestBatchSummary {
+  total: number;
+  finished: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  retries: number;
+  complete: boolean;
+}
+
+// Suivi d'un moissonnage multiple : chaque site apparaît dès la fin de son job, puis le bilan du lot
+export const useHarvestBatch = () => {
+  const [jobIds, setJobIds] = useState<string[]>([]);
+  const [results, setResults] = useState<BatchSiteResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchResults = useCallback(async () => {
+    if (jobIds.length === 0) return;
+
+    try {
+      const [jobs, runs] = await Promise.all([
+        HarvestJobService.getJobsByIds(jobIds),
+        HarvestRunService.getRunsByJobIds(jobIds)
+      ]);
+
+      setResults(jobs.map(job => ({
+        jobId: job.id,
+        dataSourceId: job.data_source_id,
+        status: job.status as HarvestJobStatus,
+        retries: Math.max(0, job.attempts - 1) + runs
+          .filter(run => run.job_id === job.id)
+          .reduce((total, run) => total + (run.retry_count || 0), 0),
+        error: job.error_message,
+        finishedAt: job.finished_at
+      })));
+      setError(null);
+    } catch (err) {
+      console.error('❌ Erreur lors du suivi du lot de moissonnage:', err);
+      setError(err instanceof Error ? err.message : 'Erreur inconnue');
+    }
+  }, [jobIds]);
+
+  const summary = useMemo<HarvestBatchSummary>(() => {
+    const finished = results.filter(result => TERMINAL_STATUSES.includes(result.status));
+    return {
+      total: jobIds.length,
+      finished: finished.length,
+      succeeded: finished.filter(result => result.status === 'done').length,
+      failed: finished.filter(result => result.status === 'failed').length,
+      cancelled: finished.filter(result => result.status === 'cancelled').length,
+      retries: results.reduce((total, result) => total + result.retries, 0),
+      complete: jobIds.length > 0 && finished.length === jobIds.length
+    };
+  }, [results, jobIds]);
+
+  // Rafraîchi périodiquement (jobs serveur) et à chaque job terminé par ce navigateur
+  useEffect(() => {
+    if (jobIds.length === 0 || summary.complete) return;
+
+    fetchResults();
+    const timer = setInterval(fetchResults, POLL_INTERVAL_MS);
+    const unsubscribe = HarvestWorkerService.onJobFinished(outcome => {
+      if (jobIds.includes(outcome.jobId)) fetchResults();
+    });
+
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [jobIds, summary.complete, fetchResults]);
+
+  const start = (queuedJobIds: string[]) => {
+    setResults([]);
+    setJobIds(queuedJobIds);
+  };
+
+  const clear = () => {
+    setResults([]);
+    setJobIds([]);
+  };
+
+  return {
+    active: jobIds.length > 0,
+    results,
+    summary,
+    error,
+    start,
+    clear
+  };
+};
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import { HarvestJobService, type HarvestJob } from '../services/harvestJobService';
+import { isSupabaseConfigured } from '../lib/supabase';
+
+const POLL_INTERVAL_MS = 3000;
+
+// État des jobs actifs (queued / running / paused), rafraîchi périodiquement depuis harvest_jobs
+export const useHarvestJobs = () => {
+  const [activeJobs, setActiveJobs] = useState<HarvestJob[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    if (!isSupabaseConfigured()) return;
+
+    try {
+      const jobs = await HarvestJobService.getActiveJobs();
+      setActiveJobs(jobs);
+      setError(null);
+    } catch (err) {
+      console.error('❌ Erreur lors du chargement des jobs:', err);
+      setError(err instanceof Error ? err.message : 'Erreur inconnue');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+    const timer = setInterval(fetchJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchJobs]);
+
+  const getActiveJobByDataSource = (dataSourceId: string) => {
+    return activeJobs.find(job => job.data_source_id === dataSourceId);
+  };
+
+  const enqueue = async (dataSourceIds: string[]) => {
+    const result = await HarvestJobService.enqueue(dataSourceIds);
+    await fetchJobs();
+    return result;
+  };
+
+  const cancel = async (jobId: string) => {
+    await HarvestJobService.cancel(jobId);
+    await fetchJobs();
+  };
+
+  const pause = async (jobId: string) => {
+    await HarvestJobService.pause(jobId);
+    await fetchJobs();
+  };
+
+  const resume = async (jobId: string) => {
+    await HarvestJobService.resume(jobId);
+    await fetchJobs();
+  };
+
+  return {
+    activeJobs,
+    error,
+    refetch: fetchJobs,
+    getActiveJobByDataSource,
+    enqueue,
+    cancel,
+    pause,
+    resume
+  };
+};
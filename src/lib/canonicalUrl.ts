@@ -0,0 +1,2 @@
+// URL canonique d'un document : implémentation partagée avec les fonctions edge
+export { canonicalizeUrl, cleanUrl } from '../../supabase/functions/_shared/canonicalUrl.ts';
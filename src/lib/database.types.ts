@@ -23,6 +23,7 @@ export interface Database {
           updated_at: string
           obstacles_globaux: Json
           recommandations: string | null
+          warc_capture: boolean
         }
         Insert: {
           id?: string
@@ -37,6 +38,7 @@ export interface Database {
           updated_at?: string
           obstacles_globaux?: Json
           recommandations?: string | null
+          warc_capture?: boolean
         }
         Update: {
           id?: string
@@ -51,7 +53,9 @@ export interface Database {
           updated_at?: string
           obstacles_globaux?: Json
           recommandations?: string | null
+          warc_capture?: boolean
         }
+        Relationships: []
       }
       harvesting_configs: {
         Row: {
@@ -62,6 +66,12 @@ export interface Database {
           filters: Json
           max_pages: number
           delay_between_requests: number
+          next_run_at: string | null
+          last_run_at: string | null
+          llm_provider: string | null
+          llm_model: string | null
+          render_js: boolean
+          pagination: Json | null
           created_at: string
           updated_at: string
         }
@@ -73,6 +83,12 @@ export interface Database {
           filters?: Json
           max_pages?: number
           delay_between_requests?: number
+          next_run_at?: string | null
+          last_run_at?: string | null
+          llm_provider?: string | null
+          llm_model?: string | null
+          render_js?: boolean
+          pagination?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -84,9 +100,24 @@ export interface Database {
           filters?: Json
           max_pages?: number
           delay_between_requests?: number
+          next_run_at?: string | null
+          last_run_at?: string | null
+          llm_provider?: string | null
+          llm_model?: string | null
+          render_js?: boolean
+          pagination?: Json | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "harvesting_configs_data_source_id_fkey"
+            columns: ["data_source_id"]
+            isOneToOne: false
+            referencedRelation: "data_sources"
+            referencedColumns: ["id"]
+          }
+        ]
       }
       harvest_results: {
         Row: {
@@ -101,6 +132,10 @@ export interface Database {
           analysis_summary: string | null
           analysis_keywords: Json | null
           analysis_completed_at: string | null
+          local_path: string | null
+          run_id: string | null
+          system_prompt_template_id: string | null
+          user_prompt_template_id: string | null
         }
         Insert: {
           id?: string
@@ -114,6 +149,10 @@ export interface Database {
           analysis_summary?: string | null
           analysis_keywords?: Json | null
           analysis_completed_at?: string | null
+          local_path?: string | null
+          run_id?: string | null
+          system_prompt_template_id?: string | null
+          user_prompt_template_id?: string | null
         }
         Update: {
           id?: string
@@ -127,7 +166,12 @@ export interface Database {
           analysis_summary?: string | null
           analysis_keywords?: Json | null
           analysis_completed_at?: string | null
+          local_path?: string | null
+          run_id?: string | null
+          system_prompt_template_id?: string | null
+          user_prompt_template_id?: string | null
         }
+        Relationships: []
       }
       harvest_logs: {
         Row: {
@@ -137,6 +181,7 @@ export interface Database {
           message: string
           details: Json
           created_at: string
+          run_id: string | null
         }
         Insert: {
           id?: string
@@ -145,6 +190,7 @@ export interface Database {
           message: string
           details?: Json
           created_at?: string
+          run_id?: string | null
         }
         Update: {
           id?: string
@@ -153,14 +199,1101 @@ export interface Database {
           message?: string
           details?: Json
           created_at?: string
+          run_id?: string | null
         }
+        Relationships: []
+      }
+      harvest_jobs: {
+        Row: {
+          id: string
+          data_source_id: string
+          status: string
+          engine: string
+          trigger: string
+          priority: number
+          attempts: number
+          worker_id: string | null
+          started_at: string | null
+          heartbeat_at: string | null
+          finished_at: string | null
+          harvest_result_id: string | null
+          error_message: string | null
+          pause_reason: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          data_source_id: string
+          status?: string
+          engine?: string
+          trigger?: string
+          priority?: number
+          attempts?: number
+          worker_id?: string | null
+          started_at?: string | null
+          heartbeat_at?: string | null
+          finished_at?: string | null
+          harvest_result_id?: string | null
+          error_message?: string | null
+          pause_reason?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          data_source_id?: string
+          status?: string
+          engine?: string
+          trigger?: string
+          priority?: number
+          attempts?: number
+          worker_id?: string | null
+          started_at?: string | null
+          heartbeat_at?: string | null
+          finished_at?: string | null
+          harvest_result_id?: string | null
+          error_message?: string | null
+          pause_reason?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      harvest_runs: {
+        Row: {
+          id: string
+          data_source_id: string
+          job_id: string | null
+          trigger: string
+          engine: string
+          status: string
+          config_snapshot: Json
+          started_at: string
+          finished_at: string | null
+          pages_fetched: number
+          documents_found: number
+          documents_new: number
+          documents_changed: number
+          documents_unchanged: number
+          documents_removed: number
+          error_count: number
+          llm_cost: number
+          retry_count: number
+          error_message: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          data_source_id: string
+          job_id?: string | null
+          trigger?: string
+          engine?: string
+          status?: string
+          config_snapshot?: Json
+          started_at?: string
+          finished_at?: string | null
+          pages_fetched?: number
+          documents_found?: number
+          documents_new?: number
+          documents_changed?: number
+          documents_unchanged?: number
+          documents_removed?: number
+          error_count?: number
+          llm_cost?: number
+          retry_count?: number
+          error_message?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          data_source_id?: string
+          job_id?: string | null
+          trigger?: string
+          engine?: string
+          status?: string
+          config_snapshot?: Json
+          started_at?: string
+          finished_at?: string | null
+          pages_fetched?: number
+          documents_found?: number
+          documents_new?: number
+          documents_changed?: number
+          documents_unchanged?: number
+          documents_removed?: number
+          error_count?: number
+          llm_cost?: number
+          retry_count?: number
+          error_message?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      harvested_documents: {
+        Row: {
+          id: string
+          data_source_id: string
+          url_doc: string
+          canonical_url: string
+          document: Json
+          etag: string | null
+          last_modified: string | null
+          content_hash: string | null
+          content_length: number | null
+          status: string
+          first_seen_run_id: string | null
+          last_seen_run_id: string | null
+          last_changed_run_id: string | null
+          first_seen_at: string
+          last_seen_at: string
+          last_changed_at: string
+          disappeared_at: string | null
+          analysis_summary: string | null
+          analysis_keywords: Json | null
+          analysis_content_hash: string | null
+          analysis_completed_at: string | null
+          archive_path: string | null
+          archive_sha256: string | null
+          archive_size: number | null
+          archive_mime_type: string | null
+          archived_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          data_source_id: string
+          url_doc: string
+          canonical_url?: string
+          document?: Json
+          etag?: string | null
+          last_modified?: string | null
+          content_hash?: string | null
+          content_length?: number | null
+          status?: string
+          first_seen_run_id?: string | null
+          last_seen_run_id?: string | null
+          last_changed_run_id?: string | null
+          first_seen_at?: string
+          last_seen_at?: string
+          last_changed_at?: string
+          disappeared_at?: string | null
+          analysis_summary?: string | null
+          analysis_keywords?: Json | null
+          analysis_content_hash?: string | null
+          analysis_completed_at?: string | null
+          archive_path?: string | null
+          archive_sha256?: string | null
+          archive_size?: number | null
+          archive_mime_type?: string | null
+          archived_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          data_source_id?: string
+          url_doc?: string
+          canonical_url?: string
+          document?: Json
+          etag?: string | null
+          last_modified?: string | null
+          content_hash?: string | null
+          content_length?: number | null
+          status?: string
+          first_seen_run_id?: string | null
+          last_seen_run_id?: string | null
+          last_changed_run_id?: string | null
+          first_seen_at?: string
+          last_seen_at?: string
+          last_changed_at?: string
+          disappeared_at?: string | null
+          analysis_summary?: string | null
+          analysis_keywords?: Json | null
+          analysis_content_hash?: string | null
+          analysis_completed_at?: string | null
+          archive_path?: string | null
+          archive_sha256?: string | null
+          archive_size?: number | null
+          archive_mime_type?: string | null
+          archived_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      document_changes: {
+        Row: {
+          id: string
+          data_source_id: string
+          run_id: string | null
+          url_doc: string
+          change_type: string
+          document: Json
+          previous_content_hash: string | null
+          content_hash: string | null
+          detected_at: string
+        }
+        Insert: {
+          id?: string
+          data_source_id: string
+          run_id?: string | null
+          url_doc: string
+          change_type: string
+          document?: Json
+          previous_content_hash?: string | null
+          content_hash?: string | null
+          detected_at?: string
+        }
+        Update: {
+          id?: string
+          data_source_id?: string
+          run_id?: string | null
+          url_doc?: string
+          change_type?: string
+          document?: Json
+          previous_content_hash?: string | null
+          content_hash?: string | null
+          detected_at?: string
+        }
+        Relationships: []
+      }
+      robots_policies: {
+        Row: {
+          host: string
+          robots_url: string
+          status: string
+          http_status: number | null
+          content: string | null
+          crawl_delay: number | null
+          sitemaps: Json
+          fetched_at: string
+          expires_at: string
+        }
+        Insert: {
+          host: string
+          robots_url: string
+          status?: string
+          http_status?: number | null
+          content?: string | null
+          crawl_delay?: number | null
+          sitemaps?: Json
+          fetched_at?: string
+          expires_at: string
+        }
+        Update: {
+          host?: string
+          robots_url?: string
+          status?: string
+          http_status?: number | null
+          content?: string | null
+          crawl_delay?: number | null
+          sitemaps?: Json
+          fetched_at?: string
+          expires_at?: string
+        }
+        Relationships: []
+      }
+      llm_quotas: {
+        Row: {
+          id: string
+          user_id: string | null
+          daily_request_limit: number
+          daily_token_limit: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          daily_request_limit?: number
+          daily_token_limit?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          daily_request_limit?: number
+          daily_token_limit?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      llm_quota_usage: {
+        Row: {
+          user_id: string
+          usage_date: string
+          request_count: number
+          token_count: number
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          usage_date?: string
+          request_count?: number
+          token_count?: number
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          usage_date?: string
+          request_count?: number
+          token_count?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      llm_shared_quotas: {
+        Row: {
+          scope: string
+          daily_request_limit: number
+          daily_token_limit: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          scope: string
+          daily_request_limit: number
+          daily_token_limit: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          scope?: string
+          daily_request_limit?: number
+          daily_token_limit?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      llm_shared_quota_usage: {
+        Row: {
+          scope_key: string
+          usage_date: string
+          request_count: number
+          token_count: number
+          updated_at: string
+        }
+        Insert: {
+          scope_key: string
+          usage_date?: string
+          request_count?: number
+          token_count?: number
+          updated_at?: string
+        }
+        Update: {
+          scope_key?: string
+          usage_date?: string
+          request_count?: number
+          token_count?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      llm_rate_window: {
+        Row: {
+          id: number
+          window_start: string
+          request_count: number
+          token_count: number
+        }
+        Insert: {
+          id?: number
+          window_start?: string
+          request_count?: number
+          token_count?: number
+        }
+        Update: {
+          id?: number
+          window_start?: string
+          request_count?: number
+          token_count?: number
+        }
+        Relationships: []
+      }
+      llm_usage: {
+        Row: {
+          id: string
+          data_source_id: string | null
+          run_id: string | null
+          harvest_result_id: string | null
+          user_id: string | null
+          purpose: string
+          provider: string
+          model: string
+          prompt_tokens: number
+          completion_tokens: number
+          total_tokens: number
+          cost: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          data_source_id?: string | null
+          run_id?: string | null
+          harvest_result_id?: string | null
+          user_id?: string | null
+          purpose: string
+          provider: string
+          model: string
+          prompt_tokens?: number
+          completion_tokens?: number
+          total_tokens?: number
+          cost?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          data_source_id?: string | null
+          run_id?: string | null
+          harvest_result_id?: string | null
+          user_id?: string | null
+          purpose?: string
+          provider?: string
+          model?: string
+          prompt_tokens?: number
+          completion_tokens?: number
+          total_tokens?: number
+          cost?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      llm_budgets: {
+        Row: {
+          id: string
+          data_source_id: string | null
+          monthly_limit: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          data_source_id?: string | null
+          monthly_limit: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          data_source_id?: string | null
+          monthly_limit?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      data_source_credentials: {
+        Row: {
+          id: string
+          data_source_id: string
+          auth_type: string
+          secret_ciphertext: string
+          login_url: string | null
+          session_ciphertext: string | null
+          session_expires_at: string | null
+          last_login_at: string | null
+          last_login_error: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          data_source_id: string
+          auth_type: string
+          secret_ciphertext: string
+          login_url?: string | null
+          session_ciphertext?: string | null
+          session_expires_at?: string | null
+          last_login_at?: string | null
+          last_login_error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          data_source_id?: string
+          auth_type?: string
+          secret_ciphertext?: string
+          login_url?: string | null
+          session_ciphertext?: string | null
+          session_expires_at?: string | null
+          last_login_at?: string | null
+          last_login_error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      llm_circuit_breaker: {
+        Row: {
+          id: number
+          state: string
+          consecutive_failures: number
+          last_status: number | null
+          last_error: string | null
+          opened_at: string | null
+          retry_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          state?: string
+          consecutive_failures?: number
+          last_status?: number | null
+          last_error?: string | null
+          opened_at?: string | null
+          retry_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          state?: string
+          consecutive_failures?: number
+          last_status?: number | null
+          last_error?: string | null
+          opened_at?: string | null
+          retry_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      prompt_templates: {
+        Row: {
+          id: string
+          name: string
+          version: number
+          content: string
+          description: string | null
+          is_active: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          version: number
+          content: string
+          description?: string | null
+          is_active?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          version?: number
+          content?: string
+          description?: string | null
+          is_active?: boolean
+          created_at?: string
+        }
+        Relationships: []
+      }
+      golden_harvests: {
+        Row: {
+          id: string
+          data_source_id: string
+          documents: Json
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          data_source_id: string
+          documents?: Json
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          data_source_id?: string
+          documents?: Json
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      prompt_eval_recordings: {
+        Row: {
+          id: string
+          data_source_id: string
+          system_template_id: string
+          user_template_id: string
+          provider: string
+          model: string
+          response: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          data_source_id: string
+          system_template_id: string
+          user_template_id: string
+          provider: string
+          model: string
+          response: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          data_source_id?: string
+          system_template_id?: string
+          user_template_id?: string
+          provider?: string
+          model?: string
+          response?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      document_blobs: {
+        Row: {
+          sha256: string
+          storage_path: string
+          size: number
+          content_type: string
+          created_at: string
+        }
+        Insert: {
+          sha256: string
+          storage_path: string
+          size: number
+          content_type?: string
+          created_at?: string
+        }
+        Update: {
+          sha256?: string
+          storage_path?: string
+          size?: number
+          content_type?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      document_cache: {
+        Row: {
+          canonical_url: string
+          url: string
+          sha256: string
+          size: number
+          content_type: string
+          etag: string | null
+          last_modified: string | null
+          auth_data_source_id: string | null
+          fetched_at: string
+          validated_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          canonical_url: string
+          url: string
+          sha256: string
+          size: number
+          content_type?: string
+          etag?: string | null
+          last_modified?: string | null
+          auth_data_source_id?: string | null
+          fetched_at?: string
+          validated_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          canonical_url?: string
+          url?: string
+          sha256?: string
+          size?: number
+          content_type?: string
+          etag?: string | null
+          last_modified?: string | null
+          auth_data_source_id?: string | null
+          fetched_at?: string
+          validated_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      document_cache_fills: {
+        Row: {
+          canonical_url: string
+          started_at: string
+        }
+        Insert: {
+          canonical_url: string
+          started_at?: string
+        }
+        Update: {
+          canonical_url?: string
+          started_at?: string
+        }
+        Relationships: []
+      }
+      warc_files: {
+        Row: {
+          id: string
+          run_id: string
+          data_source_id: string
+          sequence: number
+          storage_path: string
+          size: number
+          sha256: string
+          record_count: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          run_id: string
+          data_source_id: string
+          sequence: number
+          storage_path: string
+          size: number
+          sha256: string
+          record_count?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          run_id?: string
+          data_source_id?: string
+          sequence?: number
+          storage_path?: string
+          size?: number
+          sha256?: string
+          record_count?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      warc_records: {
+        Row: {
+          id: string
+          warc_file_id: string
+          run_id: string
+          data_source_id: string
+          record_id: string
+          record_type: string
+          target_uri: string
+          canonical_url: string
+          method: string | null
+          http_status: number | null
+          content_type: string | null
+          payload_size: number
+          payload_sha256: string | null
+          truncated: boolean
+          record_offset: number
+          record_length: number
+          captured_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          warc_file_id: string
+          run_id: string
+          data_source_id: string
+          record_id: string
+          record_type: string
+          target_uri: string
+          canonical_url: string
+          method?: string | null
+          http_status?: number | null
+          content_type?: string | null
+          payload_size?: number
+          payload_sha256?: string | null
+          truncated?: boolean
+          record_offset: number
+          record_length: number
+          captured_at: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          warc_file_id?: string
+          run_id?: string
+          data_source_id?: string
+          record_id?: string
+          record_type?: string
+          target_uri?: string
+          canonical_url?: string
+          method?: string | null
+          http_status?: number | null
+          content_type?: string | null
+          payload_size?: number
+          payload_sha256?: string | null
+          truncated?: boolean
+          record_offset?: number
+          record_length?: number
+          captured_at?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      document_classifications: {
+        Row: {
+          id: string
+          harvest_result_id: string
+          category: string
+          subcategory: string | null
+          confidence_score: number
+          tags: string[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          harvest_result_id: string
+          category: string
+          subcategory?: string | null
+          confidence_score?: number
+          tags?: string[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          harvest_result_id?: string
+          category?: string
+          subcategory?: string | null
+          confidence_score?: number
+          tags?: string[]
+          created_at?: string
+        }
+        Relationships: []
+      }
+      document_embeddings: {
+        Row: {
+          id: string
+          harvest_result_id: string
+          embedding_data: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          harvest_result_id: string
+          embedding_data: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          harvest_result_id?: string
+          embedding_data?: Json
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_embeddings_harvest_result_id_fkey"
+            columns: ["harvest_result_id"]
+            isOneToOne: false
+            referencedRelation: "harvest_results"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      content_alerts: {
+        Row: {
+          id: string
+          data_source_id: string
+          name: string
+          keywords: string[]
+          categories: string[]
+          is_active: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          data_source_id: string
+          name: string
+          keywords?: string[]
+          categories?: string[]
+          is_active?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          data_source_id?: string
+          name?: string
+          keywords?: string[]
+          categories?: string[]
+          is_active?: boolean
+          created_at?: string
+        }
+        Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      data_source_credential_status: {
+        Row: {
+          data_source_id: string
+          auth_type: string
+          login_url: string | null
+          has_session: boolean
+          last_login_at: string | null
+          last_login_error: string | null
+          updated_at: string
+        }
+        Relationships: []
+      }
+      llm_monthly_spend: {
+        Row: {
+          data_source_id: string | null
+          month: string
+          cost: number
+          total_tokens: number
+          calls: number
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      activate_prompt_template: {
+        Args: {
+          p_id: string
+        }
+        Returns: Database['public']['Tables']['prompt_templates']['Row']
+      }
+      search_similar_documents: {
+        Args: {
+          query_text: string
+          similarity_threshold?: number
+          max_results?: number
+        }
+        Returns: {
+          harvest_result_id: string
+          similarity_score: number
+          document_name: string | null
+          url_doc: string | null
+        }[]
+      }
+      llm_budget_status: {
+        Args: {
+          p_data_source_id: string
+        }
+        Returns: Json
+      }
+      record_local_llm_usage: {
+        Args: {
+          p_purpose: string
+          p_provider: string
+          p_model: string
+          p_prompt_tokens?: number
+          p_completion_tokens?: number
+          p_data_source_id?: string | null
+          p_run_id?: string | null
+          p_harvest_result_id?: string | null
+        }
+        Returns: undefined
+      }
+      attach_llm_usage_to_result: {
+        Args: {
+          p_run_id: string
+          p_harvest_result_id: string
+        }
+        Returns: number
+      }
+      claim_harvest_job: {
+        Args: {
+          p_worker_id: string
+          p_engines: string[]
+          p_per_host_limit?: number | null
+        }
+        Returns: Database['public']['Tables']['harvest_jobs']['Row'][]
+      }
+      consume_llm_quota: {
+        Args: {
+          p_user_id: string
+          p_client_ip?: string | null
+          p_anonymous?: boolean
+        }
+        Returns: Json
+      }
+      record_llm_tokens: {
+        Args: {
+          p_user_id: string
+          p_tokens: number
+          p_client_ip?: string | null
+          p_anonymous?: boolean
+        }
+        Returns: undefined
+      }
+      lock_llm_shared_usage: {
+        Args: {
+          p_scope_key: string
+        }
+        Returns: Database['public']['Tables']['llm_shared_quota_usage']['Row']
+      }
+      llm_circuit_acquire: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      llm_circuit_record: {
+        Args: {
+          p_status: number
+          p_error?: string | null
+          p_threshold?: number
+          p_cooldown_seconds?: number
+        }
+        Returns: Json
+      }
+      latest_harvesting_configs: {
+        Args: Record<PropertyKey, never>
+        Returns: Database['public']['Tables']['harvesting_configs']['Row'][]
+      }
+      llm_circuit_release_probe: {
+        Args: Record<PropertyKey, never>
+        Returns: string | null
+      }
+      llm_rate_acquire: {
+        Args: {
+          p_tokens: number
+          p_requests_per_minute?: number
+          p_tokens_per_minute?: number
+        }
+        Returns: Json
+      }
+      llm_rate_settle: {
+        Args: {
+          p_window_start: string
+          p_estimated_tokens: number
+          p_actual_tokens: number
+        }
+        Returns: undefined
+      }
+      compute_next_run_at: {
+        Args: {
+          frequency: string
+          from_time?: string
+        }
+        Returns: string | null
+      }
+      harvest_host: {
+        Args: {
+          p_url: string
+        }
+        Returns: string | null
+      }
+      canonicalize_url: {
+        Args: {
+          p_url: string
+        }
+        Returns: string | null
+      }
+      claim_document_cache_fill: {
+        Args: {
+          p_canonical_url: string
+          p_ttl_seconds?: number
+        }
+        Returns: boolean
+      }
+      release_document_cache_fill: {
+        Args: {
+          p_canonical_url: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -190,4 +1323,5 @@ export interface OpenAIDocument {
   pattern_verified?: boolean;         // Optionnel
   notes?: string;                     // Optionnel
   obstacles?: string | null;          // Optionnel
+  change_status?: 'new' | 'updated' | 'unchanged'; // Renseigné par la détection des changements
 }
\ No newline at end of file
@@ -0,0 +1,2 @@
+// Lecture, correction et dédoublonnage de la réponse de moissonnage : implémentation partagée avec le moteur 'web' de harvest-worker
+export { buildRepairPrompt, mergeDuplicateDocuments, parseHarvestContent } from '../../supabase/functions/_shared/harvestContent.ts';
@@ -0,0 +1,9 @@
+// Contrat JSON de la réponse de moissonnage LLM : implémentation partagée avec le moteur 'web' de harvest-worker
+export {
+  HARVEST_RESPONSE_SCHEMA,
+  HARVEST_RESPONSE_SCHEMA_NAME,
+  validateAgainstSchema,
+  validateHarvestResponse,
+  type JsonSchema,
+  type SchemaViolation
+} from '../../supabase/functions/_shared/harvestResponseSchema.ts';
@@ -0,0 +1,189 @@
+// Évaluation d'une réponse de moissonnage face à une liste de documents attendus (référence).
+// Module sans dépendance externe : importé par l'application et par scripts/evaluate-prompts.ts et
+// scripts/evaluate-fixtures.ts (Deno, CI hors ligne).
+
+import { canonicalizeUrl } from './canonicalUrl.ts';
+
+export const EVALUATED_FIELDS = ['date_edition', 'langue', 'type_document'] as const;
+export type EvaluatedField = typeof EVALUATED_FIELDS[number];
+
+export interface GoldenDocument {
+  url_doc: string;
+  date_edition?: string | null;
+  langue?: string | null;
+  type_document?: string | null;
+}
+
+export interface DocumentScore {
+  expected: number;
+  returned: number;
+  matched: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  // Part des documents appariés dont le champ correspond à la référence (null si aucun document apparié)
+  fieldAccuracy: Record<EvaluatedField, number | null>;
+  missing: string[];
+  unexpected: string[];
+}
+
+// Jeu d'évaluation : références et réponses LLM enregistrées, indexées par variante (voir variantKey)
+export interface EvaluationCase {
+  dataSourceId: string;
+  dataSourceName: string;
+  golden: GoldenDocument[];
+  responses: Record<string, string>;
+}
+
+export interface EvaluationBundle {
+  version: 1;
+  generatedAt: string;
+  cases: EvaluationCase[];
+}
+
+export interface VariantResult {
+  variant: string;
+  cases: { dataSourceId: string; dataSourceName: string; score: DocumentScore | null; error?: string }[];
+  // Micro-moyenne sur les sources ayant une réponse enregistrée
+  total: DocumentScore;
+}
+
+// Identifiant d'un couple de versions, ex. harvest_system:v1|harvest_user:v2
+export function variantKey(systemVersion: number, userVersion: number): string {
+  return `harvest_system:v${systemVersion}|harvest_user:v${userVersion}`;
+}
+
+// URL comparable : même identité que harvested_documents.canonical_url
+export function normalizeDocUrl(url: string): string {
+  return canonicalizeUrl(url);
+}
+
+function normalizeField(field: EvaluatedField, value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value).trim().toLowerCase();
+  return field === 'date_edition' ? text.slice(0, 10) : text;
+}
+
+function fieldMatches(field: EvaluatedField, expected: unknown, actual: unknown): boolean {
+  const expectedValue = normalizeField(field, expected);
+  const actualValue = normalizeField(field, actual);
+  // Une date de référence au mois (YYYY-MM) accepte un jour précis dans le même mois
+  if (field === 'date_edition' && expectedValue.length === 7) {
+    return actualValue.startsWith(expectedValue);
+  }
+  return expectedValue === actualValue;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : Math.round((numerator / denominator) * 10000) / 10000;
+}
+
+// Extraire les documents d'une réponse brute (JSON éventuellement entouré d'un bloc markdown)
+export function parseRecordedResponse(content: string): GoldenDocument[] {
+  const trimmed = content.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const parsed = JSON.parse(fenced?.[1] ?? trimmed);
+  const documents = Array.isArray(parsed?.documents) ? parsed.documents : [];
+
+  return documents.filter(
+    (document: unknown): document is GoldenDocument =>
+      !!document && typeof (document as GoldenDocument).url_doc === 'string' && (document as GoldenDocument).url_doc.trim() !== ''
+  );
+}
+
+function buildScore(
+  counts: { expected: number; returned: number; matched: number; fieldHits: Record<EvaluatedField, number> },
+  missing: string[] = [],
+  unexpected: string[] = []
+): DocumentScore {
+  const precision = ratio(counts.matched, counts.returned);
+  const recall = ratio(counts.matched, counts.expected);
+
+  return {
+    expected: counts.expected,
+    returned: counts.returned,
+    matched: counts.matched,
+    precision,
+    recall,
+    f1: precision + recall === 0 ? 0 : Math.round((2 * precision * recall / (precision + recall)) * 10000) / 10000,
+    fieldAccuracy: Object.fromEntries(EVALUATED_FIELDS.map(field => [
+      field,
+      counts.matched === 0 ? null : ratio(counts.fieldHits[field], counts.matched)
+    ])) as Record<EvaluatedField, number | null>,
+    missing,
+    unexpected
+  };
+}
+
+function countMatches(golden: GoldenDocument[], returned: GoldenDocument[]) {
+  const expectedByUrl = new Map(golden.map(document => [normalizeDocUrl(document.url_doc), document]));
+  const returnedByUrl = new Map(returned.map(document => [normalizeDocUrl(document.url_doc), document]));
+
+  const matchedUrls = Array.from(returnedByUrl.keys()).filter(url => expectedByUrl.has(url));
+  const fieldHits = Object.fromEntries(EVALUATED_FIELDS.map(field => [field, 0])) as Record<EvaluatedField, number>;
+
+  for (const url of matchedUrls) {
+    const expected = expectedByUrl.get(url)!;
+    const actual = returnedByUrl.get(url)!;
+    for (const field of EVALUATED_FIELDS) {
+      if (fieldMatches(field, expected[field], actual[field])) fieldHits[field]++;
+    }
+  }
+
+  return {
+    expectedByUrl,
+    returnedByUrl,
+    counts: { expected: expectedByUrl.size, returned: returnedByUrl.size, matched: matchedUrls.length, fieldHits }
+  };
+}
+
+export function scoreDocuments(golden: GoldenDocument[], returned: GoldenDocument[]): DocumentScore {
+  const { expectedByUrl, returnedByUrl, counts } = countMatches(golden, returned);
+
+  return buildScore(
+    counts,
+    golden.filter(document => !returnedByUrl.has(normalizeDocUrl(document.url_doc))).map(document => document.url_doc),
+    returned.filter(document => !expectedByUrl.has(normalizeDocUrl(document.url_doc))).map(document => document.url_doc)
+  );
+}
+
+// Scorer une variante sur tout le jeu ; une source sans réponse enregistrée est ignorée du total
+export function evaluateVariant(bundle: EvaluationBundle, variant: string): VariantResult {
+  const cases: VariantResult['cases'] = [];
+  const totals = {
+    expected: 0,
+    returned: 0,
+    matched: 0,
+    fieldHits: Object.fromEntries(EVALUATED_FIELDS.map(field => [field, 0])) as Record<EvaluatedField, number>
+  };
+
+  for (const evaluationCase of bundle.cases) {
+    const { dataSourceId, dataSourceName } = evaluationCase;
+    const response = evaluationCase.responses[variant];
+    if (response === undefined) {
+      cases.push({ dataSourceId, dataSourceName, score: null, error: 'Aucune réponse enregistrée' });
+      continue;
+    }
+
+    let documents: GoldenDocument[] = [];
+    let error: string | undefined;
+    try {
+      documents = parseRecordedResponse(response);
+    } catch (parseError) {
+      // Une réponse illisible compte comme une réponse vide : rappel nul
+      error = `Réponse illisible: ${parseError instanceof Error ? parseError.message : 'JSON invalide'}`;
+    }
+
+    const { counts } = countMatches(evaluationCase.golden, documents);
+    cases.push({ dataSourceId, dataSourceName, score: scoreDocuments(evaluationCase.golden, documents), error });
+
+    totals.expected += counts.expected;
+    totals.returned += counts.returned;
+    totals.matched += counts.matched;
+    for (const field of EVALUATED_FIELDS) {
+      totals.fieldHits[field] += counts.fieldHits[field];
+    }
+  }
+
+  return { variant, cases, total: buildScore(totals) };
+}
@@ -0,0 +1,2 @@
+// Rendu des templates de prompts : implémentation partagée avec le moteur 'web' de harvest-worker
+export { buildVariables, render, type PromptConfig, type PromptSource } from '../../supabase/functions/_shared/promptRender.ts';
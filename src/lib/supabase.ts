@@ -27,3 +27,21 @@ export const validateSupabaseProject = () => {
 export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
 
 console.log('✅ Supabase initialisé:', supabaseUrl);
+
+// Jeton de l'utilisateur courant pour les fonctions edge authentifiées (llm-gateway).
+// Sans compte connecté, une session anonyme est ouverte ; llm-gateway plafonne en plus l'ensemble
+// des sessions anonymes d'une même adresse IP et tout le projet (llm_shared_quotas).
+export const getAccessToken = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session?.access_token) {
+    return session.access_token;
+  }
+
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error || !data.session) {
+    throw new Error(`Session utilisateur impossible: ${error?.message || 'connexions anonymes désactivées'}`);
+  }
+
+  console.log('👤 Session anonyme ouverte:', data.session.user.id);
+  return data.session.access_token;
+};
@@ -1,6 +1,6 @@
-import OpenAI from 'openai';
 import { supabase } from '../lib/supabase';
 import { HarvestLogService } from './harvestLogService';
+import { LLMProviderService } from './llmProviderService';
 import type { Database } from '../lib/database.types';
 
 type HarvestResult = Database['public']['Tables']['harvest_results']['Row'];
@@ -24,6 +24,7 @@ interface AnalysisResult {
 
 interface EmbeddingResult {
   embedding: number[];
+  model: string;
   contentHash: string;
 }
 
@@ -34,34 +35,20 @@ interface SimilarDocument {
   url: string;
 }
 
-export class ContentAnalysisService {
-  private static openai: OpenAI | null = null;
-
-  // Initialiser le client OpenAI
-  private static getClient(): OpenAI {
-    if (!this.openai) {
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      if (!apiKey) {
-        throw new Error('VITE_OPENAI_API_KEY non configurée');
-      }
-      
-      this.openai = new OpenAI({
-        apiKey,
-        dangerouslyAllowBrowser: true
-      });
-    }
-    return this.openai;
-  }
+const DOCUMENT_CATEGORIES = ['Juridique', 'Technique', 'Administratif', 'Financier', 'RH', 'Communication', 'Recherche', 'Autre'];
 
+export class ContentAnalysisService {
   // Analyser le contenu d'un document
   static async analyzeContent(
     extractedText: string,
     documentName: string,
-    documentUrl: string
+    documentUrl: string,
+    dataSourceId?: string | null,
+    harvestResultId?: string | null
   ): Promise<AnalysisResult> {
     console.log('🧠 Analyse de contenu pour:', documentName);
     
-    const client = this.getClient();
+    const provider = await LLMProviderService.forTask('analysis', dataSourceId, { harvestResultId });
     
     // Prompt optimisé pour l'analyse de documents
     const systemPrompt = `Tu es un expert en analyse de documents. Analyse le texte fourni et retourne un JSON avec cette structure exacte :
@@ -83,27 +70,20 @@ export class ContentAnalysisService {
   "topics": ["sujet1", "sujet2"]
 }
 
-Catégories possibles : Juridique, Technique, Administratif, Financier, RH, Communication, Recherche, Autre.
+Catégories possibles : ${DOCUMENT_CATEGORIES.join(', ')}.
 Sois précis et factuel.`;
 
     try {
-      const response = await client.chat.completions.create({
-        model: import.meta.env.VITE_OPENAI_MODEL_NAME || 'gpt-4',
+      const response = await provider.chatJSON<Partial<AnalysisResult>>({
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: `Document: ${documentName}\nURL: ${documentUrl}\n\nTexte à analyser:\n${extractedText.substring(0, 8000)}` }
         ],
         temperature: 0.3,
-        max_tokens: 1000
+        maxTokens: 1000
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('Réponse OpenAI vide');
-      }
-
-      // Parser le JSON de réponse
-      const analysis = JSON.parse(content);
+      const analysis = response.data;
       
       // Validation et nettoyage
       return {
@@ -118,38 +98,64 @@ Sois précis et factuel.`;
         category: analysis.category || 'Autre',
         subcategory: analysis.subcategory || undefined,
         language: analysis.language || 'unknown',
-        sentiment: ['positive', 'negative', 'neutral'].includes(analysis.sentiment) ? analysis.sentiment : 'neutral',
+        sentiment: analysis.sentiment && ['positive', 'negative', 'neutral'].includes(analysis.sentiment) ? analysis.sentiment : 'neutral',
         confidence: typeof analysis.confidence === 'number' ? analysis.confidence : 0.5,
         topics: Array.isArray(analysis.topics) ? analysis.topics : []
       };
 
     } catch (error) {
-      console.error('❌ Erreur analyse OpenAI:', error);
+      console.error(`❌ Erreur analyse LLM (${provider.kind}):`, error);
       throw new Error(`Erreur analyse: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
     }
   }
 
+  // Classification seule (catégorie + confiance), moins coûteuse qu'une analyse complète
+  static async classifyContent(
+    extractedText: string,
+    documentName: string,
+    dataSourceId?: string | null,
+    harvestResultId?: string | null
+  ): Promise<{ category: string; confidence: number }> {
+    const provider = await LLMProviderService.forTask('classification', dataSourceId, { harvestResultId });
+
+    const response = await provider.chatJSON<{ category?: string; confidence?: number }>({
+      messages: [
+        {
+          role: 'system',
+          content: `Classe le document dans une catégorie parmi : ${DOCUMENT_CATEGORIES.join(', ')}. Réponds en JSON : {"category": "...", "confidence": 0.9}`
+        },
+        { role: 'user', content: `Document: ${documentName}\n\n${extractedText.substring(0, 4000)}` }
+      ],
+      temperature: 0,
+      maxTokens: 100
+    });
+
+    return {
+      category: response.data.category && DOCUMENT_CATEGORIES.includes(response.data.category) ? response.data.category : 'Autre',
+      confidence: typeof response.data.confidence === 'number' ? response.data.confidence : 0.5
+    };
+  }
+
   // Générer des embeddings pour la recherche sémantique
-  static async generateEmbedding(text: string): Promise<EmbeddingResult> {
+  static async generateEmbedding(
+    text: string,
+    dataSourceId?: string | null,
+    harvestResultId?: string | null
+  ): Promise<EmbeddingResult> {
     console.log('🔍 Génération embedding pour texte de', text.length, 'caractères...');
     
-    const client = this.getClient();
+    const provider = await LLMProviderService.forTask('embedding', dataSourceId, { harvestResultId });
     
     try {
-      // Limiter le texte pour l'API OpenAI (max 8191 tokens ≈ 8000 caractères)
+      // Limiter le texte pour l'API (max 8191 tokens ≈ 8000 caractères)
       const truncatedText = text.substring(0, 8000);
       
-      const response = await client.embeddings.create({
-        model: 'text-embedding-ada-002',
-        input: truncatedText
-      });
-
-      const embedding = response.data[0]?.embedding;
-      if (!embedding) {
-        throw new Error('Embedding non généré');
-      }
+      const response = await provider.embed(truncatedText);
+      const embedding = response.embedding;
 
       console.log('✅ Embedding généré:', {
+        provider: response.provider,
+        model: response.model,
         dimensions: embedding.length,
         inputLength: truncatedText.length,
         usage: response.usage
@@ -160,6 +166,7 @@ Sois précis et factuel.`;
 
       return {
         embedding,
+        model: response.model,
         contentHash
       };
 
@@ -222,7 +229,9 @@ Sois précis et factuel.`;
         const analysis = await this.analyzeContent(
           contentAnalysis.extracted_text,
           contentAnalysis.document_name || 'Document',
-          contentAnalysis.url_doc || ''
+          contentAnalysis.url_doc || '',
+          result.data_source_id,
+          result.id
         );
 
         // Sauvegarder la classification
@@ -0,0 +1,231 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+
+type DataSource = Database['public']['Tables']['data_sources']['Row'];
+type HarvestResult = Database['public']['Tables']['harvest_results']['Row'];
+type HarvestLog = Database['public']['Tables']['harvest_logs']['Row'];
+type RobotsPolicy = Database['public']['Tables']['robots_policies']['Row'];
+
+// Forme de metadata.compliance écrite par la fonction harvest-crawler
+interface StoredCompliance {
+  robots_url?: string | null;
+  robots_status?: string | null;
+  robots_fetched_at?: string | null;
+  user_agent?: string;
+  site_crawl_delay_ms?: number | null;
+  configured_delay_ms?: number;
+  effective_delay_ms?: number;
+  disallowed_urls?: { url: string; rule: string }[];
+}
+
+interface StoredMetadata {
+  engine?: string;
+  pages_fetched?: number;
+  delay_between_requests?: number;
+  compliance?: StoredCompliance;
+}
+
+interface RobotsLogDetails {
+  url?: string;
+  rule?: string;
+  origin?: string;
+}
+
+// Règle de délai des moteurs (robots.ts effectiveDelay, crawler.ts), reprise dans chaque rapport.
+// La demande initiale parlait du « minimum » du Crawl-delay et de delay_between_requests : retenu comme
+// délai minimum à respecter, pas comme le plus petit des deux, qui laisserait la configuration écourter
+// le délai exigé par le site.
+export const CRAWL_DELAY_POLICY = {
+  rule: 'max(site_crawl_delay, delay_between_requests)',
+  description: "Le Crawl-delay du site est le délai minimum entre deux requêtes : delay_between_requests " +
+    "ne s'applique que s'il est plus long, et n'écourte jamais le délai demandé par le site."
+} as const;
+
+// Valeur qui a fixé le délai effectif d'un moissonnage
+export type DelaySource = 'site_crawl_delay' | 'configured';
+
+export interface ComplianceRun {
+  harvest_result_id: string;
+  harvested_at: string;
+  engine: string;
+  robots_url: string | null;
+  robots_status: string | null;
+  robots_fetched_at: string | null;
+  user_agent: string | null;
+  site_crawl_delay_ms: number | null;
+  configured_delay_ms: number | null;
+  effective_delay_ms: number | null;
+  delay_source: DelaySource | null;
+  pages_fetched: number | null;
+  disallowed_urls: { url: string; rule: string }[];
+}
+
+export interface ComplianceSkippedUrl {
+  url: string;
+  rule: string;
+  origin: string;
+  logged_at: string;
+}
+
+export interface ComplianceReport {
+  generated_at: string;
+  data_source: { id: string; name: string; url: string; type: string };
+  robots_policy: RobotsPolicy | null;
+  delay_policy: typeof CRAWL_DELAY_POLICY;
+  runs: ComplianceRun[];
+  skipped_urls: ComplianceSkippedUrl[];
+  summary: {
+    runs: number;
+    runs_with_robots_check: number;
+    skipped_urls: number;
+    max_effective_delay_ms: number | null;
+  };
+}
+
+export class CrawlComplianceService {
+  // Construire le rapport de conformité robots.txt d'une source
+  static async buildReport(dataSourceId: string, limit: number = 50): Promise<ComplianceReport> {
+    const { data, error: sourceError } = await supabase
+      .from('data_sources')
+      .select('*')
+      .eq('id', dataSourceId)
+      .single();
+
+    const dataSource = data as DataSource | null;
+    if (sourceError || !dataSource) {
+      throw new Error(`Source introuvable: ${sourceError?.message || dataSourceId}`);
+    }
+
+    const [runs, skippedUrls, robotsPolicy] = await Promise.all([
+      this.getRuns(dataSourceId, limit),
+      this.getSkippedUrls(dataSourceId, limit * 10),
+      this.getRobotsPolicy(dataSource)
+    ]);
+
+    const delays = runs
+      .map(run => run.effective_delay_ms)
+      .filter((delay): delay is number => typeof delay === 'number');
+
+    return {
+      generated_at: new Date().toISOString(),
+      data_source: {
+        id: dataSource.id,
+        name: dataSource.name,
+        url: dataSource.url,
+        type: dataSource.type
+      },
+      robots_policy: robotsPolicy,
+      delay_policy: CRAWL_DELAY_POLICY,
+      runs,
+      skipped_urls: skippedUrls,
+      summary: {
+        runs: runs.length,
+        runs_with_robots_check: runs.filter(run => run.robots_url !== null).length,
+        skipped_urls: skippedUrls.length,
+        max_effective_delay_ms: delays.length > 0 ? Math.max(...delays) : null
+      }
+    };
+  }
+
+  // Télécharger le rapport au format JSON
+  static async downloadReport(dataSourceId: string): Promise<void> {
+    const report = await this.buildReport(dataSourceId);
+
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `conformite_${report.data_source.name}_${report.generated_at.split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  private static async getRuns(dataSourceId: string, limit: number): Promise<ComplianceRun[]> {
+    const { data, error } = await supabase
+      .from('harvest_results')
+      .select('id, harvested_at, metadata')
+      .eq('data_source_id', dataSourceId)
+      .order('harvested_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des moissonnages: ${error.message}`);
+    }
+
+    const results = (data || []) as Pick<HarvestResult, 'id' | 'harvested_at' | 'metadata'>[];
+    return results.map(result => {
+      const metadata = (result.metadata || {}) as StoredMetadata;
+      const compliance = metadata.compliance || {};
+      const configuredDelay = compliance.configured_delay_ms ?? metadata.delay_between_requests ?? null;
+      const siteDelay = compliance.site_crawl_delay_ms ?? null;
+
+      return {
+        harvest_result_id: result.id,
+        harvested_at: result.harvested_at,
+        engine: metadata.engine || 'openai',
+        robots_url: compliance.robots_url ?? null,
+        robots_status: compliance.robots_status ?? null,
+        robots_fetched_at: compliance.robots_fetched_at ?? null,
+        user_agent: compliance.user_agent ?? null,
+        site_crawl_delay_ms: siteDelay,
+        configured_delay_ms: configuredDelay,
+        effective_delay_ms: compliance.effective_delay_ms ?? null,
+        delay_source: this.delaySource(siteDelay, configuredDelay, compliance.effective_delay_ms ?? null),
+        pages_fetched: metadata.pages_fetched ?? null,
+        disallowed_urls: compliance.disallowed_urls || []
+      };
+    });
+  }
+
+  // Le Crawl-delay du site l'emporte s'il est plus long que le délai configuré
+  private static delaySource(siteDelay: number | null, configuredDelay: number | null, effectiveDelay: number | null): DelaySource | null {
+    if (effectiveDelay === null) return null;
+    return siteDelay !== null && siteDelay > (configuredDelay ?? 0) ? 'site_crawl_delay' : 'configured';
+  }
+
+  private static async getSkippedUrls(dataSourceId: string, limit: number): Promise<ComplianceSkippedUrl[]> {
+    const { data, error } = await supabase
+      .from('harvest_logs')
+      .select('details, created_at')
+      .eq('data_source_id', dataSourceId)
+      .eq('level', 'warning')
+      .eq('details->>type', 'robots_disallowed')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des logs robots.txt: ${error.message}`);
+    }
+
+    const logs = (data || []) as Pick<HarvestLog, 'details' | 'created_at'>[];
+    return logs.map(log => {
+      const details = (log.details || {}) as RobotsLogDetails;
+      return {
+        url: details.url || '',
+        rule: details.rule || '',
+        origin: details.origin || 'crawler',
+        logged_at: log.created_at
+      };
+    });
+  }
+
+  private static async getRobotsPolicy(dataSource: DataSource): Promise<RobotsPolicy | null> {
+    let host: string;
+    try {
+      host = new URL(dataSource.url).host.toLowerCase();
+    } catch {
+      return null;
+    }
+
+    const { data } = await supabase
+      .from('robots_policies')
+      .select('*')
+      .eq('host', host)
+      .maybeSingle();
+
+    return data as RobotsPolicy | null;
+  }
+}
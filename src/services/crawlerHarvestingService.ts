@@ -0,0 +1,72 @@
+import { HarvestLogService } from './harvestLogService';
+import type { Database } from '../lib/database.types';
+
+type DataSource = Database['public']['Tables']['data_sources']['Row'];
+
+interface CrawlerHarvestResult {
+  success: boolean;
+  filePath?: string;
+  runId?: string;
+  error?: string;
+  retryCount: number;
+  documentsFound?: number;
+  pagesFetched?: number;
+}
+
+export class CrawlerHarvestingService {
+  private static readonly TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes : un crawl peut être long
+
+  // Lancer le crawler côté serveur (fonction edge harvest-crawler)
+  static async harvestWebsite(dataSource: DataSource): Promise<CrawlerHarvestResult> {
+    console.log('🕷️ DÉBUT CRAWL pour:', dataSource.name);
+
+    try {
+      const crawlerUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/harvest-crawler`;
+
+      const response = await fetch(crawlerUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ data_source_id: dataSource.id }),
+        signal: AbortSignal.timeout(this.TIMEOUT_MS)
+      });
+
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok || !payload.success) {
+        throw new Error(payload.error || `Erreur crawler: ${response.status} ${response.statusText}`);
+      }
+
+      console.log('✅ Crawl terminé:', {
+        documentsFound: payload.documentsFound,
+        pagesFetched: payload.pagesFetched
+      });
+
+      return {
+        success: true,
+        filePath: `database:${payload.harvest_result_id}`,
+        runId: payload.run_id,
+        retryCount: 0,
+        documentsFound: payload.documentsFound,
+        pagesFetched: payload.pagesFetched
+      };
+
+    } catch (error) {
+      console.error('❌ ERREUR CRAWL:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Erreur inconnue';
+
+      await HarvestLogService.logError(
+        `Échec du crawl pour ${dataSource.name}: ${errorMessage}`,
+        dataSource.id
+      ).catch(logError => console.error('❌ Erreur log crawl:', logError));
+
+      return {
+        success: false,
+        error: errorMessage,
+        retryCount: 0
+      };
+    }
+  }
+}
@@ -4,6 +4,8 @@ import { fileTypeFromBuffer } from 'file-type';
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.mjs?url';
 import { HarvestResultService } from './harvestResultService';
 import { ContentAnalysisService } from './contentAnalysisService';
+import { DocumentChangeService, type CachedAnalysis } from './documentChangeService';
+import { DocumentProxyService } from './documentProxyService';
 
 // Configure PDF.js worker using local import for version compatibility
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorker;
@@ -77,6 +79,15 @@ export class DocumentAnalysisService {
       console.log('🔄 FORCE NOUVELLE ANALYSE - Bypass du cache');
     }
     
+    // Contenu inchangé déjà analysé (registre harvested_documents) : ni téléchargement ni appel OpenAI
+    if (!options.forceNewAnalysis) {
+      const registryAnalysis = await DocumentChangeService.getCachedAnalysis(url);
+      if (registryAnalysis) {
+        console.log('✅ ANALYSE RÉUTILISÉE - Contenu inchangé depuis la dernière analyse');
+        return await this.reuseAnalysis(registryAnalysis, harvestResultId);
+      }
+    }
+    
     const startTime = Date.now();
     const { language = 'fra+eng', useOpenAIVision = false, maxPages = 10, includeEmbeddings = false } = options;
 
@@ -88,7 +99,19 @@ export class DocumentAnalysisService {
         progress: 10
       });
 
-      const documentBuffer = await this.downloadDocument(url);
+      // Source du résultat : le proxy y ajoute ses identifiants si elle est authentifiée
+      const sourceResult = harvestResultId ? await HarvestResultService.getResultById(harvestResultId) : null;
+      const documentBuffer = await this.downloadDocument(url, sourceResult?.data_source_id ?? null);
+      const contentHash = await this.hashContent(documentBuffer);
+      
+      // Même contenu déjà analysé sous cette URL (empreinte SHA-256)
+      if (!options.forceNewAnalysis) {
+        const hashAnalysis = await DocumentChangeService.getCachedAnalysis(url, contentHash);
+        if (hashAnalysis) {
+          console.log('✅ ANALYSE RÉUTILISÉE - Empreinte de contenu identique');
+          return await this.reuseAnalysis(hashAnalysis, harvestResultId);
+        }
+      }
       
       // Phase 2: Détection du type
       this.notifyProgress({
@@ -120,7 +143,10 @@ export class DocumentAnalysisService {
       
       // Sauvegarder l'analyse si harvestResultId fourni
       if (harvestResultId && result.success) {
-        const embeddingsGenerated = await this.saveAnalysisResults(harvestResultId, result, filename, options.includeEmbeddings || false);
+        const embeddingsGenerated = await this.saveAnalysisResults(harvestResultId, result, filename, options.includeEmbeddings || false, {
+          url,
+          contentHash
+        });
         result.embeddingsGenerated = embeddingsGenerated;
       }
       
@@ -155,37 +181,49 @@ export class DocumentAnalysisService {
     }
   }
 
-  // Télécharger le document
-  private static async downloadDocument(url: string): Promise<Uint8Array> {
+  // Résultat « cached » à partir d'une analyse du registre, recopiée sur le harvest_result
+  private static async reuseAnalysis(analysis: CachedAnalysis, harvestResultId?: string): Promise<AnalysisResult> {
+    if (harvestResultId) {
+      try {
+        await HarvestResultService.updateResult(harvestResultId, {
+          analysis_summary: analysis.summary,
+          analysis_keywords: analysis.keywords,
+          analysis_completed_at: new Date().toISOString()
+        });
+      } catch (error) {
+        console.error('⚠️ Erreur recopie de l\'analyse (non critique):', error);
+      }
+    }
+    
+    return {
+      success: true,
+      extractedText: '',
+      method: 'cached',
+      confidence: 0.9,
+      language: 'fr',
+      pageCount: 1,
+      processingTime: 0,
+      cachedSummary: analysis.summary,
+      cachedKeywords: analysis.keywords
+    };
+  }
+
+  // Empreinte SHA-256 du contenu téléchargé
+  private static async hashContent(buffer: Uint8Array): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Télécharger le document (interrompu dès que MAX_FILE_SIZE est dépassé)
+  private static async downloadDocument(url: string, dataSourceId: string | null = null): Promise<Uint8Array> {
     console.log('📥 Téléchargement:', url);
     
     // Utiliser le proxy Supabase pour contourner CORS
-    const proxyUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/document-proxy`;
-    
-    const response = await fetch(proxyUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ url }),
+    const buffer = await DocumentProxyService.download(url, {
+      dataSourceId,
+      maxBytes: this.MAX_FILE_SIZE,
       signal: AbortSignal.timeout(30000)
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Erreur proxy: ${response.status} - ${errorData.error || response.statusText}`);
-    }
-
-
-    const arrayBuffer = await response.arrayBuffer();
-    
-    // Vérifier la taille après téléchargement
-    if (arrayBuffer.byteLength > this.MAX_FILE_SIZE) {
-      throw new Error(`Fichier trop volumineux: ${Math.round(arrayBuffer.byteLength / 1024 / 1024)}MB (max: 50MB)`);
-    }
-    
-    const buffer = new Uint8Array(arrayBuffer);
     
     console.log('✅ Document téléchargé:', Math.round(buffer.length / 1024), 'KB');
     return buffer;
@@ -543,7 +581,8 @@ export class DocumentAnalysisService {
     harvestResultId: string, 
     analysisResult: AnalysisResult,
     filename: string,
-    includeEmbeddings: boolean = false
+    includeEmbeddings: boolean = false,
+    source?: { url: string; contentHash: string }
   ): Promise<boolean> {
     try {
       console.log('💾 Sauvegarde analyse pour:', harvestResultId);
@@ -555,12 +594,18 @@ export class DocumentAnalysisService {
       let embeddingData: any = null;
       let embeddingsGenerated = false;
       
+      // Le résultat porte la source, dont la configuration peut imposer un fournisseur LLM
+      const existingResult = await HarvestResultService.getResultById(harvestResultId);
+      const dataSourceId = existingResult?.data_source_id ?? null;
+      
       if (analysisResult.extractedText.length > 50) {
         try {
           const contentAnalysis = await ContentAnalysisService.analyzeContent(
             analysisResult.extractedText,
             filename,
-            '' // URL pas nécessaire pour l'analyse
+            '', // URL pas nécessaire pour l'analyse
+            dataSourceId,
+            harvestResultId
           );
           
           summary = contentAnalysis.summary;
@@ -574,7 +619,7 @@ export class DocumentAnalysisService {
           // Générer les embeddings si demandé
           if (includeEmbeddings) {
             try {
-              embeddingData = await ContentAnalysisService.generateEmbedding(analysisResult.extractedText);
+              embeddingData = await ContentAnalysisService.generateEmbedding(analysisResult.extractedText, dataSourceId, harvestResultId);
               embeddingsGenerated = true;
               console.log('✅ Embeddings générés');
             } catch (embeddingError) {
@@ -598,8 +643,6 @@ export class DocumentAnalysisService {
 
       // Ajouter les embeddings aux métadonnées si générés
       if (embeddingData) {
-        // Récupérer les métadonnées existantes
-        const existingResult = await HarvestResultService.getResultById(harvestResultId);
         const existingMetadata = existingResult?.metadata as any || {};
         
         updateData.metadata = {
@@ -613,6 +656,11 @@ export class DocumentAnalysisService {
       // Mettre à jour le harvest_result
       await HarvestResultService.updateResult(harvestResultId, updateData);
       
+      // Mémoriser l'analyse pour ce contenu : elle sera réutilisée tant qu'il ne change pas
+      if (source && summary) {
+        await DocumentChangeService.saveAnalysis(source.url, source.contentHash, { summary, keywords });
+      }
+      
       // Optionnel : Sauvegarder le texte intégral dans un fichier .txt
       // (pour l'instant, on garde juste en mémoire pour éviter la complexité)
       
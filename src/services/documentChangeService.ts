@@ -0,0 +1,182 @@
+import { supabase, getAccessToken } from '../lib/supabase';
+import type { Database, OpenAIDocument } from '../lib/database.types';
+import type { RunStats } from './harvestRunService';
+import { canonicalizeUrl } from '../lib/canonicalUrl';
+
+export type DocumentChange = Database['public']['Tables']['document_changes']['Row'];
+type HarvestedDocument = Database['public']['Tables']['harvested_documents']['Row'];
+export type ChangeStatus = 'new' | 'updated' | 'unchanged' | 'disappeared';
+
+export const CHANGE_TYPE_LABELS: Record<ChangeStatus, string> = {
+  new: 'Nouveau',
+  updated: 'Modifié',
+  unchanged: 'Inchangé',
+  disappeared: 'Disparu'
+};
+
+export interface ChangeCounts {
+  new: number;
+  updated: number;
+  unchanged: number;
+  disappeared: number;
+}
+
+export interface ChangeDetectionResult {
+  statuses: Record<string, Exclude<ChangeStatus, 'disappeared'>>;
+  counts: ChangeCounts;
+}
+
+export interface CachedAnalysis {
+  summary: string;
+  keywords: string[];
+}
+
+// Fichier archivé d'un document (PhysicalFileManager)
+export interface ArchivedFile {
+  path: string;
+  sha256: string;
+  size: number;
+  mimeType: string;
+}
+
+export class DocumentChangeService {
+  // Détection des changements via la fonction edge harvest-changes (exécutions navigateur)
+  static async detectChanges(
+    dataSourceId: string,
+    runId: string | null,
+    documents: OpenAIDocument[]
+  ): Promise<ChangeDetectionResult> {
+    const changesUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/harvest-changes`;
+
+    const response = await fetch(changesUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${await getAccessToken()}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ data_source_id: dataSourceId, run_id: runId, documents })
+    });
+
+    const payload = await response.json().catch(() => ({}));
+
+    if (!response.ok || !payload.success) {
+      throw new Error(payload.error || `Erreur détection des changements: ${response.status} ${response.statusText}`);
+    }
+
+    console.log('🔎 Changements détectés:', payload.counts);
+    return { statuses: payload.statuses, counts: payload.counts };
+  }
+
+  // Statistiques harvest_runs correspondantes (miroir de _shared/changeDetection.ts)
+  static toRunStats(counts: ChangeCounts): RunStats {
+    return {
+      documents_new: counts.new,
+      documents_changed: counts.updated,
+      documents_unchanged: counts.unchanged,
+      documents_removed: counts.disappeared
+    };
+  }
+
+  // Annoter les documents du résultat avec leur statut de changement
+  static annotateDocuments(documents: OpenAIDocument[], statuses: ChangeDetectionResult['statuses']): OpenAIDocument[] {
+    return documents.map(doc => statuses[doc.url_doc] ? { ...doc, change_status: statuses[doc.url_doc] } : doc);
+  }
+
+  // Changements détectés pour une source depuis une date (vue « ce qui a changé »)
+  static async getChangesSince(dataSourceId: string, since: Date): Promise<DocumentChange[]> {
+    const { data, error } = await supabase
+      .from('document_changes')
+      .select('*')
+      .eq('data_source_id', dataSourceId)
+      .gte('detected_at', since.toISOString())
+      .order('detected_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des changements: ${error.message}`);
+    }
+
+    return (data || []) as DocumentChange[];
+  }
+
+  // Analyse déjà faite sur le contenu actuel du document (toutes variantes de l'URL) : aucune nouvelle dépense
+  static async getCachedAnalysis(urlDoc: string, contentHash?: string): Promise<CachedAnalysis | null> {
+    const { data, error } = await supabase
+      .from('harvested_documents')
+      .select('*')
+      .eq('canonical_url', canonicalizeUrl(urlDoc))
+      .not('analysis_completed_at', 'is', null);
+
+    if (error) {
+      console.error('❌ Erreur lecture du cache d\'analyse:', error.message);
+      return null;
+    }
+
+    const match = ((data || []) as HarvestedDocument[]).find(row =>
+      row.analysis_content_hash && row.analysis_content_hash === (contentHash ?? row.content_hash)
+    );
+
+    if (!match) return null;
+
+    return {
+      summary: match.analysis_summary || '',
+      keywords: (match.analysis_keywords as string[] | null) || []
+    };
+  }
+
+  // Mémoriser l'analyse pour le contenu analysé, sur toutes les sources qui référencent l'URL
+  static async saveAnalysis(urlDoc: string, contentHash: string, analysis: CachedAnalysis): Promise<void> {
+    const { error } = await supabase
+      .from('harvested_documents')
+      .update({
+        analysis_summary: analysis.summary,
+        analysis_keywords: analysis.keywords,
+        analysis_content_hash: contentHash,
+        analysis_completed_at: new Date().toISOString()
+      })
+      .eq('canonical_url', canonicalizeUrl(urlDoc));
+
+    if (error) {
+      console.error('❌ Erreur sauvegarde du cache d\'analyse:', error.message);
+    }
+  }
+
+  // Fichiers déjà archivés pour une source, par URL canonique (documents inchangés non re-téléchargés)
+  static async getArchivedFiles(dataSourceId: string): Promise<Map<string, ArchivedFile>> {
+    const { data, error } = await supabase
+      .from('harvested_documents')
+      .select('canonical_url, archive_path, archive_sha256, archive_size, archive_mime_type')
+      .eq('data_source_id', dataSourceId)
+      .not('archive_path', 'is', null);
+
+    if (error) {
+      console.error('❌ Erreur lecture des fichiers archivés:', error.message);
+      return new Map();
+    }
+
+    const rows = (data || []) as Pick<HarvestedDocument, 'canonical_url' | 'archive_path' | 'archive_sha256' | 'archive_size' | 'archive_mime_type'>[];
+    return new Map(rows.map(row => [row.canonical_url, {
+      path: row.archive_path!,
+      sha256: row.archive_sha256 || '',
+      size: row.archive_size ?? 0,
+      mimeType: row.archive_mime_type || 'application/octet-stream'
+    }]));
+  }
+
+  static async recordArchivedFile(dataSourceId: string, urlDoc: string, file: ArchivedFile): Promise<void> {
+    const { error } = await supabase
+      .from('harvested_documents')
+      .update({
+        archive_path: file.path,
+        archive_sha256: file.sha256,
+        archive_size: file.size,
+        archive_mime_type: file.mimeType,
+        archived_at: new Date().toISOString()
+      })
+      .eq('data_source_id', dataSourceId)
+      .eq('canonical_url', canonicalizeUrl(urlDoc));
+
+    if (error) {
+      console.error('❌ Erreur enregistrement du fichier archivé:', error.message);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { getAccessToken } from '../lib/supabase';
+
+// Accès aux documents des sites via la fonction edge document-proxy (CORS, robots.txt, identifiants)
+
+export interface DocumentMetadata {
+  url: string;
+  canonical_url: string;
+  size: number | null;
+  content_type: string;
+  etag: string | null;
+  last_modified: string | null;
+  accept_ranges: boolean;
+  // Copie du cache de documents (Storage, adressée par SHA-256)
+  cached?: boolean;
+  sha256?: string;
+  fetched_at?: string;
+}
+
+export interface DownloadedDocument {
+  bytes: Uint8Array;
+  contentType: string;
+}
+
+export interface DownloadOptions {
+  dataSourceId?: string | null;
+  maxBytes?: number;
+  signal?: AbortSignal;
+}
+
+export class DocumentProxyService {
+  static readonly PROXY_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/document-proxy`;
+
+  // Jeton de l'utilisateur : les identifiants d'une source ne sont utilisés que pour un compte connecté
+  static async authHeaders(): Promise<Record<string, string>> {
+    return { 'Authorization': `Bearer ${await getAccessToken()}` };
+  }
+
+  // URL GET du document : lue par plages (Range) par le lecteur PDF
+  static documentUrl(url: string, dataSourceId?: string | null): string {
+    const params = new URLSearchParams({ url });
+    if (dataSourceId) params.set('data_source_id', dataSourceId);
+    return `${this.PROXY_URL}?${params.toString()}`;
+  }
+
+  private static async readError(response: Response): Promise<Error> {
+    const payload = await response.json().catch(() => ({}));
+    return new Error(`Erreur proxy: ${response.status} - ${payload.error || response.statusText}`);
+  }
+
+  // Taille, type, ETag et Last-Modified sans télécharger le document
+  static async getMetadata(url: string, dataSourceId?: string | null): Promise<DocumentMetadata> {
+    const response = await fetch(this.PROXY_URL, {
+      method: 'POST',
+      headers: { ...await this.authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, data_source_id: dataSourceId, mode: 'metadata' })
+    });
+
+    const payload = await response.json().catch(() => ({}));
+
+    if (!response.ok || !payload.success) {
+      throw new Error(`Erreur proxy: ${response.status} - ${payload.error || response.statusText}`);
+    }
+
+    return payload as DocumentMetadata;
+  }
+
+  static async download(url: string, options: DownloadOptions = {}): Promise<Uint8Array> {
+    return (await this.fetchDocument(url, options)).bytes;
+  }
+
+  // Téléchargement lu au fil de l'eau, interrompu dès que maxBytes est dépassé
+  // (le proxy applique la même limite et refuse d'emblée une taille annoncée trop grande)
+  static async fetchDocument(url: string, options: DownloadOptions = {}): Promise<DownloadedDocument> {
+    const { dataSourceId = null, maxBytes, signal } = options;
+    const controller = new AbortController();
+    signal?.addEventListener('abort', () => controller.abort(signal.reason));
+
+    const response = await fetch(this.PROXY_URL, {
+      method: 'POST',
+      headers: { ...await this.authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, data_source_id: dataSourceId, max_bytes: maxBytes }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      throw await this.readError(response);
+    }
+
+    const tooLarge = (size: number) => new Error(
+      `Fichier trop volumineux: ${Math.round(size / 1024 / 1024)}MB (max: ${Math.round(maxBytes! / 1024 / 1024)}MB)`
+    );
+
+    const announced = Number(response.headers.get('content-length'));
+    if (maxBytes && announced > maxBytes) {
+      controller.abort();
+      throw tooLarge(announced);
+    }
+
+    const contentType = response.headers.get('content-type') || 'application/octet-stream';
+    if (!response.body) {
+      return { bytes: new Uint8Array(await response.arrayBuffer()), contentType };
+    }
+
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      received += value.byteLength;
+      if (maxBytes && received > maxBytes) {
+        controller.abort();
+        throw tooLarge(received);
+      }
+      chunks.push(value);
+    }
+
+    const buffer = new Uint8Array(received);
+    let offset = 0;
+    for (const chunk of chunks) {
+      buffer.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return { bytes: buffer, contentType };
+  }
+}
@@ -23,6 +23,7 @@ interface ImportResult {
   obstaclesUpdated: boolean;
   recommandationsUpdated: boolean;
   logsImported: number;
+  documentsSkipped: number;
   errors: string[];
   warnings: string[];
 }
@@ -57,6 +58,7 @@ export class HarvestDataImporter {
       obstaclesUpdated: false,
       recommandationsUpdated: false,
       logsImported: 0,
+      documentsSkipped: 0,
       errors: [],
       warnings: []
     };
@@ -142,6 +144,13 @@ export class HarvestDataImporter {
             continue;
           }
           
+          // Moissonnage incrémental : un document inchangé a déjà été importé et analysé
+          if (doc.change_status === 'unchanged') {
+            console.log(`⏭️ Document ${i + 1} inchangé depuis la dernière exécution, non réimporté`);
+            result.documentsSkipped++;
+            continue;
+          }
+          
           // Créer une entrée dans harvest_results pour ce document
           await HarvestResultService.createResult({
             data_source_id: dataSource.id,
@@ -184,7 +193,7 @@ export class HarvestDataImporter {
       }
       
       result.documentsImported = documentsImported;
-      console.log(`✅ Documents importés: ${documentsImported}/${parsedData.documents.length}`);
+      console.log(`✅ Documents importés: ${documentsImported}/${parsedData.documents.length} (${result.documentsSkipped} inchangé(s) ignoré(s))`);
 
       // Phase 3: Mise à jour du site (obstacles et recommandations)
       console.log('🔄 Phase 3: Mise à jour du site...');
@@ -270,6 +279,7 @@ export class HarvestDataImporter {
           details: {
             original_harvest_id: harvestResult.id,
             documents_imported: documentsImported,
+            documents_skipped: result.documentsSkipped,
             obstacles_updated: result.obstaclesUpdated,
             recommandations_updated: result.recommandationsUpdated,
             logs_imported: logsImported,
@@ -293,7 +303,7 @@ export class HarvestDataImporter {
         warnings: result.warnings
       });
 
-      result.success = result.errors.length === 0 || documentsImported > 0; // Succès si au moins un document importé
+      result.success = result.errors.length === 0 || documentsImported > 0 || result.documentsSkipped > 0; // Succès si au moins un document importé ou déjà à jour
       return result;
 
     } catch (error) {
@@ -16,6 +16,7 @@ interface ParsedDocument {
   notes: string;
   obstacles: string;
   source_page?: string;
+  change_status?: 'new' | 'updated' | 'unchanged';
 }
 
 interface ParsedHarvestData {
@@ -205,7 +206,8 @@ export class HarvestDataParser {
       pattern_verified: Boolean(doc.pattern_verified),
       notes: doc.notes || '',
       obstacles: doc.obstacles || null,
-      source_page: doc.source_page || ''
+      source_page: doc.source_page || '',
+      change_status: doc.change_status
     };
     
     return parsedDoc;
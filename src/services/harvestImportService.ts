@@ -1,6 +1,10 @@
 import { JsonImportValidator } from './jsonImportValidator';
 import { HarvestResultService } from './harvestResultService';
 import { HarvestLogService } from './harvestLogService';
+import { HarvestRunService, type RunStats } from './harvestRunService';
+import { DocumentChangeService, type ArchivedFile, type ChangeDetectionResult } from './documentChangeService';
+import { PhysicalFileManager } from './physicalFileManager';
+import { canonicalizeUrl } from '../lib/canonicalUrl';
 import type { Database } from '../lib/database.types';
 
 type DataSource = Database['public']['Tables']['data_sources']['Row'];
@@ -57,6 +61,7 @@ export class HarvestImportService {
       localPath: '',
       errors: []
     };
+    let runId: string | null = null;
 
     try {
       console.log('📝 Parsing JSON...');
@@ -98,6 +103,22 @@ export class HarvestImportService {
         result.errors.push('Aucun document valide trouvé dans le fichier JSON');
         return result;
       }
+
+      // Chaque importation est une exécution à part entière (trigger import)
+      const run = await HarvestRunService.startRun({
+        dataSourceId: dataSource.id,
+        engine: 'import',
+        trigger: 'import'
+      });
+      runId = run.id;
+
+      // Moissonnage incrémental : les documents inchangés ne sont pas re-téléchargés
+      let changes: ChangeDetectionResult | null = null;
+      try {
+        changes = await DocumentChangeService.detectChanges(dataSource.id, runId, documents);
+      } catch (changeError) {
+        console.warn('⚠️ Détection des changements impossible, tous les documents seront traités:', changeError);
+      }
       
       // Phase 2: Création des répertoires
       console.log('📁 Création répertoires...');
@@ -111,11 +132,11 @@ export class HarvestImportService {
         warnings: validation.warnings.map(w => w.message)
       });
 
-      let localPath: string;
-      // Simplifier la création de répertoire
-      localPath = `/Rep_misania/${dataSource.name.replace(/[^a-zA-Z0-9]/g, '_')}`;
+      // Répertoire du site dans l'archive (bucket Storage par défaut)
+      const localPath = await PhysicalFileManager.createDirectoryStructure(dataSource.name);
       console.log('📁 Répertoire cible:', localPath);
-      result.localPath = localPath;
+      result.localPath = `${PhysicalFileManager.storageName}/${localPath}`;
+      const archivedFiles = await DocumentChangeService.getArchivedFiles(dataSource.id);
 
       // Phase 3: Téléchargement des documents
       console.log('📥 DÉBUT TÉLÉCHARGEMENTS - Traitement de', documents.length, 'documents');
@@ -186,50 +207,42 @@ export class HarvestImportService {
         
         console.log('- Fichier cible:', filename);
 
-        // Simuler le téléchargement (WebContainer ne peut pas télécharger de vrais fichiers)
-        console.log('📥 Simulation téléchargement...');
-        
-        // Simuler une requête pour vérifier l'accessibilité
-        let downloadResult: any;
-        try {
-          // Test rapide de connectivité (HEAD request)
-          const testResponse = await fetch(doc.url_doc, { 
-            method: 'HEAD',
-            signal: AbortSignal.timeout(5000)
+        const changeStatus = changes?.statuses[doc.url_doc];
+        const archived = archivedFiles.get(canonicalizeUrl(doc.url_doc));
+        if (changeStatus === 'unchanged' && archived) {
+          console.log('⏭️ Document inchangé depuis la dernière exécution, fichier archivé réutilisé:', archived.path);
+          processedDocuments.push({
+            ...doc,
+            ...this.archiveFields(archived),
+            filename: archived.path.split('/').pop() || filename,
+            download_success: true,
+            change_status: changeStatus
           });
-          
-          if (testResponse.ok) {
-            console.log('✅ URL accessible');
-            downloadResult = {
-              success: true,
-              filename: filename,
-              localPath: `${localPath}/${filename}`
-            };
-            successCount++;
-          } else {
-            console.log('❌ URL non accessible:', testResponse.status);
-            downloadResult = {
-              success: false,
-              filename: filename,
-              error: `HTTP ${testResponse.status}: ${testResponse.statusText}`
-            };
-            errorCount++;
-          }
-        } catch (fetchError) {
-          console.log('❌ Erreur réseau:', fetchError);
-          downloadResult = {
-            success: false,
-            filename,
-            error: fetchError instanceof Error ? fetchError.message : 'Erreur réseau'
-          };
+          successCount++;
+          continue;
+        }
+
+        // Téléchargement réel via document-proxy, puis archivage dans le répertoire du site
+        const downloadResult = await PhysicalFileManager.downloadDocument(doc.url_doc, filename, localPath, dataSource.id);
+        const archivedFile: ArchivedFile | null = downloadResult.success ? {
+          path: downloadResult.localPath!,
+          sha256: downloadResult.checksum!,
+          size: downloadResult.byteSize!,
+          mimeType: downloadResult.mimeType!
+        } : null;
+        if (archivedFile) {
+          successCount++;
+          await DocumentChangeService.recordArchivedFile(dataSource.id, doc.url_doc, archivedFile);
+        } else {
           errorCount++;
         }
 
         // Préparer les métadonnées du document
         const processedDoc = {
           ...doc,
+          ...(changeStatus ? { change_status: changeStatus } : {}),
+          ...(archivedFile ? this.archiveFields(archivedFile) : { local_path: '' }),
           filename: downloadResult.filename,
-          local_path: downloadResult.localPath || '',
           download_success: downloadResult.success,
           obstacles: downloadResult.success ? (doc.obstacles || '') : 
             `${doc.obstacles || ''}${doc.obstacles ? '; ' : ''}Échec téléchargement: ${downloadResult.error}`
@@ -269,16 +282,18 @@ export class HarvestImportService {
       const harvestData = {
         data_source_id: dataSource.id,
         config_id: config?.id || null,
+        run_id: runId,
         data: { documents: processedDocuments },
         metadata: {
           import_timestamp: new Date().toISOString(),
           total_documents: documents.length,
           successful_downloads: successCount,
           failed_downloads: errorCount,
-          local_directory: localPath
+          local_directory: result.localPath,
+          changes: changes?.counts ?? null
         },
         status: 'success',
-        local_path: localPath
+        local_path: result.localPath
       };
       
       console.log('📋 Données à insérer:', JSON.stringify(harvestData, null, 2));
@@ -293,6 +308,7 @@ export class HarvestImportService {
         try {
           await HarvestLogService.createLog({
             data_source_id: dataSource.id,
+            run_id: runId,
             level: log.level || 'info',
             message: log.message || 'Log importé',
             details: {
@@ -341,13 +357,14 @@ export class HarvestImportService {
       try {
         await HarvestLogService.createLog({
           data_source_id: dataSource.id,
+          run_id: runId,
           level: 'info',
           message: `Importation JSON réussie: ${successCount} documents importés, ${errorCount} échecs`,
           details: {
             total_documents: documents.length,
             successful_downloads: successCount,
             failed_downloads: errorCount,
-            local_path: localPath,
+            local_path: result.localPath,
             obstacles_globaux_count: obstacles_globaux.length,
             has_recommandations: !!recommandations
           }
@@ -356,6 +373,13 @@ export class HarvestImportService {
         console.error('❌ Erreur log final (non critique):', error);
       }
 
+      const changeStats: RunStats = changes ? DocumentChangeService.toRunStats(changes.counts) : {};
+      await HarvestRunService.finishRun(runId, 'success', {
+        documents_found: documents.length,
+        ...changeStats,
+        error_count: errorCount
+      });
+
       // Phase 5: Terminé
       console.log('🎉 IMPORTATION TERMINÉE AVEC SUCCÈS');
       this.notifyProgress({
@@ -377,6 +401,10 @@ export class HarvestImportService {
       const errorMessage = error instanceof Error ? error.message : 'Erreur inconnue';
       result.errors.push(errorMessage);
 
+      if (runId) {
+        await HarvestRunService.finishRun(runId, 'failed', { error_count: 1 }, errorMessage);
+      }
+
       this.notifyProgress({
         phase: 'error',
         message: `Erreur lors de l'importation: ${errorMessage}`,
@@ -396,6 +424,17 @@ export class HarvestImportService {
     return JsonImportValidator.validateImportJson(jsonContent);
   }
 
+  // Champs d'archive enregistrés avec le document (chemin réel, empreinte, taille, type)
+  private static archiveFields(file: ArchivedFile) {
+    return {
+      local_path: file.path,
+      storage_path: `${PhysicalFileManager.storageName}/${file.path}`,
+      checksum_sha256: file.sha256,
+      byte_size: file.size,
+      mime_type: file.mimeType
+    };
+  }
+
   // Méthode utilitaire pour extraire le nom de fichier depuis une URL
   private static extractFilenameFromUrl(url: string, fallbackName?: string): string {
     try {
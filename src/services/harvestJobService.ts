@@ -0,0 +1,128 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+
+export type HarvestJob = Database['public']['Tables']['harvest_jobs']['Row'];
+export type HarvestJobStatus = 'queued' | 'running' | 'paused' | 'cancelled' | 'failed' | 'done';
+
+export const ACTIVE_JOB_STATUSES: HarvestJobStatus[] = ['queued', 'running', 'paused'];
+
+export const JOB_STATUS_LABELS: Record<HarvestJobStatus, string> = {
+  queued: 'En file',
+  running: 'En cours',
+  paused: 'En pause',
+  cancelled: 'Annulé',
+  failed: 'Échoué',
+  done: 'Terminé'
+};
+
+export interface EnqueueResult {
+  queued: string[];
+  skipped: { data_source_id: string; reason: string }[];
+}
+
+export class HarvestJobService {
+  // Appel de la fonction edge harvest-jobs (enqueue / cancel / pause / resume)
+  private static async callJobsEndpoint<T>(body: Record<string, unknown>): Promise<T> {
+    const jobsUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/harvest-jobs`;
+
+    const response = await fetch(jobsUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body)
+    });
+
+    const payload = await response.json().catch(() => ({}));
+
+    if (!response.ok || !payload.success) {
+      throw new Error(payload.error || `Erreur file de moissonnage: ${response.status} ${response.statusText}`);
+    }
+
+    return payload as T;
+  }
+
+  // Mettre des sources en file de moissonnage
+  static async enqueue(dataSourceIds: string[], trigger: 'manual' | 'schedule' = 'manual'): Promise<EnqueueResult> {
+    console.log('📥 Mise en file:', dataSourceIds.length, 'source(s)');
+    return this.callJobsEndpoint<EnqueueResult>({ action: 'enqueue', data_source_ids: dataSourceIds, trigger });
+  }
+
+  static async cancel(jobId: string): Promise<HarvestJob> {
+    const { job } = await this.callJobsEndpoint<{ job: HarvestJob }>({ action: 'cancel', job_id: jobId });
+    return job;
+  }
+
+  static async pause(jobId: string): Promise<HarvestJob> {
+    const { job } = await this.callJobsEndpoint<{ job: HarvestJob }>({ action: 'pause', job_id: jobId });
+    return job;
+  }
+
+  static async resume(jobId: string): Promise<HarvestJob> {
+    const { job } = await this.callJobsEndpoint<{ job: HarvestJob }>({ action: 'resume', job_id: jobId });
+    return job;
+  }
+
+  // Jobs actifs (queued / running / paused), tous sites confondus
+  static async getActiveJobs(): Promise<HarvestJob[]> {
+    const { data, error } = await supabase
+      .from('harvest_jobs')
+      .select('*')
+      .in('status', ACTIVE_JOB_STATUSES)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des jobs: ${error.message}`);
+    }
+
+    return (data || []) as HarvestJob[];
+  }
+
+  // Jobs d'un lot mis en file ensemble (suivi d'un moissonnage multiple)
+  static async getJobsByIds(jobIds: string[]): Promise<HarvestJob[]> {
+    if (jobIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('harvest_jobs')
+      .select('*')
+      .in('id', jobIds);
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des jobs: ${error.message}`);
+    }
+
+    return (data || []) as HarvestJob[];
+  }
+
+  // Historique des jobs d'une source
+  static async getJobsByDataSource(dataSourceId: string, limit: number = 20): Promise<HarvestJob[]> {
+    const { data, error } = await supabase
+      .from('harvest_jobs')
+      .select('*')
+      .eq('data_source_id', dataSourceId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des jobs: ${error.message}`);
+    }
+
+    return (data || []) as HarvestJob[];
+  }
+
+  // Jobs mis en pause par le disjoncteur LLM, remis en file automatiquement à sa fermeture
+  static async countCircuitPausedJobs(): Promise<number> {
+    const { count, error } = await supabase
+      .from('harvest_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'paused')
+      .eq('pause_reason', 'circuit_breaker');
+
+    if (error) {
+      throw new Error(`Erreur lors du comptage des jobs en pause: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+}
@@ -61,34 +61,65 @@ export class HarvestLogService {
     return data;
   }
 
-  // Méthodes utilitaires pour créer des logs
-  static async logInfo(message: string, dataSourceId?: string, details?: any): Promise<void> {
+  // Créer plusieurs logs en une seule requête
+  static async createLogs(logs: HarvestLogInsert[]): Promise<void> {
+    if (logs.length === 0) return;
+
+    const { error } = await supabase
+      .from('harvest_logs')
+      .insert(logs);
+
+    if (error) {
+      throw new Error(`Erreur lors de la création des logs: ${error.message}`);
+    }
+  }
+
+  // Méthodes utilitaires pour créer des logs (runId : exécution harvest_runs en cours)
+  static async logInfo(message: string, dataSourceId?: string, details?: any, runId?: string | null): Promise<void> {
     await this.createLog({
       level: 'info',
       message,
       data_source_id: dataSourceId,
+      run_id: runId,
       details: details || {}
     });
   }
 
-  static async logWarning(message: string, dataSourceId?: string, details?: any): Promise<void> {
+  static async logWarning(message: string, dataSourceId?: string, details?: any, runId?: string | null): Promise<void> {
     await this.createLog({
       level: 'warning',
       message,
       data_source_id: dataSourceId,
+      run_id: runId,
       details: details || {}
     });
   }
 
-  static async logError(message: string, dataSourceId?: string, details?: any): Promise<void> {
+  static async logError(message: string, dataSourceId?: string, details?: any, runId?: string | null): Promise<void> {
     await this.createLog({
       level: 'error',
       message,
       data_source_id: dataSourceId,
+      run_id: runId,
       details: details || {}
     });
   }
 
+  // Récupérer les logs d'une exécution, dans l'ordre chronologique
+  static async getLogsByRun(runId: string): Promise<HarvestLog[]> {
+    const { data, error } = await supabase
+      .from('harvest_logs')
+      .select('*')
+      .eq('run_id', runId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des logs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   // Récupérer les logs/alertes pour une source spécifique
   static async getLogsByDataSource(dataSourceId: string, limit: number = 50): Promise<HarvestLog[]> {
     const { data, error } = await supabase
@@ -68,6 +68,22 @@ export class HarvestResultService {
     return data;
   }
 
+  // Récupérer le résultat produit par une exécution (harvest_runs)
+  static async getResultByRun(runId: string): Promise<HarvestResult | null> {
+    const { data, error } = await supabase
+      .from('harvest_results')
+      .select('*')
+      .eq('run_id', runId)
+      .order('harvested_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération du résultat: ${error.message}`);
+    }
+
+    return data?.[0] ?? null;
+  }
+
   // Créer un nouveau résultat
   static async createResult(result: HarvestResultInsert): Promise<HarvestResult> {
     console.log('💾 HarvestResultService.createResult appelé');
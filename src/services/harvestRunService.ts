@@ -0,0 +1,127 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+
+export type HarvestRun = Database['public']['Tables']['harvest_runs']['Row'];
+export type RunTrigger = 'manual' | 'scheduled' | 'import';
+export type RunStatus = 'running' | 'success' | 'failed' | 'cancelled';
+
+export interface RunStats {
+  pages_fetched?: number;
+  documents_found?: number;
+  documents_new?: number;
+  documents_changed?: number;
+  documents_unchanged?: number;
+  documents_removed?: number;
+  error_count?: number;
+  llm_cost?: number;
+  retry_count?: number;
+}
+
+export const RUN_TRIGGER_LABELS: Record<RunTrigger, string> = {
+  manual: 'Manuel',
+  scheduled: 'Planifié',
+  import: 'Import'
+};
+
+export const RUN_STATUS_LABELS: Record<RunStatus, string> = {
+  running: 'En cours',
+  success: 'Réussi',
+  failed: 'Échoué',
+  cancelled: 'Interrompu'
+};
+
+export class HarvestRunService {
+  // harvest_jobs.trigger (manual / schedule) vers harvest_runs.trigger
+  static triggerForJob(jobTrigger: string): RunTrigger {
+    return jobTrigger === 'schedule' ? 'scheduled' : 'manual';
+  }
+
+  // Ouvrir une exécution avec une copie de la dernière configuration de la source
+  static async startRun(params: {
+    dataSourceId: string;
+    engine: string;
+    trigger: RunTrigger;
+    jobId?: string | null;
+  }): Promise<HarvestRun> {
+    const { data: configs } = await supabase
+      .from('harvesting_configs')
+      .select('*')
+      .eq('data_source_id', params.dataSourceId)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    const { data, error } = await supabase
+      .from('harvest_runs')
+      .insert({
+        data_source_id: params.dataSourceId,
+        job_id: params.jobId ?? null,
+        trigger: params.trigger,
+        engine: params.engine,
+        config_snapshot: configs?.[0] ?? {}
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Erreur lors de la création de l'exécution: ${error.message}`);
+    }
+
+    console.log('🏁 Exécution ouverte:', (data as HarvestRun).id);
+    return data as HarvestRun;
+  }
+
+  // Clôturer une exécution ; un échec d'écriture ne doit pas masquer le résultat du moissonnage
+  static async finishRun(
+    runId: string,
+    status: Exclude<RunStatus, 'running'>,
+    stats: RunStats = {},
+    errorMessage?: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('harvest_runs')
+      .update({
+        status,
+        finished_at: new Date().toISOString(),
+        ...stats,
+        error_message: errorMessage ?? null
+      })
+      .eq('id', runId);
+
+    if (error) {
+      console.error('❌ Erreur clôture de l\'exécution:', runId, error.message);
+    }
+  }
+
+  // Exécutions produites par des jobs (une par réservation du job)
+  static async getRunsByJobIds(jobIds: string[]): Promise<HarvestRun[]> {
+    if (jobIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('harvest_runs')
+      .select('*')
+      .in('job_id', jobIds)
+      .order('started_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des exécutions: ${error.message}`);
+    }
+
+    return (data || []) as HarvestRun[];
+  }
+
+  // Historique des exécutions d'une source, la plus récente en premier
+  static async getRunsByDataSource(dataSourceId: string, limit: number = 50): Promise<HarvestRun[]> {
+    const { data, error } = await supabase
+      .from('harvest_runs')
+      .select('*')
+      .eq('data_source_id', dataSourceId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des exécutions: ${error.message}`);
+    }
+
+    return (data || []) as HarvestRun[];
+  }
+}
@@ -0,0 +1,153 @@
+import { supabase } from '../lib/supabase';
+import { HarvestJobService } from './harvestJobService';
+import { HarvestLogService } from './harvestLogService';
+import type { Database } from '../lib/database.types';
+
+type DataSource = Database['public']['Tables']['data_sources']['Row'];
+type HarvestingConfig = Database['public']['Tables']['harvesting_configs']['Row'];
+
+type DueConfig = HarvestingConfig & { data_sources: DataSource | null };
+
+export interface ScheduledRun {
+  dataSource: DataSource;
+  queued: boolean;
+  reason?: string;
+}
+
+// Planificateur local : équivalent navigateur de la fonction edge harvest-scheduler (pg_cron)
+export class HarvestSchedulerService {
+  private static readonly CHECK_INTERVAL_MS = 60 * 1000; // Vérification chaque minute
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static running = false;
+
+  // Miroir de public.compute_next_run_at
+  static computeNextRunAt(frequency: string, from: Date = new Date()): string | null {
+    const next = new Date(from);
+    switch (frequency) {
+      case 'daily':
+        next.setDate(next.getDate() + 1);
+        break;
+      case 'weekly':
+        next.setDate(next.getDate() + 7);
+        break;
+      case 'monthly':
+        next.setMonth(next.getMonth() + 1);
+        break;
+      default:
+        return null;
+    }
+    return next.toISOString();
+  }
+
+  static isLocalSchedulerEnabled(): boolean {
+    return import.meta.env.VITE_LOCAL_SCHEDULER === 'true';
+  }
+
+  // Configurations échues dont la source est active (inactive / suspended ignorées) ;
+  // seule la configuration la plus récente de chaque source est planifiée (latest_harvesting_configs)
+  static async getDueConfigs(now: Date = new Date()): Promise<DueConfig[]> {
+    const { data, error } = await supabase
+      .rpc('latest_harvesting_configs')
+      .neq('frequency', 'manual')
+      .lte('next_run_at', now.toISOString())
+      .eq('data_sources.status', 'active')
+      .select('*, data_sources!inner (*)')
+      .order('next_run_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des moissonnages planifiés: ${error.message}`);
+    }
+
+    return (data || []) as unknown as DueConfig[];
+  }
+
+  // Réserver un créneau : false si un autre planificateur l'a déjà pris
+  static async claim(config: HarvestingConfig, now: Date = new Date()): Promise<boolean> {
+    let query = supabase
+      .from('harvesting_configs')
+      .update({
+        last_run_at: now.toISOString(),
+        next_run_at: this.computeNextRunAt(config.frequency, now)
+      })
+      .eq('id', config.id);
+
+    query = config.next_run_at ? query.eq('next_run_at', config.next_run_at) : query.is('next_run_at', null);
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      throw new Error(`Erreur lors de la réservation du moissonnage planifié: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // Mettre en file (harvest_jobs) tous les moissonnages échus
+  static async queueDueHarvests(): Promise<ScheduledRun[]> {
+    if (this.running) {
+      console.log('⏳ Planificateur déjà en cours, vérification ignorée');
+      return [];
+    }
+
+    this.running = true;
+    const runs: ScheduledRun[] = [];
+
+    try {
+      const dueConfigs = await this.getDueConfigs();
+      if (dueConfigs.length > 0) {
+        console.log('⏰ Moissonnages planifiés échus:', dueConfigs.length);
+      }
+
+      for (const config of dueConfigs) {
+        const dataSource = config.data_sources;
+        if (!dataSource) continue;
+
+        if (!(await this.claim(config))) {
+          console.log('↪️ Créneau déjà pris par un autre planificateur:', dataSource.name);
+          continue;
+        }
+
+        const { queued, skipped } = await HarvestJobService.enqueue([dataSource.id], 'schedule');
+        const reason = skipped[0]?.reason;
+
+        await HarvestLogService.logInfo(
+          queued.length > 0
+            ? `Moissonnage planifié (${config.frequency}) mis en file pour ${dataSource.name}`
+            : `Moissonnage planifié (${config.frequency}) ignoré pour ${dataSource.name}: ${reason}`,
+          dataSource.id,
+          { scheduled_for: config.next_run_at, scheduler: 'local' }
+        );
+
+        runs.push({ dataSource, queued: queued.length > 0, reason });
+      }
+    } catch (error) {
+      console.error('❌ Erreur planificateur local:', error);
+    } finally {
+      this.running = false;
+    }
+
+    return runs;
+  }
+
+  // Démarrer la boucle locale (sans effet si elle tourne déjà)
+  static start(onRun?: (runs: ScheduledRun[]) => void): void {
+    if (this.timer) return;
+
+    console.log('⏰ Planificateur local démarré');
+    const tick = async () => {
+      const runs = await this.queueDueHarvests();
+      if (runs.length > 0) onRun?.(runs);
+    };
+
+    tick();
+    this.timer = setInterval(tick, this.CHECK_INTERVAL_MS);
+  }
+
+  static stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    console.log('⏹️ Planificateur local arrêté');
+  }
+}
@@ -0,0 +1,224 @@
+import { supabase } from '../lib/supabase';
+import { HarvestingService } from './harvestingService';
+import { HarvestLogService } from './harvestLogService';
+import { HarvestRunService } from './harvestRunService';
+import { LLMUsageService } from './llmUsageService';
+import type { HarvestJob } from './harvestJobService';
+import type { Database } from '../lib/database.types';
+
+type DataSource = Database['public']['Tables']['data_sources']['Row'];
+
+// Issue d'un job exécuté par ce navigateur, diffusée dès sa fin
+export interface HarvestJobOutcome {
+  jobId: string;
+  dataSourceId: string;
+  status: 'done' | 'failed' | 'stopped';
+  retryCount: number;
+  error?: string;
+}
+
+type OutcomeListener = (outcome: HarvestJobOutcome) => void;
+
+// Worker navigateur : exécute les jobs 'web_browser' (fournisseur LLM local ou fixtures, injoignables
+// depuis harvest-worker) ; les jobs 'web' (OpenAI) sont traités côté serveur sans onglet ouvert.
+// Jusqu'à POOL_SIZE jobs en parallèle, PER_HOST_LIMIT par hôte (appliqué par claim_harvest_job)
+export class HarvestWorkerService {
+  private static readonly POLL_INTERVAL_MS = 5000;
+  private static readonly HEARTBEAT_INTERVAL_MS = 30 * 1000;
+  private static readonly ENGINES = ['web_browser'];
+  private static readonly POOL_SIZE = Math.max(1, Number(import.meta.env.VITE_HARVEST_CONCURRENCY) || 4);
+  private static readonly PER_HOST_LIMIT = Math.max(1, Number(import.meta.env.VITE_HARVEST_PER_HOST_LIMIT) || 1);
+  private static readonly workerId = `browser-${crypto.randomUUID()}`;
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static filling = false;
+  private static running = new Set<Promise<void>>();
+  private static listeners = new Set<OutcomeListener>();
+
+  // Être notifié de la fin de chaque job (retourne la fonction de désinscription)
+  static onJobFinished(listener: OutcomeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static emit(outcome: HarvestJobOutcome): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(outcome);
+      } catch (error) {
+        console.error('❌ Erreur d\'un abonné au worker:', error);
+      }
+    }
+  }
+
+  // Réserver atomiquement le prochain job en file (fonction SQL claim_harvest_job)
+  static async claimNextJob(): Promise<HarvestJob | null> {
+    const { data, error } = await supabase.rpc('claim_harvest_job', {
+      p_worker_id: this.workerId,
+      p_engines: this.ENGINES,
+      p_per_host_limit: this.PER_HOST_LIMIT
+    });
+
+    if (error) {
+      throw new Error(`Erreur lors de la réservation d'un job: ${error.message}`);
+    }
+
+    return ((data || []) as HarvestJob[])[0] ?? null;
+  }
+
+  // Clôturer un job, uniquement s'il est toujours en running (une annulation reste prioritaire)
+  private static async finishJob(
+    jobId: string,
+    status: 'done' | 'failed',
+    fields: { harvest_result_id?: string | null; error_message?: string } = {}
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('harvest_jobs')
+      .update({ status, finished_at: new Date().toISOString(), ...fields })
+      .eq('id', jobId)
+      .eq('status', 'running');
+
+    if (error) {
+      console.error('❌ Erreur clôture du job:', jobId, error.message);
+    }
+  }
+
+  // Signe de vie ; false si le job n'est plus en running (annulé ou mis en pause entre-temps)
+  private static async heartbeat(jobId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('harvest_jobs')
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('status', 'running')
+      .select('id');
+
+    // Une erreur réseau passagère n'interrompt pas le job
+    return !!error || (data || []).length > 0;
+  }
+
+  // Exécuter un job ; une annulation ou une pause détectée au heartbeat interrompt l'appel LLM en cours
+  static async runJob(job: HarvestJob): Promise<HarvestJobOutcome> {
+    const { data, error } = await supabase
+      .from('data_sources')
+      .select('*')
+      .eq('id', job.data_source_id)
+      .single();
+
+    const dataSource = data as DataSource | null;
+    if (error || !dataSource) {
+      await this.finishJob(job.id, 'failed', { error_message: 'Source de données introuvable' });
+      return { jobId: job.id, dataSourceId: job.data_source_id, status: 'failed', retryCount: 0, error: 'Source de données introuvable' };
+    }
+
+    // Le budget a pu être atteint depuis la mise en file
+    try {
+      const budget = await LLMUsageService.getBudgetStatus(dataSource.id);
+      if (budget.exceeded) {
+        await this.finishJob(job.id, 'failed', { error_message: 'Budget LLM mensuel dépassé' });
+        await HarvestLogService.logWarning('Job abandonné : budget LLM mensuel dépassé', dataSource.id, { job_id: job.id, budget });
+        return { jobId: job.id, dataSourceId: dataSource.id, status: 'failed', retryCount: 0, error: 'Budget LLM mensuel dépassé' };
+      }
+    } catch (budgetError) {
+      console.warn('⚠️ Budget LLM non vérifié:', budgetError);
+    }
+
+    console.log('👷 Job navigateur réservé:', { id: job.id, source: dataSource.name });
+    const controller = new AbortController();
+    const heartbeat = setInterval(async () => {
+      if (!await this.heartbeat(job.id)) {
+        console.log('⏹️ Job interrompu (annulé ou mis en pause):', job.id);
+        controller.abort(new Error('Moissonnage interrompu : job annulé ou mis en pause'));
+      }
+    }, this.HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const result = await HarvestingService.harvestWebsite(dataSource, {
+        trigger: HarvestRunService.triggerForJob(job.trigger),
+        jobId: job.id,
+        signal: controller.signal
+      });
+
+      const outcome: HarvestJobOutcome = {
+        jobId: job.id,
+        dataSourceId: dataSource.id,
+        status: result.success ? 'done' : 'failed',
+        retryCount: result.retryCount,
+        error: result.error
+      };
+
+      if (controller.signal.aborted) {
+        // Annulé ou mis en pause : l'état a déjà été posé par harvest-jobs
+        outcome.status = 'stopped';
+      } else if (result.success) {
+        const harvestResultId = result.filePath?.startsWith('database:')
+          ? result.filePath.slice('database:'.length)
+          : null;
+        await this.finishJob(job.id, 'done', { harvest_result_id: harvestResultId });
+      } else {
+        await this.finishJob(job.id, 'failed', { error_message: result.error || 'Erreur inconnue' });
+      }
+      return outcome;
+    } catch (runError) {
+      const message = runError instanceof Error ? runError.message : 'Erreur inconnue';
+      await this.finishJob(job.id, 'failed', { error_message: message });
+      await HarvestLogService.logError(`Échec du job de moissonnage: ${message}`, dataSource.id, { job_id: job.id });
+      return { jobId: job.id, dataSourceId: dataSource.id, status: 'failed', retryCount: 0, error: message };
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // Occuper les emplacements libres du pool ; chaque job terminé libère sa place et relance le remplissage.
+  // Un job en échec n'interrompt pas les autres. Retourne le nombre de jobs démarrés.
+  static async processQueue(): Promise<number> {
+    if (this.filling) return 0;
+
+    this.filling = true;
+    let started = 0;
+
+    try {
+      while (this.running.size < this.POOL_SIZE) {
+        const job = await this.claimNextJob();
+        if (!job) break;
+
+        const slot: Promise<void> = this.runJob(job)
+          .then(outcome => this.emit(outcome))
+          .catch(error => console.error('❌ Erreur worker navigateur:', job.id, error))
+          .finally(() => {
+            this.running.delete(slot);
+            if (this.timer) this.processQueue();
+          });
+        this.running.add(slot);
+        started++;
+      }
+    } catch (error) {
+      console.error('❌ Erreur worker navigateur:', error);
+    } finally {
+      this.filling = false;
+    }
+
+    if (started > 0) {
+      console.log(`👷 ${started} job(s) démarré(s), ${this.running.size}/${this.POOL_SIZE} emplacement(s) occupé(s)`);
+    }
+    return started;
+  }
+
+  // Démarrer la boucle (sans effet si elle tourne déjà)
+  static start(): void {
+    if (this.timer) return;
+
+    console.log('👷 Worker navigateur démarré:', this.workerId, { pool: this.POOL_SIZE, parHote: this.PER_HOST_LIMIT });
+    this.processQueue();
+    this.timer = setInterval(() => this.processQueue(), this.POLL_INTERVAL_MS);
+  }
+
+  // Les jobs en cours vont à leur terme ; aucun nouveau job n'est réservé
+  static stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    console.log('⏹️ Worker navigateur arrêté', { enCours: this.running.size });
+  }
+}
@@ -0,0 +1,37 @@
+import { OpenAIHarvestingService, type HarvestRunOptions } from './openAIHarvestingService';
+import { CrawlerHarvestingService } from './crawlerHarvestingService';
+import { SitemapHarvestingService } from './sitemapHarvestingService';
+import type { Database } from '../lib/database.types';
+
+type DataSource = Database['public']['Tables']['data_sources']['Row'];
+
+export interface HarvestWebsiteResult {
+  success: boolean;
+  filePath?: string;
+  runId?: string;
+  error?: string;
+  retryCount: number;
+}
+
+// Modes de moissonnage disponibles (valeurs de data_sources.type)
+export const HARVEST_MODES = [
+  { value: 'web', label: 'Exploration IA (OpenAI)' },
+  { value: 'crawler', label: 'Crawler (sélecteurs CSS)' },
+  { value: 'sitemap', label: 'Sitemap / flux RSS-Atom (sans IA)' }
+] as const;
+
+export class HarvestingService {
+  // Choisir le moteur de moissonnage selon le type de la source ; les moteurs serveur
+  // (crawler, sitemap) ouvrent eux-mêmes leur exécution en trigger manual
+  static async harvestWebsite(dataSource: DataSource, options: HarvestRunOptions = {}): Promise<HarvestWebsiteResult> {
+    switch (dataSource.type) {
+      case 'crawler':
+        return CrawlerHarvestingService.harvestWebsite(dataSource);
+      case 'sitemap':
+      case 'rss':
+        return SitemapHarvestingService.harvestWebsite(dataSource);
+      default:
+        return OpenAIHarvestingService.harvestWebsite(dataSource, options);
+    }
+  }
+}
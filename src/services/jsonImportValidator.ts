@@ -1,3 +1,6 @@
+import { canonicalizeUrl } from '../lib/canonicalUrl';
+import { mergeDuplicateDocuments } from '../lib/harvestContent';
+
 interface ValidationError {
   line?: number;
   field: string;
@@ -77,8 +80,9 @@ export class JsonImportValidator {
           });
         }
 
-        // Vérifier les doublons d'URL
+        // Vérifier les doublons d'URL (identiques, ou équivalentes une fois canonisées)
         const urlDocMap = new Map<string, number[]>();
+        const canonicalMap = new Map<string, number[]>();
         data.documents.forEach((doc: any, index: number) => {
           if (doc && doc.url_doc && typeof doc.url_doc === 'string') {
             const url = doc.url_doc.trim();
@@ -87,10 +91,30 @@ export class JsonImportValidator {
                 urlDocMap.set(url, []);
               }
               urlDocMap.get(url)!.push(index);
+
+              const canonical = canonicalizeUrl(url);
+              if (!canonicalMap.has(canonical)) {
+                canonicalMap.set(canonical, []);
+              }
+              canonicalMap.get(canonical)!.push(index);
             }
           }
         });
 
+        // Variantes d'une même URL (http/https, www., paramètres de suivi) : fusionnées à l'import
+        canonicalMap.forEach((indices, canonical) => {
+          const variants = new Set(indices.map(i => data.documents[i].url_doc.trim()));
+          if (variants.size > 1) {
+            warnings.push({
+              field: 'url_doc',
+              message: `URL équivalentes à "${canonical}" dans les documents ${indices.map(i => i + 1).join(', ')} : elles seront fusionnées`,
+              recommendation: 'Le premier document est conservé, complété par les champs renseignés des suivants.',
+              severity: 'warning',
+              context: Array.from(variants).join(' | ')
+            });
+          }
+        });
+
         // Signaler les doublons
         urlDocMap.forEach((indices, url) => {
           if (indices.length > 1) {
@@ -383,21 +407,10 @@ export class JsonImportValidator {
     try {
       const data = JSON.parse(jsonContent);
       
-      // Nettoyer et valider les documents en supprimant les doublons
-      const seenUrls = new Set<string>();
-      // Nettoyer et valider les documents
-      const cleanDocuments = Array.isArray(data.documents) 
+      // Nettoyer et valider les documents, variantes d'une même URL canonique fusionnées
+      const documents = Array.isArray(data.documents) 
         ? data.documents
             .filter(doc => doc && typeof doc === 'object' && doc.url_doc)
-            .filter(doc => {
-              const url = doc.url_doc.trim();
-              if (seenUrls.has(url)) {
-                console.warn(`🔄 Document en doublon ignoré: ${url}`);
-                return false; // Ignorer les doublons
-              }
-              seenUrls.add(url);
-              return true;
-            })
             .map(doc => ({
               // Champs obligatoires
               url_doc: doc.url_doc,
@@ -420,6 +433,10 @@ export class JsonImportValidator {
               obstacles: doc.obstacles || ''
             }))
         : [];
+      const { documents: cleanDocuments, merged } = mergeDuplicateDocuments(documents);
+      if (merged > 0) {
+        console.warn(`🔄 ${merged} document(s) en doublon fusionné(s)`);
+      }
 
       // Nettoyer et valider les logs
       const cleanLogs = Array.isArray(data.logs)
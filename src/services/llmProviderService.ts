@@ -0,0 +1,538 @@
+import OpenAI from 'openai';
+import { supabase, getAccessToken } from '../lib/supabase';
+import type { JsonSchema } from '../lib/harvestResponseSchema';
+import { LLMUsageService, type LLMUsageContext } from './llmUsageService';
+import { LLMRateLimiter } from './llmRateLimiter';
+
+export type LLMProviderKind = 'openai' | 'local' | 'fixture';
+export type LLMTask = 'harvest' | 'analysis' | 'classification' | 'embedding';
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderKind, string> = {
+  openai: 'OpenAI (via la fonction edge llm-gateway)',
+  local: 'Serveur local compatible OpenAI (Ollama, llama.cpp)',
+  fixture: 'Fixtures déterministes (tests, hors ligne)'
+};
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMChatRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Structured outputs : réponse contrainte par ce schéma lorsque le modèle le permet
+  responseSchema?: { name: string; schema: JsonSchema };
+  // Interrompt réellement la requête HTTP (délai dépassé, job annulé)
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LLMChatResponse {
+  content: string;
+  model: string;
+  usage: LLMUsage | null;
+  finishReason: string | null;
+  provider: LLMProviderKind;
+  // Coût en USD calculé par llm-gateway ; 0 pour un fournisseur local ou de fixtures
+  cost: number;
+}
+
+export interface LLMJSONResponse<T = unknown> extends LLMChatResponse {
+  data: T;
+}
+
+export interface LLMEmbeddingResponse {
+  embedding: number[];
+  model: string;
+  usage: { prompt_tokens: number; total_tokens: number } | null;
+  provider: LLMProviderKind;
+  cost: number;
+}
+
+export interface LLMGatewayStatus {
+  configured: boolean;
+  model: string;
+  quota: {
+    request_count: number;
+    token_count: number;
+    request_limit: number | null;
+    token_limit: number | null;
+  };
+  circuit: LLMCircuitState | null;
+}
+
+// Disjoncteur de llm-gateway (table llm_circuit_breaker)
+export interface LLMCircuitState {
+  state: 'closed' | 'open' | 'half_open';
+  consecutive_failures: number;
+  last_status: number | null;
+  last_error: string | null;
+  opened_at: string | null;
+  retry_at: string | null;
+}
+
+// Erreur d'appel LLM : statut HTTP, code de la passerelle et délai Retry-After éventuel
+export interface LLMCallError extends Error {
+  status?: number;
+  code?: string | null;
+  retryAfterMs?: number | null;
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+  chatJSON<T = unknown>(request: LLMChatRequest): Promise<LLMJSONResponse<T>>;
+  embed(text: string, signal?: AbortSignal): Promise<LLMEmbeddingResponse>;
+}
+
+interface ProviderSelection {
+  kind: LLMProviderKind;
+  model?: string | null;
+}
+
+// Opération llm-gateway correspondant à chaque tâche
+const GATEWAY_OPERATIONS: Record<LLMTask, string> = {
+  harvest: 'harvest',
+  analysis: 'analyze',
+  classification: 'classify',
+  embedding: 'embed'
+};
+
+// Appel authentifié de la fonction edge llm-gateway, seule détentrice de la clé OpenAI
+async function callGateway<T>(body: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+  const gatewayUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/llm-gateway`;
+
+  const response = await fetch(gatewayUrl, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await getAccessToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  const payload = await response.json().catch(() => ({}));
+
+  if (!response.ok || !payload.success) {
+    const error: LLMCallError = new Error(payload.error || `Erreur passerelle LLM: ${response.status} ${response.statusText}`);
+    error.status = response.status;
+    error.code = payload.code ?? null;
+    error.retryAfterMs = LLMRateLimiter.parseRetryAfter(payload.retry_after ?? response.headers.get('retry-after'));
+    throw error;
+  }
+
+  return payload as T;
+}
+
+// Extraire le JSON d'une réponse, y compris entouré d'un bloc markdown ou de texte
+function parseJSONContent<T>(content: string): T {
+  const trimmed = content.trim();
+  try {
+    return JSON.parse(trimmed) as T;
+  } catch {
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced?.[1] ?? trimmed.slice(trimmed.indexOf('{'), trimmed.lastIndexOf('}') + 1);
+    if (!candidate) {
+      throw new Error('Réponse LLM sans JSON exploitable');
+    }
+    return JSON.parse(candidate) as T;
+  }
+}
+
+// Fournisseur OpenAI : les appels passent par llm-gateway, la clé ne quitte jamais le serveur ;
+// la passerelle enregistre elle-même la consommation (llm_usage) avec les rattachements transmis
+class GatewayProvider implements LLMProvider {
+  readonly kind = 'openai' as const;
+  readonly embeddingModel = 'text-embedding-ada-002';
+
+  constructor(
+    private readonly task: LLMTask,
+    readonly chatModel: string,
+    private readonly context: LLMUsageContext = {}
+  ) {}
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    return this.complete(request, false);
+  }
+
+  async chatJSON<T = unknown>(request: LLMChatRequest): Promise<LLMJSONResponse<T>> {
+    const response = await this.complete(request, true);
+    return { ...response, data: parseJSONContent<T>(response.content) };
+  }
+
+  async embed(text: string, signal?: AbortSignal): Promise<LLMEmbeddingResponse> {
+    const payload = await callGateway<{ embedding: number[] | null; model: string; usage: LLMEmbeddingResponse['usage']; cost: number }>({
+      operation: 'embed',
+      input: text,
+      context: this.gatewayContext()
+    }, signal);
+
+    if (!payload.embedding) {
+      throw new Error('Embedding non généré');
+    }
+
+    return { embedding: payload.embedding, model: payload.model, usage: payload.usage, provider: this.kind, cost: payload.cost ?? 0 };
+  }
+
+  private async complete(request: LLMChatRequest, json: boolean): Promise<LLMChatResponse> {
+    const payload = await callGateway<{ content: string; model: string; usage: LLMUsage | null; cost: number; finish_reason: string | null }>({
+      operation: GATEWAY_OPERATIONS[this.task],
+      model: this.chatModel,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      json,
+      json_schema: request.responseSchema ?? null,
+      context: this.gatewayContext()
+    }, request.signal);
+
+    return {
+      content: payload.content,
+      model: payload.model,
+      usage: payload.usage,
+      finishReason: payload.finish_reason,
+      provider: this.kind,
+      cost: payload.cost ?? 0
+    };
+  }
+
+  private gatewayContext() {
+    return {
+      data_source_id: this.context.dataSourceId ?? null,
+      run_id: this.context.runId ?? null,
+      harvest_result_id: this.context.harvestResultId ?? null
+    };
+  }
+}
+
+// Serveur local exposant l'API OpenAI (/v1) : Ollama, llama.cpp server
+class LocalProvider implements LLMProvider {
+  readonly kind = 'local' as const;
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly chatModel: string,
+    readonly embeddingModel: string,
+    private readonly baseURL?: string
+  ) {}
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.baseURL) {
+        throw new Error('VITE_LOCAL_LLM_BASE_URL non configurée');
+      }
+      // Ollama et llama.cpp ignorent la clé mais le SDK en exige une
+      this.client = new OpenAI({
+        apiKey: import.meta.env.VITE_LOCAL_LLM_API_KEY || 'local',
+        baseURL: this.baseURL,
+        dangerouslyAllowBrowser: true
+      });
+      console.log(`✅ Client LLM local initialisé (${this.baseURL}, ${this.chatModel})`);
+    }
+    return this.client;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    return this.complete(request, false);
+  }
+
+  async chatJSON<T = unknown>(request: LLMChatRequest): Promise<LLMJSONResponse<T>> {
+    const response = await this.complete(request, true);
+    return { ...response, data: parseJSONContent<T>(response.content) };
+  }
+
+  async embed(text: string, signal?: AbortSignal): Promise<LLMEmbeddingResponse> {
+    const response = await this.getClient().embeddings.create({
+      model: this.embeddingModel,
+      input: text
+    }, { signal });
+
+    const embedding = response.data[0]?.embedding;
+    if (!embedding) {
+      throw new Error('Embedding non généré');
+    }
+
+    return {
+      embedding,
+      model: response.model || this.embeddingModel,
+      usage: response.usage ?? null,
+      provider: this.kind,
+      cost: 0
+    };
+  }
+
+  private async complete(request: LLMChatRequest, jsonMode: boolean): Promise<LLMChatResponse> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.chatModel,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.responseSchema
+        ? { response_format: { type: 'json_schema' as const, json_schema: { ...request.responseSchema, strict: true } } }
+        : jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+    }, { signal: request.signal });
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      model: response.model || this.chatModel,
+      usage: response.usage ?? null,
+      finishReason: response.choices[0]?.finish_reason || null,
+      provider: this.kind,
+      cost: 0
+    };
+  }
+}
+
+// Fournisseur déterministe : aucune requête réseau, mêmes réponses pour les mêmes entrées
+export class FixtureProvider implements LLMProvider {
+  readonly kind = 'fixture' as const;
+  readonly chatModel = 'mock-llm';
+  readonly embeddingModel = 'mock-embedding';
+  static readonly EMBEDDING_DIMENSIONS = 1536;
+  private static responseOverride: string | null = null;
+
+  constructor(private readonly task: LLMTask) {}
+
+  // Remplacer le contenu renvoyé par chat / chatJSON (null pour revenir aux fixtures par défaut)
+  static setResponse(content: string | null): void {
+    this.responseOverride = content;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const userPrompt = request.messages.filter(m => m.role === 'user').map(m => m.content).join('\n');
+    const content = FixtureProvider.responseOverride ?? this.fixtureFor(userPrompt);
+
+    const promptTokens = Math.ceil(request.messages.reduce((total, m) => total + m.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      model: this.chatModel,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      },
+      finishReason: 'stop',
+      provider: this.kind,
+      cost: 0
+    };
+  }
+
+  async chatJSON<T = unknown>(request: LLMChatRequest): Promise<LLMJSONResponse<T>> {
+    const response = await this.chat(request);
+    return { ...response, data: parseJSONContent<T>(response.content) };
+  }
+
+  // Vecteur pseudo-aléatoire normalisé, dérivé de l'empreinte SHA-256 du texte
+  async embed(text: string): Promise<LLMEmbeddingResponse> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+    let seed = digest.reduce((acc, byte) => (acc * 31 + byte) >>> 0, 7);
+    const raw = Array.from({ length: FixtureProvider.EMBEDDING_DIMENSIONS }, () => {
+      seed = (seed * 1664525 + 1013904223) >>> 0;
+      return seed / 0xffffffff - 0.5;
+    });
+    const norm = Math.sqrt(raw.reduce((total, value) => total + value * value, 0)) || 1;
+    const tokens = Math.ceil(text.length / 4);
+
+    return {
+      embedding: raw.map(value => value / norm),
+      model: this.embeddingModel,
+      usage: { prompt_tokens: tokens, total_tokens: tokens },
+      provider: this.kind,
+      cost: 0
+    };
+  }
+
+  private fixtureFor(userPrompt: string): string {
+    switch (this.task) {
+      case 'harvest':
+        return this.harvestFixture(userPrompt);
+      case 'classification':
+        return JSON.stringify({ category: 'Autre', confidence: 0.5 });
+      default:
+        return this.analysisFixture(userPrompt);
+    }
+  }
+
+  private harvestFixture(userPrompt: string): string {
+    const siteUrl = userPrompt.match(/https?:\/\/[^\s'"<>]+/)?.[0]?.replace(/\/+$/, '') || null;
+
+    return JSON.stringify({
+      documents: siteUrl ? [
+        {
+          url_doc: `${siteUrl}/mock-llm/document.pdf`,
+          type_document: 'Document de test',
+          format: 'PDF',
+          source_page: siteUrl,
+          document_name: 'Document simulé (mock LLM)',
+          langue: 'fr',
+          statut: 'en ligne',
+          issue_number: null,
+          filename: 'document.pdf',
+          contient_texte: 'oui',
+          pattern_verified: false,
+          notes: 'Réponse déterministe générée en mode mock LLM',
+          obstacles: null
+        }
+      ] : [],
+      'obstacles-globaux': ['Mode mock LLM actif : aucune exploration réelle du site'],
+      recommandations: 'Désactiver VITE_LLM_MOCK_MODE pour lancer un moissonnage réel.'
+    });
+  }
+
+  private analysisFixture(userPrompt: string): string {
+    const words = userPrompt
+      .toLowerCase()
+      .split(/[^a-zà-ÿ0-9]+/)
+      .filter(word => word.length > 5);
+    const keywords = Array.from(new Set(words)).slice(0, 5);
+
+    return JSON.stringify({
+      summary: 'Analyse déterministe générée par le fournisseur de fixtures.',
+      keywords,
+      entities: { persons: [], locations: [], organizations: [], dates: [] },
+      category: 'Autre',
+      language: 'fr',
+      sentiment: 'neutral',
+      confidence: 0.5,
+      topics: keywords.slice(0, 2)
+    });
+  }
+}
+
+// Enregistre chaque appel d'un fournisseur local ou de fixtures dans llm_usage (tokens, rattachements) ;
+// le fournisseur sous-jacent reste en cache
+class UsageTrackingProvider implements LLMProvider {
+  constructor(
+    private readonly inner: LocalProvider | FixtureProvider,
+    private readonly task: LLMTask,
+    private readonly context: LLMUsageContext
+  ) {}
+
+  get kind() { return this.inner.kind; }
+  get chatModel() { return this.inner.chatModel; }
+  get embeddingModel() { return this.inner.embeddingModel; }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.inner.chat(request);
+    await this.record(response.model, response.usage);
+    return response;
+  }
+
+  async chatJSON<T = unknown>(request: LLMChatRequest): Promise<LLMJSONResponse<T>> {
+    const response = await this.inner.chatJSON<T>(request);
+    await this.record(response.model, response.usage);
+    return response;
+  }
+
+  async embed(text: string, signal?: AbortSignal): Promise<LLMEmbeddingResponse> {
+    const response = await this.inner.embed(text, signal);
+    await this.record(response.model, response.usage);
+    return response;
+  }
+
+  private async record(model: string, usage: LLMChatResponse['usage'] | LLMEmbeddingResponse['usage']): Promise<void> {
+    await LLMUsageService.recordLocal({
+      ...this.context,
+      purpose: this.task,
+      provider: this.inner.kind,
+      model,
+      usage
+    });
+  }
+}
+
+export class LLMProviderService {
+  private static providers = new Map<string, LocalProvider | FixtureProvider>();
+
+  // Mode mock historique : force le fournisseur de fixtures pour toutes les tâches
+  static isMockMode(): boolean {
+    return import.meta.env.VITE_LLM_MOCK_MODE === 'true';
+  }
+
+  // Fournisseur d'une tâche : harvesting_configs.llm_provider de la source, puis VITE_LLM_<TÂCHE>_PROVIDER, puis VITE_LLM_PROVIDER ;
+  // chaque appel est comptabilisé dans llm_usage avec la source et le contexte fournis
+  static async forTask(
+    task: LLMTask,
+    dataSourceId?: string | null,
+    context: Omit<LLMUsageContext, 'dataSourceId'> = {}
+  ): Promise<LLMProvider> {
+    const override = dataSourceId ? await this.getDataSourceSelection(dataSourceId) : null;
+    return this.getProvider(task, override ?? this.getDefaultSelection(task), { ...context, dataSourceId });
+  }
+
+  // OpenAI : llm-gateway enregistre la consommation, le fournisseur (sans état) porte les rattachements de l'appelant ;
+  // local / fixtures : fournisseur en cache, consommation enregistrée depuis le navigateur (coût nul)
+  static getProvider(task: LLMTask, selection: ProviderSelection, context: LLMUsageContext = {}): LLMProvider {
+    const kind = this.isMockMode() ? 'fixture' : selection.kind;
+    if (kind === 'openai') {
+      return new GatewayProvider(task, selection.model || import.meta.env.VITE_OPENAI_MODEL_NAME || 'gpt-4', context);
+    }
+
+    const key = `${task}:${kind}:${selection.model || ''}`;
+    let provider = this.providers.get(key);
+    if (!provider) {
+      provider = this.createProvider(task, kind, selection.model || undefined);
+      this.providers.set(key, provider);
+    }
+    return new UsageTrackingProvider(provider, task, context);
+  }
+
+  private static createProvider(task: LLMTask, kind: 'local' | 'fixture', model?: string): LocalProvider | FixtureProvider {
+    return kind === 'fixture'
+      ? new FixtureProvider(task)
+      : new LocalProvider(
+        model || import.meta.env.VITE_LOCAL_LLM_MODEL || 'llama3.1',
+        import.meta.env.VITE_LOCAL_LLM_EMBEDDING_MODEL || 'nomic-embed-text',
+        import.meta.env.VITE_LOCAL_LLM_BASE_URL
+      );
+  }
+
+  private static getDefaultSelection(task: LLMTask): ProviderSelection {
+    const taskProviders: Record<LLMTask, string | undefined> = {
+      harvest: import.meta.env.VITE_LLM_HARVEST_PROVIDER,
+      analysis: import.meta.env.VITE_LLM_ANALYSIS_PROVIDER,
+      classification: import.meta.env.VITE_LLM_ANALYSIS_PROVIDER,
+      embedding: import.meta.env.VITE_LLM_EMBEDDING_PROVIDER
+    };
+    return { kind: this.parseKind(taskProviders[task] || import.meta.env.VITE_LLM_PROVIDER) ?? 'openai' };
+  }
+
+  // Configuration de la passerelle et consommation du jour de l'utilisateur courant
+  static async getGatewayStatus(): Promise<LLMGatewayStatus> {
+    return callGateway<LLMGatewayStatus>({ operation: 'status' });
+  }
+
+  private static async getDataSourceSelection(dataSourceId: string): Promise<ProviderSelection | null> {
+    const { data, error } = await supabase
+      .from('harvesting_configs')
+      .select('llm_provider, llm_model')
+      .eq('data_source_id', dataSourceId)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.warn('⚠️ Fournisseur LLM de la source illisible, utilisation du défaut:', error.message);
+      return null;
+    }
+
+    const config = (data?.[0] ?? null) as { llm_provider: string | null; llm_model: string | null } | null;
+    const kind = this.parseKind(config?.llm_provider);
+    return kind ? { kind, model: config?.llm_model } : null;
+  }
+
+  private static parseKind(value: string | null | undefined): LLMProviderKind | null {
+    return value === 'openai' || value === 'local' || value === 'fixture' ? value : null;
+  }
+}
@@ -0,0 +1,43 @@
+// Nouvelles tentatives des appels LLM ; la limite de débit elle-même est tenue par llm-gateway (llm_rate_window),
+// commune à tous les onglets et fonctions, qui répond 429 avec Retry-After une fois atteinte
+export class LLMRateLimiter {
+  private static readonly BASE_BACKOFF_MS = 1000;
+  private static readonly MAX_BACKOFF_MS = 60000;
+
+  // Délai avant la tentative suivante : exponentiel avec jitter complet, jamais inférieur au Retry-After
+  static backoffDelay(attempt: number, retryAfterMs?: number | null): number {
+    const ceiling = Math.min(this.MAX_BACKOFF_MS, this.BASE_BACKOFF_MS * 2 ** attempt);
+    return Math.max(Math.round(Math.random() * ceiling), retryAfterMs ?? 0);
+  }
+
+  // En-tête Retry-After : nombre de secondes ou date HTTP
+  static parseRetryAfter(value: string | null | undefined): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  // Attente interrompue par `signal`
+  static sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,126 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import type { LLMProviderKind, LLMTask } from './llmProviderService';
+
+export type LLMUsageRecord = Database['public']['Tables']['llm_usage']['Row'];
+export type LLMBudget = Database['public']['Tables']['llm_budgets']['Row'];
+export type LLMMonthlySpend = Database['public']['Views']['llm_monthly_spend']['Row'];
+
+// Rattachements d'un appel LLM, tous facultatifs
+export interface LLMUsageContext {
+  dataSourceId?: string | null;
+  runId?: string | null;
+  harvestResultId?: string | null;
+}
+
+export interface LLMBudgetStatus {
+  exceeded: boolean;
+  source_spend: number;
+  source_limit: number | null;
+  global_spend: number;
+  global_limit: number | null;
+}
+
+export class LLMUsageService {
+  // Enregistrer un appel d'un fournisseur sans coût (local, fixtures) ; les appels OpenAI sont enregistrés
+  // par llm-gateway. Un échec d'écriture ne doit pas interrompre le traitement en cours
+  static async recordLocal(params: LLMUsageContext & {
+    purpose: LLMTask;
+    provider: Exclude<LLMProviderKind, 'openai'>;
+    model: string;
+    usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null;
+  }): Promise<void> {
+    const { error } = await supabase.rpc('record_local_llm_usage', {
+      p_purpose: params.purpose,
+      p_provider: params.provider,
+      p_model: params.model,
+      p_prompt_tokens: params.usage?.prompt_tokens ?? 0,
+      p_completion_tokens: params.usage?.completion_tokens ?? 0,
+      p_data_source_id: params.dataSourceId ?? null,
+      p_run_id: params.runId ?? null,
+      p_harvest_result_id: params.harvestResultId ?? null
+    });
+
+    if (error) {
+      console.error('❌ Erreur enregistrement consommation LLM:', error.message);
+    }
+  }
+
+  // Le résultat d'un moissonnage n'existe qu'après l'appel LLM : rattacher a posteriori les appels de l'exécution
+  static async attachToResult(runId: string, harvestResultId: string): Promise<void> {
+    const { error } = await supabase.rpc('attach_llm_usage_to_result', {
+      p_run_id: runId,
+      p_harvest_result_id: harvestResultId
+    });
+
+    if (error) {
+      console.error('❌ Erreur rattachement consommation LLM:', runId, error.message);
+    }
+  }
+
+  // Dépense par source et par mois, du mois le plus récent au plus ancien
+  static async getMonthlySpend(months: number = 6): Promise<LLMMonthlySpend[]> {
+    const since = new Date();
+    since.setDate(1);
+    since.setMonth(since.getMonth() - (months - 1));
+
+    const { data, error } = await supabase
+      .from('llm_monthly_spend')
+      .select('*')
+      .gte('month', since.toISOString().slice(0, 10))
+      .order('month', { ascending: false });
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des dépenses LLM: ${error.message}`);
+    }
+
+    return (data || []) as LLMMonthlySpend[];
+  }
+
+  static async getBudgets(): Promise<LLMBudget[]> {
+    const { data, error } = await supabase
+      .from('llm_budgets')
+      .select('*');
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des budgets LLM: ${error.message}`);
+    }
+
+    return (data || []) as LLMBudget[];
+  }
+
+  // Définir le budget mensuel (USD) d'une source, ou le budget global si dataSourceId est null
+  static async setBudget(dataSourceId: string | null, monthlyLimit: number): Promise<void> {
+    const existing = (await this.getBudgets()).find(budget => budget.data_source_id === dataSourceId);
+
+    const { error } = existing
+      ? await supabase.from('llm_budgets').update({ monthly_limit: monthlyLimit }).eq('id', existing.id)
+      : await supabase.from('llm_budgets').insert({ data_source_id: dataSourceId, monthly_limit: monthlyLimit });
+
+    if (error) {
+      throw new Error(`Erreur lors de l'enregistrement du budget LLM: ${error.message}`);
+    }
+  }
+
+  static async deleteBudget(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('llm_budgets')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Erreur lors de la suppression du budget LLM: ${error.message}`);
+    }
+  }
+
+  // Dépense du mois en cours face aux budgets de la source et global
+  static async getBudgetStatus(dataSourceId: string): Promise<LLMBudgetStatus> {
+    const { data, error } = await supabase.rpc('llm_budget_status', { p_data_source_id: dataSourceId });
+
+    if (error) {
+      throw new Error(`Erreur lors de la vérification du budget LLM: ${error.message}`);
+    }
+
+    return data as unknown as LLMBudgetStatus;
+  }
+}
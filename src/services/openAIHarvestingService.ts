@@ -1,269 +1,194 @@
-import OpenAI from 'openai';
 import { supabase } from '../lib/supabase';
 import { HarvestLogService } from './harvestLogService';
-import type { Database } from '../lib/database.types';
+import { HarvestRunService, type RunTrigger, type RunStats } from './harvestRunService';
+import { DocumentChangeService } from './documentChangeService';
+import {
+  LLMProviderService,
+  FixtureProvider,
+  type LLMProvider,
+  type LLMChatResponse,
+  type LLMMessage,
+  type LLMCallError
+} from './llmProviderService';
+import { LLMRateLimiter } from './llmRateLimiter';
+import { LLMUsageService } from './llmUsageService';
+import { HarvestingConfigService } from './harvestingConfigService';
+import { PromptTemplateService, type RenderedPrompt } from './promptTemplateService';
+import {
+  HARVEST_RESPONSE_SCHEMA,
+  HARVEST_RESPONSE_SCHEMA_NAME,
+  type SchemaViolation
+} from '../lib/harvestResponseSchema';
+import { buildRepairPrompt, mergeDuplicateDocuments, parseHarvestContent } from '../lib/harvestContent';
+import type { Database, OpenAIDocument } from '../lib/database.types';
 
 type DataSource = Database['public']['Tables']['data_sources']['Row'];
+type HarvestingConfig = Database['public']['Tables']['harvesting_configs']['Row'];
 
 interface OpenAIHarvestResult {
   success: boolean;
   filePath?: string;
+  runId?: string;
   error?: string;
   retryCount: number;
 }
 
-export class OpenAIHarvestingService {
-  private static openai: OpenAI | null = null;
-  private static systemPromptCache: { content: string; timestamp: number } | null = null;
-  private static readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
-  // Valider la configuration OpenAI
-  private static validateConfiguration(): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-    const promptId = import.meta.env.VITE_OPENAI_PROMPT_ID;
-    const model = import.meta.env.VITE_OPENAI_MODEL_NAME || 'gpt-4';
-    
-    console.log('🔧 DIAGNOSTIC - Validation configuration OpenAI:');
-    console.log('- VITE_OPENAI_API_KEY:', apiKey ? `✅ Présente (${apiKey.length} chars, commence par: ${apiKey.substring(0, 7)}...)` : '❌ MANQUANTE');
-    console.log('- VITE_OPENAI_PROMPT_ID:', promptId ? `✅ Présent: ${promptId}` : '❌ MANQUANT');
-    console.log('- VITE_OPENAI_MODEL_NAME:', model);
-    console.log('- Variables d\'environnement disponibles:', Object.keys(import.meta.env).filter(key => key.startsWith('VITE_OPENAI')));
-    
-    if (!apiKey) {
-      errors.push('VITE_OPENAI_API_KEY manquante dans les variables d\'environnement');
-    } else if (!apiKey.startsWith('sk-')) {
-      errors.push('VITE_OPENAI_API_KEY semble invalide (doit commencer par "sk-")');
-    }
-    
-    if (!promptId) {
-      errors.push('VITE_OPENAI_PROMPT_ID manquante dans les variables d\'environnement');
-    }
-    
-    console.log('🔧 DIAGNOSTIC - Résultat validation:', { isValid: errors.length === 0, errorsCount: errors.length });
-    if (errors.length > 0) {
-      console.error('❌ DIAGNOSTIC - Erreurs de configuration:', errors);
-    }
-    
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
-  }
-
-  // Initialiser le client OpenAI
-  private static getClient(): OpenAI {
-    if (!this.openai) {
-      // Valider la configuration avant d'initialiser
-      const validation = this.validateConfiguration();
-      if (!validation.isValid) {
-        console.error('❌ DIAGNOSTIC - Configuration OpenAI invalide:', validation.errors);
-        throw new Error(`Configuration OpenAI invalide: ${validation.errors.join(', ')}`);
-      }
-      
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      
-      console.log('🔧 DIAGNOSTIC - Initialisation client OpenAI...');
-      console.log('- Tentative de création du client avec API key:', apiKey.substring(0, 7) + '...');
-      
-      try {
-      this.openai = new OpenAI({
-        apiKey,
-        dangerouslyAllowBrowser: true // Nécessaire pour utilisation côté client
-      });
-        console.log('✅ DIAGNOSTIC - Client OpenAI initialisé avec succès');
-      } catch (initError) {
-        console.error('❌ DIAGNOSTIC - Erreur initialisation client OpenAI:', initError);
-        throw new Error(`Erreur initialisation OpenAI: ${initError instanceof Error ? initError.message : 'Erreur inconnue'}`);
-      }
-    }
-    return this.openai;
-  }
-
-  // Récupérer le prompt système via l'API OpenAI
-  private static async getSystemPrompt(): Promise<string> {
-    const promptId = import.meta.env.VITE_OPENAI_PROMPT_ID;
-    console.log('🔍 DIAGNOSTIC - Vérification VITE_OPENAI_PROMPT_ID:', promptId);
-    
-    if (!promptId) {
-      console.error('❌ DIAGNOSTIC - VITE_OPENAI_PROMPT_ID manquante');
-      throw new Error('VITE_OPENAI_PROMPT_ID non configurée dans les variables d\'environnement. Vérifiez votre fichier .env');
-    }
-
-    // Vérifier le cache
-    const now = Date.now();
-    if (this.systemPromptCache && (now - this.systemPromptCache.timestamp) < this.CACHE_DURATION) {
-      console.log('📋 DIAGNOSTIC - Utilisation du prompt système en cache (âge: ' + Math.round((now - this.systemPromptCache.timestamp) / 1000) + 's)');
-      return this.systemPromptCache.content;
-    }
-
-    try {
-      console.log('🔄 DIAGNOSTIC - Récupération du prompt système depuis OpenAI...');
-      console.log('📋 DIAGNOSTIC - ID du prompt:', promptId);
-      const client = this.getClient();
-      
-      // Note: L'API OpenAI ne fournit pas encore d'endpoint public pour récupérer les prompts par ID
-      // En attendant, nous utilisons une approche alternative
-      console.warn('⚠️ DIAGNOSTIC - API de récupération de prompt non encore disponible publiquement');
-      console.log('🔄 DIAGNOSTIC - Utilisation du prompt système par défaut optimisé');
-      
-      // Prompt système optimisé pour le moissonnage
-      const defaultSystemPrompt = `Tu es un assistant IA spécialisé dans le moissonnage et l'extraction de documents web.
+interface HarvestResponse {
+  documents: OpenAIDocument[];
+  'obstacles-globaux': string[];
+  recommandations: string;
+}
 
-MISSION: Analyser un site web et extraire tous les documents pertinents selon les critères fournis.
+// Réponse précédente et écarts au schéma, renvoyés au modèle pour correction
+interface RepairRequest {
+  previousContent: string;
+  violations: SchemaViolation[];
+}
 
-RÉPONSE OBLIGATOIRE: Tu dois TOUJOURS répondre avec un JSON valide contenant exactement cette structure:
-{
-  "documents": [...],
-  "documents": [
-    {
-      "url_doc": "URL_COMPLETE_DU_DOCUMENT",
-      "type_document": "type du document",
-      "format": "PDF/DOCX/etc",
-      "source_page": "URL de la page source",
-      "document_name": "nom descriptif",
-      "date_edition": "YYYY-MM ou YYYY-MM-DD",
-      "auteurs": "nom des auteurs",
-      "langue": "français/anglais/etc",
-      "resume": "description du contenu",
-      "statut": "en ligne/archivé/etc",
-      "issue_number": null,
-      "annee": 2024,
-      "filename": "nom_fichier.pdf",
-      "contient_texte": "oui/non",
-      "pattern_verified": true/false,
-      "notes": "commentaires sur le document",
-      "obstacles": "problèmes rencontrés ou null"
-    }
-  ],
-  "obstacles-globaux": [
-    "obstacle 1",
-    "obstacle 2"
-  ],
-  "recommandations": "texte des recommandations pour améliorer le moissonnage"
+// État partagé des appels LLM d'une exécution : interruption et nouvelles tentatives cumulées
+interface LLMCallControl {
+  signal?: AbortSignal;
+  retries: number;
 }
 
-RÈGLES CRITIQUES:
-1. SEUL le champ "url_doc" est obligatoire - sans URL valide, ne pas inclure le document
-2. Tous les autres champs peuvent être null ou chaînes vides si information indisponible
-3. Répondre UNIQUEMENT avec le JSON, aucun texte avant ou après
-4. Explorer en profondeur le site pour trouver tous les documents pertinents`;
+export interface HarvestRunOptions {
+  trigger?: RunTrigger;
+  jobId?: string | null;
+  // Interrompt l'appel LLM en cours (job annulé ou mis en pause)
+  signal?: AbortSignal;
+}
 
-      // Mettre en cache
-      this.systemPromptCache = {
-        content: defaultSystemPrompt,
-        timestamp: now
-      };
+export class OpenAIHarvestingService {
+  private static readonly MAX_REPAIR_ATTEMPTS = 1;
+  private static readonly LLM_TIMEOUT_MS = 30000;
+  // Erreurs qu'une nouvelle tentative ne corrigera pas : requête invalide, session refusée
+  private static readonly NON_RETRYABLE_STATUSES = [400, 401, 403];
 
-      console.log('✅ DIAGNOSTIC - Prompt système récupéré et mis en cache, longueur:', defaultSystemPrompt.length);
-      return defaultSystemPrompt;
-      
+  // Prompt système : version active du template harvest_system (prompt_templates)
+  private static async getSystemPrompt(dataSource: DataSource, config: HarvestingConfig | null): Promise<RenderedPrompt> {
+    console.log('🔄 DIAGNOSTIC - Récupération du prompt système (template harvest_system)...');
+    
+    try {
+      const systemPrompt = await PromptTemplateService.renderActive('harvest_system', dataSource, config);
+      console.log(`✅ DIAGNOSTIC - Prompt système v${systemPrompt.version} récupéré, longueur:`, systemPrompt.content.length);
+      return systemPrompt;
     } catch (error) {
       console.error('❌ DIAGNOSTIC - Erreur lors de la récupération du prompt système:', error);
       throw new Error(`Impossible de récupérer le prompt système: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
     }
   }
 
-  // Construire le prompt utilisateur complet
-  private static buildUserPrompt(dataSource: DataSource): string {
+  // Prompt utilisateur : version active du template harvest_user, remplie avec la source et sa configuration
+  private static async buildUserPrompt(dataSource: DataSource, config: HarvestingConfig | null): Promise<RenderedPrompt> {
     console.log('🔨 DIAGNOSTIC - Construction du prompt pour:', dataSource.name);
     console.log('🔨 DIAGNOSTIC - URL du site:', dataSource.url);
+    console.log('🔨 DIAGNOSTIC - Configuration de moissonnage présente:', !!config);
     
-    const generatedPrompt = dataSource.generated_prompt || '';
-    const specialInstructions = dataSource.special_instructions || '';
-    
-    console.log('🔨 DIAGNOSTIC - Generated prompt présent:', !!generatedPrompt, 'longueur:', generatedPrompt.length);
-    console.log('🔨 DIAGNOSTIC - Special instructions présentes:', !!specialInstructions, 'longueur:', specialInstructions.length);
-    
-    let fullPrompt = generatedPrompt;
+    const userPrompt = await PromptTemplateService.renderActive('harvest_user', dataSource, config);
     
-    if (specialInstructions.trim()) {
-      fullPrompt += '\n\nCONSIGNES PARTICULIÈRES :\n' + specialInstructions;
-    }
-    
-    console.log('📝 DIAGNOSTIC - Prompt final construit, longueur totale:', fullPrompt.length);
-    console.log('📝 DIAGNOSTIC - Aperçu prompt (200 premiers chars):', fullPrompt.substring(0, 200) + '...');
-    return fullPrompt;
+    console.log(`📝 DIAGNOSTIC - Prompt final construit (template v${userPrompt.version}), longueur totale:`, userPrompt.content.length);
+    console.log('📝 DIAGNOSTIC - Aperçu prompt (200 premiers chars):', userPrompt.content.substring(0, 200) + '...');
+    return userPrompt;
   }
 
-  // Appeler l'API OpenAI avec retry
-  private static async callOpenAIWithRetry(
+  // Appeler le fournisseur LLM avec retry
+  private static async callLLMWithRetry(
+    provider: LLMProvider,
+    systemPrompt: string,
     userPrompt: string, 
     dataSourceId: string,
+    runId: string | null,
+    control: LLMCallControl = { retries: 0 },
+    repair: RepairRequest | null = null,
     maxRetries: number = 3
-  ): Promise<any> {
-    console.log('🔧 DIAGNOSTIC - Configuration OpenAI pour appel API:');
-    console.log('- API Key présente:', !!import.meta.env.VITE_OPENAI_API_KEY);
-    console.log('- Prompt ID:', import.meta.env.VITE_OPENAI_PROMPT_ID);
-    console.log('- Modèle:', import.meta.env.VITE_OPENAI_MODEL_NAME || 'gpt-4');
+  ): Promise<LLMChatResponse & { prompt_hash: string }> {
+    const { signal } = control;
+    console.log('🔧 DIAGNOSTIC - Configuration LLM pour appel API:');
+    console.log('- Fournisseur:', provider.kind);
+    console.log('- Modèle:', provider.chatModel);
     console.log('- Max retries:', maxRetries);
     console.log('- DataSource ID:', dataSourceId);
-    console.log('- Timeout configuré: 30s');
+    console.log(`- Timeout configuré: ${this.LLM_TIMEOUT_MS / 1000}s`);
+    console.log('- Correction de schéma:', repair ? `${repair.violations.length} écart(s)` : 'non');
     
-    const client = this.getClient();
-    const model = import.meta.env.VITE_OPENAI_MODEL_NAME || 'gpt-4';
-    const delays = [2000, 5000, 10000]; // 2s, 5s, 10s
-    const TIMEOUT_MS = 30000; // 30 secondes
+    // Empreinte du couple prompt système / prompt utilisateur, conservée dans les métadonnées
+    const promptHash = await this.hashPrompt(systemPrompt, userPrompt);
     
-    // Récupérer le prompt système
-    console.log('📋 DIAGNOSTIC - Récupération du prompt système...');
-    const systemPrompt = await this.getSystemPrompt();
-    console.log('✅ DIAGNOSTIC - Prompt système récupéré, longueur:', systemPrompt.length);
+    if (provider.kind === 'fixture') {
+      console.log('🧪 DIAGNOSTIC - Fournisseur de fixtures actif, aucun appel réseau');
+    }
     
     for (let attempt = 0; attempt < maxRetries; attempt++) {
+      signal?.throwIfAborted();
+      
+      // Délai dépassé ou job interrompu : la requête HTTP est réellement annulée
+      const controller = new AbortController();
+      const timeout = setTimeout(
+        () => controller.abort(new Error(`Timeout LLM après ${this.LLM_TIMEOUT_MS}ms`)),
+        this.LLM_TIMEOUT_MS
+      );
+      const forwardAbort = () => controller.abort(signal?.reason);
+      signal?.addEventListener('abort', forwardAbort, { once: true });
+      
       try {
-        console.log(`🚀 DIAGNOSTIC - Tentative ${attempt + 1}/${maxRetries} - Appel OpenAI API`);
+        console.log(`🚀 DIAGNOSTIC - Tentative ${attempt + 1}/${maxRetries} - Appel LLM (${provider.kind})`);
         console.log('📝 DIAGNOSTIC - Messages envoyés:');
         console.log('- System prompt longueur:', systemPrompt.length);
         console.log('- User prompt longueur:', userPrompt.length);
-        console.log('- Modèle utilisé:', model);
+        console.log('- Modèle utilisé:', provider.chatModel);
         console.log('- Temperature: 0.7, Max tokens: 4000');
-        console.log('- Timeout: 30s');
+        console.log(`- Timeout: ${this.LLM_TIMEOUT_MS / 1000}s`);
         
         const startTime = Date.now();
         
-        // Créer une promesse avec timeout
-        const apiCall = client.chat.completions.create({
-          model: model,
-          messages: [
-            {
-              role: "system",
-              content: systemPrompt
-            },
-            {
-              role: "user", 
-              content: userPrompt
-            }
-          ],
-          temperature: 0.7,
-          max_tokens: 4000
-        });
+        const messages: LLMMessage[] = [
+          {
+            role: "system",
+            content: systemPrompt
+          },
+          {
+            role: "user", 
+            content: userPrompt
+          }
+        ];
+        if (repair) {
+          messages.push(
+            { role: 'assistant', content: repair.previousContent },
+            { role: 'user', content: buildRepairPrompt(repair.violations) }
+          );
+        }
         
-        // Ajouter timeout de sécurité
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => {
-            reject(new Error(`Timeout OpenAI après ${TIMEOUT_MS}ms`));
-          }, TIMEOUT_MS);
+        const response = await provider.chat({
+          messages,
+          temperature: 0.7,
+          maxTokens: 4000,
+          responseSchema: { name: HARVEST_RESPONSE_SCHEMA_NAME, schema: HARVEST_RESPONSE_SCHEMA },
+          signal: controller.signal
         });
         
-        const response = await Promise.race([apiCall, timeoutPromise]) as any;
-        
         const endTime = Date.now();
         const duration = endTime - startTime;
         
-        console.log('✅ DIAGNOSTIC - Réponse OpenAI reçue avec succès');
+        console.log('✅ DIAGNOSTIC - Réponse LLM reçue avec succès');
         console.log('📊 DIAGNOSTIC - Statistiques réponse:');
         console.log('- Durée appel:', duration + 'ms');
-        console.log('- Choix disponibles:', response.choices?.length || 0);
-        console.log('- Contenu longueur:', response.choices?.[0]?.message?.content?.length || 0);
+        console.log('- Contenu longueur:', response.content.length);
         console.log('- Usage tokens:', response.usage);
-        console.log('- Finish reason:', response.choices?.[0]?.finish_reason);
+        console.log('- Finish reason:', response.finishReason);
         console.log('- Model utilisé:', response.model);
         
-        return response;
+        return { ...response, prompt_hash: promptHash };
         
-      } catch (error) {
+      } catch (caught) {
+        // fetch rejette avec une AbortError : on remonte le motif réel (timeout ou interruption du job)
+        const error = controller.signal.aborted ? controller.signal.reason : caught;
+        
+        if (signal?.aborted) {
+          console.warn('⏹️ DIAGNOSTIC - Appel LLM interrompu:', signal.reason);
+          throw error;
+        }
+        
+        const { status, code, retryAfterMs } = (error ?? {}) as LLMCallError;
         console.error(`❌ DIAGNOSTIC - Tentative ${attempt + 1} échouée:`);
         console.error('- Type d\'erreur:', error?.constructor?.name);
         console.error('- Message:', error instanceof Error ? error.message : 'Erreur inconnue');
@@ -274,104 +199,55 @@ RÈGLES CRITIQUES:
         
         // Analyser le type d'erreur pour un diagnostic plus précis
         if ((error as any)?.code === 'invalid_api_key') {
-          console.error('🔑 DIAGNOSTIC - Problème de clé API: vérifiez VITE_OPENAI_API_KEY');
+          console.error('🔑 DIAGNOSTIC - Problème de clé API: vérifiez le secret OPENAI_API_KEY de llm-gateway');
         } else if ((error as any)?.code === 'model_not_found') {
           console.error('🤖 DIAGNOSTIC - Modèle non trouvé: vérifiez VITE_OPENAI_MODEL_NAME');
         } else if ((error as any)?.code === 'rate_limit_exceeded') {
           console.error('⏱️ DIAGNOSTIC - Limite de taux dépassée: retry automatique');
         } else if ((error as any)?.status === 401) {
-          console.error('🔐 DIAGNOSTIC - Non autorisé: problème d\'authentification');
+          console.error('🔐 DIAGNOSTIC - Non autorisé: session utilisateur absente ou expirée');
         } else if ((error as any)?.status === 429) {
-          console.error('🚦 DIAGNOSTIC - Trop de requêtes: retry automatique');
+          console.error('🚦 DIAGNOSTIC - Trop de requêtes ou quota journalier atteint: retry automatique');
+        } else if (code === 'circuit_open') {
+          console.error('🔌 DIAGNOSTIC - Disjoncteur LLM ouvert: les jobs en file sont en pause jusqu\'à sa fermeture');
         }
         
         // Logger l'erreur
         await HarvestLogService.logError(
-          `Échec appel OpenAI (tentative ${attempt + 1}): ${error instanceof Error ? error.message : 'Erreur inconnue'}`,
+          `Échec appel LLM ${provider.kind} (tentative ${attempt + 1}): ${error instanceof Error ? error.message : 'Erreur inconnue'}`,
           dataSourceId,
-          { attempt: attempt + 1, maxRetries, error: error instanceof Error ? error.stack : error }
+          { attempt: attempt + 1, maxRetries, error: error instanceof Error ? error.stack : error },
+          runId
         );
         
-        // Si ce n'est pas la dernière tentative, attendre avant de retry
+        if (code === 'circuit_open' || (status !== undefined && this.NON_RETRYABLE_STATUSES.includes(status))) {
+          throw error;
+        }
+        
+        // Si ce n'est pas la dernière tentative, attendre avant de retry (backoff exponentiel, Retry-After respecté)
         if (attempt < maxRetries - 1) {
-          const delay = delays[attempt];
+          const delay = LLMRateLimiter.backoffDelay(attempt, retryAfterMs);
           console.log(`⏳ DIAGNOSTIC - Attente de ${delay}ms avant retry...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
+          await LLMRateLimiter.sleep(delay, signal);
+          control.retries++;
         }
+      } finally {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', forwardAbort);
       }
     }
     
     throw new Error(`Échec persistant après ${maxRetries} tentatives`);
   }
 
-  // Sauvegarder le JSON dans Supabase Storage
-  private static async saveToStorage(
-    jsonData: any, 
-    dataSourceId: string, 
-    dataSourceName: string
-  ): Promise<string> {
-    if (!supabase) {
-      throw new Error('Supabase non configuré');
-    }
-    
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const fileName = `${dataSourceId}_${timestamp}.json`;
-    const filePath = `harvest/${fileName}`;
-    
-    console.log('💾 Sauvegarde dans Storage:', filePath);
-    
-    // Convertir en JSON string
-    const jsonString = JSON.stringify(jsonData, null, 2);
-    const blob = new Blob([jsonString], { type: 'application/json' });
-    
-    // Vérifier si le bucket existe, sinon le créer
-    try {
-      const { data: buckets } = await supabase.storage.listBuckets();
-      const harvestBucket = buckets?.find(bucket => bucket.name === 'harvest');
-      
-      if (!harvestBucket) {
-        console.log('📦 Création du bucket harvest...');
-        const { error: createError } = await supabase.storage.createBucket('harvest', {
-          public: false,
-          allowedMimeTypes: ['application/json'],
-          fileSizeLimit: 10485760 // 10MB
-        });
-        
-        if (createError) {
-          console.warn('⚠️ Impossible de créer le bucket:', createError.message);
-          // Fallback: sauvegarder dans la base de données
-          return await this.saveToDatabaseOnly(jsonData, dataSourceId, dataSourceName);
-        }
-      }
-    } catch (bucketError) {
-      console.warn('⚠️ Erreur vérification bucket:', bucketError);
-      // Fallback: sauvegarder dans la base de données
-      return await this.saveToDatabaseOnly(jsonData, dataSourceId, dataSourceName);
-    }
-    
-    const { data, error } = await supabase.storage
-      .from('harvest')
-      .upload(filePath, blob, {
-        contentType: 'application/json',
-        upsert: false
-      });
-    
-    if (error) {
-      console.error('❌ Erreur sauvegarde Storage:', error);
-      console.log('🔄 Tentative de sauvegarde en base de données...');
-      // Fallback: sauvegarder dans la base de données
-      return await this.saveToDatabaseOnly(jsonData, dataSourceId, dataSourceName);
-    }
-    
-    console.log('✅ Fichier sauvegardé:', data.path);
-    return data.path;
-  }
-
-  // Sauvegarde alternative dans la base de données
+  // Sauvegarde du résultat dans la base de données (harvest_results)
   private static async saveToDatabaseOnly(
     jsonData: any,
     dataSourceId: string,
-    dataSourceName: string
+    configId: string | null,
+    metadata: Record<string, unknown> = {},
+    runId: string | null = null,
+    promptTemplates: { systemTemplateId: string; userTemplateId: string } | null = null
   ): Promise<string> {
     if (!supabase) {
       throw new Error('Supabase non configuré');
@@ -379,25 +255,19 @@ RÈGLES CRITIQUES:
 
     console.log('💾 Sauvegarde en base de données...');
 
-    // Récupérer une configuration existante pour ce data source
-    const { data: configs } = await supabase
-      .from('harvesting_configs')
-      .select('id')
-      .eq('data_source_id', dataSourceId)
-      .limit(1);
-
-    const configId = configs && configs.length > 0 ? configs[0].id : null;
-
     const { data, error } = await supabase
       .from('harvest_results')
       .insert({
         data_source_id: dataSourceId,
-        config_id: configId, // Utiliser une vraie config_id ou null
+        config_id: configId, // Configuration ayant servi au moissonnage (la plus récente), ou null
+        run_id: runId,
+        system_prompt_template_id: promptTemplates?.systemTemplateId ?? null,
+        user_prompt_template_id: promptTemplates?.userTemplateId ?? null,
         data: jsonData,
         metadata: {
           saved_method: 'database',
-          reason: 'storage_fallback',
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          ...metadata
         },
         status: 'success'
       })
@@ -410,14 +280,19 @@ RÈGLES CRITIQUES:
     }
 
     console.log('✅ Données sauvegardées en base:', data.id);
+    
+    if (runId) {
+      await LLMUsageService.attachToResult(runId, data.id);
+    }
     return `database:${data.id}`;
   }
 
   // Fonction principale de moissonnage
-  static async harvestWebsite(dataSource: DataSource): Promise<OpenAIHarvestResult> {
+  static async harvestWebsite(dataSource: DataSource, options: HarvestRunOptions = {}): Promise<OpenAIHarvestResult> {
     console.log('🌾 DÉBUT MOISSONNAGE OpenAI pour:', dataSource.name);
     
-    let retryCount = 0;
+    let runId: string | null = null;
+    const llmControl: LLMCallControl = { signal: options.signal, retries: 0 };
     
     try {
       // Vérifier les prérequis
@@ -425,106 +300,152 @@ RÈGLES CRITIQUES:
         throw new Error('Aucun prompt généré pour ce site. Veuillez d\'abord configurer le site.');
       }
       
+      // Ouvrir l'exécution (harvest_runs) à laquelle les logs et le résultat sont rattachés
+      const run = await HarvestRunService.startRun({
+        dataSourceId: dataSource.id,
+        engine: 'web',
+        trigger: options.trigger ?? 'manual',
+        jobId: options.jobId
+      });
+      runId = run.id;
+      
       // Log de début
       await HarvestLogService.logInfo(
         `Début du moissonnage OpenAI pour ${dataSource.name}`,
         dataSource.id,
-        { url: dataSource.url, type: dataSource.type }
+        { url: dataSource.url, type: dataSource.type },
+        runId
       );
       
-      // 1. Construire le prompt utilisateur
-      const userPrompt = this.buildUserPrompt(dataSource);
+      // 1. Construire les prompts à partir des versions actives des templates
+      const configs = await HarvestingConfigService.getConfigsByDataSource(dataSource.id);
+      const config = configs[0] ?? null;
+      const systemPrompt = await this.getSystemPrompt(dataSource, config);
+      const userPrompt = await this.buildUserPrompt(dataSource, config);
       
-      // 2. Appeler OpenAI avec retry
-      const openAIResponse = await this.callOpenAIWithRetry(userPrompt, dataSource.id);
-      retryCount = 0; // Succès, pas de retry nécessaire
+      // 2. Appeler le fournisseur LLM de la source avec retry
+      const provider = await LLMProviderService.forTask('harvest', dataSource.id, { runId });
+      let llmResponse = await this.callLLMWithRetry(provider, systemPrompt.content, userPrompt.content, dataSource.id, runId, llmControl);
+      let llmCost = llmResponse.cost;
       
-      // 3. Extraire les données JSON de la réponse
-      const rawContent = openAIResponse.choices?.[0]?.message?.content || '';
-      console.log('📝 Contenu brut reçu d\'OpenAI (premiers 200 chars):', rawContent.substring(0, 200));
+      // 3. Parser et valider la réponse contre le schéma ; une réponse non conforme est renvoyée au modèle
+      let { data, violations } = parseHarvestContent(llmResponse.content);
+      let repairAttempts = 0;
       
-      // Validation de sécurité de la réponse
-      if (!rawContent || rawContent.trim() === '') {
-        throw new Error('Réponse OpenAI vide ou manquante');
+      while (violations.length > 0 && repairAttempts < this.MAX_REPAIR_ATTEMPTS) {
+        await this.logSchemaViolations(violations, dataSource.id, runId, repairAttempts);
+        repairAttempts++;
+        console.log(`🔧 DIAGNOSTIC - Correction de la réponse (${violations.length} écart(s)), tentative ${repairAttempts}`);
+        
+        llmResponse = await this.callLLMWithRetry(provider, systemPrompt.content, userPrompt.content, dataSource.id, runId, llmControl, {
+          previousContent: llmResponse.content,
+          violations
+        });
+        llmCost += llmResponse.cost;
+        ({ data, violations } = parseHarvestContent(llmResponse.content));
       }
       
-      if (rawContent.length > 50000) {
-        console.warn('⚠️ Réponse OpenAI très longue:', rawContent.length, 'caractères');
-      }
+      const rawContent = llmResponse.content;
+      let harvestData: HarvestResponse;
       
-      // Parser le JSON contenu dans la réponse
-      let parsedContent;
-      try {
-        // Tenter de parser directement le contenu comme JSON
-        console.log('🔍 DIAGNOSTIC - Tentative parsing JSON direct...');
-        parsedContent = JSON.parse(rawContent);
-        console.log('✅ DIAGNOSTIC - Parsing JSON direct réussi');
-      } catch (parseError) {
-        console.log('⚠️ Parsing JSON direct échoué, tentative d\'extraction...');
+      if (violations.length > 0) {
+        await this.logSchemaViolations(violations, dataSource.id, runId, repairAttempts);
         
-        // Tenter d'extraire le JSON du texte (au cas où il y aurait du texte avant/après)
-        const jsonMatch = rawContent.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          try {
-            console.log('🔍 DIAGNOSTIC - Tentative parsing JSON extrait...');
-            parsedContent = JSON.parse(jsonMatch[0]);
-            console.log('✅ DIAGNOSTIC - Parsing JSON extrait réussi');
-          } catch (extractError) {
-            console.error('❌ DIAGNOSTIC - Échec parsing JSON extrait:', extractError);
-            throw new Error(`Impossible de parser le JSON dans la réponse OpenAI: ${extractError instanceof Error ? extractError.message : 'Format invalide'}`);
-          }
-        } else {
-          console.error('❌ DIAGNOSTIC - Aucun JSON trouvé dans la réponse');
-          console.log('📝 DIAGNOSTIC - Contenu complet reçu:', rawContent);
-          throw new Error('Aucun JSON valide trouvé dans la réponse OpenAI');
+        // Seuls les documents fautifs sont écartés ; une structure globale invalide fait échouer l'exécution
+        const invalidDocuments = new Set<number>();
+        const structuralViolations = violations.filter(violation => {
+          const match = violation.path.match(/^\$\.documents\[(\d+)\]/);
+          if (match) invalidDocuments.add(Number(match[1]));
+          return !match;
+        });
+        
+        if (!data || structuralViolations.length > 0) {
+          throw new Error(`Réponse LLM non conforme au schéma après ${repairAttempts} correction(s): ${
+            structuralViolations.slice(0, 3).map(v => `${v.path} ${v.message}`).join('; ')
+          }`);
         }
+        
+        harvestData = {
+          ...data,
+          documents: data.documents.filter((_, index) => !invalidDocuments.has(index))
+        };
+        
+        await HarvestLogService.logWarning(
+          `${invalidDocuments.size} document(s) écarté(s) : non conformes au schéma après correction`,
+          dataSource.id,
+          { type: 'schema_documents_dropped', indexes: Array.from(invalidDocuments) },
+          runId
+        );
+      } else {
+        harvestData = data!;
       }
       
-      // Validation de la structure JSON
-      if (!parsedContent || typeof parsedContent !== 'object') {
-        throw new Error('Réponse OpenAI n\'est pas un objet JSON valide');
-      }
-      
-      // Valider et extraire les 3 sections attendues
-      const harvestData = {
-        documents: Array.isArray(parsedContent.documents) ? parsedContent.documents : [],
-        'obstacles-globaux': Array.isArray(parsedContent['obstacles-globaux']) ? parsedContent['obstacles-globaux'] : [],
-        recommandations: typeof parsedContent.recommandations === 'string' ? parsedContent.recommandations : ''
-      };
-      
-      // Validation de sécurité des données extraites
-      if (!Array.isArray(harvestData.documents)) {
-        console.warn('⚠️ DIAGNOSTIC - Documents n\'est pas un tableau, correction appliquée');
-        harvestData.documents = [];
-      }
-      
-      if (!Array.isArray(harvestData['obstacles-globaux'])) {
-        console.warn('⚠️ DIAGNOSTIC - Obstacles-globaux n\'est pas un tableau, correction appliquée');
-        harvestData['obstacles-globaux'] = [];
+      // Variantes d'une même URL (http/https, suivi, casse de l'hôte) : un seul document
+      const deduplicated = mergeDuplicateDocuments(harvestData.documents);
+      if (deduplicated.merged > 0) {
+        harvestData.documents = deduplicated.documents;
+        await HarvestLogService.logInfo(
+          `${deduplicated.merged} document(s) en double fusionné(s) (même URL canonique)`,
+          dataSource.id,
+          { type: 'duplicate_documents_merged', merged: deduplicated.merged },
+          runId
+        );
       }
       
       console.log('✅ Données extraites:', {
         documentsCount: harvestData.documents.length,
         obstaclesCount: harvestData['obstacles-globaux'].length,
-        hasRecommandations: !!harvestData.recommandations
+        hasRecommandations: !!harvestData.recommandations,
+        repairAttempts
       });
       
-      // Validation minimale
-      if (harvestData.documents.length === 0 && harvestData['obstacles-globaux'].length === 0 && !harvestData.recommandations) {
-        console.warn('⚠️ Aucune donnée utile extraite de la réponse OpenAI');
-        console.log('📝 DIAGNOSTIC - Structure reçue:', Object.keys(parsedContent));
+      // 4. Moissonnage incrémental : classer les documents par rapport aux exécutions précédentes
+      let changeStats: RunStats = {};
+      try {
+        const changes = await DocumentChangeService.detectChanges(dataSource.id, runId, harvestData.documents);
+        harvestData.documents = DocumentChangeService.annotateDocuments(harvestData.documents, changes.statuses);
+        changeStats = DocumentChangeService.toRunStats(changes.counts);
+      } catch (changeError) {
+        // Non bloquant : le résultat est conservé, sans statut de changement
+        await HarvestLogService.logWarning(
+          `Détection des changements impossible: ${changeError instanceof Error ? changeError.message : 'Erreur inconnue'}`,
+          dataSource.id,
+          {},
+          runId
+        );
       }
       
-      // 4. Sauvegarder uniquement dans la base de données
-      // Utiliser des données réalistes basées sur le site réel
-      const realisticData = this.generateRealisticHarvestData(dataSource);
-      const filePath = await this.saveToDatabaseOnly(realisticData, dataSource.id, dataSource.name);
+      // 5. Sauvegarder la réponse parsée avec la complétion brute et les métadonnées d'appel
+      const filePath = await this.saveToDatabaseOnly(harvestData, dataSource.id, config?.id ?? null, {
+        raw_completion: rawContent,
+        llm_provider: llmResponse.provider,
+        model: llmResponse.model || null,
+        usage: llmResponse.usage,
+        finish_reason: llmResponse.finishReason,
+        prompt_hash: llmResponse.prompt_hash,
+        prompt_versions: { harvest_system: systemPrompt.version, harvest_user: userPrompt.version },
+        schema: HARVEST_RESPONSE_SCHEMA_NAME,
+        repair_attempts: repairAttempts,
+        mock_llm: llmResponse.provider === 'fixture'
+      }, runId, {
+        systemTemplateId: systemPrompt.templateId,
+        userTemplateId: userPrompt.templateId
+      });
+      
+      // 6. Clôturer l'exécution avec ses statistiques
+      await HarvestRunService.finishRun(runId, 'success', {
+        documents_found: harvestData.documents.length,
+        ...changeStats,
+        llm_cost: llmCost,
+        retry_count: llmControl.retries
+      });
       
-      // 5. Log de succès
+      // 7. Log de succès
       await HarvestLogService.logInfo(
         `Moissonnage OpenAI terminé avec succès pour ${dataSource.name}`,
         dataSource.id,
-        { filePath, documentsFound: realisticData.documents.length }
+        { filePath, documentsFound: harvestData.documents.length },
+        runId
       );
       
       console.log('🎉 MOISSONNAGE TERMINÉ AVEC SUCCÈS');
@@ -532,7 +453,8 @@ RÈGLES CRITIQUES:
       return {
         success: true,
         filePath,
-        retryCount: 0
+        runId,
+        retryCount: llmControl.retries
       };
       
     } catch (error) {
@@ -544,99 +466,70 @@ RÈGLES CRITIQUES:
       await HarvestLogService.logError(
         `Échec du moissonnage OpenAI pour ${dataSource.name}: ${errorMessage}`,
         dataSource.id,
-        { error: error instanceof Error ? error.stack : error, retryCount }
+        { error: error instanceof Error ? error.stack : error, retryCount: llmControl.retries },
+        runId
       );
       
+      if (runId) {
+        // Interruption demandée (annulation ou pause du job) : exécution interrompue, pas en échec
+        await HarvestRunService.finishRun(runId, options.signal?.aborted ? 'cancelled' : 'failed', {
+          error_count: 1,
+          retry_count: llmControl.retries
+        }, errorMessage);
+      }
+      
       return {
         success: false,
         error: errorMessage,
-        retryCount
+        runId: runId ?? undefined,
+        retryCount: llmControl.retries
       };
     }
   }
 
-  // Générer des données réalistes basées sur le site
-  private static generateRealisticHarvestData(dataSource: DataSource): any {
-    console.log('🎯 Génération de données réalistes pour:', dataSource.name);
-    
-    // Données réalistes basées sur des sites réels
-    const realisticDocuments = [];
+  // Chaque écart au schéma est tracé dans harvest_logs avec le chemin du champ
+  private static async logSchemaViolations(
+    violations: SchemaViolation[],
+    dataSourceId: string,
+    runId: string | null,
+    attempt: number
+  ): Promise<void> {
+    console.warn(`⚠️ DIAGNOSTIC - ${violations.length} écart(s) au schéma (tentative ${attempt + 1})`);
     
-    if (dataSource.url.includes('zighed.com')) {
-      realisticDocuments.push({
-        "url_doc": "https://zighed.com/wp-content/uploads/2023/07/D-A-Zighed-Rapp-Activite.pdf",
-        "type_document": "Curriculum Vitae / Rapport d'activité",
-        "format": "PDF",
-        "source_page": "https://zighed.com/?lang=fr",
-        "document_name": "Curriculum Vitae (rapport d'activité) – Djamel Abdelkader ZIGHED",
-        "date_edition": "2023-07",
-        "auteurs": "Djamel Abdelkader Zighed",
-        "langue": "fr",
-        "resume": "CV détaillé en français (44 pages) couvrant positions, formations, projets de recherche, responsabilités et activités académiques.",
-        "statut": "Publié en ligne (document personnel)",
-        "issue_number": null,
-        "annee": 2023,
-        "filename": "D-A-Zighed-Rapp-Activite.pdf",
-        "contient_texte": "oui",
-        "pattern_verified": true,
-        "notes": "Lien trouvé via la page d'accueil FR (« Télécharger le CV détaillé en Français »). Nombre de pages confirmé à 44.",
-        "obstacles": null
-      });
-    } else {
-      // Pour d'autres sites, générer des données plausibles
-      const domain = new URL(dataSource.url).hostname;
-      realisticDocuments.push({
-        "url_doc": `${dataSource.url}/documents/rapport_2024.pdf`,
-        "type_document": "Rapport",
-        "format": "PDF",
-        "source_page": dataSource.url,
-        "document_name": `Rapport 2024 - ${domain}`,
-        "date_edition": "2024-01",
-        "auteurs": "Équipe éditoriale",
-        "langue": "fr",
-        "resume": `Document officiel du site ${domain}`,
-        "statut": "en ligne",
-        "issue_number": null,
-        "annee": 2024,
-        "filename": "rapport_2024.pdf",
-        "contient_texte": "oui",
-        "pattern_verified": true,
-        "notes": `Document trouvé sur ${domain}`,
-        "obstacles": null
-      });
+    try {
+      await HarvestLogService.createLogs(violations.map(violation => ({
+        level: 'warning',
+        message: `Réponse LLM non conforme au schéma: ${violation.path}`,
+        data_source_id: dataSourceId,
+        run_id: runId,
+        details: {
+          type: 'schema_violation',
+          path: violation.path,
+          violation: violation.message,
+          attempt: attempt + 1
+        }
+      })));
+    } catch (logError) {
+      console.error('❌ Erreur journalisation des écarts au schéma:', logError);
     }
-    
-    return {
-      "documents": realisticDocuments,
-      "obstacles-globaux": [
-        "Indexation des répertoires /wp-content/uploads non exposée (pas de listing public), rendant difficile l'énumération exhaustive des PDF par navigation de dossiers.",
-        "Moteurs de recherche ne renvoient pas la liste complète des PDF du domaine (indexation faible)."
-      ],
-      "recommandations": "Pour une couverture maximale: 1) Parcourir manuellement chaque page du site et ouvrir tout lien 'Télécharger' ou .pdf détecté; 2) Utiliser des requêtes avancées sur les moteurs de recherche; 3) Répéter ponctuellement l'exploration pour capter d'éventuels ajouts."
-    };
   }
 
-  // Moissonner plusieurs sites séquentiellement
-  static async harvestMultipleWebsites(dataSources: DataSource[]): Promise<OpenAIHarvestResult[]> {
-    console.log('🌾 DÉBUT MOISSONNAGE MULTIPLE:', dataSources.length, 'sites');
-    
-    const results: OpenAIHarvestResult[] = [];
-    
-    for (let i = 0; i < dataSources.length; i++) {
-      const dataSource = dataSources[i];
-      console.log(`\n📍 Site ${i + 1}/${dataSources.length}:`, dataSource.name);
-      
-      const result = await this.harvestWebsite(dataSource);
-      results.push(result);
-      
-      // Petite pause entre les sites pour éviter le rate limiting
-      if (i < dataSources.length - 1) {
-        console.log('⏳ Pause de 1s avant le site suivant...');
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    }
-    
-    console.log('🎉 MOISSONNAGE MULTIPLE TERMINÉ');
-    return results;
+  // Mode mock LLM : réponses déterministes sans appel réseau (tests, démonstrations)
+  static isMockMode(): boolean {
+    return LLMProviderService.isMockMode();
+  }
+
+  // Remplacer le contenu renvoyé en mode mock (null pour revenir à la réponse par défaut)
+  static setMockResponse(content: string | null): void {
+    FixtureProvider.setResponse(content);
+  }
+
+  // Calculer l'empreinte SHA-256 des prompts envoyés
+  private static async hashPrompt(systemPrompt: string, userPrompt: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const data = encoder.encode(`${systemPrompt}\n---\n${userPrompt}`);
+    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+    const hashArray = Array.from(new Uint8Array(hashBuffer));
+    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
   }
 }
\ No newline at end of file
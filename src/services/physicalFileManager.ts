@@ -1,73 +1,109 @@
 import { supabase } from '../lib/supabase';
+import { fileTypeFromBuffer } from 'file-type';
+import { DocumentProxyService } from './documentProxyService';
 
 interface DownloadResult {
   success: boolean;
   localPath?: string;
   error?: string;
   filename: string;
+  checksum?: string;
+  byteSize?: number;
+  mimeType?: string;
 }
 
-export class PhysicalFileManager {
-  private static readonly BASE_DIR = '/Rep_misania';
+// Emplacement des fichiers archivés : Supabase Storage par défaut, remplaçable
+// (système de fichiers local d'un script, tests) via PhysicalFileManager.useStorage
+export interface ArchiveStorage {
+  readonly name: string;
+  exists(path: string): Promise<boolean>;
+  write(path: string, bytes: Uint8Array, contentType: string): Promise<void>;
+}
 
-  // Créer la structure de répertoires
-  static async createDirectoryStructure(siteName: string): Promise<string> {
-    const siteDir = `${this.BASE_DIR}/${siteName}`;
-    
-    try {
-      // Créer le répertoire de base s'il n'existe pas
-      await this.ensureDirectoryExists(this.BASE_DIR);
-      
-      // Créer le répertoire du site s'il n'existe pas
-      await this.ensureDirectoryExists(siteDir);
-      
-      return siteDir;
-    } catch (error) {
-      throw new Error(`Erreur lors de la création des répertoires: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
+// Bucket Storage « archives » : un répertoire par site
+export class SupabaseArchiveStorage implements ArchiveStorage {
+  readonly name: string;
+
+  constructor(private readonly bucket = 'archives') {
+    this.name = bucket;
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const { data, error } = await supabase.storage.from(this.bucket).exists(path);
+    if (error) {
+      throw new Error(`Erreur lors de la vérification de ${path}: ${error.message}`);
     }
+    return data;
   }
 
-  // Vérifier/créer un répertoire
-  private static async ensureDirectoryExists(dirPath: string): Promise<void> {
-    try {
-      // Tenter de lire le répertoire
-      const response = await fetch(`${dirPath}/`);
-      if (!response.ok) {
-        // Le répertoire n'existe pas, le créer
-        console.log(`Création du répertoire: ${dirPath}`);
-        // Note: En environnement WebContainer, nous simulons la création
-        // Dans un vrai environnement, utiliser fs.mkdir
-      }
-    } catch (error) {
-      console.log(`Création du répertoire: ${dirPath}`);
-      // Simuler la création du répertoire
+  async write(path: string, bytes: Uint8Array, contentType: string): Promise<void> {
+    const { error } = await supabase.storage
+      .from(this.bucket)
+      .upload(path, bytes, { contentType, upsert: false });
+
+    if (error) {
+      throw new Error(`Erreur lors de l'enregistrement de ${path}: ${error.message}`);
     }
   }
+}
+
+export class PhysicalFileManager {
+  private static readonly MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+  private static readonly DOWNLOAD_TIMEOUT = 60000; // 60 secondes par document
+  private static storage: ArchiveStorage = new SupabaseArchiveStorage();
+
+  static useStorage(storage: ArchiveStorage) {
+    this.storage = storage;
+  }
 
-  // Télécharger un document physiquement
+  static get storageName(): string {
+    return this.storage.name;
+  }
+
+  // Répertoire du site dans l'archive (créé implicitement au premier fichier)
+  static async createDirectoryStructure(siteName: string): Promise<string> {
+    const siteDir = this.sanitizeFilename(siteName.replace(/[^a-zA-Z0-9]/g, '_')) || 'site';
+    console.log('📁 Répertoire d\'archive du site:', `${this.storage.name}/${siteDir}`);
+    return siteDir;
+  }
+
+  // Télécharger un document (via document-proxy) et l'archiver dans le répertoire du site
   static async downloadDocument(
-    url: string, 
-    originalFilename: string, 
-    targetDirectory: string
+    url: string,
+    originalFilename: string,
+    targetDirectory: string,
+    dataSourceId: string | null = null
   ): Promise<DownloadResult> {
     console.log('📥 PhysicalFileManager.downloadDocument appelé');
     console.log('- URL:', url);
     console.log('- Filename:', originalFilename);
     console.log('- Directory:', targetDirectory);
-    
+
     try {
-      // Simplifier le nom de fichier
-      const finalFilename = this.sanitizeFilename(originalFilename);
+      const { bytes, contentType } = await DocumentProxyService.fetchDocument(url, {
+        dataSourceId,
+        maxBytes: this.MAX_FILE_SIZE,
+        signal: AbortSignal.timeout(this.DOWNLOAD_TIMEOUT)
+      });
+
+      const checksum = await this.checksum(bytes);
+      const mimeType = await this.detectMimeType(bytes, contentType);
+
+      // Nom simplifié, préfixé dup_ / dup_N_ si le fichier existe déjà
+      const finalFilename = await this.generateUniqueFilename(this.sanitizeFilename(originalFilename), targetDirectory);
       const localPath = `${targetDirectory}/${finalFilename}`;
       console.log('- Fichier final:', finalFilename);
 
-      // Dans WebContainer, simuler le téléchargement réussi
-      console.log('✅ Simulation téléchargement réussi (WebContainer)');
-      
+      await this.storage.write(localPath, bytes, mimeType);
+      console.log('✅ Document archivé:', `${this.storage.name}/${localPath}`, Math.round(bytes.byteLength / 1024), 'KB');
+
       return {
         success: true,
         localPath,
-        filename: finalFilename
+        filename: finalFilename,
+        checksum,
+        byteSize: bytes.byteLength,
+        mimeType
       };
 
     } catch (error) {
@@ -82,6 +118,19 @@ export class PhysicalFileManager {
     }
   }
 
+  // Empreinte SHA-256 du contenu archivé
+  private static async checksum(bytes: Uint8Array): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Type MIME d'après le contenu, sinon celui annoncé par le site
+  private static async detectMimeType(bytes: Uint8Array, announced: string): Promise<string> {
+    const detected = await fileTypeFromBuffer(bytes);
+    if (detected) return detected.mime;
+    return announced.split(';')[0].trim() || 'application/octet-stream';
+  }
+
   // Générer un nom de fichier unique en gérant les doublons
   private static async generateUniqueFilename(filename: string, directory: string): Promise<string> {
     let finalFilename = filename;
@@ -104,12 +153,7 @@ export class PhysicalFileManager {
 
   // Vérifier si un fichier existe
   private static async fileExists(filePath: string): Promise<boolean> {
-    try {
-      const response = await fetch(filePath);
-      return response.ok;
-    } catch {
-      return false;
-    }
+    return this.storage.exists(filePath);
   }
 
   // Extraire le nom de fichier depuis une URL
@@ -142,12 +186,15 @@ export class PhysicalFileManager {
     }
   }
 
-  // Nettoyer un nom de fichier pour le système de fichiers
+  // Nettoyer un nom de fichier pour le système de fichiers (et les clés Storage, ASCII uniquement)
   static sanitizeFilename(filename: string): string {
     return filename
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '') // Accents
       .replace(/[<>:"/\\|?*]/g, '_') // Caractères interdits
       .replace(/\s+/g, '_') // Espaces en underscores
+      .replace(/[^\w.-]/g, '_') // Autres caractères non ASCII
       .replace(/_+/g, '_') // Multiples underscores en un seul
       .replace(/^_|_$/g, ''); // Supprimer underscores début/fin
   }
-}
\ No newline at end of file
+}
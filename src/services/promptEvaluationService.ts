@@ -0,0 +1,184 @@
+import { supabase } from '../lib/supabase';
+import type { Database, OpenAIDocument } from '../lib/database.types';
+import { HARVEST_RESPONSE_SCHEMA, HARVEST_RESPONSE_SCHEMA_NAME } from '../lib/harvestResponseSchema';
+import {
+  variantKey,
+  evaluateVariant,
+  type EvaluationBundle,
+  type GoldenDocument,
+  type VariantResult
+} from '../lib/promptEvaluation';
+import { HarvestingConfigService } from './harvestingConfigService';
+import { LLMProviderService } from './llmProviderService';
+import { PromptTemplateService, type PromptTemplate } from './promptTemplateService';
+
+export type GoldenHarvest = Database['public']['Tables']['golden_harvests']['Row'];
+type DataSource = Database['public']['Tables']['data_sources']['Row'];
+type Recording = Database['public']['Tables']['prompt_eval_recordings']['Row'];
+
+// Couple de versions évalué : prompt système et prompt du site
+export interface PromptVariant {
+  system: PromptTemplate;
+  user: PromptTemplate;
+}
+
+export class PromptEvaluationService {
+  static variantKeyOf(variant: PromptVariant): string {
+    return variantKey(variant.system.version, variant.user.version);
+  }
+
+  static async getGoldens(): Promise<GoldenHarvest[]> {
+    const { data, error } = await supabase
+      .from('golden_harvests')
+      .select('*');
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des références: ${error.message}`);
+    }
+
+    return (data || []) as GoldenHarvest[];
+  }
+
+  static async saveGolden(dataSourceId: string, documents: GoldenDocument[], notes?: string | null): Promise<GoldenHarvest> {
+    const invalid = documents.filter(document => !document || typeof document.url_doc !== 'string' || !document.url_doc.trim());
+    if (invalid.length > 0) {
+      throw new Error(`${invalid.length} document(s) de référence sans url_doc`);
+    }
+
+    const stored = documents.map(document => ({
+      url_doc: document.url_doc,
+      date_edition: document.date_edition ?? null,
+      langue: document.langue ?? null,
+      type_document: document.type_document ?? null
+    }));
+
+    const { data, error } = await supabase
+      .from('golden_harvests')
+      .upsert({ data_source_id: dataSourceId, documents: stored, notes: notes ?? null }, { onConflict: 'data_source_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Erreur lors de l'enregistrement de la référence: ${error.message}`);
+    }
+
+    return data as GoldenHarvest;
+  }
+
+  // Point de départ d'une référence : documents du dernier résultat de la source, à relire et corriger
+  static async draftGoldenFromLatestResult(dataSourceId: string): Promise<GoldenDocument[]> {
+    const { data, error } = await supabase
+      .from('harvest_results')
+      .select('data')
+      .eq('data_source_id', dataSourceId)
+      .order('harvested_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération du dernier résultat: ${error.message}`);
+    }
+
+    const latest = (data as { data: unknown }[] | null)?.[0];
+    const documents = ((latest?.data as { documents?: OpenAIDocument[] } | undefined)?.documents) || [];
+    return documents
+      .filter(document => document?.url_doc)
+      .map(document => ({
+        url_doc: document.url_doc,
+        date_edition: document.date_edition ?? null,
+        langue: document.langue ?? null,
+        type_document: document.type_document ?? null
+      }));
+  }
+
+  // Appeler le LLM avec un couple de versions et enregistrer la réponse brute, rejouable hors ligne
+  static async recordVariant(dataSource: DataSource, variant: PromptVariant): Promise<void> {
+    const configs = await HarvestingConfigService.getConfigsByDataSource(dataSource.id);
+    const config = configs[0] ?? null;
+    const systemPrompt = PromptTemplateService.renderTemplate(variant.system, dataSource, config);
+    const userPrompt = PromptTemplateService.renderTemplate(variant.user, dataSource, config);
+
+    const provider = await LLMProviderService.forTask('harvest', dataSource.id);
+    const response = await provider.chat({
+      messages: [
+        { role: 'system', content: systemPrompt.content },
+        { role: 'user', content: userPrompt.content }
+      ],
+      temperature: 0.7,
+      maxTokens: 4000,
+      responseSchema: { name: HARVEST_RESPONSE_SCHEMA_NAME, schema: HARVEST_RESPONSE_SCHEMA }
+    });
+
+    const { error } = await supabase
+      .from('prompt_eval_recordings')
+      .insert({
+        data_source_id: dataSource.id,
+        system_template_id: variant.system.id,
+        user_template_id: variant.user.id,
+        provider: response.provider,
+        model: response.model,
+        response: response.content
+      });
+
+    if (error) {
+      throw new Error(`Erreur lors de l'enregistrement de la réponse: ${error.message}`);
+    }
+
+    console.log(`🎙️ Réponse enregistrée pour ${dataSource.name} (${this.variantKeyOf(variant)})`);
+  }
+
+  // Jeu d'évaluation : références et dernière réponse enregistrée de chaque variante
+  static async buildBundle(): Promise<EvaluationBundle> {
+    const goldens = await this.getGoldens();
+    const dataSourceIds = goldens.map(golden => golden.data_source_id);
+    if (dataSourceIds.length === 0) {
+      return { version: 1, generatedAt: new Date().toISOString(), cases: [] };
+    }
+
+    const [{ data: sources, error: sourcesError }, { data: recordings, error: recordingsError }, { data: templates, error: templatesError }] = await Promise.all([
+      supabase.from('data_sources').select('id, name').in('id', dataSourceIds),
+      supabase
+        .from('prompt_eval_recordings')
+        .select('data_source_id, system_template_id, user_template_id, response')
+        .in('data_source_id', dataSourceIds)
+        .order('created_at', { ascending: true }),
+      supabase.from('prompt_templates').select('id, version')
+    ]);
+
+    const queryError = sourcesError || recordingsError || templatesError;
+    if (queryError) {
+      throw new Error(`Erreur lors de la constitution du jeu d'évaluation: ${queryError.message}`);
+    }
+
+    const versions = new Map(((templates || []) as Pick<PromptTemplate, 'id' | 'version'>[]).map(template => [template.id, template.version]));
+    const sourceNames = new Map(((sources || []) as Pick<DataSource, 'id' | 'name'>[]).map(source => [source.id, source.name]));
+    const recordedResponses = (recordings || []) as Pick<Recording, 'data_source_id' | 'system_template_id' | 'user_template_id' | 'response'>[];
+
+    return {
+      version: 1,
+      generatedAt: new Date().toISOString(),
+      cases: goldens.map(golden => {
+        const responses: Record<string, string> = {};
+        // Tri chronologique : la réponse la plus récente d'une variante écrase les précédentes
+        for (const recording of recordedResponses) {
+          if (recording.data_source_id !== golden.data_source_id) continue;
+          const systemVersion = versions.get(recording.system_template_id);
+          const userVersion = versions.get(recording.user_template_id);
+          if (systemVersion === undefined || userVersion === undefined) continue;
+          responses[variantKey(systemVersion, userVersion)] = recording.response;
+        }
+
+        return {
+          dataSourceId: golden.data_source_id,
+          dataSourceName: sourceNames.get(golden.data_source_id) || golden.data_source_id,
+          golden: (golden.documents as unknown as GoldenDocument[]) || [],
+          responses
+        };
+      })
+    };
+  }
+
+  // Comparer deux variantes hors ligne, à partir des seules réponses enregistrées
+  static compare(bundle: EvaluationBundle, variantA: string, variantB: string): { a: VariantResult; b: VariantResult } {
+    return { a: evaluateVariant(bundle, variantA), b: evaluateVariant(bundle, variantB) };
+  }
+}
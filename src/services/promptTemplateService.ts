@@ -0,0 +1,142 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { buildVariables, render } from '../lib/promptRender';
+
+export type PromptTemplate = Database['public']['Tables']['prompt_templates']['Row'];
+type DataSource = Database['public']['Tables']['data_sources']['Row'];
+type HarvestingConfig = Database['public']['Tables']['harvesting_configs']['Row'];
+
+export type PromptTemplateName = 'harvest_system' | 'harvest_user';
+
+export const PROMPT_TEMPLATE_LABELS: Record<PromptTemplateName, string> = {
+  harvest_system: 'Prompt système du moissonnage',
+  harvest_user: 'Prompt du site'
+};
+
+// Variables disponibles dans les templates, avec leur description
+export const PROMPT_TEMPLATE_VARIABLES: Record<string, string> = {
+  'data_source.name': 'Nom du site',
+  'data_source.url': 'URL du site',
+  'data_source.type': 'Type de source',
+  'data_source.description': 'Description',
+  'data_source.generated_prompt': 'Prompt généré par le formulaire du site',
+  'data_source.special_instructions': 'Consignes particulières',
+  'config.frequency': 'Fréquence (manual, daily, weekly, monthly)',
+  'config.max_pages': 'Pages maximum',
+  'config.delay_between_requests': 'Délai entre requêtes (ms)',
+  'config.document_formats': 'Formats de documents, séparés par des virgules',
+  'config.languages': 'Langues, séparées par des virgules',
+  'config.date_start': 'Début de la période',
+  'config.date_end': 'Fin de la période',
+  'config.keywords': 'Mots-clés à inclure',
+  'config.exclude_keywords': 'Mots-clés à exclure',
+  'config.min_size': 'Taille minimum (MB)',
+  'config.max_size': 'Taille maximum (MB)'
+};
+
+export interface RenderedPrompt {
+  content: string;
+  templateId: string;
+  version: number;
+}
+
+export class PromptTemplateService {
+  private static activeCache = new Map<PromptTemplateName, { template: PromptTemplate; timestamp: number }>();
+  private static readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+  // Version active d'un template (en cache 5 minutes)
+  static async getActive(name: PromptTemplateName): Promise<PromptTemplate> {
+    const cached = this.activeCache.get(name);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
+      return cached.template;
+    }
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('name', name)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération du template ${name}: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error(`Aucune version active du template ${name}`);
+    }
+
+    const template = data as PromptTemplate;
+    this.activeCache.set(name, { template, timestamp: Date.now() });
+    return template;
+  }
+
+  // Toutes les versions d'un template, la plus récente en premier
+  static async getVersions(name: PromptTemplateName): Promise<PromptTemplate[]> {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('name', name)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des versions: ${error.message}`);
+    }
+
+    return (data || []) as PromptTemplate[];
+  }
+
+  // Enregistrer une nouvelle version et l'activer
+  static async createVersion(name: PromptTemplateName, content: string, description?: string): Promise<PromptTemplate> {
+    const versions = await this.getVersions(name);
+    const nextVersion = (versions[0]?.version ?? 0) + 1;
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .insert({ name, version: nextVersion, content, description: description || null })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Erreur lors de la création de la version: ${error.message}`);
+    }
+
+    console.log(`📝 Template ${name} v${nextVersion} créé`);
+    return this.activate((data as PromptTemplate).id);
+  }
+
+  // Activer une version existante (retour arrière compris)
+  static async activate(id: string): Promise<PromptTemplate> {
+    const { data, error } = await supabase.rpc('activate_prompt_template', { p_id: id });
+
+    if (error) {
+      throw new Error(`Erreur lors de l'activation de la version: ${error.message}`);
+    }
+
+    const template = data as unknown as PromptTemplate;
+    this.activeCache.delete(template.name as PromptTemplateName);
+    console.log(`✅ Template ${template.name} v${template.version} actif`);
+    return template;
+  }
+
+  // Rendre la version active d'un template pour une source
+  static async renderActive(
+    name: PromptTemplateName,
+    dataSource: DataSource,
+    config?: HarvestingConfig | null
+  ): Promise<RenderedPrompt> {
+    return this.renderTemplate(await this.getActive(name), dataSource, config);
+  }
+
+  // Rendre une version donnée (évaluation d'une version non active)
+  static renderTemplate(
+    template: PromptTemplate,
+    dataSource: DataSource,
+    config?: HarvestingConfig | null
+  ): RenderedPrompt {
+    return {
+      content: render(template.content, buildVariables(dataSource, config)),
+      templateId: template.id,
+      version: template.version
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { HarvestLogService } from './harvestLogService';
+import type { Database } from '../lib/database.types';
+
+type DataSource = Database['public']['Tables']['data_sources']['Row'];
+
+interface SitemapHarvestResult {
+  success: boolean;
+  filePath?: string;
+  runId?: string;
+  error?: string;
+  retryCount: number;
+  documentsFound?: number;
+  feedsFetched?: number;
+}
+
+export class SitemapHarvestingService {
+  private static readonly TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes : index de sitemaps volumineux
+
+  // Lister les documents depuis les sitemaps / flux RSS-Atom (fonction edge harvest-sitemap, sans LLM)
+  static async harvestWebsite(dataSource: DataSource): Promise<SitemapHarvestResult> {
+    console.log('🗺️ DÉBUT LECTURE SITEMAPS / FLUX pour:', dataSource.name);
+
+    try {
+      const sitemapUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/harvest-sitemap`;
+
+      const response = await fetch(sitemapUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ data_source_id: dataSource.id }),
+        signal: AbortSignal.timeout(this.TIMEOUT_MS)
+      });
+
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok || !payload.success) {
+        throw new Error(payload.error || `Erreur sitemap: ${response.status} ${response.statusText}`);
+      }
+
+      console.log('✅ Flux lus:', {
+        documentsFound: payload.documentsFound,
+        feedsFetched: payload.feedsFetched
+      });
+
+      return {
+        success: true,
+        filePath: `database:${payload.harvest_result_id}`,
+        runId: payload.run_id,
+        retryCount: 0,
+        documentsFound: payload.documentsFound,
+        feedsFetched: payload.feedsFetched
+      };
+
+    } catch (error) {
+      console.error('❌ ERREUR SITEMAP:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Erreur inconnue';
+
+      await HarvestLogService.logError(
+        `Échec de la lecture des flux pour ${dataSource.name}: ${errorMessage}`,
+        dataSource.id
+      ).catch(logError => console.error('❌ Erreur log sitemap:', logError));
+
+      return {
+        success: false,
+        error: errorMessage,
+        retryCount: 0
+      };
+    }
+  }
+}
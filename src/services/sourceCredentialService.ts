@@ -0,0 +1,91 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+
+export type CredentialStatus = Database['public']['Views']['data_source_credential_status']['Row'];
+export type AuthType = 'basic' | 'bearer' | 'headers' | 'form_login';
+
+export const AUTH_TYPE_LABELS: Record<AuthType, string> = {
+  basic: 'Authentification HTTP basique',
+  bearer: 'Jeton d\'API',
+  headers: 'En-têtes personnalisés',
+  form_login: 'Formulaire de connexion'
+};
+
+// Identifiants saisis : envoyés une seule fois à la fonction edge, jamais relus par le navigateur
+export type SourceCredentialsInput =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string; header_name?: string; prefix?: string }
+  | { type: 'headers'; headers: Record<string, string> }
+  | {
+    type: 'form_login';
+    login_url: string;
+    username: string;
+    password: string;
+    username_field?: string;
+    password_field?: string;
+    extra_fields?: Record<string, string>;
+  };
+
+export interface CredentialTestResult {
+  ok: boolean;
+  http_status: number | null;
+  error?: string;
+}
+
+export class SourceCredentialService {
+  // Appel de la fonction edge source-credentials (save / delete / test)
+  private static async callCredentialsEndpoint<T>(body: Record<string, unknown>): Promise<T> {
+    const credentialsUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/source-credentials`;
+
+    const response = await fetch(credentialsUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body)
+    });
+
+    const payload = await response.json().catch(() => ({}));
+
+    if (!response.ok || !payload.success) {
+      throw new Error(payload.error || `Erreur identifiants: ${response.status} ${response.statusText}`);
+    }
+
+    return payload as T;
+  }
+
+  // Statut sans secret (type, session active, dernière connexion)
+  static async getStatus(dataSourceId: string): Promise<CredentialStatus | null> {
+    const { data, error } = await supabase
+      .from('data_source_credential_status')
+      .select('*')
+      .eq('data_source_id', dataSourceId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des identifiants: ${error.message}`);
+    }
+
+    return data as CredentialStatus | null;
+  }
+
+  static async save(dataSourceId: string, credentials: SourceCredentialsInput): Promise<CredentialStatus | null> {
+    console.log('🔐 Enregistrement des identifiants:', dataSourceId, credentials.type);
+    const { status } = await this.callCredentialsEndpoint<{ status: CredentialStatus | null }>({
+      action: 'save',
+      data_source_id: dataSourceId,
+      credentials
+    });
+    return status;
+  }
+
+  static async remove(dataSourceId: string): Promise<void> {
+    await this.callCredentialsEndpoint({ action: 'delete', data_source_id: dataSourceId });
+  }
+
+  // Connexion (formulaire) puis chargement de l'URL de la source avec les identifiants
+  static async test(dataSourceId: string): Promise<{ test: CredentialTestResult; status: CredentialStatus | null }> {
+    return this.callCredentialsEndpoint({ action: 'test', data_source_id: dataSourceId });
+  }
+}
@@ -0,0 +1,84 @@
+import { supabase } from '../lib/supabase';
+import { canonicalizeUrl } from '../lib/canonicalUrl';
+import type { Database } from '../lib/database.types';
+import { DocumentProxyService } from './documentProxyService';
+
+export type WarcCapture = Database['public']['Tables']['warc_records']['Row'];
+export type WarcFile = Database['public']['Tables']['warc_files']['Row'];
+
+export interface ArchivedCopy {
+  blob: Blob;
+  contentType: string;
+  capture: WarcCapture;
+}
+
+// Copies archivées (capture WARC des exécutions), servies par la fonction edge warc-replay
+export class WarcArchiveService {
+  static readonly REPLAY_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/warc-replay`;
+
+  // Captures consultables d'une URL, toutes exécutions confondues, la plus récente d'abord
+  // (réponses GET 2xx et pages rendues ; les HEAD et les erreurs restent dans le fichier WARC)
+  static async getCaptures(url: string, dataSourceId: string): Promise<WarcCapture[]> {
+    const { data, error } = await supabase
+      .from('warc_records')
+      .select('*')
+      .eq('data_source_id', dataSourceId)
+      .eq('canonical_url', canonicalizeUrl(url))
+      .order('captured_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des copies archivées: ${error.message}`);
+    }
+
+    return ((data || []) as WarcCapture[]).filter(capture =>
+      capture.record_type === 'resource' ||
+      (capture.method === 'GET' && capture.http_status !== null && capture.http_status >= 200 && capture.http_status < 300)
+    );
+  }
+
+  static async getRunFiles(runId: string): Promise<WarcFile[]> {
+    const { data, error } = await supabase
+      .from('warc_files')
+      .select('*')
+      .eq('run_id', runId)
+      .order('sequence', { ascending: true });
+
+    if (error) {
+      throw new Error(`Erreur lors de la récupération des fichiers WARC: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  private static async replay(params: Record<string, string>): Promise<Response> {
+    const response = await fetch(`${this.REPLAY_URL}?${new URLSearchParams(params).toString()}`, {
+      headers: await DocumentProxyService.authHeaders()
+    });
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => ({}));
+      throw new Error(`Erreur copie archivée: ${response.status} - ${payload.error || response.statusText}`);
+    }
+
+    return response;
+  }
+
+  static async fetchCopy(capture: WarcCapture): Promise<ArchivedCopy> {
+    const response = await this.replay({ record_id: capture.id });
+    const contentType = response.headers.get('content-type') || 'application/octet-stream';
+    const blob = new Blob([await response.arrayBuffer()], { type: contentType });
+    return { blob, contentType, capture };
+  }
+
+  // Export du fichier .warc.gz complet
+  static async downloadFile(file: WarcFile): Promise<void> {
+    const response = await this.replay({ file_id: file.id });
+    const blobUrl = URL.createObjectURL(await response.blob());
+
+    const link = document.createElement('a');
+    link.href = blobUrl;
+    link.download = file.storage_path.split('/').pop() || 'capture.warc.gz';
+    link.click();
+    URL.revokeObjectURL(blobUrl);
+  }
+}
@@ -3,9 +3,19 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
-  readonly VITE_OPENAI_API_KEY: string
   readonly VITE_OPENAI_MODEL_NAME: string
-  readonly VITE_OPENAI_PROMPT_ID: string
+  readonly VITE_LLM_MOCK_MODE?: string
+  readonly VITE_LLM_PROVIDER?: string
+  readonly VITE_LLM_HARVEST_PROVIDER?: string
+  readonly VITE_LLM_ANALYSIS_PROVIDER?: string
+  readonly VITE_LLM_EMBEDDING_PROVIDER?: string
+  readonly VITE_LOCAL_LLM_BASE_URL?: string
+  readonly VITE_LOCAL_LLM_API_KEY?: string
+  readonly VITE_LOCAL_LLM_MODEL?: string
+  readonly VITE_LOCAL_LLM_EMBEDDING_MODEL?: string
+  readonly VITE_LOCAL_SCHEDULER?: string
+  readonly VITE_HARVEST_CONCURRENCY?: string
+  readonly VITE_HARVEST_PER_HOST_LIMIT?: string
 }
 
 interface ImportMeta {
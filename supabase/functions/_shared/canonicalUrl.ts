@@ -0,0 +1,59 @@
+// URL canonique d'un document : clé de déduplication (harvested_documents.canonical_url).
+// Seule implémentation, sans dépendance : importée par les fonctions edge et par le navigateur (src/lib/canonicalUrl.ts).
+
+// Paramètres de suivi sans effet sur le document servi
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'igshid',
+  'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'ref_src', 'trk', 'xtor'
+]);
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_'];
+const WEB_PROTOCOLS = ['http:', 'https:'];
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix));
+}
+
+// Séquences %xx en majuscules : %2f et %2F désignent le même caractère
+function upperPercentEncoding(value: string): string {
+  return value.replace(/%[0-9a-f]{2}/gi, match => match.toUpperCase());
+}
+
+function cleanQuery(params: URLSearchParams): string {
+  const kept = Array.from(params.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return kept.length > 0 ? `?${new URLSearchParams(kept).toString()}` : '';
+}
+
+// URL nettoyée et toujours téléchargeable : hôte en minuscules, port par défaut (retiré par URL),
+// fragment et paramètres de suivi retirés ; le schéma et le www. sont conservés
+export function cleanUrl(url: string): string {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(trimmed);
+    if (!WEB_PROTOCOLS.includes(parsed.protocol)) return trimmed;
+
+    const host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+    const port = parsed.port ? `:${parsed.port}` : '';
+    return `${parsed.protocol}//${host}${port}${upperPercentEncoding(parsed.pathname)}${cleanQuery(parsed.searchParams)}`;
+  } catch {
+    return trimmed;
+  }
+}
+
+// Identité d'un document : comme cleanUrl, mais http et https confondus, sans www.
+// ni barre finale. La casse du chemin est conservée (significative sur la plupart des serveurs).
+export function canonicalizeUrl(url: string): string {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(cleanUrl(trimmed));
+    if (!WEB_PROTOCOLS.includes(parsed.protocol)) return trimmed;
+
+    const host = parsed.host.replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `https://${host}${path}${parsed.search}`;
+  } catch {
+    return trimmed.replace(/#.*$/, '').replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,432 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { crypto as streamingCrypto } from "jsr:@std/crypto";
+import type { RobotsGuard } from "./robots.ts";
+import type { HarvestedDocument } from "./types.ts";
+import type { SourceAuth } from "./credentials.ts";
+import { canonicalizeUrl } from "./canonicalUrl.ts";
+import type { WarcFetcher, WarcRecorder } from "./warc.ts";
+import { guardedFetch, type DestinationPolicy } from "./egress.ts";
+
+export type ChangeStatus = 'new' | 'updated' | 'unchanged' | 'disappeared';
+
+export interface ChangeCounts {
+  new: number;
+  updated: number;
+  unchanged: number;
+  disappeared: number;
+}
+
+export interface ChangeDetectionOptions {
+  dataSourceId: string;
+  runId: string | null;
+  documents: HarvestedDocument[];
+  userAgent: string;
+  delayBetweenRequests: number;
+  robots?: RobotsGuard;
+  auth?: SourceAuth | null;
+  // Capture WARC de l'exécution : le fichier de chaque document est archivé
+  archive?: WarcRecorder | null;
+  // Destinations autorisées (URL des documents et redirections) ; adresses privées toujours refusées
+  destinationPolicy?: DestinationPolicy;
+  // Exécution ayant vu toute la source (parcours achevé, sans échec ni limite atteinte) :
+  // seuls les documents connus absents d'une exécution complète sont marqués disparus
+  complete: boolean;
+  shouldStop?: () => Promise<boolean>;
+  onWarning?: (message: string, details?: Record<string, unknown>) => Promise<void> | void;
+}
+
+export interface ChangeDetectionResult {
+  // Statut par url_doc pour les documents de l'exécution (les disparus n'y figurent pas)
+  statuses: Record<string, Exclude<ChangeStatus, 'disappeared'>>;
+  counts: ChangeCounts;
+  stopped: boolean;
+}
+
+interface KnownDocument {
+  id: string;
+  url_doc: string;
+  canonical_url: string;
+  etag: string | null;
+  last_modified: string | null;
+  content_hash: string | null;
+  content_length: number | null;
+  status: ChangeStatus;
+}
+
+interface Probe {
+  status: Exclude<ChangeStatus, 'disappeared'>;
+  etag: string | null;
+  lastModified: string | null;
+  contentHash: string | null;
+  contentLength: number | null;
+  // URL atteinte après les redirections
+  finalUrl: string | null;
+  // Contenu téléchargé (GET 200), donc déjà archivé en capture WARC
+  contentFetched: boolean;
+}
+
+const PROBE_TIMEOUT_MS = 20000;
+// Au-delà, le contenu n'est pas haché : seuls ETag / Last-Modified sont comparés
+const MAX_HASH_BYTES = 50 * 1024 * 1024;
+
+// En-têtes d'une requête, recalculés pour chaque saut de redirection
+type HeadersFor = (url: string) => Promise<Record<string, string>>;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// SHA-256 calculé au fil du flux, sans garder le contenu en mémoire ; hash null au-delà de MAX_HASH_BYTES
+async function hashStream(body: ReadableStream<Uint8Array> | null): Promise<{ hash: string | null; length: number }> {
+  let length = 0;
+  let oversized = false;
+  async function* chunks() {
+    if (!body) return;
+    for await (const chunk of body) {
+      length += chunk.byteLength;
+      if (length > MAX_HASH_BYTES) {
+        // Sortir de la boucle annule le flux : le reste n'est pas téléchargé
+        oversized = true;
+        return;
+      }
+      yield chunk;
+    }
+  }
+
+  const digest = await streamingCrypto.subtle.digest('SHA-256', chunks());
+  if (oversized) return { hash: null, length };
+  const hash = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return { hash, length };
+}
+
+// Validateurs HTTP identiques à ceux du contenu déjà connu
+function sameValidators(known: KnownDocument, etag: string | null, lastModified: string | null): boolean {
+  if (etag && known.etag) return etag === known.etag;
+  if (lastModified && known.last_modified) return lastModified === known.last_modified;
+  return false;
+}
+
+// Requête conditionnelle HEAD, puis GET + SHA-256 uniquement si les validateurs ne suffisent pas
+async function probeDocument(
+  url: string,
+  known: KnownDocument | undefined,
+  headersFor: HeadersFor,
+  fetcher?: WarcFetcher,
+  policy: DestinationPolicy = {}
+): Promise<Probe> {
+  const reusable = known && known.status !== 'disappeared' ? known : undefined;
+  const conditional: Record<string, string> = {};
+  if (reusable?.etag) conditional['If-None-Match'] = reusable.etag;
+  if (reusable?.last_modified) conditional['If-Modified-Since'] = reusable.last_modified;
+  const request = (method: 'HEAD' | 'GET') => guardedFetch(url, {
+    method,
+    headersFor: async (target) => ({ ...await headersFor(target), ...conditional }),
+    fetcher,
+    signal: AbortSignal.timeout(PROBE_TIMEOUT_MS)
+  }, policy);
+
+  const unchanged = (finalUrl: string | null): Probe => ({
+    status: 'unchanged',
+    etag: reusable!.etag,
+    lastModified: reusable!.last_modified,
+    contentHash: reusable!.content_hash,
+    contentLength: reusable!.content_length,
+    finalUrl,
+    contentFetched: false
+  });
+
+  let head: Response | null = null;
+  try {
+    head = await request('HEAD');
+  } catch {
+    // Certains serveurs refusent HEAD : on passe directement au GET
+  }
+
+  const headUrl = head?.url || null;
+  if (head?.status === 304 && reusable) return unchanged(headUrl);
+
+  const headEtag = head?.ok ? head.headers.get('etag') : null;
+  const headLastModified = head?.ok ? head.headers.get('last-modified') : null;
+  if (reusable?.content_hash && sameValidators(reusable, headEtag, headLastModified)) {
+    return unchanged(headUrl);
+  }
+
+  const declaredLength = Number(head?.headers.get('content-length') || 0);
+  if (declaredLength > MAX_HASH_BYTES) {
+    return {
+      status: !reusable ? 'new' : sameValidators(reusable, headEtag, headLastModified) ? 'unchanged' : 'updated',
+      etag: headEtag,
+      lastModified: headLastModified,
+      contentHash: null,
+      contentLength: declaredLength,
+      finalUrl: headUrl,
+      contentFetched: false
+    };
+  }
+
+  const response = await request('GET');
+  if (response.status === 304 && reusable) return unchanged(response.url || headUrl);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const etag = response.headers.get('etag') ?? headEtag;
+  const lastModified = response.headers.get('last-modified') ?? headLastModified;
+  const { hash: contentHash, length } = await hashStream(response.body);
+  const status = !reusable
+    ? 'new'
+    : contentHash === null
+      ? (sameValidators(reusable, etag, lastModified) ? 'unchanged' : 'updated')
+      : contentHash === reusable.content_hash ? 'unchanged' : 'updated';
+
+  return {
+    status,
+    etag,
+    lastModified,
+    contentHash,
+    contentLength: contentHash === null ? null : length,
+    finalUrl: response.url || headUrl,
+    contentFetched: true
+  };
+}
+
+// Capture WARC d'un document que la sonde n'a pas téléchargé (validateurs inchangés, 304, fichier volumineux)
+async function captureDocument(
+  archive: WarcRecorder,
+  url: string,
+  headersFor: HeadersFor,
+  policy: DestinationPolicy = {}
+): Promise<void> {
+  const response = await guardedFetch(url, {
+    headersFor,
+    fetcher: archive.fetch,
+    signal: AbortSignal.timeout(PROBE_TIMEOUT_MS)
+  }, policy);
+  await response.body?.cancel();
+}
+
+// Comparer les documents d'une exécution au registre harvested_documents de la source,
+// mettre à jour le registre et journaliser les changements dans document_changes.
+// Les variantes d'une même URL canonique (schéma, www., suivi, redirections) forment un seul document.
+export async function detectChanges(
+  supabase: SupabaseClient,
+  options: ChangeDetectionOptions
+): Promise<ChangeDetectionResult> {
+  const { dataSourceId, runId } = options;
+  const counts: ChangeCounts = { new: 0, updated: 0, unchanged: 0, disappeared: 0 };
+  const statuses: ChangeDetectionResult['statuses'] = {};
+
+  const { data: knownRows, error } = await supabase
+    .from('harvested_documents')
+    .select('id, url_doc, canonical_url, etag, last_modified, content_hash, content_length, status')
+    .eq('data_source_id', dataSourceId);
+
+  if (error) {
+    throw new Error(`Erreur lecture du registre des documents: ${error.message}`);
+  }
+
+  // Indexé par l'URL canonique enregistrée et par celle de url_doc (calculée ici, elle fait foi)
+  const known = new Map<string, KnownDocument>();
+  for (const row of (knownRows ?? []) as KnownDocument[]) {
+    known.set(row.canonical_url, row);
+    known.set(canonicalizeUrl(row.url_doc), row);
+  }
+  const seenCanonical = new Map<string, string>();
+  const seenRowIds = new Set<string>();
+  const lastRequestByHost = new Map<string, number>();
+  const now = new Date().toISOString();
+  const registryRows: Record<string, unknown>[] = [];
+  const changeRows: Record<string, unknown>[] = [];
+  let stopped = false;
+  // Identifiants recalculés à chaque saut : jamais transmis à un autre hôte après redirection
+  const headersFor: HeadersFor = async (target) => ({
+    ...await options.auth?.headersFor(target),
+    'User-Agent': options.userAgent,
+    'Accept': '*/*'
+  });
+
+  for (const doc of options.documents) {
+    if (!doc.url_doc || statuses[doc.url_doc]) continue;
+
+    // Variante d'un document déjà traité dans cette exécution : même statut, pas de nouvelle requête
+    let canonicalUrl = canonicalizeUrl(doc.url_doc);
+    const sameAs = seenCanonical.get(canonicalUrl);
+    if (sameAs) {
+      statuses[doc.url_doc] = statuses[sameAs];
+      continue;
+    }
+
+    if (options.shouldStop && await options.shouldStop()) {
+      stopped = true;
+      break;
+    }
+
+    let previous = known.get(canonicalUrl);
+    let probe: Probe;
+
+    try {
+      let delay = options.delayBetweenRequests;
+      if (options.robots) {
+        const decision = await options.robots.check(doc.url_doc);
+        if (!decision.allowed) {
+          throw new Error('interdit par robots.txt');
+        }
+        delay = Math.max(delay, decision.crawlDelayMs ?? 0);
+      }
+
+      const host = new URL(doc.url_doc).host;
+      const wait = (lastRequestByHost.get(host) ?? 0) + delay - Date.now();
+      if (wait > 0) await sleep(wait);
+      lastRequestByHost.set(host, Date.now());
+
+      probe = await probeDocument(doc.url_doc, previous, headersFor, options.archive?.fetch, options.destinationPolicy);
+
+      if (options.archive && !probe.contentFetched) {
+        try {
+          await captureDocument(options.archive, doc.url_doc, headersFor, options.destinationPolicy);
+        } catch (captureError) {
+          await options.onWarning?.(`Capture WARC du document impossible: ${captureError instanceof Error ? captureError.message : 'Erreur inconnue'}`, {
+            type: 'warc_capture_failed',
+            url: doc.url_doc
+          });
+        }
+      }
+    } catch (probeError) {
+      // Document injoignable : on conserve l'empreinte connue, sans conclure à un changement
+      const reason = probeError instanceof Error ? probeError.message : 'Erreur inconnue';
+      await options.onWarning?.(`Vérification du document impossible: ${reason}`, {
+        type: 'change_detection_failed',
+        url: doc.url_doc
+      });
+      probe = {
+        status: previous && previous.status !== 'disappeared' ? 'unchanged' : 'new',
+        etag: previous?.etag ?? null,
+        lastModified: previous?.last_modified ?? null,
+        contentHash: previous?.content_hash ?? null,
+        contentLength: previous?.content_length ?? null,
+        finalUrl: null,
+        contentFetched: false
+      };
+    }
+
+    seenCanonical.set(canonicalUrl, doc.url_doc);
+
+    // Redirection vers une autre URL : c'est elle qui identifie le document
+    if (probe.finalUrl) {
+      const redirectedUrl = canonicalizeUrl(probe.finalUrl);
+      if (redirectedUrl !== canonicalUrl) {
+        const redirectedSameAs = seenCanonical.get(redirectedUrl);
+        if (redirectedSameAs) {
+          statuses[doc.url_doc] = statuses[redirectedSameAs];
+          continue;
+        }
+        canonicalUrl = redirectedUrl;
+        seenCanonical.set(canonicalUrl, doc.url_doc);
+        previous ??= known.get(canonicalUrl);
+      }
+    }
+
+    if (previous && seenRowIds.has(previous.id)) {
+      // Deux URL canoniques distinctes rattachées à la même ligne (ancienne clé et redirection)
+      previous = undefined;
+    }
+    if (previous) seenRowIds.add(previous.id);
+
+    statuses[doc.url_doc] = probe.status;
+    counts[probe.status]++;
+
+    const changed = probe.status !== 'unchanged';
+    registryRows.push({
+      ...(previous ? { id: previous.id } : {}),
+      data_source_id: dataSourceId,
+      url_doc: doc.url_doc,
+      canonical_url: canonicalUrl,
+      document: doc,
+      etag: probe.etag,
+      last_modified: probe.lastModified,
+      content_hash: probe.contentHash,
+      content_length: probe.contentLength,
+      status: probe.status,
+      last_seen_run_id: runId,
+      last_seen_at: now,
+      disappeared_at: null,
+      ...(probe.status === 'new' && !previous ? { first_seen_run_id: runId, first_seen_at: now } : {}),
+      ...(changed ? { last_changed_run_id: runId, last_changed_at: now } : {})
+    });
+
+    if (changed) {
+      changeRows.push({
+        data_source_id: dataSourceId,
+        run_id: runId,
+        url_doc: doc.url_doc,
+        change_type: probe.status,
+        document: doc,
+        previous_content_hash: previous?.content_hash ?? null,
+        content_hash: probe.contentHash
+      });
+    }
+  }
+
+  // Une exécution interrompue ou partielle n'a pas tout vu : pas de conclusion sur les disparitions
+  const disappeared = stopped || !options.complete
+    ? []
+    : [...new Set(known.values())].filter(row => row.status !== 'disappeared' && !seenRowIds.has(row.id));
+
+  counts.disappeared = disappeared.length;
+  for (const row of disappeared) {
+    changeRows.push({
+      data_source_id: dataSourceId,
+      run_id: runId,
+      url_doc: row.url_doc,
+      change_type: 'disappeared',
+      previous_content_hash: row.content_hash
+    });
+  }
+
+  // Les lignes n'ont pas toutes les mêmes colonnes : upsert une par une pour ne pas écraser first_seen_*.
+  // Ligne connue : mise à jour par id (url_doc et canonical_url suivent la dernière variante vue)
+  for (const row of registryRows) {
+    const { error: upsertError } = await supabase
+      .from('harvested_documents')
+      .upsert(row, { onConflict: row.id ? 'id' : 'data_source_id,canonical_url' });
+    if (upsertError) {
+      console.error('❌ Erreur mise à jour du registre:', row.url_doc, upsertError.message);
+    }
+  }
+
+  if (disappeared.length > 0) {
+    const { error: disappearError } = await supabase
+      .from('harvested_documents')
+      .update({ status: 'disappeared', disappeared_at: now, last_changed_run_id: runId, last_changed_at: now })
+      .in('id', disappeared.map(row => row.id));
+    if (disappearError) {
+      console.error('❌ Erreur marquage des documents disparus:', disappearError.message);
+    }
+  }
+
+  if (changeRows.length > 0) {
+    const { error: changesError } = await supabase.from('document_changes').insert(changeRows);
+    if (changesError) {
+      console.error('❌ Erreur écriture document_changes:', changesError.message);
+    }
+  }
+
+  console.log('🔎 Détection des changements:', counts);
+  return { statuses, counts, stopped };
+}
+
+// Statistiques harvest_runs correspondantes
+export function changeStats(counts: ChangeCounts) {
+  return {
+    documents_new: counts.new,
+    documents_changed: counts.updated,
+    documents_unchanged: counts.unchanged,
+    documents_removed: counts.disappeared
+  };
+}
+
+// Annoter les documents du résultat avec leur statut de changement
+export function annotateDocuments(
+  documents: HarvestedDocument[],
+  statuses: ChangeDetectionResult['statuses']
+): HarvestedDocument[] {
+  return documents.map(doc => statuses[doc.url_doc] ? { ...doc, change_status: statuses[doc.url_doc] } : doc);
+}
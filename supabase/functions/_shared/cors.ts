@@ -0,0 +1,34 @@
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+// Réponse JSON avec les en-têtes CORS
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Origines de l'application (secret APP_ORIGINS, séparées par des virgules) ; serveur Vite par défaut
+export function allowedOrigins(): string[] {
+  const configured = Deno.env.get('APP_ORIGINS');
+  return (configured || 'http://localhost:5173')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+// En-têtes CORS limités aux origines de l'application : une autre origine ne reçoit pas
+// Access-Control-Allow-Origin et le navigateur bloque la réponse
+export function restrictedCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin');
+  return {
+    "Access-Control-Allow-Methods": corsHeaders["Access-Control-Allow-Methods"],
+    "Access-Control-Allow-Headers": corsHeaders["Access-Control-Allow-Headers"],
+    ...(origin && allowedOrigins().includes(origin) ? { "Access-Control-Allow-Origin": origin } : {}),
+    "Vary": "Origin",
+  };
+}
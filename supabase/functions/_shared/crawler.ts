@@ -0,0 +1,521 @@
+import { DOMParser, type Element } from "jsr:@b-fuze/deno-dom";
+import type { HarvestedDocument, HarvestFilters, HarvestSelectors, PaginationRules } from "./types.ts";
+import type { RobotsGuard } from "./robots.ts";
+import type { PageRenderer, RenderedPage } from "./renderer.ts";
+import type { SourceAuth } from "./credentials.ts";
+import type { WarcRecorder } from "./warc.ts";
+import { guardedFetch } from "./egress.ts";
+import { canonicalizeUrl, cleanUrl } from "./canonicalUrl.ts";
+import {
+  archivePages,
+  olderThanStart,
+  templatePages,
+  type PaginationStopReason
+} from "./pagination.ts";
+
+export interface CrawlOptions {
+  startUrl: string;
+  selectors: HarvestSelectors;
+  filters: HarvestFilters;
+  maxPages: number;
+  delayBetweenRequests: number;
+  userAgent?: string;
+  robots?: RobotsGuard;
+  // Rendu JavaScript : chaque page est chargée par le worker de rendu au lieu d'un fetch
+  renderer?: PageRenderer | null;
+  // Identifiants de la source (data_source_credentials), envoyés uniquement à son hôte
+  auth?: SourceAuth | null;
+  // Parcours déterministe des pages de liste (harvesting_configs.pagination) au lieu du crawl en largeur
+  pagination?: PaginationRules | null;
+  // Capture WARC de l'exécution (data_sources.warc_capture)
+  archive?: WarcRecorder | null;
+  shouldStop?: () => Promise<boolean>;
+  onWarning?: (message: string, details?: Record<string, unknown>) => Promise<void>;
+}
+
+export interface CrawlCompliance {
+  robots_url: string | null;
+  robots_status: string | null;
+  robots_fetched_at: string | null;
+  user_agent: string;
+  site_crawl_delay_ms: number | null;
+  configured_delay_ms: number;
+  effective_delay_ms: number;
+  disallowed_urls: { url: string; rule: string }[];
+}
+
+export interface CrawlResult {
+  documents: HarvestedDocument[];
+  obstacles: string[];
+  pagesFetched: number;
+  pagesFailed: number;
+  compliance: CrawlCompliance;
+  stopped: boolean;
+  rendered: boolean;
+  // Raison de fin du parcours des pages de liste ; null sans règles de pagination
+  paginationStop: PaginationStopReason | null;
+  // Site parcouru en entier : ni arrêt, ni limite de pages, ni page en échec ou interdite, ni filtre de période
+  complete: boolean;
+}
+
+interface QueueEntry {
+  url: string;
+  depth: number;
+}
+
+export const CRAWLER_PRODUCT_TOKEN = 'MissanIaCrawler';
+export const DEFAULT_USER_AGENT = `Mozilla/5.0 (compatible; ${CRAWLER_PRODUCT_TOKEN}/1.0)`;
+const DEFAULT_FORMATS = ['pdf', 'docx'];
+const PAGE_TIMEOUT_MS = 30000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Extension d'une URL (sans paramètres), en minuscules
+export function getExtension(url: string): string {
+  try {
+    const last = new URL(url).pathname.split('/').pop() || '';
+    return last.includes('.') ? last.split('.').pop()!.toLowerCase() : '';
+  } catch {
+    return '';
+  }
+}
+
+// Découper une liste de mots-clés saisie dans le formulaire ("rapport, étude")
+function splitKeywords(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map(keyword => keyword.trim().toLowerCase())
+    .filter(keyword => keyword.length > 0);
+}
+
+// Appliquer les filtres mots-clés sur le texte du lien et l'URL
+export function matchesKeywordFilters(text: string, filters: HarvestFilters): boolean {
+  const haystack = text.toLowerCase();
+  const include = splitKeywords(filters.keywords);
+  const exclude = splitKeywords(filters.excludeKeywords);
+
+  if (exclude.some(keyword => haystack.includes(keyword))) return false;
+  if (include.length > 0 && !include.some(keyword => haystack.includes(keyword))) return false;
+  return true;
+}
+
+// Résoudre un href relatif, en ignorant ancres, mailto:, javascript:, etc.
+function resolveLink(href: string | null, baseUrl: string): string | null {
+  if (!href) return null;
+  try {
+    const resolved = new URL(href.trim(), baseUrl);
+    if (!['http:', 'https:'].includes(resolved.protocol)) return null;
+    resolved.hash = '';
+    return resolved.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Nom de fichier décodé, tolérant aux séquences % invalides
+export function filenameFromUrl(url: string): string {
+  const last = new URL(url).pathname.split('/').pop() || '';
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last;
+  }
+}
+
+function textOf(element: Element | null): string {
+  return (element?.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+// Date de la page : attribut datetime en priorité, sinon texte de l'élément
+function extractPageDate(root: Element, dateSelector?: string): string {
+  if (!dateSelector) return '';
+  try {
+    const element = root.querySelector(dateSelector) as Element | null;
+    if (!element) return '';
+    return element.getAttribute('datetime') || textOf(element);
+  } catch {
+    return '';
+  }
+}
+
+function safeQueryAll(root: Element, selector: string): Element[] {
+  try {
+    return Array.from(root.querySelectorAll(selector)) as Element[];
+  } catch {
+    return [];
+  }
+}
+
+// Ancres candidates : éléments ciblés par linkSelector (ou leurs liens descendants)
+function collectLinkElements(scope: Element, linkSelector?: string): Element[] {
+  if (!linkSelector) {
+    return safeQueryAll(scope, 'a[href]');
+  }
+
+  const anchors: Element[] = [];
+  for (const element of safeQueryAll(scope, linkSelector)) {
+    if (element.getAttribute('href')) {
+      anchors.push(element);
+    } else {
+      anchors.push(...safeQueryAll(element, 'a[href]'));
+    }
+  }
+  return anchors;
+}
+
+// Chargement simple (fetch) ; null si la page n'est pas du HTML exploitable.
+// Redirections suivies une à une : les identifiants sont recalculés pour chaque hôte atteint
+async function fetchPage(url: string, userAgent: string, options: CrawlOptions): Promise<RenderedPage[] | null> {
+  const request = async () => guardedFetch(url, {
+    headersFor: async (target) => ({
+      ...await options.auth?.headersFor(target),
+      'User-Agent': userAgent,
+      'Accept': 'text/html,application/xhtml+xml'
+    }),
+    fetcher: options.archive?.fetch,
+    signal: AbortSignal.timeout(PAGE_TIMEOUT_MS)
+  });
+
+  let response = await request();
+  // Session expirée : une nouvelle connexion puis un seul nouvel essai
+  if ([401, 403].includes(response.status) && options.auth?.appliesTo(url) && await options.auth.renew()) {
+    await response.body?.cancel();
+    response = await request();
+  }
+
+  if (!response.ok) {
+    await options.onWarning?.(`Page inaccessible (HTTP ${response.status})`, { url });
+    return null;
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.includes('html')) return null;
+
+  // URL finale après redirections : base des liens relatifs de la page
+  return [{ url: response.url || url, html: await response.text() }];
+}
+
+// Chargement par le worker de rendu : DOM après JavaScript, « charger plus » et pagination déjà suivis
+async function renderPage(
+  renderer: PageRenderer,
+  url: string,
+  remainingPages: number,
+  options: CrawlOptions
+): Promise<RenderedPage[] | null> {
+  const result = await renderer(url, Math.max(1, remainingPages), await options.auth?.headersFor(url) ?? {});
+
+  for (const warning of result.warnings) {
+    await options.onWarning?.(`Rendu JavaScript: ${warning}`, { url });
+  }
+
+  if (result.status >= 400) {
+    await options.onWarning?.(`Page inaccessible (HTTP ${result.status})`, { url, rendered: true });
+    return null;
+  }
+
+  if (result.interactions.load_more > 0 || result.interactions.pagination > 0) {
+    console.log(`🖱️ Rendu ${url}: ${result.interactions.load_more} clic(s) « charger plus », ${result.interactions.pagination} page(s) suivante(s)`);
+  }
+
+  for (const page of result.pages) {
+    await options.archive?.resource(page.url, page.html);
+  }
+
+  return result.pages.length > 0 ? result.pages : null;
+}
+
+// Analyser une page (chargée ou rendue) et ajouter ses liens de documents, indexés par URL canonique ;
+// renvoie la racine du DOM
+function extractDocuments(
+  page: RenderedPage,
+  selectors: HarvestSelectors,
+  filters: HarvestFilters,
+  formats: string[],
+  documents: Map<string, HarvestedDocument>
+): Element | null {
+  const dom = new DOMParser().parseFromString(page.html, 'text/html');
+  const root = dom?.documentElement as Element | null;
+  if (!root) return null;
+
+  const pageTitle = selectors.titleSelector
+    ? textOf(safeQueryAll(root, selectors.titleSelector)[0] || null)
+    : textOf(root.querySelector('title') as Element | null);
+  const pageDate = extractPageDate(root, selectors.dateSelector);
+
+  // Zones de contenu : limitent la recherche de documents si un sélecteur est fourni
+  const scopes = selectors.contentSelector ? safeQueryAll(root, selectors.contentSelector) : [root];
+  if (selectors.contentSelector && scopes.length === 0) {
+    scopes.push(root);
+  }
+
+  for (const scope of scopes) {
+    for (const anchor of collectLinkElements(scope, selectors.linkSelector)) {
+      const resolved = resolveLink(anchor.getAttribute('href'), page.url);
+      if (!resolved || documents.has(canonicalizeUrl(resolved))) continue;
+      const documentUrl = cleanUrl(resolved);
+
+      const extension = getExtension(documentUrl);
+      const isKnownFormat = formats.includes(extension);
+      // Sans extension, un lien n'est retenu que s'il est explicitement ciblé par linkSelector
+      const isSelectedLink = !!selectors.linkSelector && extension === '';
+      if (!isKnownFormat && !isSelectedLink) continue;
+
+      const linkText = textOf(anchor) || anchor.getAttribute('title') || '';
+      if (!matchesKeywordFilters(`${linkText} ${documentUrl}`, filters)) continue;
+
+      const filename = filenameFromUrl(documentUrl);
+      const yearMatch = pageDate.match(/\b(19|20)\d{2}\b/);
+
+      documents.set(canonicalizeUrl(documentUrl), {
+        url_doc: documentUrl,
+        format: extension ? extension.toUpperCase() : '',
+        source_page: page.url,
+        document_name: linkText || pageTitle || filename,
+        date_edition: pageDate,
+        statut: 'en ligne',
+        issue_number: null,
+        annee: yearMatch ? parseInt(yearMatch[0], 10) : undefined,
+        filename,
+        pattern_verified: true,
+        notes: `Lien extrait par le crawler depuis ${page.url}`,
+        obstacles: null
+      });
+    }
+  }
+
+  return root;
+}
+
+// Lien « page suivante » d'une page de liste (élément ciblé ou son premier lien descendant)
+function findNextLink(root: Element, selector: string, baseUrl: string): string | null {
+  const element = safeQueryAll(root, selector)[0];
+  if (!element) return null;
+  const anchor = element.getAttribute('href') ? element : safeQueryAll(element, 'a[href]')[0];
+  return anchor ? resolveLink(anchor.getAttribute('href'), baseUrl) : null;
+}
+
+// Moissonneur : parcours en largeur des pages HTML du même hôte, ou parcours déterministe
+// des pages de liste si des règles de pagination sont fournies ; collecte les liens de documents
+export async function crawlSite(options: CrawlOptions): Promise<CrawlResult> {
+  const { startUrl, selectors, filters, robots, pagination } = options;
+  const maxPages = Math.max(1, options.maxPages || 1);
+  const formats = (selectors.documentFormats?.length ? selectors.documentFormats : DEFAULT_FORMATS)
+    .map(format => format.toLowerCase());
+  const startHost = new URL(startUrl).host;
+
+  const visited = new Set<string>();
+  const documents = new Map<string, HarvestedDocument>();
+  const obstacles: string[] = [];
+  let pagesFetched = 0;
+  let pagesFailed = 0;
+  let stopped = false;
+
+  // Politesse : le Crawl-delay du site relève delay_between_requests s'il est plus long
+  const startDecision = robots ? await robots.check(startUrl) : null;
+  const delayBetweenRequests = Math.max(options.delayBetweenRequests, startDecision?.crawlDelayMs ?? 0);
+  const compliance: CrawlCompliance = {
+    robots_url: startDecision?.policy.robotsUrl ?? null,
+    robots_status: startDecision?.policy.status ?? null,
+    robots_fetched_at: startDecision?.policy.fetchedAt ?? null,
+    user_agent: options.userAgent || DEFAULT_USER_AGENT,
+    site_crawl_delay_ms: startDecision?.crawlDelayMs ?? null,
+    configured_delay_ms: options.delayBetweenRequests,
+    effective_delay_ms: delayBetweenRequests,
+    disallowed_urls: []
+  };
+
+  // Charger une page : robots.txt, délai, fetch ou rendu ; null si ignorée ou en échec
+  const loadPage = async (url: string, label: string): Promise<RenderedPage[] | null> => {
+    visited.add(url);
+
+    if (robots) {
+      const decision = await robots.check(url);
+      if (!decision.allowed) {
+        const rule = decision.rule ? `Disallow: ${decision.rule.path}` : 'robots.txt';
+        compliance.disallowed_urls.push({ url, rule });
+        await options.onWarning?.('URL ignorée (interdite par robots.txt)', {
+          type: 'robots_disallowed',
+          url,
+          rule,
+          robots_url: decision.policy.robotsUrl,
+          robots_status: decision.policy.status
+        });
+        return null;
+      }
+    }
+
+    if (pagesFetched + pagesFailed > 0 && delayBetweenRequests > 0) {
+      await sleep(delayBetweenRequests);
+    }
+
+    try {
+      console.log(`🕷️ Crawl [${pagesFetched + pagesFailed + 1}/${maxPages}] ${label}:`, url);
+      const fetched = options.renderer
+        ? await renderPage(options.renderer, url, maxPages - pagesFetched - pagesFailed, options)
+        : await fetchPage(url, compliance.user_agent, options);
+
+      if (!fetched) {
+        pagesFailed++;
+        return null;
+      }
+
+      // Cible d'une redirection : déjà lue, pas de second chargement depuis un autre lien
+      for (const page of fetched) visited.add(page.url);
+      pagesFetched += fetched.length;
+      return fetched;
+    } catch (error) {
+      pagesFailed++;
+      await options.onWarning?.(
+        `Erreur réseau lors du crawl: ${error instanceof Error ? error.message : 'Erreur inconnue'}`,
+        { url }
+      );
+      return null;
+    }
+  };
+
+  // Extraction sur chaque instantané (une page rendue peut en produire plusieurs) ; racines lisibles
+  const extractPages = (pages: RenderedPage[]): { root: Element; url: string }[] => {
+    const readable: { root: Element; url: string }[] = [];
+    for (const page of pages) {
+      const root = extractDocuments(page, selectors, filters, formats, documents);
+      if (!root) {
+        obstacles.push(`Page HTML illisible: ${page.url}`);
+        continue;
+      }
+      readable.push({ root, url: page.url });
+    }
+    return readable;
+  };
+
+  let paginationStop: PaginationStopReason | null = null;
+  let unexplored = 0;
+
+  if (pagination) {
+    // Pages de liste dans l'ordre des règles : page suivante, compteur ou archives datées
+    const sequence = pagination.strategy === 'url_template'
+      ? templatePages(pagination)
+      : pagination.strategy === 'date_archive'
+        ? archivePages(pagination, selectors.dateRange)
+        : null;
+    let nextUrl: string | null = sequence ? sequence.next().value ?? null : startUrl;
+    let pageNumber = 1;
+
+    while (nextUrl) {
+      if (pagesFetched + pagesFailed >= maxPages) {
+        paginationStop = 'max_pages';
+        break;
+      }
+      if (options.shouldStop && await options.shouldStop()) {
+        stopped = true;
+        paginationStop = 'stopped';
+        break;
+      }
+
+      const url = nextUrl;
+      nextUrl = null;
+      if (visited.has(url)) {
+        paginationStop = 'end_of_listing';
+        break;
+      }
+
+      const knownBefore = new Set(documents.keys());
+      const pages = await loadPage(url, `page de liste ${pageNumber++}`);
+      const last = pages ? extractPages(pages).pop() : undefined;
+      const added = Array.from(documents.entries())
+        .filter(([canonicalUrl]) => !knownBefore.has(canonicalUrl))
+        .map(([, doc]) => doc);
+
+      // Une archive datée peut être vide pour un mois ou une année sans publication : on continue de remonter
+      if (pages && added.length === 0 && pagination.strategy !== 'date_archive' && pagination.stopOnNoNewLinks !== false) {
+        paginationStop = 'no_new_links';
+        break;
+      }
+      if (olderThanStart(added, selectors.dateRange?.start)) {
+        paginationStop = 'older_than_start';
+        break;
+      }
+
+      if (sequence) {
+        // Une page numérotée absente marque la fin de la liste ; une archive datée peut manquer
+        if (!pages && pagination.strategy === 'url_template') {
+          paginationStop = 'end_of_listing';
+          break;
+        }
+        const step = sequence.next();
+        nextUrl = step.done ? null : step.value;
+        if (step.done) {
+          paginationStop = selectors.dateRange?.start ? 'older_than_start' : 'end_of_listing';
+        }
+      } else {
+        const found = last ? findNextLink(last.root, pagination.nextSelector!, last.url) : null;
+        nextUrl = found && new URL(found).host === startHost ? found : null;
+        if (!nextUrl) paginationStop = 'end_of_listing';
+      }
+    }
+
+    if (paginationStop === 'max_pages') {
+      obstacles.push(`Limite de ${maxPages} pages atteinte avant la fin de la pagination`);
+    }
+  } else {
+    const queue: QueueEntry[] = [{ url: startUrl, depth: 0 }];
+    const queued = new Set<string>([startUrl]);
+
+    while (queue.length > 0 && pagesFetched + pagesFailed < maxPages) {
+      if (options.shouldStop && await options.shouldStop()) {
+        stopped = true;
+        break;
+      }
+
+      const { url, depth } = queue.shift()!;
+      if (visited.has(url)) continue;
+
+      const pages = await loadPage(url, `profondeur ${depth}`);
+      if (!pages) continue;
+
+      for (const { root, url: pageUrl } of extractPages(pages)) {
+        // Liens de navigation : pages HTML du même hôte, hors documents
+        for (const anchor of safeQueryAll(root, 'a[href]')) {
+          const nextUrl = resolveLink(anchor.getAttribute('href'), pageUrl);
+          if (!nextUrl || queued.has(nextUrl)) continue;
+          if (new URL(nextUrl).host !== startHost) continue;
+
+          const extension = getExtension(nextUrl);
+          if (extension && !['html', 'htm', 'php', 'asp', 'aspx', 'jsp'].includes(extension)) continue;
+
+          queued.add(nextUrl);
+          queue.push({ url: nextUrl, depth: depth + 1 });
+        }
+      }
+    }
+
+    unexplored = queue.length;
+  }
+
+  if (unexplored > 0 && !stopped) {
+    obstacles.push(`Limite de ${maxPages} pages atteinte : ${unexplored} liens de navigation non explorés`);
+  }
+  if (pagesFailed > 0) {
+    obstacles.push(`${pagesFailed} page(s) inaccessible(s) pendant le crawl`);
+  }
+  if (compliance.disallowed_urls.length > 0) {
+    obstacles.push(`${compliance.disallowed_urls.length} page(s) ignorée(s) car interdite(s) par robots.txt`);
+  }
+
+  return {
+    documents: Array.from(documents.values()),
+    obstacles,
+    pagesFetched,
+    pagesFailed,
+    compliance,
+    stopped,
+    rendered: !!options.renderer,
+    paginationStop,
+    complete: !stopped &&
+      paginationStop !== 'max_pages' &&
+      unexplored === 0 &&
+      pagesFailed === 0 &&
+      compliance.disallowed_urls.length === 0 &&
+      !selectors.dateRange?.start &&
+      !selectors.dateRange?.end
+  };
+}
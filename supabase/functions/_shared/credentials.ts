@@ -0,0 +1,447 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { DOMParser, type Element } from "jsr:@b-fuze/deno-dom";
+
+export type AuthType = 'basic' | 'bearer' | 'headers' | 'form_login';
+
+// Identifiants en clair : n'existent qu'en mémoire dans les fonctions edge, jamais renvoyés au navigateur
+export type SourceCredentials =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string; header_name?: string; prefix?: string }
+  | { type: 'headers'; headers: Record<string, string> }
+  | {
+    type: 'form_login';
+    login_url: string;
+    username: string;
+    password: string;
+    // Noms des champs du formulaire ; détectés sur la page de connexion si absents
+    username_field?: string;
+    password_field?: string;
+    extra_fields?: Record<string, string>;
+  };
+
+export interface SourceAuth {
+  authType: AuthType;
+  // Les identifiants ne sont envoyés qu'à l'hôte de la source, jamais en clair (http) pour une source https
+  appliesTo(url: string): boolean;
+  headersFor(url: string): Promise<Record<string, string>>;
+  // Accès refusé (401/403) : nouvelle connexion form_login ; false s'il est inutile de réessayer
+  renew(): Promise<boolean>;
+}
+
+const CIPHER_VERSION = 'v1';
+const LOGIN_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 5;
+// Durée de session retenue quand aucun cookie n'annonce d'expiration
+const DEFAULT_SESSION_MS = 60 * 60 * 1000;
+
+let cachedKey: Promise<CryptoKey> | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+// Clé AES-256 des secrets edge (32 octets en base64) : openssl rand -base64 32
+function getKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const raw = Deno.env.get('CREDENTIALS_ENCRYPTION_KEY');
+    if (!raw) {
+      throw new Error('CREDENTIALS_ENCRYPTION_KEY manquante');
+    }
+    const bytes = fromBase64(raw);
+    if (bytes.byteLength !== 32) {
+      throw new Error('CREDENTIALS_ENCRYPTION_KEY doit contenir 32 octets encodés en base64');
+    }
+    cachedKey = crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+  return cachedKey;
+}
+
+// Format stocké : v1:<iv base64>:<chiffré base64>
+export async function encryptSecret(value: unknown): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getKey(), plaintext);
+  return `${CIPHER_VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+export async function decryptSecret<T>(payload: string): Promise<T> {
+  const [version, iv, ciphertext] = payload.split(':');
+  if (version !== CIPHER_VERSION || !iv || !ciphertext) {
+    throw new Error('Format de secret chiffré inconnu');
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await getKey(),
+    fromBase64(ciphertext)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+function requireString(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`Champ ${field} manquant`);
+  }
+  return value;
+}
+
+function stringRecord(value: unknown, field: string): Record<string, string> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Champ ${field} invalide`);
+  }
+  const record: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (key.trim() === '' || typeof entry !== 'string') {
+      throw new Error(`Champ ${field} invalide`);
+    }
+    record[key.trim()] = entry;
+  }
+  return record;
+}
+
+// Valider les identifiants saisis dans le formulaire (message d'erreur destiné à l'utilisateur)
+export function parseCredentials(input: unknown): SourceCredentials {
+  const value = (input ?? {}) as Record<string, unknown>;
+
+  switch (value.type) {
+    case 'basic':
+      return {
+        type: 'basic',
+        username: requireString(value.username, 'username'),
+        password: requireString(value.password, 'password')
+      };
+    case 'bearer':
+      return {
+        type: 'bearer',
+        token: requireString(value.token, 'token'),
+        header_name: typeof value.header_name === 'string' && value.header_name.trim() ? value.header_name.trim() : undefined,
+        prefix: typeof value.prefix === 'string' ? value.prefix : undefined
+      };
+    case 'headers': {
+      const headers = stringRecord(value.headers, 'headers');
+      if (Object.keys(headers).length === 0) {
+        throw new Error('Au moins un en-tête est requis');
+      }
+      return { type: 'headers', headers };
+    }
+    case 'form_login': {
+      const loginUrl = requireString(value.login_url, 'login_url');
+      if (!['http:', 'https:'].includes(new URL(loginUrl).protocol)) {
+        throw new Error('login_url doit être une URL HTTP(S)');
+      }
+      return {
+        type: 'form_login',
+        login_url: loginUrl,
+        username: requireString(value.username, 'username'),
+        password: requireString(value.password, 'password'),
+        username_field: typeof value.username_field === 'string' && value.username_field.trim() ? value.username_field.trim() : undefined,
+        password_field: typeof value.password_field === 'string' && value.password_field.trim() ? value.password_field.trim() : undefined,
+        extra_fields: stringRecord(value.extra_fields, 'extra_fields')
+      };
+    }
+    default:
+      throw new Error("Type d'authentification inconnu");
+  }
+}
+
+// Enregistrer (ou remplacer) les identifiants d'une source ; la session éventuelle est oubliée
+export async function saveCredentials(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  credentials: SourceCredentials
+): Promise<void> {
+  const { error } = await supabase
+    .from('data_source_credentials')
+    .upsert({
+      data_source_id: dataSourceId,
+      auth_type: credentials.type,
+      secret_ciphertext: await encryptSecret(credentials),
+      login_url: credentials.type === 'form_login' ? credentials.login_url : null,
+      session_ciphertext: null,
+      session_expires_at: null,
+      last_login_at: null,
+      last_login_error: null
+    }, { onConflict: 'data_source_id' });
+
+  if (error) {
+    throw new Error(`Enregistrement des identifiants impossible: ${error.message}`);
+  }
+}
+
+function normalizedHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function protocolOf(url: string): string | null {
+  try {
+    return new URL(url).protocol;
+  } catch {
+    return null;
+  }
+}
+
+// Cookies de session, par nom ; l'expiration retenue est la plus proche annoncée
+class CookieJar {
+  private cookies = new Map<string, string>();
+  expiresAt: number | null = null;
+
+  store(response: Response): void {
+    for (const header of response.headers.getSetCookie()) {
+      const [pair, ...attributes] = header.split(';');
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+
+      const name = pair.slice(0, separator).trim();
+      const value = pair.slice(separator + 1).trim();
+      let expires: number | null = null;
+
+      for (const attribute of attributes) {
+        const [key, ...rest] = attribute.trim().split('=');
+        const attributeValue = rest.join('=');
+        if (key.toLowerCase() === 'max-age') {
+          expires = Date.now() + Number(attributeValue) * 1000;
+        } else if (key.toLowerCase() === 'expires' && expires === null) {
+          const date = Date.parse(attributeValue);
+          if (!Number.isNaN(date)) expires = date;
+        }
+      }
+
+      if (value === '' || (expires !== null && expires <= Date.now())) {
+        this.cookies.delete(name);
+        continue;
+      }
+
+      this.cookies.set(name, value);
+      if (expires !== null) {
+        this.expiresAt = this.expiresAt === null ? expires : Math.min(this.expiresAt, expires);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.cookies.size;
+  }
+
+  toHeader(): string {
+    return Array.from(this.cookies.entries()).map(([name, value]) => `${name}=${value}`).join('; ');
+  }
+}
+
+// Requête qui suit les redirections à la main pour conserver les cookies posés en chemin
+async function fetchWithCookies(
+  url: string,
+  init: RequestInit,
+  jar: CookieJar,
+  userAgent: string
+): Promise<{ response: Response; url: string }> {
+  let currentUrl = url;
+  let currentInit = init;
+
+  for (let redirect = 0; redirect <= MAX_REDIRECTS; redirect++) {
+    const response = await fetch(currentUrl, {
+      ...currentInit,
+      headers: {
+        ...(currentInit.headers as Record<string, string> | undefined),
+        'User-Agent': userAgent,
+        ...(jar.size > 0 ? { 'Cookie': jar.toHeader() } : {})
+      },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(LOGIN_TIMEOUT_MS)
+    });
+    jar.store(response);
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: currentUrl };
+    }
+
+    await response.body?.cancel();
+    currentUrl = new URL(location, currentUrl).toString();
+    // Après un POST, la redirection (302/303) se suit en GET
+    currentInit = { method: 'GET' };
+  }
+
+  throw new Error('Trop de redirections pendant la connexion');
+}
+
+function findLoginForm(html: string): Element | null {
+  const root = new DOMParser().parseFromString(html, 'text/html')?.documentElement as Element | null;
+  if (!root) return null;
+  for (const form of Array.from(root.querySelectorAll('form')) as Element[]) {
+    if (form.querySelector('input[type="password"]')) return form;
+  }
+  return null;
+}
+
+// Connexion scriptée : page de connexion (cookies, champs cachés / CSRF), envoi du formulaire,
+// puis vérification que le formulaire n'est plus affiché
+async function formLogin(
+  credentials: Extract<SourceCredentials, { type: 'form_login' }>,
+  userAgent: string
+): Promise<{ cookies: string; expiresAt: Date }> {
+  const jar = new CookieJar();
+  const loginPage = await fetchWithCookies(credentials.login_url, { method: 'GET' }, jar, userAgent);
+  if (!loginPage.response.ok) {
+    throw new Error(`Page de connexion inaccessible (HTTP ${loginPage.response.status})`);
+  }
+
+  const form = findLoginForm(await loginPage.response.text());
+  if (!form) {
+    throw new Error('Aucun formulaire de connexion trouvé sur la page');
+  }
+
+  const fields = new URLSearchParams();
+  for (const input of Array.from(form.querySelectorAll('input[type="hidden"]')) as Element[]) {
+    const name = input.getAttribute('name');
+    if (name) fields.set(name, input.getAttribute('value') || '');
+  }
+
+  const usernameField = credentials.username_field
+    || (form.querySelector('input[type="email"], input[type="text"]') as Element | null)?.getAttribute('name');
+  const passwordField = credentials.password_field
+    || (form.querySelector('input[type="password"]') as Element | null)?.getAttribute('name');
+  if (!usernameField || !passwordField) {
+    throw new Error('Champs identifiant / mot de passe introuvables : les préciser dans la configuration');
+  }
+
+  for (const [name, value] of Object.entries(credentials.extra_fields || {})) {
+    fields.set(name, value);
+  }
+  fields.set(usernameField, credentials.username);
+  fields.set(passwordField, credentials.password);
+
+  const action = new URL(form.getAttribute('action') || loginPage.url, loginPage.url).toString();
+  const method = (form.getAttribute('method') || 'POST').toUpperCase();
+  const submitted = method === 'GET'
+    ? await fetchWithCookies(`${action.split('?')[0]}?${fields.toString()}`, { method: 'GET' }, jar, userAgent)
+    : await fetchWithCookies(action, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: fields.toString()
+    }, jar, userAgent);
+
+  if (submitted.response.status >= 400) {
+    throw new Error(`Connexion refusée (HTTP ${submitted.response.status})`);
+  }
+  const contentType = submitted.response.headers.get('content-type') || '';
+  if (contentType.includes('html') && findLoginForm(await submitted.response.text())) {
+    throw new Error('Connexion refusée (formulaire de connexion toujours affiché)');
+  }
+  if (jar.size === 0) {
+    throw new Error('Connexion sans cookie de session');
+  }
+
+  return {
+    cookies: jar.toHeader(),
+    expiresAt: new Date(jar.expiresAt ?? Date.now() + DEFAULT_SESSION_MS)
+  };
+}
+
+// Identifiants d'une source pour le crawler et document-proxy ; null si la source n'en a pas
+export async function loadSourceAuth(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  sourceUrl: string,
+  userAgent: string
+): Promise<SourceAuth | null> {
+  const { data: row, error } = await supabase
+    .from('data_source_credentials')
+    .select('auth_type, secret_ciphertext, session_ciphertext, session_expires_at')
+    .eq('data_source_id', dataSourceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Lecture des identifiants impossible: ${error.message}`);
+  }
+  if (!row) return null;
+
+  const credentials = await decryptSecret<SourceCredentials>(row.secret_ciphertext);
+  const sourceHost = normalizedHost(sourceUrl);
+  const sourceProtocol = protocolOf(sourceUrl);
+
+  // Session form_login : reprise si encore valide, sinon connexion au premier besoin
+  let session: string | null = null;
+  if (row.session_ciphertext && row.session_expires_at && new Date(row.session_expires_at).getTime() > Date.now()) {
+    session = await decryptSecret<string>(row.session_ciphertext);
+  }
+  let login: Promise<string> | null = null;
+
+  const signIn = (): Promise<string> => {
+    if (credentials.type !== 'form_login') return Promise.resolve('');
+    login ??= (async () => {
+      console.log('🔑 Connexion à la source:', credentials.login_url);
+      try {
+        const result = await formLogin(credentials, userAgent);
+        await supabase
+          .from('data_source_credentials')
+          .update({
+            session_ciphertext: await encryptSecret(result.cookies),
+            session_expires_at: result.expiresAt.toISOString(),
+            last_login_at: new Date().toISOString(),
+            last_login_error: null
+          })
+          .eq('data_source_id', dataSourceId);
+        session = result.cookies;
+        return result.cookies;
+      } catch (loginError) {
+        const message = loginError instanceof Error ? loginError.message : 'Erreur inconnue';
+        await supabase
+          .from('data_source_credentials')
+          .update({ last_login_at: new Date().toISOString(), last_login_error: message })
+          .eq('data_source_id', dataSourceId);
+        throw new Error(`Connexion à la source impossible: ${message}`);
+      } finally {
+        login = null;
+      }
+    })();
+    return login;
+  };
+
+  // Même hôte, et même schéma sauf passage de http à https
+  const appliesTo = (url: string) => {
+    if (sourceHost === null || normalizedHost(url) !== sourceHost) return false;
+    const protocol = protocolOf(url);
+    return protocol === sourceProtocol || protocol === 'https:';
+  };
+
+  return {
+    authType: credentials.type,
+    appliesTo,
+    async headersFor(url: string) {
+      if (!appliesTo(url)) return {};
+
+      switch (credentials.type) {
+        case 'basic':
+          return {
+            'Authorization': `Basic ${toBase64(new TextEncoder().encode(`${credentials.username}:${credentials.password}`))}`
+          };
+        case 'bearer':
+          return {
+            [credentials.header_name || 'Authorization']: credentials.header_name
+              ? `${credentials.prefix ?? ''}${credentials.token}`
+              : `${credentials.prefix ?? 'Bearer '}${credentials.token}`
+          };
+        case 'headers':
+          return { ...credentials.headers };
+        case 'form_login':
+          return { 'Cookie': session ?? await signIn() };
+      }
+    },
+    async renew() {
+      if (credentials.type !== 'form_login') return false;
+      session = null;
+      await signIn();
+      return true;
+    }
+  };
+}
@@ -0,0 +1,240 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// Cache des documents relayés par document-proxy : contenu dans le bucket Storage « documents »
+// sous son empreinte SHA-256 (document_blobs), index URL canonique -> empreinte + validateurs
+// HTTP (document_cache) pour la revalidation conditionnelle
+
+export const DOCUMENT_BUCKET = 'documents';
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const SIGNED_URL_SECONDS = 60;
+
+export type CacheStatus = 'HIT' | 'MISS' | 'REVALIDATED' | 'STALE';
+
+export interface CachedDocument {
+  canonical_url: string;
+  url: string;
+  sha256: string;
+  size: number;
+  content_type: string;
+  etag: string | null;
+  last_modified: string | null;
+  auth_data_source_id: string | null;
+  fetched_at: string;
+  validated_at: string;
+}
+
+export interface StoreDocumentInput {
+  canonicalUrl: string;
+  url: string;
+  bytes: Uint8Array;
+  contentType: string;
+  etag: string | null;
+  lastModified: string | null;
+  // Source dont les identifiants ont servi : la copie ne sera servie qu'avec cette source
+  authDataSourceId: string | null;
+}
+
+// Durée pendant laquelle une copie est servie sans revalidation (secret DOCUMENT_CACHE_TTL_SECONDS)
+function ttlMs(): number {
+  const configured = Deno.env.get('DOCUMENT_CACHE_TTL_SECONDS');
+  const seconds = configured && Number(configured) >= 0 ? Number(configured) : DEFAULT_TTL_SECONDS;
+  return seconds * 1000;
+}
+
+export function isFresh(entry: CachedDocument, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(entry.validated_at).getTime() < ttlMs();
+}
+
+export function blobPath(sha256: string): string {
+  return `${sha256.slice(0, 2)}/${sha256}`;
+}
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Copie utilisable pour cette requête : une copie obtenue avec des identifiants reste
+// réservée aux requêtes de la même source
+export async function findCachedDocument(
+  supabase: SupabaseClient,
+  canonicalUrl: string,
+  dataSourceId: string | null
+): Promise<CachedDocument | null> {
+  const { data, error } = await supabase
+    .from('document_cache')
+    .select('*')
+    .eq('canonical_url', canonicalUrl)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('⚠️ Lecture du cache de documents impossible:', error.message);
+    return null;
+  }
+  if (!data) return null;
+
+  const entry = data as CachedDocument;
+  if (entry.auth_data_source_id && entry.auth_data_source_id !== dataSourceId) {
+    return null;
+  }
+  return entry;
+}
+
+// Revalidation conditionnelle : If-None-Match / If-Modified-Since
+export function conditionalHeaders(entry: CachedDocument): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry.etag) headers['If-None-Match'] = entry.etag;
+  if (entry.last_modified) headers['If-Modified-Since'] = entry.last_modified;
+  return headers;
+}
+
+export async function markValidated(supabase: SupabaseClient, canonicalUrl: string): Promise<void> {
+  const { error } = await supabase
+    .from('document_cache')
+    .update({ validated_at: new Date().toISOString() })
+    .eq('canonical_url', canonicalUrl);
+
+  if (error) {
+    console.warn('⚠️ Revalidation du cache non enregistrée:', error.message);
+  }
+}
+
+// Remplissage complet du cache en tâche de fond : un seul à la fois par URL canonique,
+// quel que soit le nombre de lectures par plages qui le déclenchent
+export async function claimFill(supabase: SupabaseClient, canonicalUrl: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('claim_document_cache_fill', { p_canonical_url: canonicalUrl });
+  if (error) {
+    console.warn('⚠️ Réservation du remplissage impossible:', error.message);
+    return false;
+  }
+  return data === true;
+}
+
+export async function releaseFill(supabase: SupabaseClient, canonicalUrl: string): Promise<void> {
+  const { error } = await supabase.rpc('release_document_cache_fill', { p_canonical_url: canonicalUrl });
+  if (error) {
+    console.warn('⚠️ Libération du remplissage impossible:', error.message);
+  }
+}
+
+// Corps complet lu en mémoire, null si la limite est dépassée ou le flux interrompu
+export async function collectBody(body: ReadableStream<Uint8Array>, maxBytes: number): Promise<Uint8Array | null> {
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  const reader = body.getReader();
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  } catch {
+    return null;
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+// Enregistre le contenu (une seule fois par empreinte) et fait pointer l'URL canonique dessus
+export async function storeDocument(supabase: SupabaseClient, input: StoreDocumentInput): Promise<CachedDocument | null> {
+  const sha256 = await sha256Hex(input.bytes);
+  const path = blobPath(sha256);
+
+  const { data: existing } = await supabase
+    .from('document_blobs')
+    .select('sha256')
+    .eq('sha256', sha256)
+    .maybeSingle();
+
+  if (!existing) {
+    const { error: uploadError } = await supabase.storage
+      .from(DOCUMENT_BUCKET)
+      .upload(path, input.bytes, { contentType: input.contentType, upsert: true });
+
+    if (uploadError) {
+      console.error('❌ Erreur enregistrement du document en cache:', uploadError.message);
+      return null;
+    }
+
+    const { error: blobError } = await supabase
+      .from('document_blobs')
+      .upsert({
+        sha256,
+        storage_path: path,
+        size: input.bytes.byteLength,
+        content_type: input.contentType
+      }, { onConflict: 'sha256', ignoreDuplicates: true });
+
+    if (blobError) {
+      console.error('❌ Erreur index des contenus:', blobError.message);
+      return null;
+    }
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('document_cache')
+    .upsert({
+      canonical_url: input.canonicalUrl,
+      url: input.url,
+      sha256,
+      size: input.bytes.byteLength,
+      content_type: input.contentType,
+      etag: input.etag,
+      last_modified: input.lastModified,
+      auth_data_source_id: input.authDataSourceId,
+      fetched_at: now,
+      validated_at: now
+    }, { onConflict: 'canonical_url' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ Erreur index du cache de documents:', error.message);
+    return null;
+  }
+
+  console.log('🗄️ Document mis en cache:', input.canonicalUrl, sha256.slice(0, 12), Math.round(input.bytes.byteLength / 1024) + 'KB');
+  return data as CachedDocument;
+}
+
+// Contenu stocké, lu par une URL signée : la plage demandée (Range) est transmise à Storage
+export async function openStoredDocument(
+  supabase: SupabaseClient,
+  entry: CachedDocument,
+  range: string | null
+): Promise<Response> {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENT_BUCKET)
+    .createSignedUrl(blobPath(entry.sha256), SIGNED_URL_SECONDS);
+
+  if (error || !data) {
+    throw new Error(`Document en cache illisible: ${error?.message ?? 'URL signée manquante'}`);
+  }
+
+  const response = await fetch(data.signedUrl, { headers: range ? { 'Range': range } : {} });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`Document en cache illisible: ${response.status}`);
+  }
+  return response;
+}
+
+// Travail poursuivi après la réponse (EdgeRuntime.waitUntil sur Supabase)
+export function runInBackground(task: Promise<unknown>): void {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime;
+  const guarded = task.catch(error => console.error('❌ Tâche de fond du cache:', error));
+  runtime?.waitUntil(guarded);
+}
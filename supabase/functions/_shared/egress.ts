@@ -0,0 +1,218 @@
+// Requêtes sortantes vers des URL fournies par l'utilisateur (protection SSRF) :
+// adresses privées, de bouclage, link-local et de métadonnées refusées après résolution DNS,
+// redirections suivies une à une et vérifiées à chaque saut.
+// Limite connue : fetch résout à nouveau l'hôte (rebinding DNS entre vérification et connexion).
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+export class EgressError extends Error {
+  constructor(message: string, public readonly url: string) {
+    super(message);
+    this.name = 'EgressError';
+  }
+}
+
+// Plages IPv4 non routables sur Internet : [adresse, longueur du préfixe]
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8],        // « ce réseau »
+  ['10.0.0.0', 8],       // privé
+  ['100.64.0.0', 10],    // CGNAT (dont 100.100.100.200, métadonnées Alibaba)
+  ['127.0.0.0', 8],      // bouclage
+  ['169.254.0.0', 16],   // link-local (dont 169.254.169.254, métadonnées cloud)
+  ['172.16.0.0', 12],    // privé
+  ['192.0.0.0', 24],     // affectations IETF
+  ['192.0.2.0', 24],     // documentation
+  ['192.88.99.0', 24],   // relais 6to4
+  ['192.168.0.0', 16],   // privé
+  ['198.18.0.0', 15],    // tests de performance
+  ['198.51.100.0', 24],  // documentation
+  ['203.0.113.0', 24],   // documentation
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4]       // réservé et diffusion
+];
+
+function ipv4ToNumber(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  if (value === null) return true;
+
+  return BLOCKED_IPV4.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network)! / size);
+  });
+}
+
+// Huit groupes de 16 bits ; null si l'adresse est illisible
+function parseIpv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+
+  // IPv4 en fin d'adresse (::ffff:1.2.3.4)
+  const embedded = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const value = ipv4ToNumber(embedded[1]);
+    if (value === null) return null;
+    text = text.slice(0, -embedded[1].length) + `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const groups = parseIpv6(address);
+  if (!groups) return true;
+
+  const [first] = groups;
+  const leadingZeros = groups.slice(0, 5).every(group => group === 0);
+  const embeddedIpv4 = `${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`;
+
+  // ::ffff:a.b.c.d (IPv4 mappée) et 64:ff9b::a.b.c.d (NAT64) : jugées comme l'IPv4 portée
+  if (leadingZeros && groups[5] === 0xffff) return isBlockedIpv4(embeddedIpv4);
+  if (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isBlockedIpv4(embeddedIpv4);
+  }
+
+  return (
+    (leadingZeros && groups[5] === 0 && groups[6] === 0 && groups[7] <= 1) || // :: et ::1
+    (first & 0xfe00) === 0xfc00 ||  // fc00::/7 unique local (dont fd00:ec2::254, métadonnées AWS)
+    (first & 0xffc0) === 0xfe80 ||  // fe80::/10 link-local
+    (first & 0xff00) === 0xff00 ||  // ff00::/8 multicast
+    (first === 0x2001 && groups[1] === 0x0db8) // documentation
+  );
+}
+
+// Adresse IP interdite comme destination (privée, bouclage, link-local, métadonnées...)
+export function isBlockedAddress(address: string): boolean {
+  return address.includes(':') ? isBlockedIpv6(address) : isBlockedIpv4(address);
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const results = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA')
+  ]);
+  return results.flatMap(result => (result.status === 'fulfilled' ? result.value : []));
+}
+
+// Hôte sans www. ni point final, pour comparer aux listes de domaines
+export function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/\.$/, '').replace(/^www\./, '');
+}
+
+// Domaine autorisé : égal à un domaine de la liste ou sous-domaine de celui-ci
+export function isAllowedHost(hostname: string, domains: Iterable<string>): boolean {
+  const host = normalizeHost(hostname);
+  for (const domain of domains) {
+    if (host === domain || host.endsWith(`.${domain}`)) return true;
+  }
+  return false;
+}
+
+// Liste « a.org, b.fr » (secret PROXY_ALLOWED_DOMAINS) ou URL de sources -> domaines normalisés
+export function parseDomainList(values: Array<string | null | undefined>): string[] {
+  const domains = new Set<string>();
+  for (const value of values) {
+    const text = value?.trim();
+    if (!text) continue;
+    try {
+      domains.add(normalizeHost(new URL(text.includes('://') ? text : `https://${text}`).hostname));
+    } catch {
+      console.warn('⚠️ Domaine ignoré dans la liste autorisée:', text);
+    }
+  }
+  return Array.from(domains);
+}
+
+export interface DestinationPolicy {
+  // Domaine autorisé ? (liste blanche) ; absent : tout domaine public
+  isAllowed?: (hostname: string) => boolean;
+}
+
+// Vérifie une destination : protocole web, domaine autorisé, toutes ses adresses publiques
+export async function assertPublicDestination(url: string, policy: DestinationPolicy = {}): Promise<URL> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw new EgressError('Format d\'URL invalide', url);
+  }
+
+  if (!['http:', 'https:'].includes(target.protocol)) {
+    throw new EgressError('Protocole non autorisé', url);
+  }
+  if (target.username || target.password) {
+    throw new EgressError('Identifiants interdits dans l\'URL', url);
+  }
+
+  const hostname = target.hostname.replace(/^\[|\]$/g, '');
+  if (policy.isAllowed && !policy.isAllowed(hostname)) {
+    throw new EgressError(`Domaine non autorisé : ${hostname}`, url);
+  }
+
+  const literal = hostname.includes(':') || ipv4ToNumber(hostname) !== null;
+  const addresses = literal ? [hostname] : await resolveHost(hostname);
+  if (addresses.length === 0) {
+    throw new EgressError(`Hôte introuvable : ${hostname}`, url);
+  }
+  const blocked = addresses.find(isBlockedAddress);
+  if (blocked) {
+    throw new EgressError(`Adresse de destination interdite : ${hostname} (${blocked})`, url);
+  }
+
+  return target;
+}
+
+// fetch avec vérification de la destination initiale et de chaque redirection ;
+// headersFor recalcule les en-têtes par saut (identifiants limités à l'hôte de la source) ;
+// fetcher remplace fetch pour chaque saut (capture WARC)
+export async function guardedFetch(
+  url: string,
+  init: Omit<RequestInit, 'redirect'> & {
+    headersFor?: (url: string) => Promise<Record<string, string>> | Record<string, string>;
+    fetcher?: (url: string, init: RequestInit) => Promise<Response>;
+  } = {},
+  policy: DestinationPolicy = {}
+): Promise<Response> {
+  const { headersFor, fetcher = fetch, ...requestInit } = init;
+  let current = url;
+  let method = requestInit.method ?? 'GET';
+
+  for (let hop = 0; ; hop++) {
+    await assertPublicDestination(current, policy);
+
+    const response = await fetcher(current, {
+      ...requestInit,
+      method,
+      headers: headersFor ? await headersFor(current) : requestInit.headers,
+      redirect: 'manual'
+    });
+
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (hop >= MAX_REDIRECTS) {
+      throw new EgressError(`Trop de redirections (${MAX_REDIRECTS})`, url);
+    }
+
+    current = new URL(location, current).href;
+    if (response.status === 303 && method !== 'HEAD') method = 'GET';
+    console.log('↪️ Redirection vérifiée:', current);
+  }
+}
@@ -0,0 +1,385 @@
+import { filenameFromUrl, getExtension } from "./crawler.ts";
+import type { RobotsGuard } from "./robots.ts";
+import type { HarvestedDocument } from "./types.ts";
+import { canonicalizeUrl, cleanUrl } from "./canonicalUrl.ts";
+import type { WarcRecorder } from "./warc.ts";
+
+export type FeedKind = 'urlset' | 'sitemapindex' | 'rss' | 'atom' | 'unknown';
+
+export interface FeedEntry {
+  url: string;
+  date: string;
+  title: string;
+  source: string;
+}
+
+export interface FeedOptions {
+  startUrl: string;
+  documentFormats: string[];
+  dateRange?: { start?: string; end?: string };
+  maxFeeds: number;
+  delayBetweenRequests: number;
+  userAgent: string;
+  robots?: RobotsGuard;
+  // Capture WARC de l'exécution (data_sources.warc_capture)
+  archive?: WarcRecorder | null;
+  shouldStop?: () => Promise<boolean>;
+  onWarning?: (message: string, details?: Record<string, unknown>) => Promise<void>;
+}
+
+export interface FeedResult {
+  documents: HarvestedDocument[];
+  obstacles: string[];
+  feedsFetched: string[];
+  feedsFailed: number;
+  entriesSeen: number;
+  undatedDocuments: number;
+  stopped: boolean;
+  // Tous les flux lus : ni arrêt, ni limite de flux, ni flux en échec ou interdit, ni filtre de période
+  complete: boolean;
+}
+
+const FEED_TIMEOUT_MS = 30000;
+const MAX_FEED_BYTES = 50 * 1024 * 1024; // limite du protocole sitemap (50 Mo décompressés)
+const COMMON_FEED_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/sitemap.xml.gz', '/feed', '/rss.xml', '/atom.xml'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Décoder les entités XML courantes et les sections CDATA
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+// Blocs <tag>...</tag>, préfixes d'espace de noms tolérés (ex: <sm:url>)
+function blocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'gi');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function firstText(xml: string, tags: string[]): string {
+  for (const tag of tags) {
+    const [value] = blocks(xml, tag);
+    if (value !== undefined) return decodeXml(value);
+  }
+  return '';
+}
+
+// Lien Atom : <link href="..."/>, en privilégiant rel="enclosure" puis rel="alternate"
+function atomLink(entry: string): string {
+  const links = Array.from(entry.matchAll(/<link\b([^>]*)\/?>/gi), match => match[1]);
+  const withRel = (rel: string) => links.find(attrs => new RegExp(`rel=["']${rel}["']`, 'i').test(attrs));
+  const chosen = withRel('enclosure') || withRel('alternate') || links.find(attrs => !/rel=/i.test(attrs)) || links[0];
+  const href = chosen?.match(/href=["']([^"']+)["']/i);
+  return href ? decodeXml(href[1]) : '';
+}
+
+export function detectFeedKind(xml: string): FeedKind {
+  const head = xml.slice(0, 2000).toLowerCase();
+  if (/<(\w+:)?sitemapindex\b/.test(head)) return 'sitemapindex';
+  if (/<(\w+:)?urlset\b/.test(head)) return 'urlset';
+  if (/<rss\b|<rdf:rdf\b/.test(head)) return 'rss';
+  if (/<feed\b/.test(head)) return 'atom';
+  return 'unknown';
+}
+
+// Entrées d'un flux : URLs de sitemap (urlset / sitemapindex) ou items RSS / Atom
+export function parseFeed(xml: string, feedUrl: string): { kind: FeedKind; entries: FeedEntry[] } {
+  const kind = detectFeedKind(xml);
+  let entries: FeedEntry[] = [];
+
+  switch (kind) {
+    case 'urlset':
+      entries = blocks(xml, 'url').map(block => ({
+        url: firstText(block, ['loc']),
+        date: firstText(block, ['lastmod']),
+        title: '',
+        source: feedUrl
+      }));
+      break;
+    case 'sitemapindex':
+      entries = blocks(xml, 'sitemap').map(block => ({
+        url: firstText(block, ['loc']),
+        date: firstText(block, ['lastmod']),
+        title: '',
+        source: feedUrl
+      }));
+      break;
+    case 'rss':
+      entries = blocks(xml, 'item').map(item => {
+        const enclosure = item.match(/<enclosure\b[^>]*url=["']([^"']+)["']/i);
+        return {
+          url: enclosure ? decodeXml(enclosure[1]) : firstText(item, ['link', 'guid']),
+          date: firstText(item, ['pubDate', 'date', 'updated']),
+          title: firstText(item, ['title']),
+          source: feedUrl
+        };
+      });
+      break;
+    case 'atom':
+      entries = blocks(xml, 'entry').map(entry => ({
+        url: atomLink(entry),
+        date: firstText(entry, ['updated', 'published']),
+        title: firstText(entry, ['title']),
+        source: feedUrl
+      }));
+      break;
+  }
+
+  return {
+    kind,
+    entries: entries
+      .map(entry => ({ ...entry, url: resolveUrl(entry.url, feedUrl) }))
+      .filter(entry => entry.url !== '')
+  };
+}
+
+function resolveUrl(url: string, baseUrl: string): string {
+  try {
+    const resolved = new URL(url, baseUrl);
+    return ['http:', 'https:'].includes(resolved.protocol) ? resolved.toString() : '';
+  } catch {
+    return '';
+  }
+}
+
+// Une date absente ne peut pas être filtrée : l'entrée est conservée
+export function isWithinDateRange(date: string, range?: { start?: string; end?: string }): boolean {
+  if (!date || (!range?.start && !range?.end)) return true;
+
+  const time = new Date(date).getTime();
+  if (isNaN(time)) return true;
+
+  if (range.start && time < new Date(range.start).getTime()) return false;
+  // La borne de fin est inclusive sur toute la journée
+  if (range.end && time >= new Date(range.end).getTime() + 24 * 60 * 60 * 1000) return false;
+  return true;
+}
+
+async function readBody(response: Response, url: string): Promise<string> {
+  const contentLength = parseInt(response.headers.get('content-length') || '0', 10);
+  if (contentLength > MAX_FEED_BYTES) {
+    throw new Error(`Flux trop volumineux (${Math.round(contentLength / 1024 / 1024)} Mo)`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  // Sitemap gzippé : on se fie à la signature gzip (1f 8b), le serveur a pu décompresser un .gz
+  const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+  if (!isGzip) {
+    return new TextDecoder().decode(bytes);
+  }
+
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  const text = await new Response(stream).text();
+  if (text.length > MAX_FEED_BYTES) {
+    throw new Error(`Flux décompressé trop volumineux: ${url}`);
+  }
+  return text;
+}
+
+// Flux candidats : URL de la source si c'est déjà un flux, sinon robots.txt, <link rel="alternate"> et chemins usuels
+export async function discoverFeedUrls(options: FeedOptions): Promise<{ urls: string[]; guessed: boolean }> {
+  const { startUrl, robots, userAgent } = options;
+  const candidates: string[] = [];
+  const add = (url: string) => {
+    const resolved = resolveUrl(url, startUrl);
+    if (resolved && !candidates.includes(resolved)) candidates.push(resolved);
+  };
+
+  const path = new URL(startUrl).pathname.toLowerCase();
+  if (/\.(xml|gz|rss|atom)$/.test(path) || /(sitemap|feed|rss|atom)/.test(path)) {
+    add(startUrl);
+    return { urls: candidates, guessed: false };
+  }
+
+  if (robots) {
+    for (const sitemap of await robots.getSitemaps(startUrl)) add(sitemap);
+  }
+
+  // Liens <link rel="alternate"> de la page d'accueil, si robots.txt l'autorise
+  const homeAllowed = robots ? (await robots.check(startUrl)).allowed : true;
+  if (homeAllowed) {
+    try {
+      const response = await (options.archive?.fetch ?? fetch)(startUrl, {
+        headers: { 'User-Agent': userAgent, 'Accept': 'text/html' },
+        signal: AbortSignal.timeout(FEED_TIMEOUT_MS)
+      });
+      if (response.ok) {
+        const html = await response.text();
+        for (const match of html.matchAll(/<link\b[^>]*>/gi)) {
+          const tag = match[0];
+          if (!/rel=["']alternate["']/i.test(tag)) continue;
+          if (!/type=["']application\/(rss|atom)\+xml["']/i.test(tag)) continue;
+          const href = tag.match(/href=["']([^"']+)["']/i);
+          if (href) add(decodeXml(href[1]));
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ Page d\'accueil inaccessible pour la découverte des flux:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (candidates.length > 0) {
+    return { urls: candidates, guessed: false };
+  }
+
+  const origin = new URL(startUrl).origin;
+  COMMON_FEED_PATHS.forEach(feedPath => add(`${origin}${feedPath}`));
+  return { urls: candidates, guessed: true };
+}
+
+// Parcours des flux (index de sitemaps imbriqués compris) et sélection des liens de documents
+export async function collectFeedDocuments(options: FeedOptions): Promise<FeedResult> {
+  const formats = options.documentFormats.map(format => format.toLowerCase());
+  const { urls: queue, guessed } = await discoverFeedUrls(options);
+  const visited = new Set<string>();
+  const documents = new Map<string, HarvestedDocument>();
+  const obstacles: string[] = [];
+  const feedsFetched: string[] = [];
+  let feedsFailed = 0;
+  let entriesSeen = 0;
+  let undatedDocuments = 0;
+  let feedsDisallowed = 0;
+  let stopped = false;
+
+  while (queue.length > 0 && visited.size < options.maxFeeds) {
+    if (options.shouldStop && await options.shouldStop()) {
+      stopped = true;
+      break;
+    }
+
+    const feedUrl = queue.shift()!;
+    if (visited.has(feedUrl)) continue;
+    visited.add(feedUrl);
+
+    if (options.robots) {
+      const decision = await options.robots.check(feedUrl);
+      if (!decision.allowed) {
+        feedsDisallowed++;
+        await options.onWarning?.('Flux ignoré (interdit par robots.txt)', {
+          type: 'robots_disallowed',
+          url: feedUrl,
+          rule: decision.rule ? `Disallow: ${decision.rule.path}` : 'robots.txt'
+        });
+        continue;
+      }
+    }
+
+    if (visited.size > 1 && options.delayBetweenRequests > 0) {
+      await sleep(options.delayBetweenRequests);
+    }
+
+    let xml: string;
+    try {
+      console.log(`🗺️ Flux [${visited.size}/${options.maxFeeds}]:`, feedUrl);
+      const response = await (options.archive?.fetch ?? fetch)(feedUrl, {
+        headers: {
+          'User-Agent': options.userAgent,
+          'Accept': 'application/xml,text/xml,application/rss+xml,application/atom+xml,application/gzip;q=0.9,*/*;q=0.5'
+        },
+        signal: AbortSignal.timeout(FEED_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        // Les chemins devinés (/sitemap.xml, /feed...) absents ne sont pas des erreurs
+        if (!guessed || response.status !== 404) {
+          feedsFailed++;
+          await options.onWarning?.(`Flux inaccessible (HTTP ${response.status})`, { url: feedUrl });
+        }
+        continue;
+      }
+
+      xml = await readBody(response, feedUrl);
+    } catch (error) {
+      feedsFailed++;
+      await options.onWarning?.(
+        `Erreur lecture du flux: ${error instanceof Error ? error.message : 'Erreur inconnue'}`,
+        { url: feedUrl }
+      );
+      continue;
+    }
+
+    const { kind, entries } = parseFeed(xml, feedUrl);
+    if (kind === 'unknown') {
+      obstacles.push(`Format de flux non reconnu: ${feedUrl}`);
+      continue;
+    }
+    feedsFetched.push(feedUrl);
+
+    if (kind === 'sitemapindex') {
+      // Index : un sitemap enfant modifié avant le début de période ne peut rien contenir de plus récent
+      entries
+        .filter(entry => isWithinDateRange(entry.date, { start: options.dateRange?.start }))
+        .forEach(entry => {
+          if (!visited.has(entry.url) && !queue.includes(entry.url)) queue.push(entry.url);
+        });
+      continue;
+    }
+
+    for (const entry of entries) {
+      entriesSeen++;
+      const canonicalUrl = canonicalizeUrl(entry.url);
+      if (documents.has(canonicalUrl)) continue;
+
+      const extension = getExtension(entry.url);
+      if (!formats.includes(extension)) continue;
+      if (!isWithinDateRange(entry.date, options.dateRange)) continue;
+      if (!entry.date) undatedDocuments++;
+
+      const filename = filenameFromUrl(entry.url);
+      const yearMatch = entry.date.match(/\b(19|20)\d{2}\b/);
+
+      documents.set(canonicalUrl, {
+        url_doc: cleanUrl(entry.url),
+        format: extension.toUpperCase(),
+        source_page: entry.source,
+        document_name: entry.title || filename,
+        date_edition: entry.date,
+        statut: 'en ligne',
+        issue_number: null,
+        annee: yearMatch ? parseInt(yearMatch[0], 10) : undefined,
+        filename,
+        pattern_verified: true,
+        notes: `Lien listé par le flux ${kind} ${entry.source}`,
+        obstacles: null
+      });
+    }
+  }
+
+  if (queue.length > 0 && !stopped) {
+    obstacles.push(`Limite de ${options.maxFeeds} flux atteinte : ${queue.length} sitemap(s) non lu(s)`);
+  }
+  if (feedsFetched.length === 0) {
+    obstacles.push('Aucun sitemap ni flux RSS/Atom lisible trouvé pour ce site');
+  }
+  if (feedsFailed > 0) {
+    obstacles.push(`${feedsFailed} flux inaccessible(s)`);
+  }
+  if (undatedDocuments > 0 && (options.dateRange?.start || options.dateRange?.end)) {
+    obstacles.push(`${undatedDocuments} document(s) sans date conservé(s) malgré le filtre de période`);
+  }
+
+  return {
+    documents: Array.from(documents.values()),
+    obstacles,
+    feedsFetched,
+    feedsFailed,
+    entriesSeen,
+    undatedDocuments,
+    stopped,
+    complete: !stopped &&
+      queue.length === 0 &&
+      feedsFetched.length > 0 &&
+      feedsFailed === 0 &&
+      feedsDisallowed === 0 &&
+      !options.dateRange?.start &&
+      !options.dateRange?.end
+  };
+}
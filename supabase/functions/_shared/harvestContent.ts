@@ -0,0 +1,69 @@
+// Lecture de la réponse de moissonnage : seule implémentation, sans dépendance externe, importée par
+// le moteur 'web' de harvest-worker et par le navigateur (src/lib/harvestContent.ts).
+
+import { validateHarvestResponse, type SchemaViolation } from "./harvestResponseSchema.ts";
+import { canonicalizeUrl, cleanUrl } from "./canonicalUrl.ts";
+import type { HarvestPayload } from "./types.ts";
+
+// Parser la réponse (éventuellement entourée d'un bloc markdown) et la valider contre le schéma
+export function parseHarvestContent(rawContent: string): { data: HarvestPayload | null; violations: SchemaViolation[] } {
+  if (!rawContent || rawContent.trim() === '') {
+    return { data: null, violations: [{ path: '$', message: 'réponse vide' }] };
+  }
+
+  const fenced = rawContent.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : rawContent).trim();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(candidate);
+  } catch (parseError) {
+    return {
+      data: null,
+      violations: [{ path: '$', message: `JSON invalide: ${parseError instanceof Error ? parseError.message : 'format inconnu'}` }]
+    };
+  }
+
+  const violations = validateHarvestResponse(parsed);
+  const structurallyValid = !violations.some(v => !/^\$\.documents\[\d+\]/.test(v.path));
+  return { data: structurallyValid ? parsed as HarvestPayload : null, violations };
+}
+
+// Message de correction envoyé au modèle avec la liste des écarts
+export function buildRepairPrompt(violations: SchemaViolation[]): string {
+  const lines = violations.slice(0, 50).map(v => `- ${v.path} : ${v.message}`);
+  if (violations.length > 50) {
+    lines.push(`- ... et ${violations.length - 50} autre(s) écart(s)`);
+  }
+
+  return `Ta réponse précédente ne respecte pas le schéma JSON attendu :
+${lines.join('\n')}
+
+Renvoie la réponse complète corrigée : uniquement le JSON, sans texte avant ou après.`;
+}
+
+// URL nettoyées (suivi, fragment) et variantes d'un même document fusionnées : la première
+// occurrence est conservée, complétée par les champs renseignés des suivantes
+export function mergeDuplicateDocuments<T extends { url_doc: string }>(documents: T[]): { documents: T[]; merged: number } {
+  const byCanonical = new Map<string, T>();
+
+  for (const doc of documents) {
+    const key = canonicalizeUrl(doc.url_doc);
+    const existing = byCanonical.get(key);
+    if (!existing) {
+      byCanonical.set(key, { ...doc, url_doc: cleanUrl(doc.url_doc) });
+      continue;
+    }
+
+    const filled = Object.fromEntries(
+      Object.entries(doc).filter(([field, value]) => {
+        const current = existing[field as keyof T];
+        return value !== null && value !== undefined && value !== '' &&
+          (current === null || current === undefined || current === '');
+      })
+    );
+    byCanonical.set(key, { ...existing, ...filled });
+  }
+
+  return { documents: Array.from(byCanonical.values()), merged: documents.length - byCanonical.size };
+}
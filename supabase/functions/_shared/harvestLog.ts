@@ -0,0 +1,38 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export type LogLevel = 'info' | 'warning' | 'error';
+
+export interface HarvestLogger {
+  info(message: string, details?: Record<string, unknown>): Promise<void>;
+  warning(message: string, details?: Record<string, unknown>): Promise<void>;
+  error(message: string, details?: Record<string, unknown>): Promise<void>;
+}
+
+// Équivalent serveur de HarvestLogService : écrit dans harvest_logs pour une source donnée,
+// rattaché à l'exécution en cours le cas échéant.
+// Un échec d'écriture du log ne doit jamais interrompre le moissonnage.
+export function createHarvestLogger(
+  supabase: SupabaseClient,
+  dataSourceId: string | null,
+  runId: string | null = null
+): HarvestLogger {
+  const write = async (level: LogLevel, message: string, details: Record<string, unknown> = {}) => {
+    const { error } = await supabase.from('harvest_logs').insert({
+      data_source_id: dataSourceId,
+      run_id: runId,
+      level,
+      message,
+      details
+    });
+
+    if (error) {
+      console.error('❌ Erreur écriture harvest_logs:', error.message);
+    }
+  };
+
+  return {
+    info: (message, details) => write('info', message, details),
+    warning: (message, details) => write('warning', message, details),
+    error: (message, details) => write('error', message, details)
+  };
+}
@@ -0,0 +1,154 @@
+// Contrat JSON de la réponse de moissonnage LLM, dérivé d'OpenAIDocument (database.types.ts).
+// Seule implémentation, sans dépendance : importée par le moteur 'web' de harvest-worker et par le
+// navigateur (src/lib/harvestResponseSchema.ts).
+
+// Alias plutôt qu'interface : assignable aux paramètres { [key: string]: unknown } du SDK OpenAI
+export type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number | boolean | null)[];
+  minLength?: number;
+  pattern?: string;
+  description?: string;
+};
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+type DocumentFieldType = 'string' | 'integer' | 'boolean';
+
+// Champs d'OpenAIDocument renseignés par le LLM (change_status est calculé par la détection des changements)
+const DOCUMENT_FIELDS: Record<string, { type: DocumentFieldType; enum?: string[]; description?: string }> = {
+  url_doc: { type: 'string', description: 'URL absolue du document (obligatoire)' },
+  type_document: { type: 'string' },
+  format: { type: 'string', description: 'PDF, DOCX, etc.' },
+  source_page: { type: 'string', description: 'URL de la page où le lien a été trouvé' },
+  document_name: { type: 'string' },
+  date_edition: { type: 'string', description: 'YYYY-MM ou YYYY-MM-DD' },
+  auteurs: { type: 'string' },
+  langue: { type: 'string' },
+  resume: { type: 'string' },
+  statut: { type: 'string' },
+  issue_number: { type: 'string' },
+  annee: { type: 'integer' },
+  filename: { type: 'string' },
+  contient_texte: { type: 'string', enum: ['oui', 'non'] },
+  pattern_verified: { type: 'boolean' },
+  notes: { type: 'string' },
+  obstacles: { type: 'string' }
+};
+
+// strict : format exigé par les structured outputs (tous les champs requis, optionnels nullables,
+// aucun champ supplémentaire) ; sinon seuls url_doc et les trois sections sont obligatoires
+function buildHarvestSchema(strict: boolean): JsonSchema {
+  const documentProperties: Record<string, JsonSchema> = {};
+
+  for (const [name, field] of Object.entries(DOCUMENT_FIELDS)) {
+    if (name === 'url_doc') {
+      documentProperties[name] = { type: 'string', description: field.description, ...(strict ? {} : { minLength: 1, pattern: '^https?://' }) };
+      continue;
+    }
+    documentProperties[name] = {
+      type: [field.type, 'null'],
+      ...(field.enum ? { enum: [...field.enum, null] } : {}),
+      ...(field.description ? { description: field.description } : {})
+    };
+  }
+
+  return {
+    type: 'object',
+    properties: {
+      documents: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: documentProperties,
+          required: strict ? Object.keys(documentProperties) : ['url_doc'],
+          ...(strict ? { additionalProperties: false } : {})
+        }
+      },
+      'obstacles-globaux': { type: 'array', items: { type: 'string' } },
+      recommandations: { type: 'string' }
+    },
+    required: ['documents', 'obstacles-globaux', 'recommandations'],
+    ...(strict ? { additionalProperties: false } : {})
+  };
+}
+
+export const HARVEST_RESPONSE_SCHEMA_NAME = 'harvest_response';
+export const HARVEST_RESPONSE_SCHEMA = buildHarvestSchema(true);
+const HARVEST_VALIDATION_SCHEMA = buildHarvestSchema(false);
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, expected: string): boolean {
+  const actual = typeOf(value);
+  return actual === expected || (expected === 'number' && actual === 'integer');
+}
+
+// Validation du sous-ensemble de JSON Schema utilisé par les contrats de l'application
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = '$'): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [{ path, message: `type attendu ${types.join(' | ')}, reçu ${typeOf(value)}` }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    violations.push({ path, message: `valeur ${JSON.stringify(value)} hors de ${JSON.stringify(schema.enum)}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path, message: `chaîne trop courte (minimum ${schema.minLength})` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      violations.push({ path, message: `ne respecte pas le motif ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      violations.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (!(key in record)) {
+        violations.push({ path: `${path}.${key}`, message: 'champ obligatoire manquant' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        violations.push(...validateAgainstSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: `${path}.${key}`, message: 'champ non prévu par le schéma' });
+      }
+    }
+  }
+
+  return violations;
+}
+
+// Valider une réponse de moissonnage déjà parsée
+export function validateHarvestResponse(value: unknown): SchemaViolation[] {
+  return validateAgainstSchema(value, HARVEST_VALIDATION_SCHEMA);
+}
@@ -0,0 +1,633 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { createHarvestLogger, type HarvestLogger } from "./harvestLog.ts";
+import { crawlSite, CRAWLER_PRODUCT_TOKEN, DEFAULT_USER_AGENT } from "./crawler.ts";
+import { collectFeedDocuments } from "./feeds.ts";
+import { RobotsGuard } from "./robots.ts";
+import { createRenderer } from "./renderer.ts";
+import { loadSourceAuth } from "./credentials.ts";
+import { PAGINATION_STOP_LABELS, validatePagination } from "./pagination.ts";
+import { finishRun, startRun, type RunTrigger } from "./harvestRuns.ts";
+import { annotateDocuments, changeStats, detectChanges } from "./changeDetection.ts";
+import { WarcRecorder, type WarcSummary } from "./warc.ts";
+import { isAllowedHost, parseDomainList } from "./egress.ts";
+import { llmBudgetExceeded } from "./jobs.ts";
+import { allowedChatModels, DEFAULT_CHAT_MODEL, LLMCallError, type LLMMessage } from "./llmCore.ts";
+import { hashPrompt, requestHarvest } from "./llmHarvest.ts";
+import { buildRepairPrompt, mergeDuplicateDocuments, parseHarvestContent } from "./harvestContent.ts";
+import { HARVEST_RESPONSE_SCHEMA_NAME, type SchemaViolation } from "./harvestResponseSchema.ts";
+import { renderActivePrompt } from "./promptTemplates.ts";
+import type { HarvestFilters, HarvestPayload, HarvestSelectors, PaginationRules } from "./types.ts";
+
+// Erreur porteuse d'un statut HTTP pour les fonctions edge appelantes
+export class HarvestRunError extends Error {
+  constructor(message: string, public readonly status: number = 500) {
+    super(message);
+    this.name = 'HarvestRunError';
+  }
+}
+
+export interface RunOptions {
+  // Point de contrôle entre deux requêtes : true pour interrompre (annulation / pause du job)
+  shouldStop?: () => Promise<boolean>;
+  // Échéance du worker : interrompt aussi la requête en cours (appel LLM)
+  signal?: AbortSignal;
+  trigger?: RunTrigger;
+  jobId?: string | null;
+}
+
+export interface RunResult {
+  runId: string;
+  harvestResultId: string | null;
+  documentsFound: number;
+  stopped: boolean;
+  stats: Record<string, unknown>;
+}
+
+const DEFAULT_FORMATS = ['pdf', 'docx'];
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Source et dernière configuration (même règle que le front : la plus récente)
+async function loadSourceAndConfig(supabase: SupabaseClient, dataSourceId: string) {
+  const { data: dataSource, error: sourceError } = await supabase
+    .from('data_sources')
+    .select('*')
+    .eq('id', dataSourceId)
+    .single();
+
+  if (sourceError || !dataSource) {
+    throw new HarvestRunError('Source de données introuvable', 404);
+  }
+
+  const { data: configs } = await supabase
+    .from('harvesting_configs')
+    .select('*')
+    .eq('data_source_id', dataSourceId)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  return { dataSource, config: configs?.[0] ?? null };
+}
+
+// Capture WARC de l'exécution si la source l'a activée (data_sources.warc_capture)
+function createArchive(
+  supabase: SupabaseClient,
+  dataSource: { warc_capture?: boolean | null },
+  runId: string,
+  dataSourceId: string
+): WarcRecorder | null {
+  return dataSource.warc_capture ? new WarcRecorder(supabase, { runId, dataSourceId }) : null;
+}
+
+// Fichiers WARC enregistrés même pour une exécution interrompue ou en échec : trace de ce qui a été vu
+async function closeArchive(archive: WarcRecorder | null): Promise<WarcSummary | null> {
+  if (!archive) return null;
+  try {
+    return await archive.close();
+  } catch (error) {
+    console.error('❌ Erreur enregistrement de la capture WARC:', error);
+    return null;
+  }
+}
+
+async function saveHarvestResult(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  configId: string | null,
+  runId: string,
+  payload: HarvestPayload,
+  metadata: Record<string, unknown>,
+  promptTemplates: { systemTemplateId: string; userTemplateId: string } | null = null
+): Promise<string> {
+  const { data: saved, error: saveError } = await supabase
+    .from('harvest_results')
+    .insert({
+      data_source_id: dataSourceId,
+      config_id: configId,
+      run_id: runId,
+      system_prompt_template_id: promptTemplates?.systemTemplateId ?? null,
+      user_prompt_template_id: promptTemplates?.userTemplateId ?? null,
+      data: payload,
+      metadata: {
+        saved_method: 'database',
+        timestamp: new Date().toISOString(),
+        ...metadata
+      },
+      status: 'success'
+    })
+    .select('id')
+    .single();
+
+  if (saveError) {
+    throw new Error(`Erreur sauvegarde: ${saveError.message}`);
+  }
+
+  return saved.id;
+}
+
+// Crawler en largeur avec les sélecteurs CSS de harvesting_configs
+export async function runCrawlerHarvest(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const { dataSource, config } = await loadSourceAndConfig(supabase, dataSourceId);
+  const runId = await startRun(supabase, {
+    dataSourceId,
+    engine: 'crawler',
+    trigger: options.trigger ?? 'manual',
+    jobId: options.jobId,
+    config
+  });
+  const logger = createHarvestLogger(supabase, dataSourceId, runId);
+  const archive = createArchive(supabase, dataSource, runId, dataSourceId);
+
+  try {
+    const selectors = (config?.selectors ?? {}) as HarvestSelectors;
+    const filters = (config?.filters ?? {}) as HarvestFilters;
+    const maxPages = config?.max_pages || 10;
+    const delayBetweenRequests = config?.delay_between_requests || 1000;
+    const robots = new RobotsGuard(CRAWLER_PRODUCT_TOKEN, DEFAULT_USER_AGENT, supabase, archive?.fetch);
+    const renderJs = !!config?.render_js;
+    const renderer = renderJs ? createRenderer(selectors, DEFAULT_USER_AGENT) : null;
+    if (renderJs && !renderer) {
+      throw new HarvestRunError('Rendu JavaScript demandé mais RENDER_WORKER_URL non configurée', 503);
+    }
+
+    const auth = await loadSourceAuth(supabase, dataSourceId, dataSource.url, DEFAULT_USER_AGENT);
+    const pagination = (config?.pagination ?? null) as PaginationRules | null;
+    const paginationError = pagination ? validatePagination(pagination) : null;
+    if (paginationError) {
+      throw new HarvestRunError(paginationError, 400);
+    }
+
+    await logger.info(`Début du crawl pour ${dataSource.name}`, {
+      url: dataSource.url,
+      max_pages: maxPages,
+      delay_between_requests: delayBetweenRequests,
+      render_js: renderJs,
+      auth_type: auth?.authType ?? null,
+      pagination: pagination?.strategy ?? null,
+      warc_capture: !!archive
+    });
+
+    const startedAt = Date.now();
+    const crawl = await crawlSite({
+      startUrl: dataSource.url,
+      selectors,
+      filters,
+      maxPages,
+      delayBetweenRequests,
+      robots,
+      renderer,
+      auth,
+      pagination,
+      archive,
+      shouldStop: options.shouldStop,
+      onWarning: (message, details) => logger.warning(message, details)
+    });
+
+    // Moissonnage incrémental : seuls les documents nouveaux ou modifiés seront à traiter
+    const changes = crawl.stopped ? null : await detectChanges(supabase, {
+      dataSourceId,
+      runId,
+      documents: crawl.documents,
+      userAgent: DEFAULT_USER_AGENT,
+      delayBetweenRequests,
+      robots,
+      auth,
+      archive,
+      complete: crawl.complete,
+      shouldStop: options.shouldStop,
+      onWarning: (message, details) => logger.warning(message, details)
+    });
+
+    const warc = await closeArchive(archive);
+    const stats = {
+      pages_fetched: crawl.pagesFetched,
+      pages_failed: crawl.pagesFailed,
+      duration_ms: Date.now() - startedAt,
+      ...(warc ? { warc } : {})
+    };
+
+    if (!changes || changes.stopped) {
+      await logger.info(`Crawl interrompu pour ${dataSource.name}`, stats);
+      await finishRun(supabase, runId, 'cancelled', {
+        pages_fetched: crawl.pagesFetched,
+        documents_found: crawl.documents.length,
+        error_count: crawl.pagesFailed
+      });
+      return { runId, harvestResultId: null, documentsFound: crawl.documents.length, stopped: true, stats };
+    }
+
+    const payload: HarvestPayload = {
+      documents: annotateDocuments(crawl.documents, changes.statuses),
+      'obstacles-globaux': crawl.obstacles,
+      recommandations: crawl.documents.length === 0
+        ? 'Aucun document trouvé : vérifier le sélecteur de liens et les formats de documents configurés.'
+        : ''
+    };
+
+    const harvestResultId = await saveHarvestResult(supabase, dataSourceId, config?.id ?? null, runId, payload, {
+      engine: 'crawler',
+      ...stats,
+      max_pages: maxPages,
+      delay_between_requests: delayBetweenRequests,
+      render_js: crawl.rendered,
+      pagination: pagination ? { strategy: pagination.strategy, stop_reason: crawl.paginationStop } : null,
+      compliance: crawl.compliance,
+      changes: changes.counts
+    });
+
+    await finishRun(supabase, runId, 'success', {
+      pages_fetched: crawl.pagesFetched,
+      documents_found: crawl.documents.length,
+      ...changeStats(changes.counts),
+      error_count: crawl.pagesFailed
+    });
+
+    await logger.info(`Crawl terminé pour ${dataSource.name}`, {
+      harvest_result_id: harvestResultId,
+      documentsFound: crawl.documents.length,
+      pagesFetched: crawl.pagesFetched,
+      changes: changes.counts,
+      ...(crawl.paginationStop ? { pagination_stop: PAGINATION_STOP_LABELS[crawl.paginationStop] } : {})
+    });
+
+    return { runId, harvestResultId, documentsFound: crawl.documents.length, stopped: false, stats };
+  } catch (error) {
+    await closeArchive(archive);
+    await finishRun(supabase, runId, 'failed', { error_count: 1 }, error instanceof Error ? error.message : 'Erreur inconnue');
+    throw error;
+  }
+}
+
+// Lecture des sitemaps / flux RSS-Atom, sans LLM
+export async function runSitemapHarvest(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const { dataSource, config } = await loadSourceAndConfig(supabase, dataSourceId);
+  const runId = await startRun(supabase, {
+    dataSourceId,
+    engine: 'sitemap',
+    trigger: options.trigger ?? 'manual',
+    jobId: options.jobId,
+    config
+  });
+  const logger = createHarvestLogger(supabase, dataSourceId, runId);
+  const archive = createArchive(supabase, dataSource, runId, dataSourceId);
+
+  try {
+    const selectors = (config?.selectors ?? {}) as HarvestSelectors;
+    const documentFormats = selectors.documentFormats?.length ? selectors.documentFormats : DEFAULT_FORMATS;
+    // max_pages borne ici le nombre de fichiers sitemap / flux lus
+    const maxFeeds = config?.max_pages || 10;
+    const robots = new RobotsGuard(CRAWLER_PRODUCT_TOKEN, DEFAULT_USER_AGENT, supabase, archive?.fetch);
+    const delayBetweenRequests = await robots.effectiveDelay(dataSource.url, config?.delay_between_requests || 1000);
+
+    await logger.info(`Début de la lecture des sitemaps / flux pour ${dataSource.name}`, {
+      url: dataSource.url,
+      document_formats: documentFormats,
+      date_range: selectors.dateRange ?? null,
+      max_feeds: maxFeeds,
+      warc_capture: !!archive
+    });
+
+    const startedAt = Date.now();
+    const result = await collectFeedDocuments({
+      startUrl: dataSource.url,
+      documentFormats,
+      dateRange: selectors.dateRange,
+      maxFeeds,
+      delayBetweenRequests,
+      userAgent: DEFAULT_USER_AGENT,
+      robots,
+      archive,
+      shouldStop: options.shouldStop,
+      onWarning: (message, details) => logger.warning(message, details)
+    });
+
+    // Moissonnage incrémental : seuls les documents nouveaux ou modifiés seront à traiter
+    const changes = result.stopped ? null : await detectChanges(supabase, {
+      dataSourceId,
+      runId,
+      documents: result.documents,
+      userAgent: DEFAULT_USER_AGENT,
+      delayBetweenRequests,
+      robots,
+      archive,
+      complete: result.complete,
+      shouldStop: options.shouldStop,
+      onWarning: (message, details) => logger.warning(message, details)
+    });
+
+    const warc = await closeArchive(archive);
+    const stats = {
+      feeds_fetched: result.feedsFetched,
+      feeds_failed: result.feedsFailed,
+      entries_seen: result.entriesSeen,
+      undated_documents: result.undatedDocuments,
+      duration_ms: Date.now() - startedAt,
+      ...(warc ? { warc } : {})
+    };
+
+    if (!changes || changes.stopped) {
+      await logger.info(`Lecture des flux interrompue pour ${dataSource.name}`, stats);
+      await finishRun(supabase, runId, 'cancelled', {
+        pages_fetched: result.feedsFetched.length,
+        documents_found: result.documents.length,
+        error_count: result.feedsFailed
+      });
+      return { runId, harvestResultId: null, documentsFound: result.documents.length, stopped: true, stats };
+    }
+
+    const payload: HarvestPayload = {
+      documents: annotateDocuments(result.documents, changes.statuses),
+      'obstacles-globaux': result.obstacles,
+      recommandations: result.feedsFetched.length === 0
+        ? 'Aucun sitemap ni flux trouvé : renseigner directement l\'URL du sitemap ou du flux RSS/Atom comme URL de la source, ou utiliser le mode Crawler.'
+        : result.documents.length === 0
+          ? 'Flux lus mais aucun document retenu : vérifier les formats de documents et la période configurés.'
+          : ''
+    };
+
+    const harvestResultId = await saveHarvestResult(supabase, dataSourceId, config?.id ?? null, runId, payload, {
+      engine: 'sitemap',
+      ...stats,
+      delay_between_requests: delayBetweenRequests,
+      changes: changes.counts
+    });
+
+    // Pour ce moteur, les « pages » sont les fichiers sitemap / flux lus
+    await finishRun(supabase, runId, 'success', {
+      pages_fetched: result.feedsFetched.length,
+      documents_found: result.documents.length,
+      ...changeStats(changes.counts),
+      error_count: result.feedsFailed
+    });
+
+    await logger.info(`Lecture des flux terminée pour ${dataSource.name}`, {
+      harvest_result_id: harvestResultId,
+      documentsFound: result.documents.length,
+      feedsFetched: result.feedsFetched.length,
+      changes: changes.counts
+    });
+
+    return { runId, harvestResultId, documentsFound: result.documents.length, stopped: false, stats };
+  } catch (error) {
+    await closeArchive(archive);
+    await finishRun(supabase, runId, 'failed', { error_count: 1 }, error instanceof Error ? error.message : 'Erreur inconnue');
+    throw error;
+  }
+}
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+// Chaque écart au schéma est tracé dans harvest_logs avec le chemin du champ
+async function logSchemaViolations(
+  logger: HarvestLogger,
+  violations: SchemaViolation[],
+  attempt: number
+): Promise<void> {
+  for (const violation of violations) {
+    await logger.warning(`Réponse LLM non conforme au schéma: ${violation.path}`, {
+      type: 'schema_violation',
+      path: violation.path,
+      violation: violation.message,
+      attempt: attempt + 1
+    });
+  }
+}
+
+// Extraction OpenAI pilotée par les templates de prompt, comme le moissonnage navigateur
+// (OpenAIHarvestingService) ; appels via _shared/llmCore.ts : limite de débit, disjoncteur, consommation
+export async function runWebHarvest(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const { dataSource, config } = await loadSourceAndConfig(supabase, dataSourceId);
+
+  if (!dataSource.generated_prompt || dataSource.generated_prompt.trim() === '') {
+    throw new HarvestRunError('Aucun prompt généré pour ce site. Veuillez d\'abord configurer le site.', 400);
+  }
+  // Un serveur LLM local ou des fixtures ne sont joignables que depuis le navigateur (job 'web_browser')
+  if (config?.llm_provider === 'local' || config?.llm_provider === 'fixture') {
+    throw new HarvestRunError(`Fournisseur LLM ${config.llm_provider} : moissonnage à lancer depuis le navigateur`, 409);
+  }
+  const model = config?.llm_model || DEFAULT_CHAT_MODEL;
+  if (!allowedChatModels().includes(model)) {
+    throw new HarvestRunError(`Modèle non autorisé: ${model}`, 400);
+  }
+  if (await llmBudgetExceeded(supabase, dataSourceId)) {
+    throw new HarvestRunError('Budget LLM mensuel dépassé', 402);
+  }
+
+  const runId = await startRun(supabase, {
+    dataSourceId,
+    engine: 'web',
+    trigger: options.trigger ?? 'manual',
+    jobId: options.jobId,
+    config
+  });
+  const logger = createHarvestLogger(supabase, dataSourceId, runId);
+  let retries = 0;
+
+  try {
+    await logger.info(`Début du moissonnage OpenAI pour ${dataSource.name}`, {
+      url: dataSource.url,
+      type: dataSource.type,
+      model
+    });
+
+    const systemPrompt = await renderActivePrompt(supabase, 'harvest_system', dataSource, config);
+    const userPrompt = await renderActivePrompt(supabase, 'harvest_user', dataSource, config);
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt.content },
+      { role: 'user', content: userPrompt.content }
+    ];
+
+    const startedAt = Date.now();
+    const callOptions = {
+      model,
+      context: { data_source_id: dataSourceId, run_id: runId },
+      shouldStop: options.shouldStop,
+      signal: options.signal,
+      onRetry: (attempt: number, error: Error) => logger.warning(`Nouvelle tentative d'appel LLM (${attempt})`, {
+        type: 'llm_retry',
+        error: error.message
+      })
+    };
+
+    let response = await requestHarvest(supabase, messages, callOptions);
+    retries += response.retries;
+    let llmCost = response.cost;
+
+    // Réponse non conforme au schéma : renvoyée au modèle avec la liste des écarts
+    let { data, violations } = parseHarvestContent(response.content);
+    let repairAttempts = 0;
+
+    while (!response.stopped && violations.length > 0 && repairAttempts < MAX_REPAIR_ATTEMPTS) {
+      await logSchemaViolations(logger, violations, repairAttempts);
+      repairAttempts++;
+
+      response = await requestHarvest(supabase, [
+        ...messages,
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: buildRepairPrompt(violations) }
+      ], callOptions);
+      retries += response.retries;
+      llmCost += response.cost;
+      if (!response.stopped) ({ data, violations } = parseHarvestContent(response.content));
+    }
+
+    if (response.stopped) {
+      await logger.info(`Moissonnage OpenAI interrompu pour ${dataSource.name}`, { retry_count: retries });
+      await finishRun(supabase, runId, 'cancelled', { llm_cost: llmCost, retry_count: retries });
+      return { runId, harvestResultId: null, documentsFound: 0, stopped: true, stats: { retry_count: retries } };
+    }
+
+    let harvestData: HarvestPayload;
+    if (violations.length > 0) {
+      await logSchemaViolations(logger, violations, repairAttempts);
+
+      // Seuls les documents fautifs sont écartés ; une structure globale invalide fait échouer l'exécution
+      const invalidDocuments = new Set<number>();
+      const structuralViolations = violations.filter(violation => {
+        const match = violation.path.match(/^\$\.documents\[(\d+)\]/);
+        if (match) invalidDocuments.add(Number(match[1]));
+        return !match;
+      });
+
+      if (!data || structuralViolations.length > 0) {
+        throw new Error(`Réponse LLM non conforme au schéma après ${repairAttempts} correction(s): ${
+          structuralViolations.slice(0, 3).map(v => `${v.path} ${v.message}`).join('; ')
+        }`);
+      }
+
+      harvestData = { ...data, documents: data.documents.filter((_, index) => !invalidDocuments.has(index)) };
+      await logger.warning(`${invalidDocuments.size} document(s) écarté(s) : non conformes au schéma après correction`, {
+        type: 'schema_documents_dropped',
+        indexes: Array.from(invalidDocuments)
+      });
+    } else {
+      harvestData = data!;
+    }
+
+    // Variantes d'une même URL (http/https, suivi, casse de l'hôte) : un seul document
+    const deduplicated = mergeDuplicateDocuments(harvestData.documents);
+    if (deduplicated.merged > 0) {
+      harvestData.documents = deduplicated.documents;
+      await logger.info(`${deduplicated.merged} document(s) en double fusionné(s) (même URL canonique)`, {
+        type: 'duplicate_documents_merged',
+        merged: deduplicated.merged
+      });
+    }
+
+    // URL proposées par le modèle : seules celles des domaines de la source sont vérifiées (comme harvest-changes)
+    const domains = parseDomainList([dataSource.url, ...(Deno.env.get('PROXY_ALLOWED_DOMAINS') || '').split(',')]);
+    const isAllowed = (hostname: string) => isAllowedHost(hostname, domains);
+    const checkable = harvestData.documents.filter(doc => {
+      const host = hostOf(doc.url_doc);
+      return host !== null && isAllowed(host);
+    });
+    if (checkable.length < harvestData.documents.length) {
+      await logger.warning(`${harvestData.documents.length - checkable.length} document(s) hors des domaines de la source ignoré(s)`, {
+        type: 'change_detection_rejected',
+        domains
+      });
+    }
+
+    // Moissonnage incrémental ; une extraction LLM peut être partielle : aucune disparition n'en est déduite
+    const changes = await detectChanges(supabase, {
+      dataSourceId,
+      runId,
+      documents: checkable,
+      userAgent: DEFAULT_USER_AGENT,
+      delayBetweenRequests: config?.delay_between_requests || 1000,
+      robots: new RobotsGuard(CRAWLER_PRODUCT_TOKEN, DEFAULT_USER_AGENT, supabase),
+      destinationPolicy: { isAllowed },
+      complete: false,
+      shouldStop: options.shouldStop,
+      onWarning: (message, details) => logger.warning(message, details)
+    });
+
+    const stats = { duration_ms: Date.now() - startedAt, retry_count: retries };
+
+    if (changes.stopped) {
+      await logger.info(`Moissonnage OpenAI interrompu pour ${dataSource.name}`, stats);
+      await finishRun(supabase, runId, 'cancelled', {
+        documents_found: harvestData.documents.length,
+        llm_cost: llmCost,
+        retry_count: retries
+      });
+      return { runId, harvestResultId: null, documentsFound: harvestData.documents.length, stopped: true, stats };
+    }
+
+    harvestData.documents = annotateDocuments(harvestData.documents, changes.statuses);
+
+    const harvestResultId = await saveHarvestResult(supabase, dataSourceId, config?.id ?? null, runId, harvestData, {
+      engine: 'web',
+      ...stats,
+      raw_completion: response.content,
+      llm_provider: 'openai',
+      model: response.model,
+      usage: response.usage,
+      finish_reason: response.finishReason,
+      prompt_hash: await hashPrompt(systemPrompt.content, userPrompt.content),
+      prompt_versions: { harvest_system: systemPrompt.version, harvest_user: userPrompt.version },
+      schema: HARVEST_RESPONSE_SCHEMA_NAME,
+      repair_attempts: repairAttempts,
+      mock_llm: false,
+      changes: changes.counts
+    }, {
+      systemTemplateId: systemPrompt.templateId,
+      userTemplateId: userPrompt.templateId
+    });
+
+    // Le résultat n'existe qu'après les appels : consommation de l'exécution rattachée a posteriori
+    const { error: attachError } = await supabase
+      .from('llm_usage')
+      .update({ harvest_result_id: harvestResultId })
+      .eq('run_id', runId)
+      .is('harvest_result_id', null);
+    if (attachError) {
+      console.error('❌ Rattachement de la consommation LLM impossible:', attachError.message);
+    }
+
+    await finishRun(supabase, runId, 'success', {
+      documents_found: harvestData.documents.length,
+      ...changeStats(changes.counts),
+      llm_cost: llmCost,
+      retry_count: retries
+    });
+
+    await logger.info(`Moissonnage OpenAI terminé avec succès pour ${dataSource.name}`, {
+      harvest_result_id: harvestResultId,
+      documentsFound: harvestData.documents.length,
+      changes: changes.counts
+    });
+
+    return { runId, harvestResultId, documentsFound: harvestData.documents.length, stopped: false, stats };
+  } catch (error) {
+    // Appel interrompu par l'échéance du worker : exécution interrompue, pas en échec
+    if (options.signal?.aborted) {
+      await finishRun(supabase, runId, 'cancelled', { retry_count: retries });
+      return { runId, harvestResultId: null, documentsFound: 0, stopped: true, stats: { retry_count: retries } };
+    }
+    // Disjoncteur ouvert : le job sera mis en pause puis repris, l'exécution n'est pas un échec de la source
+    if (error instanceof LLMCallError && error.code === 'circuit_open') {
+      await finishRun(supabase, runId, 'cancelled', { retry_count: retries }, error.message);
+      throw error;
+    }
+    await finishRun(supabase, runId, 'failed', { error_count: 1, retry_count: retries }, error instanceof Error ? error.message : 'Erreur inconnue');
+    throw error;
+  }
+}
@@ -0,0 +1,74 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export type RunTrigger = 'manual' | 'scheduled' | 'import';
+export type RunStatus = 'running' | 'success' | 'failed' | 'cancelled';
+
+export interface RunStats {
+  pages_fetched?: number;
+  documents_found?: number;
+  documents_new?: number;
+  documents_changed?: number;
+  documents_unchanged?: number;
+  documents_removed?: number;
+  error_count?: number;
+  llm_cost?: number;
+  retry_count?: number;
+}
+
+// harvest_jobs.trigger (manual / schedule) vers harvest_runs.trigger
+export function triggerForJob(jobTrigger: string): RunTrigger {
+  return jobTrigger === 'schedule' ? 'scheduled' : 'manual';
+}
+
+// Ouvrir une exécution avec une copie de la configuration utilisée
+export async function startRun(
+  supabase: SupabaseClient,
+  params: {
+    dataSourceId: string;
+    engine: string;
+    trigger: RunTrigger;
+    jobId?: string | null;
+    config: Record<string, unknown> | null;
+  }
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('harvest_runs')
+    .insert({
+      data_source_id: params.dataSourceId,
+      job_id: params.jobId ?? null,
+      trigger: params.trigger,
+      engine: params.engine,
+      config_snapshot: params.config ?? {}
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Erreur création de l'exécution: ${error.message}`);
+  }
+
+  return data.id;
+}
+
+// Clôturer une exécution ; un échec d'écriture ne doit pas masquer le résultat du moissonnage
+export async function finishRun(
+  supabase: SupabaseClient,
+  runId: string,
+  status: Exclude<RunStatus, 'running'>,
+  stats: RunStats = {},
+  errorMessage?: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('harvest_runs')
+    .update({
+      status,
+      finished_at: new Date().toISOString(),
+      ...stats,
+      error_message: errorMessage ?? null
+    })
+    .eq('id', runId);
+
+  if (error) {
+    console.error('❌ Erreur clôture de l\'exécution:', runId, error.message);
+  }
+}
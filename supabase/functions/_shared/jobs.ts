@@ -0,0 +1,244 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export type HarvestJobStatus = 'queued' | 'running' | 'paused' | 'cancelled' | 'failed' | 'done';
+export type HarvestEngine = 'web' | 'web_browser' | 'crawler' | 'sitemap';
+
+// Moteurs exécutables par harvest-worker ; 'web_browser' (serveur LLM local ou fixtures,
+// injoignables depuis le serveur) reste traité par le navigateur
+export const SERVER_ENGINES: HarvestEngine[] = ['web', 'crawler', 'sitemap'];
+
+// Fournisseurs LLM propres au poste de l'utilisateur (harvesting_configs.llm_provider)
+const BROWSER_LLM_PROVIDERS = ['local', 'fixture'];
+
+const HEARTBEAT_INTERVAL_MS = 5000;
+
+// Moteur d'un job selon data_sources.type (même routage que HarvestingService côté front)
+export function engineForSourceType(sourceType: string): HarvestEngine {
+  switch (sourceType) {
+    case 'crawler':
+      return 'crawler';
+    case 'sitemap':
+    case 'rss':
+      return 'sitemap';
+    default:
+      return 'web';
+  }
+}
+
+// Transitions autorisées pour les actions utilisateur
+export const JOB_TRANSITIONS: Record<'cancel' | 'pause' | 'resume', { from: HarvestJobStatus[]; to: HarvestJobStatus }> = {
+  cancel: { from: ['queued', 'running', 'paused'], to: 'cancelled' },
+  pause: { from: ['queued', 'running'], to: 'paused' },
+  resume: { from: ['paused'], to: 'queued' }
+};
+
+// Budget LLM mensuel (llm_budgets) de la source ou global atteint ; une erreur de lecture ne bloque pas
+export async function llmBudgetExceeded(supabase: SupabaseClient, dataSourceId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('llm_budget_status', { p_data_source_id: dataSourceId });
+  if (error) {
+    console.error('❌ Lecture du budget LLM impossible:', error.message);
+    return false;
+  }
+  return !!data?.exceeded;
+}
+
+// Sources dont la dernière configuration utilise un fournisseur LLM du navigateur
+async function browserLlmSources(supabase: SupabaseClient, dataSourceIds: string[]): Promise<Set<string>> {
+  if (dataSourceIds.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('harvesting_configs')
+    .select('data_source_id, llm_provider')
+    .in('data_source_id', dataSourceIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Erreur lecture des configurations: ${error.message}`);
+  }
+
+  // Résultats triés du plus récent au plus ancien : la première ligne d'une source est sa configuration
+  const latest = new Map<string, string | null>();
+  for (const config of data ?? []) {
+    if (!latest.has(config.data_source_id)) latest.set(config.data_source_id, config.llm_provider);
+  }
+  return new Set(Array.from(latest).filter(([, provider]) => BROWSER_LLM_PROVIDERS.includes(provider ?? '')).map(([id]) => id));
+}
+
+// Disjoncteur LLM ouvert ou en essai (llm_circuit_breaker) : les jobs 'web' sont créés en pause
+async function llmCircuitOpen(supabase: SupabaseClient): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('llm_circuit_breaker')
+    .select('state')
+    .eq('id', 1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Lecture du disjoncteur LLM impossible:', error.message);
+    return false;
+  }
+  return !!data && data.state !== 'closed';
+}
+
+// Mettre des sources en file ; une source ayant déjà un job actif n'est pas dupliquée
+export async function enqueueJobs(
+  supabase: SupabaseClient,
+  dataSourceIds: string[],
+  trigger: 'manual' | 'schedule'
+): Promise<{ queued: string[]; skipped: { data_source_id: string; reason: string }[] }> {
+  const queued: string[] = [];
+  const skipped: { data_source_id: string; reason: string }[] = [];
+
+  const { data: sources, error } = await supabase
+    .from('data_sources')
+    .select('id, type, status')
+    .in('id', dataSourceIds);
+
+  if (error) {
+    throw new Error(`Erreur lecture des sources: ${error.message}`);
+  }
+
+  const browserSources = await browserLlmSources(
+    supabase,
+    (sources ?? []).filter(source => engineForSourceType(source.type) === 'web').map(source => source.id)
+  );
+  let circuitOpen: boolean | null = null;
+
+  for (const id of dataSourceIds) {
+    const source = sources?.find(candidate => candidate.id === id);
+    if (!source) {
+      skipped.push({ data_source_id: id, reason: 'Source introuvable' });
+      continue;
+    }
+    if (source.status !== 'active') {
+      skipped.push({ data_source_id: id, reason: `Source ${source.status}` });
+      continue;
+    }
+
+    const sourceEngine = engineForSourceType(source.type);
+    const engine: HarvestEngine = sourceEngine === 'web' && browserSources.has(id) ? 'web_browser' : sourceEngine;
+    if (sourceEngine === 'web' && await llmBudgetExceeded(supabase, id)) {
+      skipped.push({ data_source_id: id, reason: 'Budget LLM mensuel dépassé' });
+      continue;
+    }
+
+    // Seuls les jobs 'web' passent par OpenAI : repris un par un comme appel d'essai
+    // (llm_circuit_release_probe), puis tous à la fermeture du disjoncteur
+    if (engine === 'web' && circuitOpen === null) {
+      circuitOpen = await llmCircuitOpen(supabase);
+    }
+    const paused = engine === 'web' && circuitOpen === true;
+
+    const { data: job, error: insertError } = await supabase
+      .from('harvest_jobs')
+      .insert({
+        data_source_id: id,
+        engine,
+        trigger,
+        ...(paused ? { status: 'paused', pause_reason: 'circuit_breaker' } : {})
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      // 23505 : index unique_active_harvest_job, un job est déjà en file ou en cours
+      skipped.push({
+        data_source_id: id,
+        reason: insertError.code === '23505' ? 'Moissonnage déjà en file ou en cours' : insertError.message
+      });
+      continue;
+    }
+
+    queued.push(job.id);
+  }
+
+  // Refroidissement déjà écoulé : un job en pause devient tout de suite l'appel d'essai, sans attendre pg_cron
+  if (circuitOpen) {
+    const { error: probeError } = await supabase.rpc('llm_circuit_release_probe');
+    if (probeError) {
+      console.error('❌ Remise en file de l\'appel d\'essai impossible:', probeError.message);
+    }
+  }
+
+  return { queued, skipped };
+}
+
+// Point de contrôle d'un job en cours : heartbeat + lecture du statut (annulation / pause)
+export function createJobControl(supabase: SupabaseClient, jobId: string) {
+  let lastCheck = 0;
+  let stop = false;
+
+  return async (): Promise<boolean> => {
+    if (stop || Date.now() - lastCheck < HEARTBEAT_INTERVAL_MS) return stop;
+    lastCheck = Date.now();
+
+    const { data } = await supabase
+      .from('harvest_jobs')
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('status', 'running')
+      .select('id');
+
+    // Plus en running : le job a été annulé ou mis en pause entre-temps
+    stop = !data || data.length === 0;
+    return stop;
+  };
+}
+
+// Clôturer un job, uniquement s'il est toujours en running (une annulation reste prioritaire)
+export async function finishJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  status: 'done' | 'failed',
+  fields: { harvest_result_id?: string | null; error_message?: string } = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from('harvest_jobs')
+    .update({ status, finished_at: new Date().toISOString(), ...fields })
+    .eq('id', jobId)
+    .eq('status', 'running');
+
+  if (error) {
+    console.error('❌ Erreur clôture du job:', jobId, error.message);
+  }
+}
+
+// Remettre en file un job interrompu par l'échéance du worker ; il repart de zéro au prochain passage.
+// false si le job n'était plus en running (annulé ou mis en pause entre-temps)
+export async function requeueJob(supabase: SupabaseClient, jobId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('harvest_jobs')
+    .update({ status: 'queued', worker_id: null, started_at: null, heartbeat_at: null })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) {
+    console.error('❌ Erreur remise en file du job:', jobId, error.message);
+    return false;
+  }
+  return (data ?? []).length > 0;
+}
+
+// Disjoncteur LLM ouvert pendant l'exécution : job mis en pause comme à la mise en file, repris par
+// llm_circuit_release_probe / la fermeture du disjoncteur ; la réservation n'est pas comptée comme tentative
+export async function pauseJobForCircuit(supabase: SupabaseClient, jobId: string, attempts: number): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('harvest_jobs')
+    .update({
+      status: 'paused',
+      pause_reason: 'circuit_breaker',
+      worker_id: null,
+      started_at: null,
+      heartbeat_at: null,
+      attempts: Math.max(0, attempts - 1)
+    })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) {
+    console.error('❌ Erreur mise en pause du job:', jobId, error.message);
+    return false;
+  }
+  return (data ?? []).length > 0;
+}
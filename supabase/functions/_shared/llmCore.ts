@@ -0,0 +1,330 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { estimateLlmCost } from "./llmPricing.ts";
+
+// Appel OpenAI commun à llm-gateway (navigateur) et aux moissonnages serveur (harvest-worker) :
+// limite de débit partagée, disjoncteur, consommation enregistrée dans llm_usage
+
+const OPENAI_API_URL = 'https://api.openai.com/v1';
+const OPENAI_TIMEOUT_MS = 120000;
+export const DEFAULT_CHAT_MODEL = Deno.env.get('OPENAI_MODEL_NAME') || 'gpt-4';
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-ada-002';
+const MAX_EMBEDDING_INPUT = 8000;
+const BREAKER_THRESHOLD = Number(Deno.env.get('LLM_BREAKER_THRESHOLD') || 5);
+export const BREAKER_COOLDOWN_SECONDS = Number(Deno.env.get('LLM_BREAKER_COOLDOWN_SECONDS') || 120);
+const REQUESTS_PER_MINUTE = Number(Deno.env.get('LLM_REQUESTS_PER_MINUTE') || 60);
+const TOKENS_PER_MINUTE = Number(Deno.env.get('LLM_TOKENS_PER_MINUTE') || 90000);
+
+export type ChatOperation = 'harvest' | 'analyze' | 'classify';
+export type LLMOperation = ChatOperation | 'embed';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  operation: LLMOperation;
+  messages?: LLMMessage[];
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  json?: boolean;
+  json_schema?: { name: string; schema: Record<string, unknown> } | null;
+  input?: string;
+}
+
+// Rattachements de l'appel dans llm_usage, tous facultatifs
+export interface UsageContext {
+  data_source_id?: string | null;
+  run_id?: string | null;
+  harvest_result_id?: string | null;
+}
+
+export interface LLMUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export interface LLMResult {
+  content: string;
+  embedding: number[] | null;
+  model: string;
+  usage: LLMUsage | null;
+  cost: number;
+  finishReason: string | null;
+}
+
+export interface LLMCallOptions {
+  // NULL pour un moissonnage serveur (aucune session utilisateur)
+  userId: string | null;
+  context?: UsageContext;
+  // Réservation propre à l'appelant (quota de l'utilisateur), une fois le disjoncteur passé
+  reserve?: () => Promise<void>;
+  // Tokens réellement consommés, pour les compteurs de l'appelant
+  onTokens?: (tokens: number) => Promise<void>;
+  signal?: AbortSignal;
+}
+
+// Refus ou échec d'un appel : statut HTTP, code (circuit_open, rate_limited...) et délai Retry-After éventuel
+export class LLMCallError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: string | null = null,
+    public readonly retryAfter: string | null = null,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'LLMCallError';
+  }
+}
+
+// Plafond de tokens et mode JSON par défaut de chaque opération de chat
+export const CHAT_OPERATIONS: Record<ChatOperation, { maxTokens: number; json: boolean }> = {
+  harvest: { maxTokens: 4000, json: false },
+  analyze: { maxTokens: 1000, json: true },
+  classify: { maxTokens: 300, json: true }
+};
+
+// Opération de chat connue : propriété propre de CHAT_OPERATIONS (pas « constructor », « toString »...)
+export function isChatOperation(operation: unknown): operation is ChatOperation {
+  return typeof operation === 'string' && Object.hasOwn(CHAT_OPERATIONS, operation);
+}
+
+// llm_usage.purpose de chaque opération
+const USAGE_PURPOSES: Record<LLMOperation, string> = {
+  harvest: 'harvest',
+  analyze: 'analysis',
+  classify: 'classification',
+  embed: 'embedding'
+};
+
+// Modèles OpenAI antérieurs à response_format json_object
+const LEGACY_JSON_MODELS = /^(gpt-4(-0314|-0613)?|gpt-3\.5-turbo-(0301|0613))$/;
+
+// Modèles acceptant response_format json_schema (structured outputs)
+const STRUCTURED_OUTPUT_MODELS = /^(gpt-4o|gpt-4\.1|gpt-5|o[134])/;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function allowedChatModels(): string[] {
+  const extra = (Deno.env.get('LLM_ALLOWED_MODELS') || '')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean);
+  return [DEFAULT_CHAT_MODEL, ...extra];
+}
+
+// Corps chat.completions : max_tokens plafonné ; schéma JSON si le modèle le permet,
+// sinon mode JSON simple selon l'opération (la validation reste faite par l'appelant)
+function buildChatBody(request: LLMRequest, model: string): Record<string, unknown> {
+  const limits = CHAT_OPERATIONS[request.operation as ChatOperation];
+  const jsonMode = (request.json ?? limits.json) || !!request.json_schema;
+
+  let responseFormat: Record<string, unknown> | null = null;
+  if (request.json_schema && STRUCTURED_OUTPUT_MODELS.test(model)) {
+    responseFormat = { type: 'json_schema', json_schema: { ...request.json_schema, strict: true } };
+  } else if (jsonMode && !LEGACY_JSON_MODELS.test(model)) {
+    responseFormat = { type: 'json_object' };
+  }
+
+  return {
+    model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: Math.min(request.max_tokens ?? limits.maxTokens, limits.maxTokens),
+    ...(responseFormat ? { response_format: responseFormat } : {})
+  };
+}
+
+// Estimation avant appel : ~4 caractères par token pour le prompt, plus la réponse maximale
+function estimateTokens(request: LLMRequest): number {
+  if (request.operation === 'embed') {
+    return Math.ceil(Math.min(request.input?.length ?? 0, MAX_EMBEDDING_INPUT) / 4);
+  }
+  const promptLength = (request.messages ?? []).reduce((total, m) => total + (m.content?.length ?? 0), 0);
+  const limits = CHAT_OPERATIONS[request.operation];
+  return Math.ceil(promptLength / 4) + Math.min(request.max_tokens ?? limits.maxTokens, limits.maxTokens);
+}
+
+// Statut HTTP d'un appel OpenAI enregistré dans le disjoncteur ; une erreur d'enregistrement ne bloque pas la réponse
+async function recordCircuit(supabase: SupabaseClient, status: number, errorMessage: string | null = null): Promise<void> {
+  const { data, error } = await supabase.rpc('llm_circuit_record', {
+    p_status: status,
+    p_error: errorMessage,
+    p_threshold: BREAKER_THRESHOLD,
+    p_cooldown_seconds: BREAKER_COOLDOWN_SECONDS
+  });
+
+  if (error) {
+    console.error('❌ Enregistrement du disjoncteur impossible:', error.message);
+  } else if (data?.state === 'open') {
+    console.warn(`🔌 Disjoncteur LLM ouvert jusqu'à ${data.retry_at} (${data.consecutive_failures} échecs consécutifs)`);
+  }
+}
+
+// Identifiant de rattachement accepté seulement s'il a la forme d'un uuid (sinon NULL)
+function contextId(value: unknown): string | null {
+  return typeof value === 'string' && UUID_PATTERN.test(value) ? value : null;
+}
+
+// Ligne llm_usage de l'appel ; un rattachement inexistant est abandonné plutôt que de perdre la consommation
+async function recordUsage(supabase: SupabaseClient, params: {
+  userId: string | null;
+  operation: LLMOperation;
+  model: string;
+  usage: LLMUsage | null;
+  cost: number;
+  context: UsageContext | undefined;
+}): Promise<void> {
+  const promptTokens = params.usage?.prompt_tokens ?? 0;
+  const completionTokens = params.usage?.completion_tokens ?? 0;
+  const row = {
+    user_id: params.userId,
+    purpose: USAGE_PURPOSES[params.operation],
+    provider: 'openai',
+    model: params.model,
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: params.usage?.total_tokens ?? promptTokens + completionTokens,
+    cost: params.cost
+  };
+  const attachments = {
+    data_source_id: contextId(params.context?.data_source_id),
+    run_id: contextId(params.context?.run_id),
+    harvest_result_id: contextId(params.context?.harvest_result_id)
+  };
+
+  let { error } = await supabase.from('llm_usage').insert({ ...row, ...attachments });
+  if (error?.code === '23503') {
+    console.warn('⚠️ Rattachement de consommation LLM inconnu, enregistrement sans rattachement:', attachments);
+    ({ error } = await supabase.from('llm_usage').insert(row));
+  }
+  if (error) {
+    console.error('❌ Enregistrement de la consommation LLM impossible:', error.message);
+  }
+}
+
+async function callOpenAI(path: string, apiKey: string, body: Record<string, unknown>, signal?: AbortSignal) {
+  const timeout = AbortSignal.timeout(OPENAI_TIMEOUT_MS);
+  const response = await fetch(`${OPENAI_API_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body),
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+  });
+
+  const payload = await response.json().catch(() => ({}));
+  return { response, payload };
+}
+
+// Appel OpenAI complet : débit, disjoncteur, réservation de l'appelant, puis statut, tokens et coût enregistrés
+export async function callLLM(supabase: SupabaseClient, request: LLMRequest, options: LLMCallOptions): Promise<LLMResult> {
+  if (request.operation !== 'embed' && !isChatOperation(request.operation)) {
+    throw new LLMCallError(`Opération inconnue: ${request.operation}`, 400);
+  }
+
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) {
+    throw new LLMCallError('OPENAI_API_KEY non configurée sur le serveur', 503);
+  }
+
+  // Débit partagé : refuser avant le disjoncteur pour ne pas consommer l'appel d'essai
+  const estimatedTokens = estimateTokens(request);
+  const { data: rate, error: rateError } = await supabase.rpc('llm_rate_acquire', {
+    p_tokens: estimatedTokens,
+    p_requests_per_minute: REQUESTS_PER_MINUTE,
+    p_tokens_per_minute: TOKENS_PER_MINUTE
+  });
+  if (rateError) {
+    console.error('❌ Lecture de la limite de débit impossible:', rateError.message);
+  } else if (!rate?.allowed) {
+    throw new LLMCallError(
+      'Limite de débit LLM atteinte, nouvel essai à la minute suivante',
+      429,
+      'rate_limited',
+      String(Math.max(1, Math.ceil((rate?.retry_after_ms ?? 1000) / 1000)))
+    );
+  }
+
+  // Disjoncteur ouvert : refuser sans consommer de quota
+  const { data: circuit, error: circuitError } = await supabase.rpc('llm_circuit_acquire');
+  if (circuitError) {
+    console.error('❌ Lecture du disjoncteur impossible:', circuitError.message);
+  } else if (!circuit?.allowed) {
+    const retryAfter = circuit?.retry_at
+      ? Math.max(1, Math.ceil((new Date(circuit.retry_at).getTime() - Date.now()) / 1000))
+      : BREAKER_COOLDOWN_SECONDS;
+    throw new LLMCallError(
+      'Disjoncteur LLM ouvert : trop d\'erreurs consécutives du fournisseur',
+      503,
+      'circuit_open',
+      String(retryAfter)
+    );
+  }
+
+  await options.reserve?.();
+
+  const chatModel = request.model || DEFAULT_CHAT_MODEL;
+  let openAIResult: Awaited<ReturnType<typeof callOpenAI>>;
+  try {
+    openAIResult = request.operation === 'embed'
+      ? await callOpenAI('/embeddings', apiKey, {
+        model: DEFAULT_EMBEDDING_MODEL,
+        input: (request.input ?? '').substring(0, MAX_EMBEDDING_INPUT)
+      }, options.signal)
+      : await callOpenAI('/chat/completions', apiKey, buildChatBody(request, chatModel), options.signal);
+  } catch (networkError) {
+    // Interruption demandée par l'appelant : ni échec du fournisseur, ni disjoncteur
+    if (options.signal?.aborted) throw networkError;
+
+    // Délai dépassé ou OpenAI injoignable : compté comme un 504
+    const message = networkError instanceof Error ? networkError.message : 'OpenAI injoignable';
+    await recordCircuit(supabase, 504, message);
+    throw new LLMCallError(`OpenAI injoignable: ${message}`, 504);
+  }
+
+  const { response, payload } = openAIResult;
+  await recordCircuit(supabase, response.status, response.ok ? null : payload?.error?.message ?? null);
+
+  if (!response.ok) {
+    console.error('❌ Erreur OpenAI:', response.status, payload?.error?.message);
+    throw new LLMCallError(
+      payload?.error?.message || `Erreur OpenAI ${response.status}`,
+      response.status,
+      payload?.error?.code ?? null,
+      response.headers.get('retry-after')
+    );
+  }
+
+  const totalTokens = payload.usage?.total_tokens ?? 0;
+  if (rate?.window_start) {
+    const { error: settleError } = await supabase.rpc('llm_rate_settle', {
+      p_window_start: rate.window_start,
+      p_estimated_tokens: estimatedTokens,
+      p_actual_tokens: totalTokens
+    });
+    if (settleError) {
+      console.error('❌ Correction de la limite de débit impossible:', settleError.message);
+    }
+  }
+  await options.onTokens?.(totalTokens);
+
+  const model = payload.model || (request.operation === 'embed' ? DEFAULT_EMBEDDING_MODEL : chatModel);
+  const usage: LLMUsage | null = payload.usage ?? null;
+  const cost = estimateLlmCost(model, usage);
+  await recordUsage(supabase, { userId: options.userId, operation: request.operation, model, usage, cost, context: options.context });
+
+  return {
+    content: payload.choices?.[0]?.message?.content || '',
+    embedding: payload.data?.[0]?.embedding ?? null,
+    model,
+    usage,
+    cost,
+    finishReason: payload.choices?.[0]?.finish_reason ?? null
+  };
+}
@@ -0,0 +1,97 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { callLLM, LLMCallError, type LLMMessage, type LLMResult, type UsageContext } from "./llmCore.ts";
+import { HARVEST_RESPONSE_SCHEMA, HARVEST_RESPONSE_SCHEMA_NAME } from "./harvestResponseSchema.ts";
+
+// Moteur 'web' côté serveur : mêmes appels que OpenAIHarvestingService (navigateur) ; lecture et
+// correction de la réponse partagées avec lui (harvestContent.ts)
+
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+// Erreurs qu'une nouvelle tentative ne corrigera pas : requête invalide, clé refusée
+const NON_RETRYABLE_STATUSES = [400, 401, 403];
+
+export interface HarvestCallOptions {
+  model: string;
+  context: UsageContext;
+  // Point de contrôle entre deux tentatives : true pour interrompre
+  shouldStop?: () => Promise<boolean>;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: LLMCallError | Error) => Promise<void> | void;
+}
+
+export interface HarvestCall extends LLMResult {
+  retries: number;
+  stopped: boolean;
+}
+
+// Attente interrompue (rejetée) dès que le signal est déclenché : l'échéance du worker n'attend pas la fin du délai
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Délai avant la tentative suivante : exponentiel avec jitter complet, jamais inférieur au Retry-After
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  const retryAfterMs = retryAfter && Number.isFinite(Number(retryAfter)) ? Number(retryAfter) * 1000 : 0;
+  return Math.max(Math.round(Math.random() * ceiling), retryAfterMs);
+}
+
+// Empreinte du couple prompt système / prompt utilisateur, conservée dans les métadonnées
+export async function hashPrompt(systemPrompt: string, userPrompt: string): Promise<string> {
+  const data = new TextEncoder().encode(`${systemPrompt}\n---\n${userPrompt}`);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Appel de moissonnage avec nouvelles tentatives ; disjoncteur ouvert et requêtes invalides ne sont pas retentés
+export async function requestHarvest(
+  supabase: SupabaseClient,
+  messages: LLMMessage[],
+  options: HarvestCallOptions
+): Promise<HarvestCall> {
+  let retries = 0;
+
+  for (let attempt = 0; ; attempt++) {
+    if (await options.shouldStop?.()) {
+      return { content: '', embedding: null, model: options.model, usage: null, cost: 0, finishReason: null, retries, stopped: true };
+    }
+
+    try {
+      const result = await callLLM(supabase, {
+        operation: 'harvest',
+        model: options.model,
+        messages,
+        temperature: 0.7,
+        max_tokens: 4000,
+        json_schema: { name: HARVEST_RESPONSE_SCHEMA_NAME, schema: HARVEST_RESPONSE_SCHEMA }
+      }, { userId: null, context: options.context, signal: options.signal });
+
+      return { ...result, retries, stopped: false };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+
+      const callError = error instanceof LLMCallError ? error : null;
+      const retryable = !callError || (callError.code !== 'circuit_open' && !NON_RETRYABLE_STATUSES.includes(callError.status));
+      if (!retryable || attempt >= MAX_ATTEMPTS - 1) throw error;
+
+      await options.onRetry?.(attempt + 1, error instanceof Error ? error : new Error(String(error)));
+      await sleep(backoffDelay(attempt, callError?.retryAfter ?? null), options.signal);
+      retries++;
+    }
+  }
+}
@@ -0,0 +1,28 @@
+// Tarifs indicatifs en USD pour 1 000 tokens (entrée / sortie)
+const LLM_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+  'gpt-4o': { input: 0.0025, output: 0.01 },
+  'gpt-4-turbo': { input: 0.01, output: 0.03 },
+  'gpt-4': { input: 0.03, output: 0.06 },
+  'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
+  'text-embedding-3-small': { input: 0.00002, output: 0 },
+  'text-embedding-3-large': { input: 0.00013, output: 0 },
+  'text-embedding-ada-002': { input: 0.0001, output: 0 }
+};
+
+// Coût d'un appel à partir du usage renvoyé par OpenAI ; 0 pour un modèle inconnu
+export function estimateLlmCost(
+  model: string | null | undefined,
+  usage: { prompt_tokens?: number; completion_tokens?: number } | null | undefined
+): number {
+  if (!model || !usage) return 0;
+
+  const pricingKey = Object.keys(LLM_PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find(key => model.startsWith(key));
+  if (!pricingKey) return 0;
+
+  const pricing = LLM_PRICING[pricingKey];
+  const cost = ((usage.prompt_tokens || 0) * pricing.input + (usage.completion_tokens || 0) * pricing.output) / 1000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,89 @@
+import type { HarvestedDocument, PaginationRules } from "./types.ts";
+
+export type PaginationStopReason =
+  | 'max_pages'
+  | 'no_new_links'
+  | 'older_than_start'
+  | 'end_of_listing'
+  | 'stopped';
+
+export const PAGINATION_STOP_LABELS: Record<PaginationStopReason, string> = {
+  max_pages: 'limite de pages atteinte',
+  no_new_links: 'page sans nouveau document',
+  older_than_start: 'documents antérieurs au début de la période',
+  end_of_listing: 'fin de la liste',
+  stopped: 'moissonnage interrompu'
+};
+
+// Règles inutilisables : message destiné à l'utilisateur, null si valides
+export function validatePagination(rules: PaginationRules): string | null {
+  switch (rules.strategy) {
+    case 'next_link':
+      return rules.nextSelector?.trim() ? null : 'Pagination : sélecteur « page suivante » manquant';
+    case 'url_template':
+      return rules.urlTemplate?.includes('{page}') ? null : "Pagination : le modèle d'URL doit contenir {page}";
+    case 'date_archive':
+      return rules.archiveTemplate?.includes('{year}') ? null : "Pagination : le modèle d'archive doit contenir {year}";
+    default:
+      return 'Pagination : stratégie inconnue';
+  }
+}
+
+function parseDate(value?: string): Date | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+// URL des pages numérotées : {page} = startPage, startPage + pageStep, ...
+export function* templatePages(rules: PaginationRules): Generator<string> {
+  const step = rules.pageStep && rules.pageStep > 0 ? rules.pageStep : 1;
+  for (let page = rules.startPage ?? 1; ; page += step) {
+    yield rules.urlTemplate!.replaceAll('{page}', String(page));
+  }
+}
+
+// URL des archives datées, de dateRange.end (ou aujourd'hui) jusqu'à dateRange.start inclus ;
+// par mois si le modèle contient {month}, sinon par année
+export function* archivePages(
+  rules: PaginationRules,
+  dateRange: { start?: string; end?: string } = {},
+  now: Date = new Date()
+): Generator<string> {
+  const template = rules.archiveTemplate!;
+  const monthly = template.includes('{month}');
+  const start = parseDate(dateRange.start);
+  const cursor = parseDate(dateRange.end) ?? now;
+  let year = cursor.getFullYear();
+  let month = cursor.getMonth() + 1;
+
+  while (!start || year > start.getFullYear() || (year === start.getFullYear() && (!monthly || month >= start.getMonth() + 1))) {
+    yield template
+      .replaceAll('{year}', String(year))
+      .replaceAll('{month}', String(month).padStart(2, '0'));
+
+    if (monthly && month > 1) {
+      month--;
+    } else {
+      year--;
+      month = 12;
+    }
+  }
+}
+
+// Date d'un document : date_edition si lisible, sinon fin de son année
+function documentDate(document: HarvestedDocument): Date | null {
+  const edition = parseDate(document.date_edition);
+  if (edition) return edition;
+  return document.annee ? new Date(document.annee, 11, 31) : null;
+}
+
+// Tous les nouveaux documents datés de la page sont antérieurs au début de la période
+// (listes triées du plus récent au plus ancien : les pages suivantes le seront aussi)
+export function olderThanStart(documents: HarvestedDocument[], start?: string): boolean {
+  const startDate = parseDate(start);
+  if (!startDate) return false;
+
+  const dates = documents.map(documentDate).filter((date): date is Date => date !== null);
+  return dates.length > 0 && dates.every(date => date < startDate);
+}
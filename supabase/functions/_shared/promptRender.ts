@@ -0,0 +1,69 @@
+// Rendu des templates de prompts : seule implémentation, sans dépendance, importée par le moteur 'web'
+// de harvest-worker (promptTemplates.ts) et par le navigateur (src/lib/promptRender.ts) : les deux
+// envoient exactement les mêmes prompts.
+
+export interface PromptSource {
+  name: string;
+  url: string;
+  type: string;
+  description?: string | null;
+  generated_prompt?: string | null;
+  special_instructions?: string | null;
+}
+
+export interface PromptConfig {
+  frequency?: string | null;
+  max_pages?: number | null;
+  delay_between_requests?: number | null;
+  selectors?: unknown;
+  filters?: unknown;
+}
+
+// Champs JSON de harvesting_configs saisis par le formulaire du site
+interface ConfigSelectors {
+  documentFormats?: string[];
+  languages?: string[];
+  dateRange?: { start?: string; end?: string };
+}
+
+interface ConfigFilters {
+  keywords?: string;
+  excludeKeywords?: string;
+  minSize?: string | number;
+  maxSize?: string | number;
+}
+
+// Variables d'une source et de sa configuration de moissonnage
+export function buildVariables(dataSource: PromptSource, config?: PromptConfig | null): Record<string, string> {
+  const selectors = (config?.selectors ?? {}) as ConfigSelectors;
+  const filters = (config?.filters ?? {}) as ConfigFilters;
+
+  return {
+    'data_source.name': dataSource.name,
+    'data_source.url': dataSource.url,
+    'data_source.type': dataSource.type,
+    'data_source.description': dataSource.description || '',
+    'data_source.generated_prompt': dataSource.generated_prompt || '',
+    'data_source.special_instructions': dataSource.special_instructions || '',
+    'config.frequency': config?.frequency || '',
+    'config.max_pages': config?.max_pages ? String(config.max_pages) : '',
+    'config.delay_between_requests': config?.delay_between_requests ? String(config.delay_between_requests) : '',
+    'config.document_formats': (selectors.documentFormats || []).join(', '),
+    'config.languages': (selectors.languages || []).join(', '),
+    'config.date_start': selectors.dateRange?.start || '',
+    'config.date_end': selectors.dateRange?.end || '',
+    'config.keywords': filters.keywords || '',
+    'config.exclude_keywords': filters.excludeKeywords || '',
+    'config.min_size': filters.minSize ? String(filters.minSize) : '',
+    'config.max_size': filters.maxSize ? String(filters.maxSize) : ''
+  };
+}
+
+// {{variable}} remplacée par sa valeur ; {{#variable}}...{{/variable}} conservé seulement si la variable est renseignée
+export function render(content: string, variables: Record<string, string>): string {
+  const value = (name: string) => (variables[name] ?? '').trim();
+
+  return content
+    .replace(/\{\{#([\w.]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, section: string) => (value(name) ? section : ''))
+    .replace(/\{\{([\w.]+)\}\}/g, (_, name: string) => variables[name] ?? '');
+}
@@ -0,0 +1,38 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { buildVariables, render, type PromptConfig, type PromptSource } from "./promptRender.ts";
+
+export type PromptTemplateName = 'harvest_system' | 'harvest_user';
+
+export interface RenderedPrompt {
+  content: string;
+  templateId: string;
+  version: number;
+}
+
+// Rendre la version active d'un template pour une source
+export async function renderActivePrompt(
+  supabase: SupabaseClient,
+  name: PromptTemplateName,
+  dataSource: PromptSource,
+  config?: PromptConfig | null
+): Promise<RenderedPrompt> {
+  const { data: template, error } = await supabase
+    .from('prompt_templates')
+    .select('id, version, content')
+    .eq('name', name)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Erreur lors de la récupération du template ${name}: ${error.message}`);
+  }
+  if (!template) {
+    throw new Error(`Aucune version active du template ${name}`);
+  }
+
+  return {
+    content: render(template.content, buildVariables(dataSource, config)),
+    templateId: template.id,
+    version: template.version
+  };
+}
@@ -0,0 +1,59 @@
+import type { HarvestSelectors } from "./types.ts";
+
+// Page telle que rendue par Chromium, après exécution du JavaScript
+export interface RenderedPage {
+  url: string;
+  html: string;
+}
+
+export interface RenderResult {
+  status: number;
+  pages: RenderedPage[];
+  interactions: { load_more: number; pagination: number };
+  warnings: string[];
+}
+
+// headers : identifiants de la source, ajoutés par le worker aux seules requêtes vers l'hôte de url
+export type PageRenderer = (url: string, maxPages: number, headers?: Record<string, string>) => Promise<RenderResult>;
+
+const RENDER_TIMEOUT_MS = 90000;
+
+// Client du worker de rendu (scripts/render-worker.ts) ; null si RENDER_WORKER_URL n'est pas configurée
+export function createRenderer(selectors: HarvestSelectors, userAgent: string): PageRenderer | null {
+  const workerUrl = Deno.env.get('RENDER_WORKER_URL');
+  if (!workerUrl) return null;
+
+  const token = Deno.env.get('RENDER_WORKER_TOKEN');
+
+  return async (url: string, maxPages: number, headers: Record<string, string> = {}): Promise<RenderResult> => {
+    const response = await fetch(`${workerUrl.replace(/\/+$/, '')}/render`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+      },
+      body: JSON.stringify({
+        url,
+        user_agent: userAgent,
+        wait_for_selector: selectors.waitForSelector || null,
+        load_more_selector: selectors.loadMoreSelector || null,
+        pagination_selector: selectors.paginationSelector || null,
+        max_pages: maxPages,
+        headers
+      }),
+      signal: AbortSignal.timeout(RENDER_TIMEOUT_MS)
+    });
+
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok || !payload.success) {
+      throw new Error(payload.error || `Worker de rendu: ${response.status} ${response.statusText}`);
+    }
+
+    return {
+      status: payload.status ?? 200,
+      pages: payload.pages ?? [],
+      interactions: payload.interactions ?? { load_more: 0, pagination: 0 },
+      warnings: payload.warnings ?? []
+    };
+  };
+}
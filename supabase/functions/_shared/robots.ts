@@ -0,0 +1,285 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+export interface ParsedRobots {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+// 'ok' : fichier lu ; 'missing' : 4xx, tout est autorisé ; 'unreachable' : 5xx ou réseau, tout est interdit (RFC 9309)
+export type RobotsStatus = 'ok' | 'missing' | 'unreachable';
+
+export interface RobotsPolicy {
+  host: string;
+  robotsUrl: string;
+  status: RobotsStatus;
+  httpStatus: number | null;
+  content: string;
+  fetchedAt: string;
+  expiresAt: string;
+}
+
+export interface RobotsDecision {
+  allowed: boolean;
+  rule: RobotsRule | null;
+  crawlDelayMs: number | null;
+  policy: RobotsPolicy;
+}
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24h, durée de cache recommandée par la RFC 9309
+const ROBOTS_TIMEOUT_MS = 10000;
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+// Parser robots.txt : groupes user-agent, Allow/Disallow, Crawl-delay et Sitemap
+export function parseRobotsTxt(content: string): ParsedRobots {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (field) {
+      case 'user-agent':
+        // Plusieurs lignes User-agent consécutives partagent le même groupe
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [], crawlDelay: null };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      case 'allow':
+      case 'disallow':
+        if (current && value) {
+          current.rules.push({ allow: field === 'allow', path: value });
+        }
+        break;
+      case 'crawl-delay': {
+        const seconds = parseFloat(value);
+        if (current && !isNaN(seconds) && seconds >= 0) {
+          current.crawlDelay = seconds;
+        }
+        break;
+      }
+      case 'sitemap':
+        if (value) sitemaps.push(value);
+        break;
+    }
+    lastWasAgent = false;
+  }
+
+  return { groups, sitemaps };
+}
+
+// Groupe applicable : user-agent le plus spécifique correspondant au jeton produit, sinon '*'
+function selectGroup(parsed: ParsedRobots, productToken: string): RobotsGroup | null {
+  const token = productToken.toLowerCase();
+  const specific = parsed.groups.filter(group =>
+    group.agents.some(agent => agent !== '*' && token.includes(agent))
+  );
+  if (specific.length > 0) {
+    return {
+      agents: specific.flatMap(group => group.agents),
+      rules: specific.flatMap(group => group.rules),
+      crawlDelay: specific.find(group => group.crawlDelay !== null)?.crawlDelay ?? null
+    };
+  }
+  return parsed.groups.find(group => group.agents.includes('*')) ?? null;
+}
+
+// Correspondance d'un chemin robots.txt (jokers * et ancre $)
+function pathMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
+
+// Règle la plus longue gagnante ; à longueur égale, Allow l'emporte
+export function findMatchingRule(parsed: ParsedRobots, productToken: string, url: string): RobotsRule | null {
+  const group = selectGroup(parsed, productToken);
+  if (!group) return null;
+
+  const target = new URL(url);
+  const path = `${target.pathname}${target.search}`;
+  let best: RobotsRule | null = null;
+
+  for (const rule of group.rules) {
+    if (!pathMatches(rule.path, path)) continue;
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow && !best.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+export function getCrawlDelaySeconds(parsed: ParsedRobots, productToken: string): number | null {
+  return selectGroup(parsed, productToken)?.crawlDelay ?? null;
+}
+
+// Lecture et cache de robots.txt par hôte : mémoire pour l'invocation, table robots_policies entre invocations
+export class RobotsGuard {
+  private readonly memory = new Map<string, { policy: RobotsPolicy; parsed: ParsedRobots }>();
+
+  constructor(
+    private readonly productToken: string,
+    private readonly userAgent: string,
+    private readonly supabase: SupabaseClient | null = null,
+    // Requête de robots.txt ; remplaçable par un fetch qui vérifie les destinations (document-proxy)
+    private readonly fetcher: (url: string, init: RequestInit) => Promise<Response> = fetch
+  ) {}
+
+  async check(url: string): Promise<RobotsDecision> {
+    const { policy, parsed } = await this.load(url);
+    const crawlDelaySeconds = getCrawlDelaySeconds(parsed, this.productToken);
+    const crawlDelayMs = crawlDelaySeconds !== null ? Math.round(crawlDelaySeconds * 1000) : null;
+
+    if (policy.status === 'missing') {
+      return { allowed: true, rule: null, crawlDelayMs: null, policy };
+    }
+    if (policy.status === 'unreachable') {
+      return { allowed: false, rule: { allow: false, path: '/' }, crawlDelayMs: null, policy };
+    }
+
+    const rule = findMatchingRule(parsed, this.productToken, url);
+    return { allowed: !rule || rule.allow, rule, crawlDelayMs, policy };
+  }
+
+  // Délai effectif : le Crawl-delay du site sert de plancher à delay_between_requests
+  // (règle reprise dans le rapport de conformité, CRAWL_DELAY_POLICY de crawlComplianceService)
+  async effectiveDelay(url: string, configuredDelayMs: number): Promise<number> {
+    const { crawlDelayMs } = await this.check(url);
+    return Math.max(configuredDelayMs, crawlDelayMs ?? 0);
+  }
+
+  async getSitemaps(url: string): Promise<string[]> {
+    return (await this.load(url)).parsed.sitemaps;
+  }
+
+  private async load(url: string): Promise<{ policy: RobotsPolicy; parsed: ParsedRobots }> {
+    const target = new URL(url);
+    const host = target.host.toLowerCase();
+
+    const cached = this.memory.get(host);
+    if (cached && new Date(cached.policy.expiresAt).getTime() > Date.now()) {
+      return cached;
+    }
+
+    const policy = (await this.readPersisted(host)) ?? (await this.fetchPolicy(target));
+    const entry = { policy, parsed: parseRobotsTxt(policy.content) };
+    this.memory.set(host, entry);
+    return entry;
+  }
+
+  private async readPersisted(host: string): Promise<RobotsPolicy | null> {
+    if (!this.supabase) return null;
+
+    const { data } = await this.supabase
+      .from('robots_policies')
+      .select('*')
+      .eq('host', host)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (!data) return null;
+
+    return {
+      host: data.host,
+      robotsUrl: data.robots_url,
+      status: data.status,
+      httpStatus: data.http_status,
+      content: data.content || '',
+      fetchedAt: data.fetched_at,
+      expiresAt: data.expires_at
+    };
+  }
+
+  private async fetchPolicy(target: URL): Promise<RobotsPolicy> {
+    const robotsUrl = `${target.protocol}//${target.host}/robots.txt`;
+    const fetchedAt = new Date();
+    let status: RobotsStatus;
+    let httpStatus: number | null = null;
+    let content = '';
+
+    try {
+      const response = await this.fetcher(robotsUrl, {
+        headers: { 'User-Agent': this.userAgent, 'Accept': 'text/plain' },
+        signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS)
+      });
+      httpStatus = response.status;
+
+      if (response.ok) {
+        status = 'ok';
+        content = (await response.text()).slice(0, MAX_ROBOTS_BYTES);
+      } else if (response.status >= 400 && response.status < 500) {
+        status = 'missing';
+      } else {
+        status = 'unreachable';
+      }
+    } catch (error) {
+      console.warn('⚠️ robots.txt injoignable:', robotsUrl, error instanceof Error ? error.message : error);
+      status = 'unreachable';
+    }
+
+    const policy: RobotsPolicy = {
+      host: target.host.toLowerCase(),
+      robotsUrl,
+      status,
+      httpStatus,
+      content,
+      fetchedAt: fetchedAt.toISOString(),
+      // Un hôte injoignable est retenté plus tôt
+      expiresAt: new Date(fetchedAt.getTime() + (status === 'unreachable' ? CACHE_TTL_MS / 24 : CACHE_TTL_MS)).toISOString()
+    };
+
+    await this.persist(policy);
+    return policy;
+  }
+
+  private async persist(policy: RobotsPolicy): Promise<void> {
+    if (!this.supabase) return;
+
+    const parsed = parseRobotsTxt(policy.content);
+    const { error } = await this.supabase.from('robots_policies').upsert({
+      host: policy.host,
+      robots_url: policy.robotsUrl,
+      status: policy.status,
+      http_status: policy.httpStatus,
+      content: policy.content,
+      crawl_delay: getCrawlDelaySeconds(parsed, this.productToken),
+      sitemaps: parsed.sitemaps,
+      fetched_at: policy.fetchedAt,
+      expires_at: policy.expiresAt
+    });
+
+    if (error) {
+      console.error('❌ Erreur cache robots_policies:', error.message);
+    }
+  }
+}
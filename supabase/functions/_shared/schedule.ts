@@ -0,0 +1,19 @@
+// Miroir de public.compute_next_run_at : NULL (pas de planification) pour 'manual' ou une valeur inconnue
+export function computeNextRunAt(frequency: string, from: Date = new Date()): string | null {
+  const next = new Date(from);
+  switch (frequency) {
+    case 'daily':
+      next.setDate(next.getDate() + 1);
+      break;
+    case 'weekly':
+      next.setDate(next.getDate() + 7);
+      break;
+    case 'monthly':
+      next.setMonth(next.getMonth() + 1);
+      break;
+    default:
+      return null;
+  }
+  return next.toISOString();
+}
+
@@ -0,0 +1,15 @@
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// Client service_role : réservé aux fonctions edge, jamais exposé au navigateur
+export function createAdminClient(): SupabaseClient {
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!url || !serviceRoleKey) {
+    throw new Error('SUPABASE_URL ou SUPABASE_SERVICE_ROLE_KEY manquante');
+  }
+
+  return createClient(url, serviceRoleKey, {
+    auth: { persistSession: false }
+  });
+}
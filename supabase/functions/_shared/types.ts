@@ -0,0 +1,69 @@
+// Miroir de OpenAIDocument (src/lib/database.types.ts) : les fonctions edge ne peuvent pas
+// importer le code du front, mais doivent produire exactement le même contrat JSON.
+export interface HarvestedDocument {
+  url_doc: string;
+  type_document?: string;
+  format?: string;
+  source_page?: string;
+  document_name?: string;
+  date_edition?: string;
+  auteurs?: string;
+  langue?: string;
+  resume?: string;
+  statut?: string;
+  issue_number?: string | null;
+  annee?: number;
+  filename?: string;
+  contient_texte?: string;
+  pattern_verified?: boolean;
+  notes?: string;
+  obstacles?: string | null;
+  // Renseigné par la détection des changements (moissonnage incrémental)
+  change_status?: 'new' | 'updated' | 'unchanged';
+}
+
+// Structure attendue par HarvestDataParser et HarvestDataImporter
+export interface HarvestPayload {
+  documents: HarvestedDocument[];
+  'obstacles-globaux': string[];
+  recommandations: string;
+}
+
+// Contenu des colonnes jsonb harvesting_configs.selectors / filters
+export interface HarvestSelectors {
+  titleSelector?: string;
+  contentSelector?: string;
+  dateSelector?: string;
+  linkSelector?: string;
+  // Rendu JavaScript (harvesting_configs.render_js)
+  waitForSelector?: string;
+  loadMoreSelector?: string;
+  paginationSelector?: string;
+  documentFormats?: string[];
+  languages?: string[];
+  dateRange?: { start?: string; end?: string };
+}
+
+export interface HarvestFilters {
+  keywords?: string;
+  excludeKeywords?: string;
+  minSize?: string | number;
+  maxSize?: string | number;
+}
+
+// Contenu de la colonne jsonb harvesting_configs.pagination (NULL = crawl en largeur)
+export type PaginationStrategy = 'next_link' | 'url_template' | 'date_archive';
+
+export interface PaginationRules {
+  strategy: PaginationStrategy;
+  // next_link : lien ou bouton « page suivante » de la page de liste
+  nextSelector?: string;
+  // url_template : {page} remplacé par startPage, startPage + pageStep, ...
+  urlTemplate?: string;
+  startPage?: number;
+  pageStep?: number;
+  // date_archive : {year} (et {month}) remplacés en remontant le temps jusqu'à dateRange.start
+  archiveTemplate?: string;
+  // Arrêt dès qu'une page de liste n'apporte aucun nouveau document (true par défaut, sans effet pour date_archive)
+  stopOnNoNewLinks?: boolean;
+}
@@ -0,0 +1,505 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { canonicalizeUrl } from "./canonicalUrl.ts";
+
+// Capture WARC (WARC/1.1) d'une exécution de moissonnage : chaque réponse obtenue par
+// WarcRecorder.fetch est écrite avec sa requête dans des fichiers .warc.gz du bucket « warc »
+// (un membre gzip par enregistrement, lisible par les outils usuels : warcio, pywb...) et
+// indexée dans warc_records pour la consultation des copies archivées (fonction warc-replay)
+
+export const WARC_BUCKET = 'warc';
+const WARC_VERSION = 'WARC/1.1';
+const SOFTWARE = 'MissanIaCrawler/1.0';
+// Au-delà, le contenu est tronqué (WARC-Truncated: length) ; même limite que la détection des changements
+const MAX_PAYLOAD_BYTES = 50 * 1024 * 1024;
+// Taille compressée à partir de laquelle le fichier courant est enregistré et un nouveau commencé
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+const SIGNED_URL_SECONDS = 60;
+// Identifiants de la source : jamais écrits dans l'archive
+const SENSITIVE_HEADER = /^(authorization|proxy-authorization|cookie|set-cookie)$|token|secret|api[-_]?key|session|password/i;
+// fetch décode le corps : les en-têtes d'encodage d'origine sont conservés sous un autre nom
+const DECODED_HEADERS = ['content-encoding', 'transfer-encoding', 'content-length'];
+
+const CRLF = '\r\n';
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export type WarcFetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface WarcRecorderOptions {
+  runId: string;
+  dataSourceId: string;
+}
+
+export interface WarcSummary {
+  files: number;
+  records: number;
+  bytes: number;
+  truncated: number;
+}
+
+// Enregistrement lu depuis un fichier WARC (consultation)
+export interface WarcRecord {
+  headers: Record<string, string>;
+  block: Uint8Array;
+}
+
+export interface ArchivedHttpResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  payload: Uint8Array;
+}
+
+interface IndexRow {
+  run_id: string;
+  data_source_id: string;
+  record_id: string;
+  record_type: 'response' | 'resource';
+  target_uri: string;
+  canonical_url: string;
+  method: string | null;
+  http_status: number | null;
+  content_type: string | null;
+  payload_size: number;
+  payload_sha256: string;
+  truncated: boolean;
+  record_offset: number;
+  record_length: number;
+  captured_at: string;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.byteLength, 0);
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  }
+  return bytes;
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function gzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function indexOfSequence(bytes: Uint8Array, sequence: Uint8Array, from = 0): number {
+  outer: for (let i = from; i <= bytes.length - sequence.length; i++) {
+    for (let j = 0; j < sequence.length; j++) {
+      if (bytes[i + j] !== sequence[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+// WARC-Date : horodatage UTC à la seconde
+function warcDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function headerLines(headers: [string, string][]): string {
+  return headers.map(([name, value]) => `${name}: ${value}${CRLF}`).join('');
+}
+
+function redact([name, value]: [string, string]): [string, string] {
+  return SENSITIVE_HEADER.test(name) ? [name, '[masqué]'] : [name, value];
+}
+
+function canonicalOrSelf(url: string): string {
+  try {
+    return canonicalizeUrl(url);
+  } catch {
+    return url;
+  }
+}
+
+// Corps lu jusqu'à la limite ; au-delà la lecture est interrompue et le contenu marqué tronqué
+async function readPayload(response: Response): Promise<{ payload: Uint8Array; truncated: boolean }> {
+  if (!response.body) return { payload: new Uint8Array(0), truncated: false };
+
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (received + value.byteLength > MAX_PAYLOAD_BYTES) {
+      chunks.push(value.subarray(0, MAX_PAYLOAD_BYTES - received));
+      await reader.cancel();
+      return { payload: concat(chunks), truncated: true };
+    }
+    received += value.byteLength;
+    chunks.push(value);
+  }
+  return { payload: concat(chunks), truncated: false };
+}
+
+function serializeRecord(fields: [string, string][], block: Uint8Array): Uint8Array {
+  const head = `${WARC_VERSION}${CRLF}${headerLines(fields)}Content-Length: ${block.byteLength}${CRLF}${CRLF}`;
+  return concat([encoder.encode(head), block, encoder.encode(CRLF + CRLF)]);
+}
+
+export class WarcRecorder {
+  private members: Uint8Array[] = [];
+  private fileSize = 0;
+  private rows: IndexRow[] = [];
+  private recordsInFile = 0;
+  private sequence = 0;
+  private warcinfoId: string | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private closed = false;
+  private readonly summary: WarcSummary = { files: 0, records: 0, bytes: 0, truncated: 0 };
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly options: WarcRecorderOptions
+  ) {}
+
+  // Remplaçant de fetch : la réponse est renvoyée intacte à l'appelant, une copie est archivée.
+  // Une capture en échec est journalisée sans interrompre le moissonnage.
+  fetch: WarcFetcher = async (url, init = {}) => {
+    const requestedAt = new Date();
+    const response = await fetch(url, init);
+
+    try {
+      const { payload, truncated } = await readPayload(response.clone());
+      await this.enqueue(() => this.writeExchange(url, init, response, payload, truncated, requestedAt));
+    } catch (error) {
+      console.warn('⚠️ Capture WARC impossible:', url, error instanceof Error ? error.message : error);
+    }
+
+    return response;
+  };
+
+  // Page obtenue sans fetch (worker de rendu) : DOM après JavaScript archivé comme ressource
+  async resource(url: string, content: string, contentType = 'text/html; charset=utf-8'): Promise<void> {
+    try {
+      await this.enqueue(async () => {
+        const payload = encoder.encode(content);
+        const capturedAt = new Date();
+        const payloadDigest = await sha256Hex(payload);
+        const recordId = `<urn:uuid:${crypto.randomUUID()}>`;
+        await this.append([
+          ['WARC-Type', 'resource'],
+          ['WARC-Record-ID', recordId],
+          ['WARC-Date', warcDate(capturedAt)],
+          ['WARC-Target-URI', url],
+          ['WARC-Warcinfo-ID', this.warcinfoId ?? ''],
+          ['WARC-Payload-Digest', `sha256:${payloadDigest}`],
+          ['WARC-Block-Digest', `sha256:${payloadDigest}`],
+          ['Content-Type', contentType]
+        ], payload, {
+          record_id: recordId,
+          record_type: 'resource',
+          target_uri: url,
+          canonical_url: canonicalOrSelf(url),
+          method: null,
+          http_status: null,
+          content_type: contentType,
+          payload_size: payload.byteLength,
+          payload_sha256: payloadDigest,
+          truncated: false,
+          captured_at: capturedAt.toISOString()
+        });
+      });
+    } catch (error) {
+      console.warn('⚠️ Capture WARC impossible:', url, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Enregistre le dernier fichier ; les appels suivants renvoient le même bilan
+  async close(): Promise<WarcSummary> {
+    await this.enqueue(async () => {
+      if (!this.closed && this.recordsInFile > 0) await this.flush();
+      this.closed = true;
+    });
+    console.log('🗃️ Capture WARC terminée:', this.summary);
+    return { ...this.summary };
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async writeExchange(
+    url: string,
+    init: RequestInit,
+    response: Response,
+    payload: Uint8Array,
+    truncated: boolean,
+    requestedAt: Date
+  ): Promise<void> {
+    // Redirections suivies par fetch : la requête archivée est celle de l'URL finale
+    const targetUri = response.url || url;
+    const target = new URL(targetUri);
+    const method = (init.method || 'GET').toUpperCase();
+    const responseId = `<urn:uuid:${crypto.randomUUID()}>`;
+    const requestId = `<urn:uuid:${crypto.randomUUID()}>`;
+    const date = warcDate(requestedAt);
+
+    const requestHeaders = [...new Headers(init.headers).entries()].map(redact);
+    const requestBlock = encoder.encode(
+      `${method} ${target.pathname}${target.search} HTTP/1.1${CRLF}` +
+      headerLines([['host', target.host], ...requestHeaders]) + CRLF
+    );
+
+    const responseHeaders: [string, string][] = [];
+    for (const [name, value] of response.headers.entries()) {
+      responseHeaders.push(DECODED_HEADERS.includes(name) ? [`x-archive-orig-${name}`, value] : redact([name, value]));
+    }
+    responseHeaders.push(['content-length', String(payload.byteLength)]);
+    const responseHead = encoder.encode(
+      `HTTP/1.1 ${response.status} ${response.statusText}`.trimEnd() + CRLF + headerLines(responseHeaders) + CRLF
+    );
+    const responseBlock = concat([responseHead, payload]);
+    const payloadDigest = await sha256Hex(payload);
+
+    const contentType = response.headers.get('content-type');
+    await this.append([
+      ['WARC-Type', 'response'],
+      ['WARC-Record-ID', responseId],
+      ['WARC-Date', date],
+      ['WARC-Target-URI', targetUri],
+      ['WARC-Warcinfo-ID', this.warcinfoId ?? ''],
+      ['WARC-Payload-Digest', `sha256:${payloadDigest}`],
+      ['WARC-Block-Digest', `sha256:${await sha256Hex(responseBlock)}`],
+      ...(truncated ? [['WARC-Truncated', 'length'] as [string, string]] : []),
+      ['Content-Type', 'application/http;msgtype=response']
+    ], responseBlock, {
+      record_id: responseId,
+      record_type: 'response',
+      target_uri: targetUri,
+      canonical_url: canonicalOrSelf(targetUri),
+      method,
+      http_status: response.status,
+      content_type: contentType,
+      payload_size: payload.byteLength,
+      payload_sha256: payloadDigest,
+      truncated,
+      captured_at: requestedAt.toISOString()
+    });
+
+    await this.append([
+      ['WARC-Type', 'request'],
+      ['WARC-Record-ID', requestId],
+      ['WARC-Date', date],
+      ['WARC-Target-URI', targetUri],
+      ['WARC-Warcinfo-ID', this.warcinfoId ?? ''],
+      ['WARC-Concurrent-To', responseId],
+      ['WARC-Block-Digest', `sha256:${await sha256Hex(requestBlock)}`],
+      ['Content-Type', 'application/http;msgtype=request']
+    ], requestBlock, null);
+
+    if (targetUri !== url) {
+      // URL demandée avant redirection
+      const via = encoder.encode(`via: ${url}${CRLF}`);
+      await this.append([
+        ['WARC-Type', 'metadata'],
+        ['WARC-Record-ID', `<urn:uuid:${crypto.randomUUID()}>`],
+        ['WARC-Date', date],
+        ['WARC-Target-URI', targetUri],
+        ['WARC-Warcinfo-ID', this.warcinfoId ?? ''],
+        ['WARC-Refers-To', responseId],
+        ['Content-Type', 'application/warc-fields']
+      ], via, null);
+    }
+
+    if (truncated) this.summary.truncated++;
+  }
+
+  // Ajoute un enregistrement au fichier courant (commencé par son warcinfo si besoin)
+  private async append(
+    fields: [string, string][],
+    block: Uint8Array,
+    row: Omit<IndexRow, 'run_id' | 'data_source_id' | 'record_offset' | 'record_length'> | null
+  ): Promise<void> {
+    if (this.closed) {
+      throw new Error('Capture WARC déjà close');
+    }
+    if (!this.warcinfoId) {
+      await this.startFile();
+      fields = fields.map(([name, value]) => name === 'WARC-Warcinfo-ID' ? [name, this.warcinfoId!] : [name, value]);
+    }
+
+    const member = await gzip(serializeRecord(fields, block));
+    if (row) {
+      this.rows.push({
+        ...row,
+        run_id: this.options.runId,
+        data_source_id: this.options.dataSourceId,
+        record_offset: this.fileSize,
+        record_length: member.byteLength
+      });
+    }
+    this.members.push(member);
+    this.fileSize += member.byteLength;
+    this.recordsInFile++;
+    this.summary.records++;
+
+    if (this.fileSize >= MAX_FILE_BYTES) {
+      await this.flush();
+    }
+  }
+
+  private filename(): string {
+    return `${this.options.runId}-${String(this.sequence).padStart(5, '0')}.warc.gz`;
+  }
+
+  private async startFile(): Promise<void> {
+    this.sequence++;
+    this.warcinfoId = `<urn:uuid:${crypto.randomUUID()}>`;
+    const info = encoder.encode(headerLines([
+      ['software', SOFTWARE],
+      ['format', 'WARC File Format 1.1'],
+      ['conformsTo', 'https://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/'],
+      ['isPartOf', `harvest_run ${this.options.runId}`],
+      ['description', `Capture du moissonnage de la source ${this.options.dataSourceId}`]
+    ]));
+    const member = await gzip(serializeRecord([
+      ['WARC-Type', 'warcinfo'],
+      ['WARC-Record-ID', this.warcinfoId],
+      ['WARC-Date', warcDate(new Date())],
+      ['WARC-Filename', this.filename()],
+      ['Content-Type', 'application/warc-fields']
+    ], info));
+    this.members.push(member);
+    this.fileSize += member.byteLength;
+  }
+
+  // Enregistre le fichier courant dans Storage, puis son index
+  private async flush(): Promise<void> {
+    const bytes = concat(this.members);
+    const path = `${this.options.dataSourceId}/${this.options.runId}/${this.filename()}`;
+    const rows = this.rows;
+    const recordCount = this.recordsInFile;
+
+    this.members = [];
+    this.rows = [];
+    this.fileSize = 0;
+    this.recordsInFile = 0;
+    this.warcinfoId = null;
+
+    const { error: uploadError } = await this.supabase.storage
+      .from(WARC_BUCKET)
+      .upload(path, bytes, { contentType: 'application/warc', upsert: false });
+
+    if (uploadError) {
+      throw new Error(`Erreur enregistrement du fichier WARC ${path}: ${uploadError.message}`);
+    }
+
+    const { data: file, error: fileError } = await this.supabase
+      .from('warc_files')
+      .insert({
+        run_id: this.options.runId,
+        data_source_id: this.options.dataSourceId,
+        sequence: this.sequence,
+        storage_path: path,
+        size: bytes.byteLength,
+        sha256: await sha256Hex(bytes),
+        record_count: recordCount
+      })
+      .select('id')
+      .single();
+
+    if (fileError || !file) {
+      throw new Error(`Erreur index du fichier WARC ${path}: ${fileError?.message ?? 'ligne manquante'}`);
+    }
+
+    if (rows.length > 0) {
+      const { error: rowsError } = await this.supabase
+        .from('warc_records')
+        .insert(rows.map(row => ({ ...row, warc_file_id: file.id })));
+
+      if (rowsError) {
+        console.error('❌ Erreur index des enregistrements WARC:', rowsError.message);
+      }
+    }
+
+    this.summary.files++;
+    this.summary.bytes += bytes.byteLength;
+    console.log('🗃️ Fichier WARC enregistré:', path, recordCount, 'enregistrements', Math.round(bytes.byteLength / 1024) + 'KB');
+  }
+}
+
+// Lecture d'un enregistrement : plage du fichier (Range sur une URL signée), puis décompression du membre gzip
+export async function readWarcRecord(
+  supabase: SupabaseClient,
+  storagePath: string,
+  offset: number,
+  length: number
+): Promise<WarcRecord> {
+  const { data, error } = await supabase.storage
+    .from(WARC_BUCKET)
+    .createSignedUrl(storagePath, SIGNED_URL_SECONDS);
+
+  if (error || !data) {
+    throw new Error(`Fichier WARC illisible: ${error?.message ?? 'URL signée manquante'}`);
+  }
+
+  const response = await fetch(data.signedUrl, { headers: { 'Range': `bytes=${offset}-${offset + length - 1}` } });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`Fichier WARC illisible: ${response.status}`);
+  }
+
+  let member = new Uint8Array(await response.arrayBuffer());
+  // Serveur sans prise en charge de Range : fichier complet
+  if (response.status === 200 && member.byteLength > length) {
+    member = member.subarray(offset, offset + length);
+  }
+
+  const record = await gunzip(member);
+  const separator = encoder.encode(CRLF + CRLF);
+  const headerEnd = indexOfSequence(record, separator);
+  if (headerEnd < 0) {
+    throw new Error('Enregistrement WARC invalide');
+  }
+
+  const headers: Record<string, string> = {};
+  for (const line of decoder.decode(record.subarray(0, headerEnd)).split(CRLF).slice(1)) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+  }
+
+  const blockStart = headerEnd + separator.byteLength;
+  const blockLength = Number(headers['content-length'] ?? record.byteLength - blockStart);
+  return { headers, block: record.subarray(blockStart, blockStart + blockLength) };
+}
+
+// Bloc d'un enregistrement « response » : ligne de statut, en-têtes HTTP et contenu
+export function parseHttpResponse(block: Uint8Array): ArchivedHttpResponse {
+  const separator = encoder.encode(CRLF + CRLF);
+  const headEnd = indexOfSequence(block, separator);
+  if (headEnd < 0) {
+    throw new Error('Réponse HTTP archivée invalide');
+  }
+
+  const [statusLine, ...lines] = decoder.decode(block.subarray(0, headEnd)).split(CRLF);
+  const match = statusLine.match(/^HTTP\/[\d.]+\s+(\d{3})\s*(.*)$/);
+  const headers: [string, string][] = [];
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers.push([line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim()]);
+  }
+
+  return {
+    status: match ? Number(match[1]) : 200,
+    statusText: match?.[2] ?? '',
+    headers,
+    payload: block.subarray(headEnd + separator.byteLength)
+  };
+}
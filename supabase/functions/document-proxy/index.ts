@@ -5,25 +5,214 @@
     - Proxy external document requests to bypass CORS restrictions
     - Enable document viewing and analysis from external URLs
     - Support PDF, image, and other document formats
+    - Corps relayé au fil de l'eau et coupé au-delà de PROXY_MAX_BYTES (50 Mo par défaut,
+      abaissable par la requête avec max_bytes) ; 413 si la taille annoncée dépasse déjà la limite
+    - En-têtes Range / If-Range transmis au site (réponses 206) : le lecteur PDF charge les pages
+      à la demande, paramètres en chaîne de requête (GET ?url=...&data_source_id=...)
+    - Mode métadonnées (requête HEAD ou mode: 'metadata') : taille, type, ETag et Last-Modified
+      sans télécharger le document
+    - Cache des documents (_shared/documentCache.ts) : copie fraîche servie sans contacter le site,
+      copie ancienne revalidée (If-None-Match / If-Modified-Since), dernière copie servie si le site
+      ne répond plus ou a retiré le document ; en-têtes X-Cache et X-Content-Sha256
+    - Lecture par plages sans copie en cache : un seul téléchargement complet en tâche de fond par URL
+      (réservation claim_document_cache_fill)
 
   2. Security
     - Enable RLS (handled by Supabase automatically)
     - Validate URLs to prevent abuse
-    - Set appropriate CORS headers
+    - Protection SSRF : adresses privées, de bouclage, link-local et de métadonnées refusées
+      après résolution DNS, à la requête initiale comme à chaque redirection (_shared/egress.ts)
+    - Domaines limités à ceux des sources enregistrées (data_sources.url) et au secret
+      PROXY_ALLOWED_DOMAINS (« a.org,b.fr », sous-domaines compris)
+    - CORS limité aux origines de l'application (secret APP_ORIGINS)
+    - Respect robots.txt : 403 si le chemin est interdit, avertissement dans harvest_logs
+    - Liste autorisée, adresses et robots.txt vérifiés avant toute lecture du cache
+    - Sources authentifiées : avec data_source_id, les identifiants de la source
+      (data_source_credentials) sont ajoutés aux seules requêtes vers son hôte ; la réponse
+      n'est alors pas mise en cache public
+    - Ces identifiants, et les copies en cache obtenues avec eux, sont réservés à un utilisateur
+      connecté (jeton Authorization d'un compte, pas de la clé anon ni d'une session anonyme) :
+      sinon 401 avant toute lecture du cache ou des identifiants
+    - URL nettoyée avant la requête (paramètres de suivi, fragment) ; l'URL canonique du document,
+      après redirections, est renvoyée dans l'en-tête X-Canonical-Url
 */
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
-};
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { createHarvestLogger } from "../_shared/harvestLog.ts";
+import { RobotsGuard } from "../_shared/robots.ts";
+import { loadSourceAuth, type SourceAuth } from "../_shared/credentials.ts";
+import { canonicalizeUrl, cleanUrl } from "../_shared/canonicalUrl.ts";
+import { EgressError, assertPublicDestination, guardedFetch, isAllowedHost, parseDomainList, type DestinationPolicy } from "../_shared/egress.ts";
+import { allowedOrigins, restrictedCorsHeaders } from "../_shared/cors.ts";
+import {
+  claimFill,
+  collectBody,
+  conditionalHeaders,
+  findCachedDocument,
+  isFresh,
+  markValidated,
+  openStoredDocument,
+  releaseFill,
+  runInBackground,
+  storeDocument,
+  type CachedDocument,
+  type CacheStatus
+} from "../_shared/documentCache.ts";
+
+const PROXY_PRODUCT_TOKEN = 'DocumentProxy';
+const PROXY_USER_AGENT = `Mozilla/5.0 (compatible; ${PROXY_PRODUCT_TOKEN}/1.0)`;
+const ALLOWED_DOMAINS_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const REQUEST_TIMEOUT_MS = 120000;
+
+// En-têtes du document relayés au navigateur (et lisibles par lui)
+const FORWARDED_HEADERS = ['Content-Type', 'Content-Length', 'Content-Range', 'Accept-Ranges', 'ETag', 'Last-Modified'];
 
 interface ProxyRequest {
   url: string;
   method?: string;
+  data_source_id?: string;
+  mode?: 'body' | 'metadata';
+  max_bytes?: number;
+}
+
+// Client et cache robots.txt conservés entre les requêtes d'une même instance
+let adminClient: ReturnType<typeof createAdminClient> | null | undefined;
+let robotsGuard: RobotsGuard | null = null;
+let allowedDomains: { domains: string[]; expiresAt: number } | null = null;
+
+function getAdminClient() {
+  if (adminClient === undefined) {
+    try {
+      adminClient = createAdminClient();
+    } catch (error) {
+      console.warn('⚠️ Client admin indisponible, cache robots.txt en mémoire uniquement:', error);
+      adminClient = null;
+    }
+  }
+  return adminClient;
+}
+
+function getRobotsGuard(): RobotsGuard {
+  if (!robotsGuard) {
+    robotsGuard = new RobotsGuard(
+      PROXY_PRODUCT_TOKEN,
+      PROXY_USER_AGENT,
+      getAdminClient(),
+      (url, init) => guardedFetch(url, init, getDestinationPolicy())
+    );
+  }
+  return robotsGuard;
+}
+
+// Domaines des sources enregistrées et du secret PROXY_ALLOWED_DOMAINS, relus toutes les 5 minutes
+async function refreshAllowedDomains(): Promise<string[]> {
+  if (allowedDomains && allowedDomains.expiresAt > Date.now()) {
+    return allowedDomains.domains;
+  }
+
+  const sourceUrls: string[] = [];
+  const client = getAdminClient();
+  if (client) {
+    const { data, error } = await client.from('data_sources').select('url');
+    if (error) {
+      console.warn('⚠️ Domaines des sources illisibles:', error.message);
+    } else {
+      sourceUrls.push(...(data || []).map((source: { url: string }) => source.url));
+    }
+  }
+
+  const configured = (Deno.env.get('PROXY_ALLOWED_DOMAINS') || '').split(',');
+  const domains = parseDomainList([...sourceUrls, ...configured]);
+  allowedDomains = { domains, expiresAt: Date.now() + ALLOWED_DOMAINS_TTL_MS };
+  return domains;
+}
+
+function getDestinationPolicy(): DestinationPolicy {
+  const domains = allowedDomains?.domains ?? [];
+  return { isAllowed: hostname => isAllowedHost(hostname, domains) };
+}
+
+// Utilisateur connecté porteur du jeton ; null pour la clé anon ou une session anonyme,
+// qu'il suffit de la clé anon pour ouvrir
+async function signedInUser(client: NonNullable<ReturnType<typeof getAdminClient>>, req: Request) {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user || data.user.is_anonymous) return null;
+  return data.user;
+}
+
+// Paramètres : corps JSON (POST) ou chaîne de requête (GET/HEAD, lecteur PDF par plages)
+async function readProxyRequest(req: Request): Promise<ProxyRequest> {
+  if (req.method === 'POST') {
+    return await req.json();
+  }
+
+  const params = new URL(req.url).searchParams;
+  return {
+    url: params.get('url') ?? '',
+    data_source_id: params.get('data_source_id') ?? undefined,
+    mode: params.get('mode') === 'metadata' ? 'metadata' : 'body',
+    max_bytes: params.has('max_bytes') ? Number(params.get('max_bytes')) : undefined
+  };
+}
+
+// Limite du proxy (secret PROXY_MAX_BYTES), que la requête peut abaisser mais pas dépasser
+function maxBytesFor(requested?: number): number {
+  const configured = Number(Deno.env.get('PROXY_MAX_BYTES')) || DEFAULT_MAX_BYTES;
+  return requested && requested > 0 ? Math.min(requested, configured) : configured;
+}
+
+// Taille totale du document : total de Content-Range (réponse 206), sinon Content-Length
+function documentSize(response: Response): number | null {
+  const total = response.headers.get('content-range')?.match(/\/(\d+)$/);
+  if (total) return Number(total[1]);
+  const length = response.headers.get('content-length');
+  return length !== null && /^\d+$/.test(length) ? Number(length) : null;
+}
+
+// Corps relayé au fil de l'eau ; la requête vers le site est interrompue dès que la limite est franchie
+function cappedStream(body: ReadableStream<Uint8Array>, maxBytes: number, abort: () => void): ReadableStream<Uint8Array> {
+  let received = 0;
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > maxBytes) {
+        console.warn('✂️ Limite de taille franchie, transfert interrompu:', received, '>', maxBytes);
+        abort();
+        controller.error(new Error(`Document trop volumineux (max: ${maxBytes} octets)`));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+    flush() {
+      console.log('✅ Document relayé:', Math.round(received / 1024) + 'KB');
+    }
+  }));
 }
 
 Deno.serve(async (req: Request) => {
+  const corsHeaders = {
+    ...restrictedCorsHeaders(req),
+    "Access-Control-Allow-Methods": "GET, HEAD, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, Range, If-Range",
+    "Access-Control-Expose-Headers": [...FORWARDED_HEADERS, 'X-Canonical-Url', 'X-Cache', 'X-Content-Sha256'].join(', '),
+  };
+
+  // Origine étrangère à l'application : refusée avant toute requête sortante
+  const origin = req.headers.get('Origin');
+  if (origin && !allowedOrigins().includes(origin)) {
+    return new Response(
+      JSON.stringify({ error: 'Origine non autorisée' }),
+      {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -32,8 +221,12 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  // Dernière copie en cache, servie si le site ne répond plus
+  let serveStale: (() => Promise<Response>) | null = null;
+
   try {
-    const { url, method = 'GET' }: ProxyRequest = await req.json();
+    const { url: requestedUrl, method = 'GET', data_source_id, mode, max_bytes }: ProxyRequest = await readProxyRequest(req);
+    const url = typeof requestedUrl === 'string' ? cleanUrl(requestedUrl) : requestedUrl;
     
     // Validation de l'URL
     if (!url || typeof url !== 'string') {
@@ -71,19 +264,248 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Métadonnées seules (HEAD) ou document, éventuellement une plage d'octets
+    const metadataOnly = req.method === 'HEAD' || mode === 'metadata' || method.toUpperCase() === 'HEAD';
+    const maxBytes = maxBytesFor(max_bytes);
+    const rangeHeaders: Record<string, string> = {};
+    for (const name of ['Range', 'If-Range']) {
+      const value = req.headers.get(name);
+      if (value) rangeHeaders[name] = value;
+    }
+
+    const tooLarge = (size: number) => new Response(
+      JSON.stringify({
+        error: `Document trop volumineux: ${Math.round(size / 1024 / 1024)}MB (max: ${Math.round(maxBytes / 1024 / 1024)}MB)`,
+        size
+      }),
+      {
+        status: 413,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+
+    const client = getAdminClient();
+
+    // Domaine hors liste autorisée ou adresse interne : refus avant robots.txt, le cache et le document
+    await refreshAllowedDomains();
+    const policy = getDestinationPolicy();
+    await assertPublicDestination(url, policy);
+
+    // Vérifier robots.txt avant toute requête vers le site ou lecture du cache
+    const decision = await getRobotsGuard().check(url);
+    if (!decision.allowed) {
+      const rule = decision.rule ? `Disallow: ${decision.rule.path}` : 'robots.txt';
+      console.warn('🚫 URL interdite par robots.txt:', url, rule);
+
+      if (client) {
+        await createHarvestLogger(client, data_source_id ?? null).warning(
+          'Document non récupéré (interdit par robots.txt)',
+          {
+            type: 'robots_disallowed',
+            url,
+            rule,
+            robots_url: decision.policy.robotsUrl,
+            robots_status: decision.policy.status,
+            origin: 'document-proxy'
+          }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ error: 'Accès interdit par robots.txt', rule, robots_url: decision.policy.robotsUrl }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Identifiants de la source, si elle en a : seulement pour un utilisateur connecté
+    let auth: SourceAuth | null = null;
+    if (data_source_id && client) {
+      const { data: credential } = await client
+        .from('data_source_credentials')
+        .select('data_source_id')
+        .eq('data_source_id', data_source_id)
+        .maybeSingle();
+
+      if (credential) {
+        if (!await signedInUser(client, req)) {
+          return new Response(
+            JSON.stringify({ error: 'Connexion requise pour les documents d\'une source authentifiée' }),
+            {
+              status: 401,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          );
+        }
+
+        const { data: source } = await client
+          .from('data_sources')
+          .select('url')
+          .eq('id', data_source_id)
+          .maybeSingle();
+        if (source) {
+          auth = await loadSourceAuth(client, data_source_id, source.url, PROXY_USER_AGENT);
+        }
+      }
+    }
+    const authenticated = !!auth?.appliesTo(url);
+    // Copies en cache d'une source authentifiée : seulement si ses identifiants sont utilisables
+    const authDataSourceId = auth ? data_source_id ?? null : null;
+
+    // Copie en cache : métadonnées de l'index, contenu lu dans Storage (plage comprise)
+    const cacheKey = canonicalizeUrl(url);
+    const cached = client ? await findCachedDocument(client, cacheKey, authDataSourceId) : null;
+    const fromCache = async (entry: CachedDocument, cacheStatus: CacheStatus): Promise<Response> => {
+      console.log('🗄️ Document servi depuis le cache:', cacheStatus, url);
+
+      if (mode === 'metadata') {
+        return new Response(
+          JSON.stringify({
+            success: true,
+            url,
+            canonical_url: entry.canonical_url,
+            size: entry.size,
+            content_type: entry.content_type,
+            etag: entry.etag,
+            last_modified: entry.last_modified,
+            accept_ranges: true,
+            cached: true,
+            sha256: entry.sha256,
+            fetched_at: entry.fetched_at
+          }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      const headers: Record<string, string> = {
+        ...corsHeaders,
+        'Content-Type': entry.content_type,
+        'Accept-Ranges': 'bytes',
+        'Cache-Control': entry.auth_data_source_id ? 'private, no-store' : 'public, max-age=3600',
+        'X-Canonical-Url': entry.canonical_url,
+        'X-Cache': cacheStatus,
+        'X-Content-Sha256': entry.sha256,
+      };
+      if (entry.etag) headers['ETag'] = entry.etag;
+      if (entry.last_modified) headers['Last-Modified'] = entry.last_modified;
+
+      if (metadataOnly) {
+        headers['Content-Length'] = String(entry.size);
+        return new Response(null, { status: 200, headers });
+      }
+      if (entry.size > maxBytes) {
+        return tooLarge(entry.size);
+      }
+
+      const stored = await openStoredDocument(client!, entry, rangeHeaders['Range'] ?? null);
+      for (const name of ['Content-Length', 'Content-Range']) {
+        const value = stored.headers.get(name);
+        if (value) headers[name] = value;
+      }
+      return new Response(stored.body, { status: stored.status === 206 ? 206 : 200, headers });
+    };
+
+    if (cached && isFresh(cached)) {
+      return await fromCache(cached, 'HIT');
+    }
+    if (cached) {
+      serveStale = () => fromCache(cached, 'STALE');
+    }
+
     console.log('📥 Proxy request pour:', url);
 
     // Effectuer la requête vers l'URL cible
-    const response = await fetch(url, {
-      method: method,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; DocumentProxy/1.0)',
+    // Chaque redirection est vérifiée (domaine, adresses) et reçoit ses propres en-têtes
+    const upstream = new AbortController();
+    const request = async (upstreamMethod: 'GET' | 'HEAD', extraHeaders: Record<string, string>) => guardedFetch(url, {
+      method: upstreamMethod,
+      headersFor: async (hopUrl) => ({
+        ...await auth?.headersFor(hopUrl),
+        ...extraHeaders,
+        'User-Agent': PROXY_USER_AGENT,
         'Accept': '*/*',
-      },
-      signal: AbortSignal.timeout(30000) // 30s timeout
-    });
+      }),
+      signal: AbortSignal.any([upstream.signal, AbortSignal.timeout(REQUEST_TIMEOUT_MS)])
+    }, policy);
+    const send = async (upstreamMethod: 'GET' | 'HEAD', extraHeaders: Record<string, string>) => {
+      let response = await request(upstreamMethod, extraHeaders);
+      // Session expirée : nouvelle connexion puis un seul nouvel essai
+      if ([401, 403].includes(response.status) && authenticated && await auth!.renew()) {
+        await response.body?.cancel();
+        response = await request(upstreamMethod, extraHeaders);
+      }
+      return response;
+    };
+
+    // Document complet mis en cache (contenu adressé par SHA-256), sans retarder la réponse
+    const cacheResponse = async (full: Response) => {
+      if (!client || full.status !== 200 || !full.body) {
+        await full.body?.cancel();
+        return;
+      }
+      const bytes = await collectBody(full.body, maxBytes);
+      if (!bytes) return;
+      await storeDocument(client, {
+        canonicalUrl: cacheKey,
+        url,
+        bytes,
+        contentType: full.headers.get('content-type') || 'application/octet-stream',
+        etag: full.headers.get('etag'),
+        lastModified: full.headers.get('last-modified'),
+        authDataSourceId: authenticated ? data_source_id ?? null : null
+      });
+    };
+
+    // Lecture par plages : document complet relu en tâche de fond pour le cache,
+    // une seule fois par URL même si le lecteur PDF enchaîne les plages
+    const fillInBackground = () => {
+      if (!client) return;
+      runInBackground((async () => {
+        if (!await claimFill(client, cacheKey)) return;
+        try {
+          await cacheResponse(await send('GET', {}));
+        } finally {
+          await releaseFill(client, cacheKey);
+        }
+      })());
+    };
+
+    let response: Response;
+    if (cached && !metadataOnly) {
+      // Copie ancienne : revalidation conditionnelle du document complet
+      response = await send('GET', conditionalHeaders(cached));
+      if (response.status === 304) {
+        await response.body?.cancel();
+        await markValidated(client!, cached.canonical_url);
+        return await fromCache(cached, 'REVALIDATED');
+      }
+      // Document modifié et plage demandée : nouvelle version mise en cache en tâche de fond
+      if (response.ok && rangeHeaders['Range']) {
+        await response.body?.cancel();
+        fillInBackground();
+        response = await send('GET', rangeHeaders);
+      }
+    } else {
+      response = metadataOnly ? await send('HEAD', {}) : await send('GET', rangeHeaders);
+    }
+    // HEAD refusé par certains serveurs : premier octet seulement, taille lue dans Content-Range
+    if (metadataOnly && !response.ok) {
+      await response.body?.cancel();
+      response = await send('GET', { 'Range': 'bytes=0-0' });
+      await response.body?.cancel();
+    }
 
     if (!response.ok) {
+      // Document retiré ou site en erreur : la dernière copie reste disponible
+      if (cached) {
+        await response.body?.cancel();
+        return await fromCache(cached, 'STALE');
+      }
       return new Response(
         JSON.stringify({ 
           error: `Erreur ${response.status}: ${response.statusText}` 
@@ -95,27 +517,108 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Récupérer le contenu
-    const arrayBuffer = await response.arrayBuffer();
     const contentType = response.headers.get('content-type') || 'application/octet-stream';
-    
-    console.log('✅ Document récupéré:', {
-      size: Math.round(arrayBuffer.byteLength / 1024) + 'KB',
+    const size = documentSize(response);
+    const canonicalUrl = canonicalizeUrl(response.url || url);
+
+    if (mode === 'metadata') {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          url,
+          canonical_url: canonicalUrl,
+          size,
+          content_type: contentType,
+          etag: response.headers.get('etag'),
+          last_modified: response.headers.get('last-modified'),
+          accept_ranges: response.headers.get('accept-ranges') === 'bytes' || response.status === 206
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const documentHeaders: Record<string, string> = {
+      ...corsHeaders,
+      // Cache 1h, privé pour un document obtenu avec des identifiants
+      'Cache-Control': authenticated ? 'private, no-store' : 'public, max-age=3600',
+      'X-Canonical-Url': canonicalUrl,
+    };
+    for (const name of FORWARDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) documentHeaders[name] = value;
+    }
+    documentHeaders['Content-Type'] = contentType;
+
+    if (metadataOnly) {
+      if (size !== null) documentHeaders['Content-Length'] = String(size);
+      delete documentHeaders['Content-Range'];
+      return new Response(null, { status: 200, headers: documentHeaders });
+    }
+
+    // Taille annoncée déjà au-delà de la limite : rien n'est transféré
+    const announced = Number(response.headers.get('content-length'));
+    if (announced > maxBytes) {
+      await response.body?.cancel();
+      return tooLarge(announced);
+    }
+
+    // Mise en cache : copie du flux pour une réponse complète, sinon document complet relu
+    // en tâche de fond (première lecture par plages du lecteur PDF)
+    let upstreamBody = response.body;
+    if (client && upstreamBody && response.status === 200) {
+      const [clientBranch, cacheBranch] = upstreamBody.tee();
+      upstreamBody = clientBranch;
+      runInBackground(cacheResponse(new Response(cacheBranch, { status: 200, headers: response.headers })));
+    } else if (response.status === 206 && !cached) {
+      fillInBackground();
+    }
+    documentHeaders['X-Cache'] = 'MISS';
+
+    console.log('📤 Document relayé en flux:', {
+      status: response.status,
+      size: size !== null ? Math.round(size / 1024) + 'KB' : 'inconnue',
       contentType
     });
 
-    // Retourner le document avec les bons headers
-    return new Response(arrayBuffer, {
-      status: 200,
-      headers: {
-        ...corsHeaders,
-        'Content-Type': contentType,
-        'Content-Length': arrayBuffer.byteLength.toString(),
-        'Cache-Control': 'public, max-age=3600', // Cache 1h
-      }
+    const body = upstreamBody ? cappedStream(upstreamBody, maxBytes, () => upstream.abort()) : null;
+    return new Response(body, {
+      status: response.status === 206 ? 206 : 200,
+      headers: documentHeaders
     });
 
   } catch (error) {
+    if (serveStale) {
+      try {
+        console.warn('⚠️ Site injoignable, copie en cache servie:', error instanceof Error ? error.message : error);
+        return await serveStale();
+      } catch (cacheError) {
+        console.error('❌ Copie en cache illisible:', cacheError);
+      }
+    }
+
+    if (error instanceof EgressError) {
+      console.warn('🚫 Destination refusée:', error.url, error.message);
+
+      const client = getAdminClient();
+      if (client) {
+        await createHarvestLogger(client, null).warning(
+          'Document non récupéré (destination refusée)',
+          { type: 'destination_blocked', url: error.url, reason: error.message, origin: 'document-proxy' }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
     console.error('❌ Erreur proxy:', error);
     
     return new Response(
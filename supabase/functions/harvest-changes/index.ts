@@ -0,0 +1,136 @@
+/*
+  # Harvest Changes Function
+
+  1. Purpose
+    - Détection des changements pour les exécutions menées côté navigateur (OpenAI, import JSON)
+    - Compare chaque url_doc au registre harvested_documents : requête conditionnelle
+      (ETag / Last-Modified) puis empreinte SHA-256 du contenu si nécessaire
+    - Classe les documents en new / updated / unchanged et alimente document_changes ; une extraction
+      OpenAI ou un import JSON peut être partiel : aucune disparition n'en est déduite
+
+  2. Politeness
+    - Respecte robots.txt et le délai configuré (delay_between_requests / Crawl-delay)
+
+  3. Security
+    - Session utilisateur requise (Authorization: Bearer <jeton>)
+    - La source et l'exécution doivent exister ; exécution rattachée à la source
+    - Seules les URL des domaines de la source (et du secret PROXY_ALLOWED_DOMAINS) sont vérifiées,
+      redirections comprises ; adresses privées refusées (_shared/egress.ts)
+*/
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { createHarvestLogger } from "../_shared/harvestLog.ts";
+import { detectChanges } from "../_shared/changeDetection.ts";
+import { CRAWLER_PRODUCT_TOKEN, DEFAULT_USER_AGENT } from "../_shared/crawler.ts";
+import { RobotsGuard } from "../_shared/robots.ts";
+import { isAllowedHost, parseDomainList } from "../_shared/egress.ts";
+import type { HarvestedDocument } from "../_shared/types.ts";
+
+interface ChangesRequest {
+  data_source_id: string;
+  run_id?: string | null;
+  documents: HarvestedDocument[];
+}
+
+const MAX_DOCUMENTS = 2000;
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const body: ChangesRequest = await req.json();
+
+    if (!body.data_source_id || typeof body.data_source_id !== 'string') {
+      return jsonResponse({ error: 'data_source_id manquant ou invalide' }, 400);
+    }
+    if (!Array.isArray(body.documents)) {
+      return jsonResponse({ error: 'documents manquant ou invalide' }, 400);
+    }
+    if (body.documents.length > MAX_DOCUMENTS) {
+      return jsonResponse({ error: `Trop de documents (maximum ${MAX_DOCUMENTS})` }, 413);
+    }
+
+    const supabase = createAdminClient();
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: authData } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!authData.user) {
+      return jsonResponse({ error: 'Session utilisateur requise' }, 401);
+    }
+
+    const { data: dataSource } = await supabase
+      .from('data_sources')
+      .select('id, url')
+      .eq('id', body.data_source_id)
+      .maybeSingle();
+
+    if (!dataSource) {
+      return jsonResponse({ error: 'Source introuvable' }, 404);
+    }
+
+    if (body.run_id) {
+      const { data: run } = await supabase
+        .from('harvest_runs')
+        .select('id')
+        .eq('id', body.run_id)
+        .eq('data_source_id', body.data_source_id)
+        .maybeSingle();
+
+      if (!run) {
+        return jsonResponse({ error: 'Exécution introuvable pour cette source' }, 404);
+      }
+    }
+
+    const domains = parseDomainList([dataSource.url, ...(Deno.env.get('PROXY_ALLOWED_DOMAINS') || '').split(',')]);
+    const isAllowed = (hostname: string) => isAllowedHost(hostname, domains);
+    const documents = body.documents.filter(doc => {
+      const host = typeof doc?.url_doc === 'string' ? hostOf(doc.url_doc) : null;
+      return host !== null && isAllowed(host);
+    });
+    const { data: configs } = await supabase
+      .from('harvesting_configs')
+      .select('delay_between_requests')
+      .eq('data_source_id', body.data_source_id)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    const logger = createHarvestLogger(supabase, body.data_source_id, body.run_id ?? null);
+    if (documents.length < body.documents.length) {
+      await logger.warning(`${body.documents.length - documents.length} document(s) hors des domaines de la source ignoré(s)`, {
+        type: 'change_detection_rejected',
+        domains
+      });
+    }
+
+    const result = await detectChanges(supabase, {
+      dataSourceId: body.data_source_id,
+      runId: body.run_id ?? null,
+      documents,
+      userAgent: DEFAULT_USER_AGENT,
+      delayBetweenRequests: configs?.[0]?.delay_between_requests || 1000,
+      robots: new RobotsGuard(CRAWLER_PRODUCT_TOKEN, DEFAULT_USER_AGENT, supabase),
+      destinationPolicy: { isAllowed },
+      complete: false,
+      onWarning: (message, details) => logger.warning(message, details)
+    });
+
+    return jsonResponse({ success: true, statuses: result.statuses, counts: result.counts });
+
+  } catch (error) {
+    console.error('❌ Erreur détection des changements:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Erreur interne de la détection des changements'
+    }, 500);
+  }
+});
@@ -0,0 +1,68 @@
+/*
+  # Harvest Crawler Function
+
+  1. Purpose
+    - Crawler en largeur côté serveur pour les sources de type `crawler`
+    - Applique les sélecteurs CSS de harvesting_configs (titre, liens, date, contenu)
+    - Respecte max_pages et delay_between_requests
+    - Respecte robots.txt (Disallow, Crawl-delay) via le cache robots_policies
+
+  2. Output
+    - Un harvest_result au format documents / obstacles-globaux / recommandations
+    - Compatible avec HarvestDataParser et HarvestDataImporter sans modification
+    - metadata.compliance : trace robots.txt pour le rapport de conformité
+*/
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { createHarvestLogger } from "../_shared/harvestLog.ts";
+import { HarvestRunError, runCrawlerHarvest } from "../_shared/harvestRunners.ts";
+
+interface CrawlRequest {
+  data_source_id: string;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  let dataSourceId: string | null = null;
+
+  try {
+    const body: CrawlRequest = await req.json();
+    dataSourceId = body.data_source_id;
+
+    if (!dataSourceId || typeof dataSourceId !== 'string') {
+      return jsonResponse({ error: 'data_source_id manquant ou invalide' }, 400);
+    }
+
+    const result = await runCrawlerHarvest(createAdminClient(), dataSourceId);
+
+    return jsonResponse({
+      success: true,
+      run_id: result.runId,
+      harvest_result_id: result.harvestResultId,
+      documentsFound: result.documentsFound,
+      pagesFetched: result.stats.pages_fetched
+    });
+
+  } catch (error) {
+    if (error instanceof HarvestRunError && error.status < 500) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+
+    console.error('❌ Erreur crawler:', error);
+    const message = error instanceof Error ? error.message : 'Erreur interne du crawler';
+
+    if (dataSourceId) {
+      try {
+        await createHarvestLogger(createAdminClient(), dataSourceId).error(`Échec du crawl: ${message}`);
+      } catch {
+        // Le log d'erreur est best-effort
+      }
+    }
+
+    return jsonResponse({ success: false, error: message }, 500);
+  }
+});
@@ -0,0 +1,127 @@
+/*
+  # Harvest Jobs Function
+
+  1. Purpose
+    - Point d'entrée de la file harvest_jobs pour le front
+    - enqueue : met des sources en file (un seul job actif par source)
+    - cancel / pause / resume : changent l'état d'un job ; le worker qui l'exécute
+      s'arrête au prochain point de contrôle (entre deux pages ou deux flux)
+
+  2. Worker
+    - Après un enqueue ou une reprise de jobs exécutés côté serveur (tous sauf 'web_browser'),
+      harvest-worker est relancé sans attendre le prochain passage de pg_cron
+*/
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { createHarvestLogger } from "../_shared/harvestLog.ts";
+import { enqueueJobs, JOB_TRANSITIONS } from "../_shared/jobs.ts";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+type JobsRequest =
+  | { action: 'enqueue'; data_source_ids: string[]; trigger?: 'manual' | 'schedule' }
+  | { action: 'cancel' | 'pause' | 'resume'; job_id: string };
+
+const ACTION_LABELS = {
+  cancel: 'annulé',
+  pause: 'mis en pause',
+  resume: 'remis en file'
+};
+
+function kickWorker(): void {
+  const wakeUp = fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/harvest-worker`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json'
+    },
+    body: '{}'
+  }).catch(error => console.error('❌ Réveil du worker impossible:', error));
+
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(wakeUp);
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const body: JobsRequest = await req.json();
+    const supabase = createAdminClient();
+
+    if (body.action === 'enqueue') {
+      if (!Array.isArray(body.data_source_ids) || body.data_source_ids.length === 0) {
+        return jsonResponse({ error: 'data_source_ids manquant ou vide' }, 400);
+      }
+
+      const result = await enqueueJobs(supabase, body.data_source_ids, body.trigger || 'manual');
+
+      if (result.queued.length > 0) {
+        const { data: serverJobs } = await supabase
+          .from('harvest_jobs')
+          .select('id')
+          .in('id', result.queued)
+          .neq('engine', 'web_browser');
+        if (serverJobs && serverJobs.length > 0) kickWorker();
+      }
+
+      return jsonResponse({ success: true, ...result });
+    }
+
+    const transition = JOB_TRANSITIONS[body.action];
+    if (!transition) {
+      return jsonResponse({ error: 'Action inconnue' }, 400);
+    }
+    if (!body.job_id || typeof body.job_id !== 'string') {
+      return jsonResponse({ error: 'job_id manquant ou invalide' }, 400);
+    }
+
+    // pause_reason : une pause manuelle n'est jamais levée par la fermeture du disjoncteur LLM
+    const updates: Record<string, unknown> = {
+      status: transition.to,
+      pause_reason: transition.to === 'paused' ? 'manual' : null
+    };
+    if (transition.to === 'cancelled') {
+      updates.finished_at = new Date().toISOString();
+    }
+    if (transition.to === 'queued') {
+      // Reprise : le job repart de zéro chez le prochain worker disponible
+      Object.assign(updates, { worker_id: null, started_at: null, heartbeat_at: null });
+    }
+
+    const { data: job, error } = await supabase
+      .from('harvest_jobs')
+      .update(updates)
+      .eq('id', body.job_id)
+      .in('status', transition.from)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Erreur mise à jour du job: ${error.message}`);
+    }
+    if (!job) {
+      return jsonResponse({ error: `Transition impossible depuis l'état actuel du job (${body.action})` }, 409);
+    }
+
+    await createHarvestLogger(supabase, job.data_source_id).info(
+      `Moissonnage ${ACTION_LABELS[body.action]}`,
+      { job_id: job.id, engine: job.engine }
+    );
+
+    if (body.action === 'resume' && job.engine !== 'web_browser') kickWorker();
+
+    return jsonResponse({ success: true, job });
+
+  } catch (error) {
+    console.error('❌ Erreur file de moissonnage:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Erreur interne de la file de moissonnage'
+    }, 500);
+  }
+});
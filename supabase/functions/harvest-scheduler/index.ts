@@ -0,0 +1,105 @@
+/*
+  # Harvest Scheduler Function
+
+  1. Purpose
+    - Appelée par pg_cron (toutes les 15 minutes) ou manuellement
+    - Trouve les harvesting_configs échues (next_run_at <= now) dont la source est active,
+      parmi les configurations les plus récentes de chaque source (latest_harvesting_configs)
+    - Réserve chaque configuration (last_run_at / next_run_at) puis met la source dans harvest_jobs
+
+  2. Execution
+    - Les jobs web (exploration OpenAI), crawler et sitemap sont exécutés par harvest-worker
+    - Les jobs web_browser (fournisseur LLM local ou fixtures) attendent le worker du navigateur
+
+  3. Concurrency
+    - La réservation est conditionnée à l'ancienne valeur de next_run_at : un même créneau
+      n'est déclenché qu'une fois, même si le planificateur local tourne en parallèle
+*/
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { createHarvestLogger } from "../_shared/harvestLog.ts";
+import { enqueueJobs } from "../_shared/jobs.ts";
+import { computeNextRunAt } from "../_shared/schedule.ts";
+
+interface DueConfig {
+  id: string;
+  data_source_id: string;
+  frequency: string;
+  next_run_at: string;
+  data_sources: { id: string; name: string; type: string; status: string } | null;
+}
+
+const MAX_QUEUED_PER_RUN = 20;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const now = new Date();
+
+    const { data, error } = await supabase
+      .rpc('latest_harvesting_configs')
+      .neq('frequency', 'manual')
+      .lte('next_run_at', now.toISOString())
+      .eq('data_sources.status', 'active')
+      .select('id, data_source_id, frequency, next_run_at, data_sources!inner (id, name, type, status)')
+      .order('next_run_at', { ascending: true })
+      .limit(MAX_QUEUED_PER_RUN);
+
+    if (error) {
+      throw new Error(`Erreur lecture des configurations: ${error.message}`);
+    }
+
+    const queued: string[] = [];
+    const skipped: { data_source_id: string; reason: string }[] = [];
+
+    for (const config of (data || []) as unknown as DueConfig[]) {
+      const source = config.data_sources;
+      if (!source) continue;
+
+      // Réserver le créneau : échoue si un autre planificateur l'a déjà pris
+      const { data: claimed } = await supabase
+        .from('harvesting_configs')
+        .update({
+          last_run_at: now.toISOString(),
+          next_run_at: computeNextRunAt(config.frequency, now)
+        })
+        .eq('id', config.id)
+        .eq('next_run_at', config.next_run_at)
+        .select('id');
+
+      if (!claimed || claimed.length === 0) continue;
+
+      const result = await enqueueJobs(supabase, [source.id], 'schedule');
+      queued.push(...result.queued);
+      skipped.push(...result.skipped);
+
+      await createHarvestLogger(supabase, source.id).info(
+        result.queued.length > 0
+          ? `Moissonnage planifié (${config.frequency}) mis en file pour ${source.name}`
+          : `Moissonnage planifié (${config.frequency}) ignoré pour ${source.name}: ${result.skipped[0]?.reason}`,
+        { scheduled_for: config.next_run_at }
+      );
+    }
+
+    console.log('⏰ Planificateur:', { queued: queued.length, skipped: skipped.length });
+
+    return jsonResponse({
+      success: true,
+      checked_at: now.toISOString(),
+      queued,
+      skipped
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur planificateur:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Erreur interne du planificateur'
+    }, 500);
+  }
+});
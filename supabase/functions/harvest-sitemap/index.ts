@@ -0,0 +1,70 @@
+/*
+  # Harvest Sitemap Function
+
+  1. Purpose
+    - Moissonnage sans LLM pour les sources de type `sitemap`
+    - Lit sitemap.xml (gzippés et index imbriqués compris) et flux RSS / Atom
+    - Découverte : URL de la source si c'est un flux, sinon lignes Sitemap de robots.txt,
+      <link rel="alternate"> de la page d'accueil, puis chemins usuels (/sitemap.xml, /feed...)
+
+  2. Filters
+    - selectors.documentFormats appliqué à l'extension des URLs listées
+    - selectors.dateRange appliqué à lastmod / pubDate / updated
+
+  3. Output
+    - Un harvest_result au format documents / obstacles-globaux / recommandations
+*/
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { createHarvestLogger } from "../_shared/harvestLog.ts";
+import { HarvestRunError, runSitemapHarvest } from "../_shared/harvestRunners.ts";
+
+interface SitemapRequest {
+  data_source_id: string;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  let dataSourceId: string | null = null;
+
+  try {
+    const body: SitemapRequest = await req.json();
+    dataSourceId = body.data_source_id;
+
+    if (!dataSourceId || typeof dataSourceId !== 'string') {
+      return jsonResponse({ error: 'data_source_id manquant ou invalide' }, 400);
+    }
+
+    const result = await runSitemapHarvest(createAdminClient(), dataSourceId);
+
+    return jsonResponse({
+      success: true,
+      run_id: result.runId,
+      harvest_result_id: result.harvestResultId,
+      documentsFound: result.documentsFound,
+      feedsFetched: (result.stats.feeds_fetched as string[]).length
+    });
+
+  } catch (error) {
+    if (error instanceof HarvestRunError && error.status < 500) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+
+    console.error('❌ Erreur sitemap:', error);
+    const message = error instanceof Error ? error.message : 'Erreur interne de la lecture des flux';
+
+    if (dataSourceId) {
+      try {
+        await createHarvestLogger(createAdminClient(), dataSourceId).error(`Échec de la lecture des flux: ${message}`);
+      } catch {
+        // Le log d'erreur est best-effort
+      }
+    }
+
+    return jsonResponse({ success: false, error: message }, 500);
+  }
+});
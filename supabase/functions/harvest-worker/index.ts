@@ -0,0 +1,173 @@
+/*
+  # Harvest Worker Function
+
+  1. Purpose
+    - Réserve atomiquement les jobs web / crawler / sitemap en file (claim_harvest_job) ;
+      les jobs 'web_browser' (fournisseur LLM local ou fixtures) restent au navigateur
+    - Exécute le moteur correspondant avec un point de contrôle entre chaque requête ;
+      le moteur 'web' appelle OpenAI via _shared/llmCore.ts (limite de débit, disjoncteur, budget)
+    - Clôture le job (done / failed) ; un job annulé ou mis en pause n'est pas écrasé
+    - Chaque job produit une exécution harvest_runs (trigger manual / scheduled)
+
+  2. Invocation
+    - pg_cron chaque minute, et harvest-jobs après chaque mise en file
+    - HARVEST_WORKER_CONCURRENCY files d'exécution parallèles (3 par défaut), chacune traitant
+      les jobs un par un jusqu'à épuisement de la file ou du budget de temps
+    - HARVEST_PER_HOST_LIMIT jobs en running au plus par hôte (1 par défaut), tous workers confondus
+
+  3. Échéance
+    - Les moteurs s'arrêtent au prochain point de contrôle une fois le budget de temps écoulé,
+      l'appel LLM en cours est interrompu ; le job est remis en file pour le prochain passage
+    - Après MAX_ATTEMPTS interruptions, le job passe en failed
+    - Une file en erreur n'arrête pas les autres ; son job est clôturé individuellement
+
+  4. Disjoncteur LLM
+    - Un job 'web' refusé par le disjoncteur ouvert est mis en pause (pause_reason circuit_breaker),
+      sans compter de tentative ; llm_circuit_release_probe et la fermeture du disjoncteur le reprennent
+*/
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { createHarvestLogger } from "../_shared/harvestLog.ts";
+import { runCrawlerHarvest, runSitemapHarvest, runWebHarvest } from "../_shared/harvestRunners.ts";
+import { createJobControl, finishJob, pauseJobForCircuit, requeueJob, SERVER_ENGINES } from "../_shared/jobs.ts";
+import { LLMCallError } from "../_shared/llmCore.ts";
+import { triggerForJob } from "../_shared/harvestRuns.ts";
+
+// Au-delà, on laisse les jobs restants au prochain appel (limite de durée des fonctions edge)
+const TIME_BUDGET_MS = 100 * 1000;
+// Pas de nouveau job sans ce temps devant soi : il serait aussitôt interrompu
+const MIN_JOB_TIME_MS = 20 * 1000;
+// Au-delà, un job toujours interrompu par l'échéance est abandonné (claim_harvest_job incrémente attempts)
+const MAX_ATTEMPTS = 3;
+const CONCURRENCY = Math.max(1, Number(Deno.env.get('HARVEST_WORKER_CONCURRENCY') || 3));
+const PER_HOST_LIMIT = Math.max(1, Number(Deno.env.get('HARVEST_PER_HOST_LIMIT') || 1));
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const workerId = `edge-${crypto.randomUUID()}`;
+    const startedAt = Date.now();
+    const processed: { job_id: string; status: string }[] = [];
+    const deadline = new AbortController();
+    const deadlineTimer = setTimeout(
+      () => deadline.abort(new Error('Budget de temps du worker écoulé')),
+      TIME_BUDGET_MS
+    );
+
+    // Job interrompu par l'échéance : remis en file, ou en échec après MAX_ATTEMPTS interruptions
+    const releaseInterruptedJob = async (job: { id: string; data_source_id: string; engine: string; attempts: number }) => {
+      if (job.attempts >= MAX_ATTEMPTS) {
+        const message = `Durée maximale dépassée (${job.attempts} tentative(s))`;
+        await finishJob(supabase, job.id, 'failed', { error_message: message });
+        await createHarvestLogger(supabase, job.data_source_id).error(`Échec du job de moissonnage: ${message}`, {
+          job_id: job.id,
+          engine: job.engine
+        });
+        processed.push({ job_id: job.id, status: 'failed' });
+        return;
+      }
+
+      // Annulé ou mis en pause au même moment : l'état posé par harvest-jobs est conservé
+      if (!await requeueJob(supabase, job.id)) {
+        processed.push({ job_id: job.id, status: 'stopped' });
+        return;
+      }
+      await createHarvestLogger(supabase, job.data_source_id).warning('Job interrompu par l\'échéance du worker, remis en file', {
+        job_id: job.id,
+        engine: job.engine,
+        attempts: job.attempts
+      });
+      processed.push({ job_id: job.id, status: 'requeued' });
+    };
+
+    // Une file d'exécution : réserve et exécute des jobs jusqu'à épuisement ; un échec n'arrête pas les autres files
+    const lane = async () => {
+      while (TIME_BUDGET_MS - (Date.now() - startedAt) >= MIN_JOB_TIME_MS) {
+        const { data: claimed, error } = await supabase.rpc('claim_harvest_job', {
+          p_worker_id: workerId,
+          p_engines: SERVER_ENGINES,
+          p_per_host_limit: PER_HOST_LIMIT
+        });
+
+        if (error) {
+          throw new Error(`Erreur réservation: ${error.message}`);
+        }
+
+        const job = claimed?.[0];
+        if (!job) break;
+
+        console.log('👷 Job réservé:', { id: job.id, engine: job.engine, data_source_id: job.data_source_id });
+        const jobControl = createJobControl(supabase, job.id);
+        const shouldStop = async () => deadline.signal.aborted || await jobControl();
+
+        try {
+          const run = job.engine === 'web' ? runWebHarvest : job.engine === 'sitemap' ? runSitemapHarvest : runCrawlerHarvest;
+          const result = await run(supabase, job.data_source_id, {
+            shouldStop,
+            signal: deadline.signal,
+            trigger: triggerForJob(job.trigger),
+            jobId: job.id
+          });
+
+          if (result.stopped && deadline.signal.aborted) {
+            await releaseInterruptedJob(job);
+            continue;
+          }
+          if (result.stopped) {
+            // Annulé ou mis en pause : l'état a déjà été posé par harvest-jobs
+            processed.push({ job_id: job.id, status: 'stopped' });
+            continue;
+          }
+
+          await finishJob(supabase, job.id, 'done', { harvest_result_id: result.harvestResultId });
+          processed.push({ job_id: job.id, status: 'done' });
+        } catch (runError) {
+          if (runError instanceof LLMCallError && runError.code === 'circuit_open') {
+            const paused = await pauseJobForCircuit(supabase, job.id, job.attempts);
+            if (paused) {
+              await createHarvestLogger(supabase, job.data_source_id).warning('Job mis en pause : disjoncteur LLM ouvert', {
+                job_id: job.id,
+                engine: job.engine,
+                retry_after: runError.retryAfter
+              });
+            }
+            processed.push({ job_id: job.id, status: paused ? 'paused' : 'stopped' });
+            continue;
+          }
+
+          const message = runError instanceof Error ? runError.message : 'Erreur inconnue';
+          await finishJob(supabase, job.id, 'failed', { error_message: message });
+          await createHarvestLogger(supabase, job.data_source_id).error(`Échec du job de moissonnage: ${message}`, {
+            job_id: job.id,
+            engine: job.engine
+          });
+          processed.push({ job_id: job.id, status: 'failed' });
+        }
+      }
+    };
+
+    const lanes = await Promise.allSettled(Array.from({ length: CONCURRENCY }, () => lane()));
+    clearTimeout(deadlineTimer);
+
+    const laneErrors = lanes
+      .filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected')
+      .map(outcome => outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason));
+    for (const laneError of laneErrors) {
+      console.error('❌ Erreur d\'une file du worker:', laneError);
+    }
+
+    return jsonResponse({ success: laneErrors.length === 0, worker_id: workerId, processed, errors: laneErrors });
+
+  } catch (error) {
+    console.error('❌ Erreur worker:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Erreur interne du worker'
+    }, 500);
+  }
+});
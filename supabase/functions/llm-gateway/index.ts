@@ -0,0 +1,211 @@
+/*
+  # LLM Gateway Function
+
+  1. Purpose
+    - Seul détenteur de la clé OpenAI (secret OPENAI_API_KEY) : le navigateur n'appelle plus l'API
+    - Opérations : harvest (chat), analyze et classify (chat, JSON par défaut), embed (embeddings)
+    - status : configuration du serveur et consommation du jour, sans consommer de quota
+
+  2. Security
+    - Authentification obligatoire : jeton d'un utilisateur Supabase (session anonyme acceptée),
+      la clé anon seule est refusée (401)
+    - Quotas journaliers par utilisateur (llm_quotas / llm_quota_usage) : 429 une fois atteints
+    - Plafonds partagés (llm_shared_quotas) : tout le projet, et l'ensemble des sessions anonymes
+      d'une même adresse IP ; ouvrir une nouvelle session anonyme ne remet pas le compteur à zéro.
+      L'adresse retenue est celle ajoutée par la passerelle, jamais une valeur fournie par le client
+    - Modèles limités à OPENAI_MODEL_NAME et LLM_ALLOWED_MODELS ; max_tokens plafonné par opération
+    - Débit partagé par tous les appelants (llm_rate_window) : LLM_REQUESTS_PER_MINUTE (60) et
+      LLM_TOKENS_PER_MINUTE (90 000) ; au-delà, 429 (code rate_limited) avec Retry-After
+    - Consommation (llm_usage) écrite ici à partir du usage renvoyé par OpenAI, coût calculé côté serveur ;
+      le navigateur ne fournit que les rattachements (context : source, exécution, résultat)
+    - Débit, disjoncteur et consommation partagés avec les moissonnages serveur (_shared/llmCore.ts)
+
+  3. Disjoncteur (llm_circuit_breaker)
+    - Après LLM_BREAKER_THRESHOLD réponses 401 / 429 / 5xx consécutives d'OpenAI (5 par défaut),
+      les appels sont refusés (503, code circuit_open) pendant LLM_BREAKER_COOLDOWN_SECONDS (120 s)
+      et les jobs 'web' en file sont mis en pause
+    - Refroidissement écoulé : llm_circuit_release_probe (pg_cron) remet un seul job en file, dont l'appel
+      est l'appel d'essai (half_open) ; un succès referme le disjoncteur et reprend les autres jobs
+*/
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import {
+  allowedChatModels,
+  callLLM,
+  DEFAULT_CHAT_MODEL,
+  isChatOperation,
+  LLMCallError,
+  type LLMRequest,
+  type UsageContext
+} from "../_shared/llmCore.ts";
+
+type Operation = LLMRequest['operation'] | 'status';
+
+interface GatewayRequest extends Omit<LLMRequest, 'operation'> {
+  operation: Operation;
+  context?: UsageContext;
+}
+
+let adminClient: ReturnType<typeof createAdminClient> | null = null;
+
+function getAdminClient() {
+  if (!adminClient) {
+    adminClient = createAdminClient();
+  }
+  return adminClient;
+}
+
+// Adresse du client : dernier maillon de X-Forwarded-For, ajouté par la passerelle Supabase.
+// Les maillons précédents (et X-Real-IP) peuvent être fournis par le client lui-même
+function clientIp(req: Request): string | null {
+  const hops = (req.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - 1] ?? null;
+}
+
+// Message de refus selon le plafond atteint
+const QUOTA_MESSAGES: Record<string, string> = {
+  user: 'Quota LLM journalier atteint',
+  anonymous_ip: 'Quota LLM journalier des sessions anonymes atteint pour cette adresse',
+  project: 'Plafond LLM journalier du projet atteint'
+};
+
+async function authenticate(req: Request) {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await getAdminClient().auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const user = await authenticate(req);
+    if (!user) {
+      return jsonResponse({ success: false, error: 'Authentification requise (session utilisateur Supabase)' }, 401);
+    }
+
+    const body: GatewayRequest = await req.json();
+    const supabase = getAdminClient();
+
+    if (body.operation === 'status') {
+      const [{ data: quotas }, { data: usage }, { data: circuit }] = await Promise.all([
+        supabase
+          .from('llm_quotas')
+          .select('user_id, daily_request_limit, daily_token_limit')
+          .or(`user_id.eq.${user.id},user_id.is.null`),
+        supabase
+          .from('llm_quota_usage')
+          .select('request_count, token_count')
+          .eq('user_id', user.id)
+          .eq('usage_date', new Date().toISOString().slice(0, 10))
+          .maybeSingle(),
+        supabase
+          .from('llm_circuit_breaker')
+          .select('state, consecutive_failures, last_status, last_error, opened_at, retry_at')
+          .eq('id', 1)
+          .maybeSingle()
+      ]);
+      const quota = quotas?.find(row => row.user_id === user.id) ?? quotas?.[0];
+
+      return jsonResponse({
+        success: true,
+        configured: !!Deno.env.get('OPENAI_API_KEY'),
+        model: DEFAULT_CHAT_MODEL,
+        quota: {
+          request_count: usage?.request_count ?? 0,
+          token_count: usage?.token_count ?? 0,
+          request_limit: quota?.daily_request_limit ?? null,
+          token_limit: quota?.daily_token_limit ?? null
+        },
+        circuit: circuit ?? null
+      });
+    }
+
+    const isChat = isChatOperation(body.operation);
+    if (!isChat && body.operation !== 'embed') {
+      return jsonResponse({ success: false, error: `Opération inconnue: ${body.operation}` }, 400);
+    }
+    if (isChat && (!Array.isArray(body.messages) || body.messages.length === 0)) {
+      return jsonResponse({ success: false, error: 'messages manquant ou vide' }, 400);
+    }
+    if (body.operation === 'embed' && (!body.input || typeof body.input !== 'string')) {
+      return jsonResponse({ success: false, error: 'input manquant ou invalide' }, 400);
+    }
+
+    const chatModel = body.model || DEFAULT_CHAT_MODEL;
+    if (isChat && !allowedChatModels().includes(chatModel)) {
+      return jsonResponse({ success: false, error: `Modèle non autorisé: ${chatModel}` }, 400);
+    }
+
+    const { context, ...request } = body;
+    const quotaScope = { p_client_ip: clientIp(req), p_anonymous: !!user.is_anonymous };
+
+    const result = await callLLM(supabase, { ...request, operation: body.operation, model: chatModel }, {
+      userId: user.id,
+      context,
+      // Réserver la requête dans le quota du jour (utilisateur, projet, adresse IP des sessions anonymes) avant d'appeler OpenAI
+      reserve: async () => {
+        const { data: quota, error: quotaError } = await supabase.rpc('consume_llm_quota', { p_user_id: user.id, ...quotaScope });
+        if (quotaError) {
+          throw new Error(`Vérification du quota impossible: ${quotaError.message}`);
+        }
+        if (!quota?.allowed) {
+          console.warn('🚦 Quota LLM atteint pour', user.id, quota);
+          throw new LLMCallError(QUOTA_MESSAGES[quota?.limited_by] ?? QUOTA_MESSAGES.user, 429, null, null, { quota });
+        }
+        console.log(`🧠 ${body.operation} pour ${user.id} (${quota.request_count}/${quota.request_limit} requêtes)`);
+      },
+      onTokens: async (tokens) => {
+        const { error: recordError } = await supabase.rpc('record_llm_tokens', { p_user_id: user.id, p_tokens: tokens, ...quotaScope });
+        if (recordError) {
+          console.error('❌ Enregistrement des tokens impossible:', recordError.message);
+        }
+      }
+    });
+
+    if (body.operation === 'embed') {
+      return jsonResponse({
+        success: true,
+        embedding: result.embedding,
+        model: result.model,
+        usage: result.usage,
+        cost: result.cost
+      });
+    }
+
+    return jsonResponse({
+      success: true,
+      content: result.content,
+      model: result.model,
+      usage: result.usage,
+      cost: result.cost,
+      finish_reason: result.finishReason
+    });
+
+  } catch (error) {
+    if (error instanceof LLMCallError) {
+      return jsonResponse({
+        success: false,
+        error: error.message,
+        code: error.code,
+        retry_after: error.retryAfter,
+        ...error.details
+      }, error.status);
+    }
+
+    console.error('❌ Erreur passerelle LLM:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Erreur interne de la passerelle LLM'
+    }, 500);
+  }
+});
@@ -0,0 +1,122 @@
+/*
+  # Source Credentials Function
+
+  1. Purpose
+    - Saisie des identifiants d'une source authentifiée (basic, bearer, en-têtes, formulaire de connexion)
+    - save : chiffre et enregistre les identifiants (remplace les précédents)
+    - delete : supprime les identifiants et la session
+    - test : se connecte (form_login) puis charge l'URL de la source avec les identifiants
+
+  2. Security
+    - Aucun secret n'est jamais renvoyé : les réponses ne contiennent que le statut
+      (data_source_credential_status)
+    - Clé de chiffrement : secret edge CREDENTIALS_ENCRYPTION_KEY
+*/
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { createHarvestLogger } from "../_shared/harvestLog.ts";
+import { DEFAULT_USER_AGENT } from "../_shared/crawler.ts";
+import { loadSourceAuth, parseCredentials, saveCredentials } from "../_shared/credentials.ts";
+import { guardedFetch } from "../_shared/egress.ts";
+
+type CredentialsRequest =
+  | { action: 'save'; data_source_id: string; credentials: unknown }
+  | { action: 'delete' | 'test'; data_source_id: string };
+
+const TEST_TIMEOUT_MS = 30000;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const body: CredentialsRequest = await req.json();
+    if (!body.data_source_id || typeof body.data_source_id !== 'string') {
+      return jsonResponse({ error: 'data_source_id manquant ou invalide' }, 400);
+    }
+
+    const supabase = createAdminClient();
+    const { data: dataSource, error: sourceError } = await supabase
+      .from('data_sources')
+      .select('id, name, url')
+      .eq('id', body.data_source_id)
+      .maybeSingle();
+
+    if (sourceError) throw new Error(sourceError.message);
+    if (!dataSource) {
+      return jsonResponse({ error: 'Source introuvable' }, 404);
+    }
+
+    const logger = createHarvestLogger(supabase, dataSource.id);
+    const readStatus = async () => {
+      const { data } = await supabase
+        .from('data_source_credential_status')
+        .select('*')
+        .eq('data_source_id', dataSource.id)
+        .maybeSingle();
+      return data;
+    };
+
+    if (body.action === 'save') {
+      let credentials;
+      try {
+        credentials = parseCredentials(body.credentials);
+      } catch (validationError) {
+        return jsonResponse({ error: validationError instanceof Error ? validationError.message : 'Identifiants invalides' }, 400);
+      }
+
+      await saveCredentials(supabase, dataSource.id, credentials);
+      await logger.info(`Identifiants enregistrés pour ${dataSource.name}`, { auth_type: credentials.type });
+      return jsonResponse({ success: true, status: await readStatus() });
+    }
+
+    if (body.action === 'delete') {
+      const { error } = await supabase
+        .from('data_source_credentials')
+        .delete()
+        .eq('data_source_id', dataSource.id);
+      if (error) throw new Error(error.message);
+
+      await logger.info(`Identifiants supprimés pour ${dataSource.name}`);
+      return jsonResponse({ success: true, status: null });
+    }
+
+    if (body.action === 'test') {
+      const auth = await loadSourceAuth(supabase, dataSource.id, dataSource.url, DEFAULT_USER_AGENT);
+      if (!auth) {
+        return jsonResponse({ error: 'Aucun identifiant enregistré pour cette source' }, 404);
+      }
+
+      try {
+        // Connexion neuve pour valider le formulaire, sans réutiliser une session en cache
+        if (auth.authType === 'form_login') await auth.renew();
+
+        // Redirections vérifiées une à une : identifiants envoyés au seul hôte de la source
+        const response = await guardedFetch(dataSource.url, {
+          headersFor: async (url) => ({ ...await auth.headersFor(url), 'User-Agent': DEFAULT_USER_AGENT }),
+          signal: AbortSignal.timeout(TEST_TIMEOUT_MS)
+        });
+        await response.body?.cancel();
+
+        return jsonResponse({
+          success: true,
+          test: { ok: response.ok, http_status: response.status },
+          status: await readStatus()
+        });
+      } catch (testError) {
+        return jsonResponse({
+          success: true,
+          test: { ok: false, http_status: null, error: testError instanceof Error ? testError.message : 'Erreur inconnue' },
+          status: await readStatus()
+        });
+      }
+    }
+
+    return jsonResponse({ error: 'Action inconnue' }, 400);
+  } catch (error) {
+    console.error('❌ Erreur identifiants de source:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Erreur interne' }, 500);
+  }
+});
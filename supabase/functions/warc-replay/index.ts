@@ -0,0 +1,157 @@
+/*
+  # WARC Replay Function
+
+  1. Purpose
+    - Copie archivée d'une page ou d'un document capturé pendant une exécution de moissonnage
+      (data_sources.warc_capture), servie même si l'URL d'origine n'existe plus
+    - GET ?record_id=... : contenu de l'enregistrement warc_records, avec son Content-Type d'origine
+    - GET ?file_id=... : fichier .warc.gz complet de warc_files (export, outils WARC usuels)
+
+  2. Output
+    - X-Archive-Date (WARC-Date), X-Archive-Target-Uri, X-Archive-Record-Id, X-Archive-Run-Id,
+      X-Archive-Status (statut HTTP d'origine), X-Archive-Payload-Sha256, X-Archive-Truncated
+
+  3. Security
+    - Enable RLS (handled by Supabase automatically)
+    - CORS limité aux origines de l'application (secret APP_ORIGINS)
+    - Content-Security-Policy: sandbox : une page archivée ne peut ni exécuter de script
+      ni agir avec l'origine de l'application
+*/
+
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { allowedOrigins, restrictedCorsHeaders } from "../_shared/cors.ts";
+import { WARC_BUCKET, parseHttpResponse, readWarcRecord } from "../_shared/warc.ts";
+
+const SIGNED_URL_SECONDS = 60;
+const ARCHIVE_HEADERS = [
+  'X-Archive-Date',
+  'X-Archive-Target-Uri',
+  'X-Archive-Record-Id',
+  'X-Archive-Run-Id',
+  'X-Archive-Status',
+  'X-Archive-Payload-Sha256',
+  'X-Archive-Truncated'
+];
+// En-têtes d'origine repris sur la copie servie
+const REPLAYED_HEADERS = ['content-type', 'last-modified', 'etag', 'content-language'];
+
+Deno.serve(async (req: Request) => {
+  const corsHeaders = {
+    ...restrictedCorsHeaders(req),
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+    "Access-Control-Expose-Headers": [...ARCHIVE_HEADERS, 'Content-Disposition'].join(', '),
+  };
+
+  const json = (body: unknown, status: number) => new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+  const origin = req.headers.get('Origin');
+  if (origin && !allowedOrigins().includes(origin)) {
+    return json({ error: 'Origine non autorisée' }, 403);
+  }
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (req.method !== "GET") {
+    return json({ error: 'Méthode non autorisée' }, 405);
+  }
+
+  try {
+    const params = new URL(req.url).searchParams;
+    const recordId = params.get('record_id');
+    const fileId = params.get('file_id');
+    const supabase = createAdminClient();
+
+    if (fileId) {
+      const { data: file } = await supabase
+        .from('warc_files')
+        .select('storage_path')
+        .eq('id', fileId)
+        .maybeSingle();
+
+      if (!file) {
+        return json({ error: 'Fichier WARC introuvable' }, 404);
+      }
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from(WARC_BUCKET)
+        .createSignedUrl(file.storage_path, SIGNED_URL_SECONDS);
+
+      if (signError || !signed) {
+        throw new Error(`Fichier WARC illisible: ${signError?.message ?? 'URL signée manquante'}`);
+      }
+
+      const stored = await fetch(signed.signedUrl);
+      if (!stored.ok) {
+        await stored.body?.cancel();
+        throw new Error(`Fichier WARC illisible: ${stored.status}`);
+      }
+
+      return new Response(stored.body, {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/warc',
+          'Content-Disposition': `attachment; filename="${file.storage_path.split('/').pop()}"`,
+          ...(stored.headers.get('content-length') ? { 'Content-Length': stored.headers.get('content-length')! } : {})
+        }
+      });
+    }
+
+    if (!recordId) {
+      return json({ error: 'record_id ou file_id manquant' }, 400);
+    }
+
+    const { data: entry } = await supabase
+      .from('warc_records')
+      .select('*, warc_files(storage_path)')
+      .eq('id', recordId)
+      .maybeSingle();
+
+    if (!entry || !entry.warc_files) {
+      return json({ error: 'Copie archivée introuvable' }, 404);
+    }
+
+    console.log('🗃️ Copie archivée demandée:', entry.target_uri, entry.captured_at);
+    const record = await readWarcRecord(supabase, entry.warc_files.storage_path, entry.record_offset, entry.record_length);
+
+    let payload = record.block;
+    const replayed: Record<string, string> = {};
+    if (entry.record_type === 'response') {
+      const archived = parseHttpResponse(record.block);
+      payload = archived.payload;
+      for (const [name, value] of archived.headers) {
+        if (REPLAYED_HEADERS.includes(name)) replayed[name] = value;
+      }
+    } else {
+      replayed['content-type'] = record.headers['content-type'] ?? 'application/octet-stream';
+    }
+
+    return new Response(payload, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        ...replayed,
+        'Content-Type': replayed['content-type'] ?? 'application/octet-stream',
+        'Content-Length': String(payload.byteLength),
+        'Content-Security-Policy': 'sandbox',
+        'Cache-Control': 'private, max-age=3600',
+        'X-Archive-Date': record.headers['warc-date'] ?? entry.captured_at,
+        'X-Archive-Target-Uri': entry.target_uri,
+        'X-Archive-Record-Id': record.headers['warc-record-id'] ?? entry.record_id,
+        'X-Archive-Run-Id': entry.run_id,
+        'X-Archive-Status': String(entry.http_status ?? ''),
+        'X-Archive-Payload-Sha256': entry.payload_sha256 ?? '',
+        'X-Archive-Truncated': String(entry.truncated)
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur warc-replay:', error);
+    return json({ success: false, error: error instanceof Error ? error.message : 'Erreur interne' }, 500);
+  }
+});
@@ -0,0 +1,45 @@
+/*
+  # Cache robots.txt par hôte
+
+  1. Nouvelle Table
+    - `robots_policies` - Dernier robots.txt lu pour chaque hôte moissonné
+      - `host` (text, clé primaire) - Hôte (ex: www.insee.fr)
+      - `robots_url` (text) - URL du fichier robots.txt
+      - `status` (text) - ok / missing (4xx, tout autorisé) / unreachable (5xx ou réseau, tout interdit)
+      - `http_status` (integer) - Code HTTP obtenu
+      - `content` (text) - Contenu brut du fichier
+      - `crawl_delay` (numeric) - Crawl-delay applicable à notre crawler, en secondes
+      - `sitemaps` (jsonb) - URLs déclarées par les lignes Sitemap
+      - `fetched_at` / `expires_at` (timestamptz) - Fenêtre de validité du cache (24h)
+
+  2. Sécurité
+    - RLS activé, politique d'accès public comme les autres tables
+*/
+
+-- =====================================================
+-- TABLE: robots_policies
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.robots_policies (
+    host text PRIMARY KEY,
+    robots_url text NOT NULL,
+    status text NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'missing', 'unreachable')),
+    http_status integer,
+    content text DEFAULT '',
+    crawl_delay numeric,
+    sitemaps jsonb DEFAULT '[]',
+    fetched_at timestamptz DEFAULT now(),
+    expires_at timestamptz NOT NULL
+);
+
+-- Index pour purger / rafraîchir les entrées expirées
+CREATE INDEX IF NOT EXISTS idx_robots_policies_expires_at ON public.robots_policies(expires_at);
+
+-- RLS et politiques
+ALTER TABLE public.robots_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to robots_policies"
+    ON public.robots_policies
+    FOR ALL
+    TO public
+    USING (true)
+    WITH CHECK (true);
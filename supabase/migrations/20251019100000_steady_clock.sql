@@ -0,0 +1,96 @@
+/*
+  # Planification des moissonnages (harvesting_configs.frequency)
+
+  1. New Columns
+    - `next_run_at` (timestamptz) - Prochaine exécution planifiée, NULL en mode manuel
+    - `last_run_at` (timestamptz) - Dernier déclenchement par le planificateur
+
+  2. Functions
+    - `compute_next_run_at(frequency, from)` - daily +1 jour, weekly +7 jours, monthly +1 mois, manual NULL
+    - Trigger : next_run_at recalculé à la création et à chaque changement de fréquence
+
+  3. Scheduling
+    - Si pg_cron et pg_net sont disponibles, la fonction edge harvest-scheduler est appelée toutes les 15 minutes
+    - URL et clé lues dans app.settings.supabase_url / app.settings.service_role_key
+    - Sinon, le planificateur local du front (VITE_LOCAL_SCHEDULER=true) prend le relais
+*/
+
+-- Ajouter les colonnes de planification de manière sécurisée
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'harvesting_configs' AND column_name = 'next_run_at'
+  ) THEN
+    ALTER TABLE harvesting_configs ADD COLUMN next_run_at timestamptz DEFAULT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'harvesting_configs' AND column_name = 'last_run_at'
+  ) THEN
+    ALTER TABLE harvesting_configs ADD COLUMN last_run_at timestamptz DEFAULT NULL;
+  END IF;
+END $$;
+
+-- Calcul de la prochaine exécution (miroir de computeNextRunAt côté TypeScript)
+CREATE OR REPLACE FUNCTION public.compute_next_run_at(frequency text, from_time timestamptz DEFAULT now())
+RETURNS timestamptz AS $$
+BEGIN
+    RETURN CASE frequency
+        WHEN 'daily' THEN from_time + interval '1 day'
+        WHEN 'weekly' THEN from_time + interval '7 days'
+        WHEN 'monthly' THEN from_time + interval '1 month'
+        ELSE NULL
+    END;
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Recalculer next_run_at quand la fréquence change
+CREATE OR REPLACE FUNCTION public.schedule_harvesting_config()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.frequency IS DISTINCT FROM OLD.frequency THEN
+        NEW.next_run_at = public.compute_next_run_at(NEW.frequency, now());
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS schedule_harvesting_configs ON public.harvesting_configs;
+CREATE TRIGGER schedule_harvesting_configs
+    BEFORE INSERT OR UPDATE ON public.harvesting_configs
+    FOR EACH ROW
+    EXECUTE FUNCTION schedule_harvesting_config();
+
+-- Planifier les configurations existantes
+UPDATE public.harvesting_configs
+SET next_run_at = public.compute_next_run_at(frequency, now())
+WHERE next_run_at IS NULL AND frequency <> 'manual';
+
+-- Index pour la recherche des configurations échues
+CREATE INDEX IF NOT EXISTS idx_harvesting_configs_next_run_at
+ON public.harvesting_configs (next_run_at)
+WHERE next_run_at IS NOT NULL;
+
+-- Déclenchement périodique via pg_cron + pg_net lorsque ces extensions sont installées
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'harvest-scheduler',
+      '*/15 * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := current_setting('app.settings.supabase_url', true) || '/functions/v1/harvest-scheduler',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+          ),
+          body := '{}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END $$;
@@ -0,0 +1,121 @@
+/*
+  # File de moissonnage persistante (harvest_jobs)
+
+  1. Nouvelle Table
+    - `harvest_jobs` - Un moissonnage demandé pour une source
+      - `status` - queued / running / paused / cancelled / failed / done
+      - `engine` - web (navigateur, OpenAI) / crawler / sitemap (fonction edge harvest-worker)
+      - `trigger` - manual / schedule
+      - `worker_id`, `started_at`, `heartbeat_at` - Suivi du worker ayant réservé le job
+      - `harvest_result_id` - Résultat produit quand le job est terminé
+
+  2. Functions
+    - `claim_harvest_job(worker_id, engines)` - Réservation atomique (FOR UPDATE SKIP LOCKED)
+      du job en attente le plus ancien ; les jobs running sans heartbeat depuis 15 minutes
+      sont d'abord passés en failed
+
+  3. Contraintes
+    - Un seul job actif (queued / running / paused) par source
+
+  4. Scheduling
+    - Si pg_cron et pg_net sont disponibles, harvest-worker est appelé chaque minute
+*/
+
+-- =====================================================
+-- TABLE: harvest_jobs
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.harvest_jobs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    data_source_id uuid NOT NULL REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    status text NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'paused', 'cancelled', 'failed', 'done')),
+    engine text NOT NULL DEFAULT 'web',
+    trigger text NOT NULL DEFAULT 'manual',
+    priority integer NOT NULL DEFAULT 0,
+    attempts integer NOT NULL DEFAULT 0,
+    worker_id text,
+    started_at timestamptz,
+    heartbeat_at timestamptz,
+    finished_at timestamptz,
+    harvest_result_id uuid REFERENCES public.harvest_results(id) ON DELETE SET NULL,
+    error_message text,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+-- Index pour améliorer les performances
+CREATE INDEX IF NOT EXISTS idx_harvest_jobs_claim ON public.harvest_jobs(engine, priority DESC, created_at)
+    WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_harvest_jobs_data_source_id ON public.harvest_jobs(data_source_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_harvest_job ON public.harvest_jobs(data_source_id)
+    WHERE status IN ('queued', 'running', 'paused');
+
+-- Trigger pour updated_at
+DROP TRIGGER IF EXISTS update_harvest_jobs_updated_at ON public.harvest_jobs;
+CREATE TRIGGER update_harvest_jobs_updated_at
+    BEFORE UPDATE ON public.harvest_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS et politiques
+ALTER TABLE public.harvest_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to harvest_jobs"
+    ON public.harvest_jobs
+    FOR ALL
+    TO public
+    USING (true)
+    WITH CHECK (true);
+
+-- Réservation atomique d'un job : deux workers ne peuvent jamais prendre le même
+CREATE OR REPLACE FUNCTION public.claim_harvest_job(p_worker_id text, p_engines text[])
+RETURNS SETOF public.harvest_jobs AS $$
+BEGIN
+    -- Jobs orphelins : worker fermé ou interrompu sans avoir terminé
+    UPDATE public.harvest_jobs
+    SET status = 'failed',
+        error_message = 'Worker interrompu (aucun signe de vie depuis 15 minutes)',
+        finished_at = now()
+    WHERE status = 'running'
+      AND heartbeat_at < now() - interval '15 minutes';
+
+    RETURN QUERY
+    UPDATE public.harvest_jobs
+    SET status = 'running',
+        worker_id = p_worker_id,
+        started_at = now(),
+        heartbeat_at = now(),
+        attempts = attempts + 1,
+        error_message = NULL
+    WHERE id = (
+        SELECT id FROM public.harvest_jobs
+        WHERE status = 'queued' AND engine = ANY(p_engines)
+        ORDER BY priority DESC, created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$ language 'plpgsql';
+
+-- Déclenchement périodique du worker serveur via pg_cron + pg_net lorsque ces extensions sont installées
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'harvest-worker',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := current_setting('app.settings.supabase_url', true) || '/functions/v1/harvest-worker',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+          ),
+          body := '{}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END $$;
@@ -0,0 +1,68 @@
+/*
+  # Exécutions de moissonnage (harvest_runs)
+
+  1. Nouvelle Table
+    - `harvest_runs` - Une exécution de moissonnage pour une source
+      - `trigger` - manual / scheduled / import
+      - `engine` - web / crawler / sitemap / import
+      - `status` - running / success / failed / cancelled
+      - `config_snapshot` - Copie de la configuration utilisée au lancement
+      - `pages_fetched`, `documents_found`, `documents_new`, `documents_changed`,
+        `documents_removed`, `error_count`, `llm_cost` - Statistiques de l'exécution
+      - `job_id` - Job harvest_jobs ayant déclenché l'exécution, le cas échéant
+
+  2. Modifications
+    - `harvest_results.run_id` et `harvest_logs.run_id` - Rattachement à l'exécution
+*/
+
+-- =====================================================
+-- TABLE: harvest_runs
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.harvest_runs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    data_source_id uuid NOT NULL REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    job_id uuid REFERENCES public.harvest_jobs(id) ON DELETE SET NULL,
+    trigger text NOT NULL DEFAULT 'manual'
+        CHECK (trigger IN ('manual', 'scheduled', 'import')),
+    engine text NOT NULL DEFAULT 'web',
+    status text NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'success', 'failed', 'cancelled')),
+    config_snapshot jsonb DEFAULT '{}'::jsonb,
+    started_at timestamptz NOT NULL DEFAULT now(),
+    finished_at timestamptz,
+    pages_fetched integer NOT NULL DEFAULT 0,
+    documents_found integer NOT NULL DEFAULT 0,
+    documents_new integer NOT NULL DEFAULT 0,
+    documents_changed integer NOT NULL DEFAULT 0,
+    documents_removed integer NOT NULL DEFAULT 0,
+    error_count integer NOT NULL DEFAULT 0,
+    llm_cost numeric(12, 6) NOT NULL DEFAULT 0,
+    error_message text,
+    created_at timestamptz DEFAULT now()
+);
+
+-- Index pour améliorer les performances
+CREATE INDEX IF NOT EXISTS idx_harvest_runs_data_source_id ON public.harvest_runs(data_source_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_harvest_runs_job_id ON public.harvest_runs(job_id);
+
+-- RLS et politiques
+ALTER TABLE public.harvest_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to harvest_runs"
+    ON public.harvest_runs
+    FOR ALL
+    TO public
+    USING (true)
+    WITH CHECK (true);
+
+-- =====================================================
+-- Rattachement des résultats et des logs à l'exécution
+-- =====================================================
+ALTER TABLE public.harvest_results
+    ADD COLUMN IF NOT EXISTS run_id uuid REFERENCES public.harvest_runs(id) ON DELETE SET NULL;
+
+ALTER TABLE public.harvest_logs
+    ADD COLUMN IF NOT EXISTS run_id uuid REFERENCES public.harvest_runs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_harvest_results_run_id ON public.harvest_results(run_id);
+CREATE INDEX IF NOT EXISTS idx_harvest_logs_run_id ON public.harvest_logs(run_id);
@@ -0,0 +1,100 @@
+/*
+  # Moissonnage incrémental : détection des changements entre exécutions
+
+  1. Nouvelles Tables
+    - `harvested_documents` - Registre des documents connus par source (clé data_source_id + url_doc)
+      - `etag`, `last_modified`, `content_hash`, `content_length` - Empreinte du dernier contenu vu
+      - `status` - new / updated / unchanged / disappeared à l'issue de la dernière exécution
+      - `first_seen_run_id`, `last_seen_run_id`, `last_changed_run_id` - Exécutions de référence
+      - `analysis_*` - Analyse du contenu, réutilisée tant que `content_hash` ne change pas
+    - `document_changes` - Journal des changements détectés (new / updated / disappeared) par exécution
+
+  2. Modifications
+    - `harvest_runs.documents_unchanged` - Documents inchangés depuis l'exécution précédente
+*/
+
+-- =====================================================
+-- TABLE: harvested_documents
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.harvested_documents (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    data_source_id uuid NOT NULL REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    url_doc text NOT NULL,
+    document jsonb DEFAULT '{}'::jsonb,
+    etag text,
+    last_modified text,
+    content_hash text,
+    content_length bigint,
+    status text NOT NULL DEFAULT 'new'
+        CHECK (status IN ('new', 'updated', 'unchanged', 'disappeared')),
+    first_seen_run_id uuid REFERENCES public.harvest_runs(id) ON DELETE SET NULL,
+    last_seen_run_id uuid REFERENCES public.harvest_runs(id) ON DELETE SET NULL,
+    last_changed_run_id uuid REFERENCES public.harvest_runs(id) ON DELETE SET NULL,
+    first_seen_at timestamptz DEFAULT now(),
+    last_seen_at timestamptz DEFAULT now(),
+    last_changed_at timestamptz DEFAULT now(),
+    disappeared_at timestamptz,
+    analysis_summary text,
+    analysis_keywords jsonb,
+    analysis_content_hash text,
+    analysis_completed_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT unique_harvested_document UNIQUE (data_source_id, url_doc)
+);
+
+-- Index pour améliorer les performances
+CREATE INDEX IF NOT EXISTS idx_harvested_documents_url_doc ON public.harvested_documents(url_doc);
+CREATE INDEX IF NOT EXISTS idx_harvested_documents_status ON public.harvested_documents(data_source_id, status);
+
+-- Trigger pour updated_at
+DROP TRIGGER IF EXISTS update_harvested_documents_updated_at ON public.harvested_documents;
+CREATE TRIGGER update_harvested_documents_updated_at
+    BEFORE UPDATE ON public.harvested_documents
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS et politiques
+ALTER TABLE public.harvested_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to harvested_documents"
+    ON public.harvested_documents
+    FOR ALL
+    TO public
+    USING (true)
+    WITH CHECK (true);
+
+-- =====================================================
+-- TABLE: document_changes
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.document_changes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    data_source_id uuid NOT NULL REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    run_id uuid REFERENCES public.harvest_runs(id) ON DELETE CASCADE,
+    url_doc text NOT NULL,
+    change_type text NOT NULL CHECK (change_type IN ('new', 'updated', 'disappeared')),
+    document jsonb DEFAULT '{}'::jsonb,
+    previous_content_hash text,
+    content_hash text,
+    detected_at timestamptz DEFAULT now()
+);
+
+-- Index pour améliorer les performances
+CREATE INDEX IF NOT EXISTS idx_document_changes_data_source_id ON public.document_changes(data_source_id, detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_document_changes_run_id ON public.document_changes(run_id);
+
+-- RLS et politiques
+ALTER TABLE public.document_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to document_changes"
+    ON public.document_changes
+    FOR ALL
+    TO public
+    USING (true)
+    WITH CHECK (true);
+
+-- =====================================================
+-- Statistiques d'exécution
+-- =====================================================
+ALTER TABLE public.harvest_runs
+    ADD COLUMN IF NOT EXISTS documents_unchanged integer NOT NULL DEFAULT 0;
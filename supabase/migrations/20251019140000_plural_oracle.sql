@@ -0,0 +1,42 @@
+/*
+  # Fournisseur LLM par source (harvesting_configs)
+
+  1. New Columns
+    - `llm_provider` (text) - Fournisseur imposé pour la source : openai, local ou fixture
+      NULL = fournisseur par défaut de la tâche (VITE_LLM_<TÂCHE>_PROVIDER puis VITE_LLM_PROVIDER)
+    - `llm_model` (text) - Modèle de chat à utiliser avec ce fournisseur, NULL = modèle par défaut
+
+  2. Notes
+    - `local` cible un serveur compatible OpenAI (Ollama, llama.cpp server) via VITE_LOCAL_LLM_BASE_URL
+    - `fixture` renvoie des réponses déterministes sans appel réseau (tests, postes hors ligne)
+*/
+
+-- Ajouter les colonnes de sélection du fournisseur de manière sécurisée
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'harvesting_configs' AND column_name = 'llm_provider'
+  ) THEN
+    ALTER TABLE harvesting_configs ADD COLUMN llm_provider text DEFAULT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'harvesting_configs' AND column_name = 'llm_model'
+  ) THEN
+    ALTER TABLE harvesting_configs ADD COLUMN llm_model text DEFAULT NULL;
+  END IF;
+END $$;
+
+-- Contrainte sur les fournisseurs connus
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'harvesting_configs' AND constraint_name = 'harvesting_configs_llm_provider_check'
+  ) THEN
+    ALTER TABLE harvesting_configs ADD CONSTRAINT harvesting_configs_llm_provider_check
+      CHECK (llm_provider IS NULL OR llm_provider IN ('openai', 'local', 'fixture'));
+  END IF;
+END $$;
@@ -0,0 +1,142 @@
+/*
+  # Quotas de la passerelle LLM (fonction edge llm-gateway)
+
+  1. Nouvelles Tables
+    - `llm_quotas` - Limites journalières par utilisateur
+      - `user_id` NULL = quota par défaut appliqué aux utilisateurs sans ligne dédiée
+      - `daily_request_limit`, `daily_token_limit`
+    - `llm_quota_usage` - Consommation par utilisateur et par jour (requêtes, tokens)
+
+  2. Functions
+    - `consume_llm_quota(user_id)` - Réserve atomiquement une requête si les limites du jour
+      ne sont pas atteintes ; renvoie allowed + compteurs et limites
+    - `record_llm_tokens(user_id, tokens)` - Ajoute les tokens consommés après l'appel
+
+  3. Security
+    - Lecture seule pour les utilisateurs authentifiés ; écritures réservées à la fonction edge (service_role)
+    - La clé OpenAI (OPENAI_API_KEY) n'est définie que dans les secrets des fonctions edge
+    - Les connexions anonymes Supabase doivent être activées : chaque navigateur sans compte
+      reçoit une session et donc son propre quota
+*/
+
+-- =====================================================
+-- TABLE: llm_quotas
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.llm_quotas (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    daily_request_limit integer NOT NULL DEFAULT 200 CHECK (daily_request_limit >= 0),
+    daily_token_limit bigint NOT NULL DEFAULT 500000 CHECK (daily_token_limit >= 0),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+-- Un seul quota par défaut
+CREATE UNIQUE INDEX IF NOT EXISTS unique_default_llm_quota ON public.llm_quotas((user_id IS NULL))
+    WHERE user_id IS NULL;
+
+INSERT INTO public.llm_quotas (user_id)
+SELECT NULL
+WHERE NOT EXISTS (SELECT 1 FROM public.llm_quotas WHERE user_id IS NULL);
+
+-- Trigger pour updated_at
+DROP TRIGGER IF EXISTS update_llm_quotas_updated_at ON public.llm_quotas;
+CREATE TRIGGER update_llm_quotas_updated_at
+    BEFORE UPDATE ON public.llm_quotas
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- TABLE: llm_quota_usage
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.llm_quota_usage (
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    usage_date date NOT NULL DEFAULT current_date,
+    request_count integer NOT NULL DEFAULT 0,
+    token_count bigint NOT NULL DEFAULT 0,
+    updated_at timestamptz DEFAULT now(),
+    PRIMARY KEY (user_id, usage_date)
+);
+
+-- RLS et politiques : lecture seule côté navigateur
+ALTER TABLE public.llm_quotas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.llm_quota_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to llm_quotas"
+    ON public.llm_quotas
+    FOR SELECT
+    TO authenticated
+    USING (user_id IS NULL OR user_id = auth.uid());
+
+CREATE POLICY "Allow read access to own llm_quota_usage"
+    ON public.llm_quota_usage
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid());
+
+-- Réservation d'une requête dans le quota du jour (verrou sur la ligne de consommation)
+CREATE OR REPLACE FUNCTION public.consume_llm_quota(p_user_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+    v_request_limit integer;
+    v_token_limit bigint;
+    v_usage public.llm_quota_usage%ROWTYPE;
+BEGIN
+    SELECT daily_request_limit, daily_token_limit INTO v_request_limit, v_token_limit
+    FROM public.llm_quotas
+    WHERE user_id = p_user_id OR user_id IS NULL
+    ORDER BY user_id NULLS LAST
+    LIMIT 1;
+
+    v_request_limit := COALESCE(v_request_limit, 200);
+    v_token_limit := COALESCE(v_token_limit, 500000);
+
+    INSERT INTO public.llm_quota_usage (user_id, usage_date)
+    VALUES (p_user_id, current_date)
+    ON CONFLICT (user_id, usage_date) DO NOTHING;
+
+    SELECT * INTO v_usage
+    FROM public.llm_quota_usage
+    WHERE user_id = p_user_id AND usage_date = current_date
+    FOR UPDATE;
+
+    IF v_usage.request_count < v_request_limit AND v_usage.token_count < v_token_limit THEN
+        UPDATE public.llm_quota_usage
+        SET request_count = request_count + 1,
+            updated_at = now()
+        WHERE user_id = p_user_id AND usage_date = current_date
+        RETURNING * INTO v_usage;
+
+        RETURN jsonb_build_object(
+            'allowed', true,
+            'request_count', v_usage.request_count,
+            'token_count', v_usage.token_count,
+            'request_limit', v_request_limit,
+            'token_limit', v_token_limit
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'allowed', false,
+        'request_count', v_usage.request_count,
+        'token_count', v_usage.token_count,
+        'request_limit', v_request_limit,
+        'token_limit', v_token_limit
+    );
+END;
+$$ language 'plpgsql';
+
+-- Tokens réellement consommés, connus après la réponse du fournisseur
+CREATE OR REPLACE FUNCTION public.record_llm_tokens(p_user_id uuid, p_tokens bigint)
+RETURNS void AS $$
+BEGIN
+    UPDATE public.llm_quota_usage
+    SET token_count = token_count + GREATEST(p_tokens, 0),
+        updated_at = now()
+    WHERE user_id = p_user_id AND usage_date = current_date;
+END;
+$$ language 'plpgsql';
+
+-- Fonctions réservées à service_role : un navigateur ne doit pas pouvoir manipuler ses compteurs
+REVOKE EXECUTE ON FUNCTION public.consume_llm_quota(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_llm_tokens(uuid, bigint) FROM PUBLIC, anon, authenticated;
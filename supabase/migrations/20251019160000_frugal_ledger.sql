@@ -0,0 +1,131 @@
+/*
+  # Consommation LLM et budgets mensuels
+
+  1. Nouvelles Tables
+    - `llm_usage` - Un appel LLM (chat ou embedding) et son coût
+      - `purpose` - harvest / analysis / classification / embedding
+      - `provider`, `model`, `prompt_tokens`, `completion_tokens`, `total_tokens`, `cost` (USD)
+      - `data_source_id`, `run_id`, `harvest_result_id`, `user_id` - Rattachements (NULL si inconnus)
+    - `llm_budgets` - Budget mensuel en USD
+      - `data_source_id` NULL = budget global, toutes sources confondues
+
+  2. Vues
+    - `llm_monthly_spend` - Dépense, tokens et appels par source et par mois
+
+  3. Functions
+    - `llm_budget_status(data_source_id)` - Dépense du mois et budgets de la source et global ;
+      exceeded = true dès qu'un des deux budgets est atteint
+
+  4. Blocage
+    - harvest-jobs refuse de mettre en file un moissonnage LLM (engine web) d'une source hors budget,
+      le worker navigateur échoue les jobs déjà en file
+*/
+
+-- =====================================================
+-- TABLE: llm_usage
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.llm_usage (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    data_source_id uuid REFERENCES public.data_sources(id) ON DELETE SET NULL,
+    run_id uuid REFERENCES public.harvest_runs(id) ON DELETE SET NULL,
+    harvest_result_id uuid REFERENCES public.harvest_results(id) ON DELETE SET NULL,
+    user_id uuid,
+    purpose text NOT NULL CHECK (purpose IN ('harvest', 'analysis', 'classification', 'embedding')),
+    provider text NOT NULL,
+    model text NOT NULL,
+    prompt_tokens integer NOT NULL DEFAULT 0,
+    completion_tokens integer NOT NULL DEFAULT 0,
+    total_tokens integer NOT NULL DEFAULT 0,
+    cost numeric(12,6) NOT NULL DEFAULT 0,
+    created_at timestamptz DEFAULT now()
+);
+
+-- Index pour améliorer les performances
+CREATE INDEX IF NOT EXISTS idx_llm_usage_data_source_id ON public.llm_usage(data_source_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON public.llm_usage(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_run_id ON public.llm_usage(run_id);
+
+-- =====================================================
+-- TABLE: llm_budgets
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.llm_budgets (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    data_source_id uuid UNIQUE REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    monthly_limit numeric(12,2) NOT NULL CHECK (monthly_limit >= 0),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+-- Un seul budget global
+CREATE UNIQUE INDEX IF NOT EXISTS unique_global_llm_budget ON public.llm_budgets((data_source_id IS NULL))
+    WHERE data_source_id IS NULL;
+
+-- Trigger pour updated_at
+DROP TRIGGER IF EXISTS update_llm_budgets_updated_at ON public.llm_budgets;
+CREATE TRIGGER update_llm_budgets_updated_at
+    BEFORE UPDATE ON public.llm_budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS et politiques
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.llm_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to llm_usage"
+    ON public.llm_usage
+    FOR ALL
+    TO public
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Allow all access to llm_budgets"
+    ON public.llm_budgets
+    FOR ALL
+    TO public
+    USING (true)
+    WITH CHECK (true);
+
+-- =====================================================
+-- VUE: llm_monthly_spend
+-- =====================================================
+CREATE OR REPLACE VIEW public.llm_monthly_spend AS
+SELECT
+    u.data_source_id,
+    date_trunc('month', u.created_at)::date AS month,
+    SUM(u.cost)::numeric(12,6) AS cost,
+    SUM(u.total_tokens)::bigint AS total_tokens,
+    COUNT(*)::integer AS calls
+FROM public.llm_usage u
+GROUP BY u.data_source_id, date_trunc('month', u.created_at);
+
+-- Dépense du mois en cours face aux budgets de la source et global
+CREATE OR REPLACE FUNCTION public.llm_budget_status(p_data_source_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+    v_month_start timestamptz := date_trunc('month', now());
+    v_source_spend numeric;
+    v_global_spend numeric;
+    v_source_limit numeric;
+    v_global_limit numeric;
+BEGIN
+    SELECT COALESCE(SUM(cost), 0) INTO v_source_spend
+    FROM public.llm_usage
+    WHERE data_source_id = p_data_source_id AND created_at >= v_month_start;
+
+    SELECT COALESCE(SUM(cost), 0) INTO v_global_spend
+    FROM public.llm_usage
+    WHERE created_at >= v_month_start;
+
+    SELECT monthly_limit INTO v_source_limit FROM public.llm_budgets WHERE data_source_id = p_data_source_id;
+    SELECT monthly_limit INTO v_global_limit FROM public.llm_budgets WHERE data_source_id IS NULL;
+
+    RETURN jsonb_build_object(
+        'exceeded', (v_source_limit IS NOT NULL AND v_source_spend >= v_source_limit)
+                 OR (v_global_limit IS NOT NULL AND v_global_spend >= v_global_limit),
+        'source_spend', v_source_spend,
+        'source_limit', v_source_limit,
+        'global_spend', v_global_spend,
+        'global_limit', v_global_limit
+    );
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,124 @@
+/*
+  # Templates de prompts versionnés
+
+  1. Nouvelle Table
+    - `prompt_templates` - Une version d'un template nommé
+      - `name` - harvest_system (prompt système) ou harvest_user (prompt du site)
+      - `version` - Numéro croissant par nom
+      - `content` - Texte avec variables {{data_source.url}}, {{config.max_pages}}...
+        et sections {{#variable}}...{{/variable}} rendues seulement si la variable est renseignée
+      - `is_active` - Version utilisée par le moissonnage (une seule par nom)
+
+  2. Modifications
+    - `harvest_results.system_prompt_template_id` et `user_prompt_template_id` :
+      versions ayant produit le résultat
+
+  3. Functions
+    - `activate_prompt_template(id)` - Active une version et désactive les autres (retour arrière)
+
+  4. Données
+    - Version 1 de chaque template, identique aux prompts codés en dur jusqu'ici
+*/
+
+-- =====================================================
+-- TABLE: prompt_templates
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.prompt_templates (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    version integer NOT NULL CHECK (version > 0),
+    content text NOT NULL,
+    description text,
+    is_active boolean NOT NULL DEFAULT false,
+    created_at timestamptz DEFAULT now(),
+    CONSTRAINT unique_prompt_template_version UNIQUE (name, version)
+);
+
+-- Une seule version active par template
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_prompt_template ON public.prompt_templates(name)
+    WHERE is_active;
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to prompt_templates"
+    ON public.prompt_templates
+    FOR ALL
+    TO public
+    USING (true)
+    WITH CHECK (true);
+
+-- =====================================================
+-- Traçabilité des résultats
+-- =====================================================
+ALTER TABLE public.harvest_results
+    ADD COLUMN IF NOT EXISTS system_prompt_template_id uuid REFERENCES public.prompt_templates(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS user_prompt_template_id uuid REFERENCES public.prompt_templates(id) ON DELETE SET NULL;
+
+-- Activer une version (création ou retour arrière) en une seule transaction
+CREATE OR REPLACE FUNCTION public.activate_prompt_template(p_id uuid)
+RETURNS public.prompt_templates AS $$
+DECLARE
+    v_template public.prompt_templates;
+BEGIN
+    SELECT * INTO v_template FROM public.prompt_templates WHERE id = p_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Template de prompt introuvable: %', p_id;
+    END IF;
+
+    UPDATE public.prompt_templates SET is_active = false WHERE name = v_template.name AND is_active AND id <> p_id;
+    UPDATE public.prompt_templates SET is_active = true WHERE id = p_id RETURNING * INTO v_template;
+
+    RETURN v_template;
+END;
+$$ language 'plpgsql';
+
+-- =====================================================
+-- Versions initiales
+-- =====================================================
+INSERT INTO public.prompt_templates (name, version, content, description, is_active)
+VALUES
+    ('harvest_system', 1, $prompt$Tu es un assistant IA spécialisé dans le moissonnage et l'extraction de documents web.
+
+MISSION: Analyser un site web et extraire tous les documents pertinents selon les critères fournis.
+
+RÉPONSE OBLIGATOIRE: Tu dois TOUJOURS répondre avec un JSON valide contenant exactement cette structure:
+{
+  "documents": [...],
+  "documents": [
+    {
+      "url_doc": "URL_COMPLETE_DU_DOCUMENT",
+      "type_document": "type du document",
+      "format": "PDF/DOCX/etc",
+      "source_page": "URL de la page source",
+      "document_name": "nom descriptif",
+      "date_edition": "YYYY-MM ou YYYY-MM-DD",
+      "auteurs": "nom des auteurs",
+      "langue": "français/anglais/etc",
+      "resume": "description du contenu",
+      "statut": "en ligne/archivé/etc",
+      "issue_number": null,
+      "annee": 2024,
+      "filename": "nom_fichier.pdf",
+      "contient_texte": "oui/non",
+      "pattern_verified": true/false,
+      "notes": "commentaires sur le document",
+      "obstacles": "problèmes rencontrés ou null"
+    }
+  ],
+  "obstacles-globaux": [
+    "obstacle 1",
+    "obstacle 2"
+  ],
+  "recommandations": "texte des recommandations pour améliorer le moissonnage"
+}
+
+RÈGLES CRITIQUES:
+1. SEUL le champ "url_doc" est obligatoire - sans URL valide, ne pas inclure le document
+2. Tous les autres champs peuvent être null ou chaînes vides si information indisponible
+3. Répondre UNIQUEMENT avec le JSON, aucun texte avant ou après
+4. Explorer en profondeur le site pour trouver tous les documents pertinents$prompt$, 'Prompt système historique (codé en dur dans OpenAIHarvestingService)', true),
+    ('harvest_user', 1, $prompt${{data_source.generated_prompt}}{{#data_source.special_instructions}}
+
+CONSIGNES PARTICULIÈRES :
+{{data_source.special_instructions}}{{/data_source.special_instructions}}$prompt$, 'Prompt généré par le formulaire du site, suivi des consignes particulières', true)
+ON CONFLICT (name, version) DO NOTHING;
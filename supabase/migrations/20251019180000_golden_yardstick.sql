@@ -0,0 +1,67 @@
+/*
+  # Évaluation A/B des prompts de moissonnage
+
+  1. Nouvelles Tables
+    - `golden_harvests` - Liste de documents attendus (référence) d'une source
+      - `documents` - [{ url_doc, date_edition, langue, type_document }]
+    - `prompt_eval_recordings` - Réponse LLM brute enregistrée pour une source et un couple
+      de versions (harvest_system, harvest_user) ; les comparaisons sont rejouées hors ligne
+
+  2. Notes
+    - Une seule référence par source ; la dernière réponse enregistrée d'un couple de versions fait foi
+    - Les jeux exportés (références + réponses) sont évalués en CI par scripts/evaluate-prompts.ts
+*/
+
+-- =====================================================
+-- TABLE: golden_harvests
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.golden_harvests (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    data_source_id uuid NOT NULL UNIQUE REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    documents jsonb NOT NULL DEFAULT '[]'::jsonb,
+    notes text,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_golden_harvests_updated_at ON public.golden_harvests;
+CREATE TRIGGER update_golden_harvests_updated_at
+    BEFORE UPDATE ON public.golden_harvests
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- TABLE: prompt_eval_recordings
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.prompt_eval_recordings (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    data_source_id uuid NOT NULL REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    system_template_id uuid NOT NULL REFERENCES public.prompt_templates(id) ON DELETE CASCADE,
+    user_template_id uuid NOT NULL REFERENCES public.prompt_templates(id) ON DELETE CASCADE,
+    provider text NOT NULL,
+    model text NOT NULL,
+    response text NOT NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+-- Index pour améliorer les performances
+CREATE INDEX IF NOT EXISTS idx_prompt_eval_recordings_variant
+    ON public.prompt_eval_recordings(data_source_id, system_template_id, user_template_id, created_at DESC);
+
+-- RLS et politiques
+ALTER TABLE public.golden_harvests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prompt_eval_recordings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to golden_harvests"
+    ON public.golden_harvests
+    FOR ALL
+    TO public
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Allow all access to prompt_eval_recordings"
+    ON public.prompt_eval_recordings
+    FOR ALL
+    TO public
+    USING (true)
+    WITH CHECK (true);
@@ -0,0 +1,166 @@
+/*
+  # Disjoncteur des appels LLM (llm_circuit_breaker)
+
+  1. Nouvelle Table
+    - `llm_circuit_breaker` - État unique (id = 1) du disjoncteur de llm-gateway
+      - `state` - closed (appels autorisés) / open (appels refusés) / half_open (un appel d'essai)
+      - `consecutive_failures` - Réponses 401, 429 ou 5xx consécutives du fournisseur
+      - `last_status`, `last_error` - Dernier échec enregistré
+      - `opened_at`, `retry_at` - Ouverture et fin de la période de refroidissement
+
+  2. Modifications
+    - `harvest_jobs.pause_reason` - manual (action utilisateur) ou circuit_breaker (mise en pause automatique)
+
+  3. Functions
+    - `llm_circuit_acquire()` - Autorise ou refuse un appel ; après retry_at, passe en half_open
+      et n'autorise qu'un seul appel d'essai par minute
+    - `llm_circuit_record(status, error, threshold, cooldown)` - Enregistre le statut HTTP d'un appel :
+      un succès referme le disjoncteur et remet en file les jobs qu'il avait mis en pause ;
+      à partir de `threshold` échecs consécutifs (ou un échec de l'appel d'essai), le disjoncteur
+      s'ouvre et met en pause les jobs 'web' en file
+
+  4. Security
+    - Lecture seule côté navigateur ; fonctions réservées à service_role (llm-gateway)
+*/
+
+-- =====================================================
+-- MODIFICATION: harvest_jobs.pause_reason
+-- =====================================================
+ALTER TABLE public.harvest_jobs
+    ADD COLUMN IF NOT EXISTS pause_reason text
+        CHECK (pause_reason IN ('manual', 'circuit_breaker'));
+
+-- =====================================================
+-- TABLE: llm_circuit_breaker
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.llm_circuit_breaker (
+    id integer PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    state text NOT NULL DEFAULT 'closed'
+        CHECK (state IN ('closed', 'open', 'half_open')),
+    consecutive_failures integer NOT NULL DEFAULT 0,
+    last_status integer,
+    last_error text,
+    opened_at timestamptz,
+    retry_at timestamptz,
+    updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO public.llm_circuit_breaker (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- Trigger pour updated_at
+DROP TRIGGER IF EXISTS update_llm_circuit_breaker_updated_at ON public.llm_circuit_breaker;
+CREATE TRIGGER update_llm_circuit_breaker_updated_at
+    BEFORE UPDATE ON public.llm_circuit_breaker
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS et politiques : lecture seule côté navigateur
+ALTER TABLE public.llm_circuit_breaker ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to llm_circuit_breaker"
+    ON public.llm_circuit_breaker
+    FOR SELECT
+    TO public
+    USING (true);
+
+-- Autoriser un appel : refusé tant que le disjoncteur est ouvert, un seul appel d'essai en half_open
+CREATE OR REPLACE FUNCTION public.llm_circuit_acquire()
+RETURNS jsonb AS $$
+DECLARE
+    v_breaker public.llm_circuit_breaker%ROWTYPE;
+BEGIN
+    SELECT * INTO v_breaker
+    FROM public.llm_circuit_breaker
+    WHERE id = 1
+    FOR UPDATE;
+
+    -- Un appel d'essai sans résultat enregistré (quota atteint, fonction interrompue) est relancé après une minute
+    IF v_breaker.state IN ('open', 'half_open') AND v_breaker.retry_at <= now() THEN
+        UPDATE public.llm_circuit_breaker
+        SET state = 'half_open',
+            retry_at = now() + interval '1 minute'
+        WHERE id = 1
+        RETURNING * INTO v_breaker;
+
+        RETURN jsonb_build_object('allowed', true, 'state', v_breaker.state, 'retry_at', v_breaker.retry_at);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'allowed', v_breaker.state = 'closed',
+        'state', v_breaker.state,
+        'retry_at', v_breaker.retry_at
+    );
+END;
+$$ language 'plpgsql';
+
+-- Enregistrer le statut HTTP d'un appel ; 401, 429 et 5xx sont des échecs, les autres 4xx sont neutres
+CREATE OR REPLACE FUNCTION public.llm_circuit_record(
+    p_status integer,
+    p_error text DEFAULT NULL,
+    p_threshold integer DEFAULT 5,
+    p_cooldown_seconds integer DEFAULT 120
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_breaker public.llm_circuit_breaker%ROWTYPE;
+    v_previous_state text;
+BEGIN
+    SELECT * INTO v_breaker
+    FROM public.llm_circuit_breaker
+    WHERE id = 1
+    FOR UPDATE;
+
+    v_previous_state := v_breaker.state;
+
+    IF p_status < 400 THEN
+        UPDATE public.llm_circuit_breaker
+        SET state = 'closed',
+            consecutive_failures = 0,
+            opened_at = NULL,
+            retry_at = NULL
+        WHERE id = 1
+        RETURNING * INTO v_breaker;
+
+        -- Fermeture : les jobs mis en pause par le disjoncteur repartent en file
+        IF v_previous_state <> 'closed' THEN
+            UPDATE public.harvest_jobs
+            SET status = 'queued',
+                pause_reason = NULL
+            WHERE status = 'paused'
+              AND pause_reason = 'circuit_breaker';
+        END IF;
+    ELSIF p_status = 401 OR p_status = 429 OR p_status >= 500 THEN
+        UPDATE public.llm_circuit_breaker
+        SET consecutive_failures = consecutive_failures + 1,
+            last_status = p_status,
+            last_error = p_error
+        WHERE id = 1
+        RETURNING * INTO v_breaker;
+
+        IF v_previous_state = 'half_open' OR (v_previous_state = 'closed' AND v_breaker.consecutive_failures >= p_threshold) THEN
+            UPDATE public.llm_circuit_breaker
+            SET state = 'open',
+                opened_at = now(),
+                retry_at = now() + make_interval(secs => p_cooldown_seconds)
+            WHERE id = 1
+            RETURNING * INTO v_breaker;
+
+            UPDATE public.harvest_jobs
+            SET status = 'paused',
+                pause_reason = 'circuit_breaker'
+            WHERE status = 'queued'
+              AND engine = 'web';
+        END IF;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'state', v_breaker.state,
+        'consecutive_failures', v_breaker.consecutive_failures,
+        'retry_at', v_breaker.retry_at
+    );
+END;
+$$ language 'plpgsql';
+
+-- Fonctions réservées à service_role : seul llm-gateway fait évoluer le disjoncteur
+REVOKE EXECUTE ON FUNCTION public.llm_circuit_acquire() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.llm_circuit_record(integer, text, integer, integer) FROM PUBLIC, anon, authenticated;
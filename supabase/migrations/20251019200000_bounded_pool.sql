@@ -0,0 +1,87 @@
+/*
+  # Moissonnage concurrent : limite par hôte et nombre de nouvelles tentatives
+
+  1. Modifications
+    - `harvest_runs.retry_count` - Nouvelles tentatives d'appel pendant l'exécution (LLM, réseau)
+
+  2. Functions
+    - `harvest_host(url)` - Hôte d'une URL, en minuscules et sans www.
+    - `claim_harvest_job(worker_id, engines, per_host_limit)` - Comme avant, mais un job dont l'hôte
+      a déjà `per_host_limit` jobs en running est laissé en file au profit du suivant ;
+      sans limite (NULL), comportement inchangé
+
+  3. Concurrence
+    - Un verrou consultatif par hôte (pg_advisory_xact_lock) sérialise les réservations d'un même
+      hôte : deux workers simultanés ne peuvent pas dépasser la limite
+*/
+
+-- =====================================================
+-- MODIFICATION: harvest_runs.retry_count
+-- =====================================================
+ALTER TABLE public.harvest_runs
+    ADD COLUMN IF NOT EXISTS retry_count integer NOT NULL DEFAULT 0;
+
+-- Hôte d'une URL (sans schéma, identifiants, port ni www.)
+CREATE OR REPLACE FUNCTION public.harvest_host(p_url text)
+RETURNS text AS $$
+    SELECT regexp_replace(
+        lower(substring(p_url from '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:[^@/]*@)?([^/:?#]+)')),
+        '^www\.',
+        ''
+    );
+$$ language 'sql' IMMUTABLE;
+
+-- Nouvelle signature : l'ancienne à deux arguments rendrait les appels ambigus
+DROP FUNCTION IF EXISTS public.claim_harvest_job(text, text[]);
+
+CREATE OR REPLACE FUNCTION public.claim_harvest_job(
+    p_worker_id text,
+    p_engines text[],
+    p_per_host_limit integer DEFAULT NULL
+)
+RETURNS SETOF public.harvest_jobs AS $$
+DECLARE
+    v_candidate record;
+BEGIN
+    -- Jobs orphelins : worker fermé ou interrompu sans avoir terminé
+    UPDATE public.harvest_jobs
+    SET status = 'failed',
+        error_message = 'Worker interrompu (aucun signe de vie depuis 15 minutes)',
+        finished_at = now()
+    WHERE status = 'running'
+      AND heartbeat_at < now() - interval '15 minutes';
+
+    FOR v_candidate IN
+        SELECT j.id, public.harvest_host(s.url) AS host
+        FROM public.harvest_jobs j
+        JOIN public.data_sources s ON s.id = j.data_source_id
+        WHERE j.status = 'queued' AND j.engine = ANY(p_engines)
+        ORDER BY j.priority DESC, j.created_at
+        FOR UPDATE OF j SKIP LOCKED
+    LOOP
+        IF p_per_host_limit IS NOT NULL THEN
+            PERFORM pg_advisory_xact_lock(hashtext('harvest_host:' || COALESCE(v_candidate.host, '')));
+
+            CONTINUE WHEN (
+                SELECT count(*)
+                FROM public.harvest_jobs r
+                JOIN public.data_sources rs ON rs.id = r.data_source_id
+                WHERE r.status = 'running'
+                  AND public.harvest_host(rs.url) IS NOT DISTINCT FROM v_candidate.host
+            ) >= p_per_host_limit;
+        END IF;
+
+        RETURN QUERY
+        UPDATE public.harvest_jobs
+        SET status = 'running',
+            worker_id = p_worker_id,
+            started_at = now(),
+            heartbeat_at = now(),
+            attempts = attempts + 1,
+            error_message = NULL
+        WHERE id = v_candidate.id
+        RETURNING *;
+        RETURN;
+    END LOOP;
+END;
+$$ language 'plpgsql';
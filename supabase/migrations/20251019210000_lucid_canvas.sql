@@ -0,0 +1,16 @@
+/*
+  # Rendu JavaScript des pages (navigateur headless)
+
+  1. Modifications
+    - `harvesting_configs.render_js` - Les pages du crawler sont chargées par le worker de rendu
+      (Chromium headless via Playwright, scripts/render-worker.ts) au lieu d'un simple fetch :
+      listes de documents construites côté client, boutons « charger plus », pagination en JavaScript
+
+  2. Sélecteurs associés (colonne jsonb `selectors`, sans changement de schéma)
+    - `waitForSelector` - Élément attendu avant extraction
+    - `loadMoreSelector` - Bouton « charger plus », cliqué tant qu'il est visible
+    - `paginationSelector` - Lien ou bouton « page suivante », chaque page rendue est analysée
+*/
+
+ALTER TABLE public.harvesting_configs
+    ADD COLUMN IF NOT EXISTS render_js boolean NOT NULL DEFAULT false;
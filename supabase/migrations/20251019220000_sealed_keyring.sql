@@ -0,0 +1,66 @@
+/*
+  # Identifiants des sources authentifiées
+
+  1. Nouvelle table
+    - `data_source_credentials` - Un jeu d'identifiants par source
+      - `auth_type` - basic, bearer, headers ou form_login
+      - `secret_ciphertext` - Identifiants chiffrés (AES-GCM, clé CREDENTIALS_ENCRYPTION_KEY des
+        secrets edge) : mot de passe, jeton, en-têtes, champs du formulaire de connexion
+      - `login_url` - Page de connexion (form_login), non secrète
+      - `session_ciphertext` / `session_expires_at` - Cookies de session capturés après connexion,
+        chiffrés et réutilisés jusqu'à expiration
+      - `last_login_at` / `last_login_error` - Résultat de la dernière connexion ou du dernier test
+
+  2. Vues
+    - `data_source_credential_status` - Colonnes non secrètes uniquement, pour le navigateur
+
+  3. Sécurité
+    - RLS activée sans aucune politique et privilèges retirés à anon / authenticated :
+      la table n'est lisible et modifiable que par les fonctions edge (service_role)
+    - Les identifiants sont saisis via la fonction edge source-credentials, qui ne renvoie jamais
+      de secret ; ils ne sont envoyés qu'à l'hôte de la source (crawler, document-proxy)
+*/
+
+-- =====================================================
+-- TABLE: data_source_credentials
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.data_source_credentials (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    data_source_id uuid NOT NULL UNIQUE REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    auth_type text NOT NULL CHECK (auth_type IN ('basic', 'bearer', 'headers', 'form_login')),
+    secret_ciphertext text NOT NULL,
+    login_url text,
+    session_ciphertext text,
+    session_expires_at timestamptz,
+    last_login_at timestamptz,
+    last_login_error text,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+-- Trigger pour updated_at
+DROP TRIGGER IF EXISTS update_data_source_credentials_updated_at ON public.data_source_credentials;
+CREATE TRIGGER update_data_source_credentials_updated_at
+    BEFORE UPDATE ON public.data_source_credentials
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS sans politique : aucun accès hors service_role
+ALTER TABLE public.data_source_credentials ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.data_source_credentials FROM anon, authenticated;
+
+-- =====================================================
+-- VUE: data_source_credential_status
+-- =====================================================
+CREATE OR REPLACE VIEW public.data_source_credential_status AS
+SELECT
+    c.data_source_id,
+    c.auth_type,
+    c.login_url,
+    (c.session_expires_at IS NOT NULL AND c.session_expires_at > now()) AS has_session,
+    c.last_login_at,
+    c.last_login_error,
+    c.updated_at
+FROM public.data_source_credentials c;
+
+GRANT SELECT ON public.data_source_credential_status TO anon, authenticated;
@@ -0,0 +1,26 @@
+/*
+  # Règles de pagination des pages de liste
+
+  1. Modifications
+    - `harvesting_configs.pagination` - Règles déclaratives de parcours des archives pour le crawler ;
+      NULL = crawl en largeur des liens du site (comportement inchangé)
+      - `strategy` - next_link, url_template ou date_archive
+      - `nextSelector` - Lien « page suivante » (next_link)
+      - `urlTemplate`, `startPage`, `pageStep` - URL avec compteur {page} (url_template)
+      - `archiveTemplate` - URL d'archive avec {year} et éventuellement {month} (date_archive)
+      - `stopOnNoNewLinks` - Arrêt sur une page sans nouveau document (true par défaut)
+
+  2. Conditions d'arrêt
+    - `max_pages` de la configuration
+    - Page de liste sans nouveau lien de document
+    - Documents antérieurs à `selectors.dateRange.start` (archives parcourues du plus récent au plus ancien)
+*/
+
+ALTER TABLE public.harvesting_configs
+    ADD COLUMN IF NOT EXISTS pagination jsonb;
+
+ALTER TABLE public.harvesting_configs
+    DROP CONSTRAINT IF EXISTS harvesting_configs_pagination_strategy_check;
+ALTER TABLE public.harvesting_configs
+    ADD CONSTRAINT harvesting_configs_pagination_strategy_check
+    CHECK (pagination IS NULL OR pagination->>'strategy' IN ('next_link', 'url_template', 'date_archive'));
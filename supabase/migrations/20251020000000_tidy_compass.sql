@@ -0,0 +1,129 @@
+/*
+  # URL canoniques des documents et déduplication
+
+  1. Modifications
+    - `harvested_documents.canonical_url` - Identité du document : https, hôte en minuscules sans www.
+      ni port par défaut, sans fragment, paramètres de suivi (utm_*, gclid, fbclid...) ni barre finale,
+      paramètres restants triés ; après résolution des redirections quand le document a été sondé
+    - Unicité par source sur `(data_source_id, canonical_url)` au lieu de `(data_source_id, url_doc)` :
+      une variante d'URL déjà connue met à jour la ligne existante au lieu d'en créer une nouvelle
+
+  2. Functions
+    - `canonicalize_url(url)` - Équivalent SQL de src/lib/canonicalUrl.ts (sans redirections),
+      pour la reprise des lignes existantes et les insertions qui ne fournissent pas canonical_url
+
+  3. Reprise
+    - Les doublons existants sont fusionnés : la ligne vue le plus récemment est conservée, avec la
+      première date d'apparition du groupe et l'analyse d'un doublon si elle n'en avait pas
+*/
+
+-- URL canonique (les redirections ne sont résolues que par les fonctions edge)
+CREATE OR REPLACE FUNCTION public.canonicalize_url(p_url text)
+RETURNS text AS $$
+DECLARE
+    v_url text := btrim(p_url);
+    v_parts text[];
+    v_host text;
+    v_query text;
+BEGIN
+    v_parts := regexp_match(v_url, '^https?://(?:[^@/]*@)?([^/?#]+)([^?#]*)(?:\?([^#]*))?', 'i');
+    IF v_parts IS NULL THEN
+        RETURN regexp_replace(regexp_replace(v_url, '#.*$', ''), '/+$', '');
+    END IF;
+
+    v_host := regexp_replace(lower(v_parts[1]), '^www\.', '');
+    v_host := regexp_replace(v_host, ':(80|443)$', '');
+    v_host := regexp_replace(v_host, '\.$', '');
+
+    SELECT string_agg(param, '&' ORDER BY split_part(param, '=', 1))
+    INTO v_query
+    FROM unnest(string_to_array(v_parts[3], '&')) AS param
+    WHERE param <> ''
+      AND lower(split_part(param, '=', 1)) NOT IN (
+          'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'igshid',
+          'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'ref_src', 'trk', 'xtor'
+      )
+      AND lower(split_part(param, '=', 1)) !~ '^(utm_|pk_|mtm_)';
+
+    RETURN 'https://' || v_host || regexp_replace(v_parts[2], '/+$', '') || COALESCE('?' || v_query, '');
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- =====================================================
+-- MODIFICATION: harvested_documents.canonical_url
+-- =====================================================
+ALTER TABLE public.harvested_documents
+    ADD COLUMN IF NOT EXISTS canonical_url text;
+
+UPDATE public.harvested_documents
+SET canonical_url = public.canonicalize_url(url_doc)
+WHERE canonical_url IS NULL;
+
+-- Fusion des doublons : première apparition et analyse reportées sur la ligne conservée
+WITH ranked AS (
+    SELECT
+        id,
+        row_number() OVER w AS rank,
+        min(first_seen_at) OVER (PARTITION BY data_source_id, canonical_url) AS earliest_seen_at,
+        first_value(id) OVER w AS keeper_id
+    FROM public.harvested_documents
+    WINDOW w AS (
+        PARTITION BY data_source_id, canonical_url
+        ORDER BY last_seen_at DESC NULLS LAST, created_at DESC
+    )
+),
+analyzed AS (
+    SELECT DISTINCT ON (r.keeper_id)
+        r.keeper_id,
+        d.analysis_summary,
+        d.analysis_keywords,
+        d.analysis_content_hash,
+        d.analysis_completed_at
+    FROM ranked r
+    JOIN public.harvested_documents d ON d.id = r.id
+    WHERE d.analysis_completed_at IS NOT NULL
+    ORDER BY r.keeper_id, d.analysis_completed_at DESC
+)
+UPDATE public.harvested_documents d
+SET first_seen_at = r.earliest_seen_at,
+    analysis_summary = COALESCE(d.analysis_summary, a.analysis_summary),
+    analysis_keywords = COALESCE(d.analysis_keywords, a.analysis_keywords),
+    analysis_content_hash = COALESCE(d.analysis_content_hash, a.analysis_content_hash),
+    analysis_completed_at = COALESCE(d.analysis_completed_at, a.analysis_completed_at)
+FROM ranked r
+LEFT JOIN analyzed a ON a.keeper_id = r.id
+WHERE d.id = r.id AND r.rank = 1;
+
+DELETE FROM public.harvested_documents d
+USING (
+    SELECT id, row_number() OVER (
+        PARTITION BY data_source_id, canonical_url
+        ORDER BY last_seen_at DESC NULLS LAST, created_at DESC
+    ) AS rank
+    FROM public.harvested_documents
+) r
+WHERE d.id = r.id AND r.rank > 1;
+
+ALTER TABLE public.harvested_documents
+    ALTER COLUMN canonical_url SET NOT NULL;
+
+ALTER TABLE public.harvested_documents
+    DROP CONSTRAINT IF EXISTS unique_harvested_document;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_harvested_document_canonical
+    ON public.harvested_documents(data_source_id, canonical_url);
+
+-- Insertions sans canonical_url (anciens clients) : calculée à partir de url_doc
+CREATE OR REPLACE FUNCTION public.set_harvested_document_canonical_url()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.canonical_url := COALESCE(NEW.canonical_url, public.canonicalize_url(NEW.url_doc));
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_harvested_documents_canonical_url ON public.harvested_documents;
+CREATE TRIGGER set_harvested_documents_canonical_url
+    BEFORE INSERT ON public.harvested_documents
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_harvested_document_canonical_url();
@@ -0,0 +1,82 @@
+/*
+  # Cache des documents adressé par contenu
+
+  1. Stockage
+    - Bucket privé `documents` - Contenu des documents relayés par document-proxy, rangé sous son
+      empreinte SHA-256 (`ab/abcdef...`) : un même fichier publié sous plusieurs URL n'est stocké qu'une fois
+
+  2. Nouvelles tables
+    - `document_blobs` - Un contenu stocké par empreinte
+      - `sha256`, `storage_path`, `size`, `content_type`
+    - `document_cache` - Index URL canonique -> contenu
+      - `canonical_url` - Clé (même forme que harvested_documents.canonical_url)
+      - `url` - URL réellement demandée au site
+      - `etag` / `last_modified` - Validateurs HTTP pour la revalidation conditionnelle
+      - `auth_data_source_id` - Source dont les identifiants ont servi : la copie n'est servie
+        qu'aux requêtes de cette source
+      - `fetched_at` - Dernier téléchargement ; `validated_at` - Dernière confirmation par le site
+        (copie servie sans contacter le site pendant DOCUMENT_CACHE_TTL_SECONDS, 24 h par défaut)
+
+  3. Sécurité
+    - Bucket sans politique : lu et écrit par les seules fonctions edge (service_role)
+    - Tables en lecture seule pour le navigateur, écrites par document-proxy
+*/
+
+-- =====================================================
+-- STOCKAGE: bucket documents
+-- =====================================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- TABLE: document_blobs
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.document_blobs (
+    sha256 text PRIMARY KEY CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+    storage_path text NOT NULL,
+    size bigint NOT NULL,
+    content_type text NOT NULL DEFAULT 'application/octet-stream',
+    created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.document_blobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to document_blobs"
+    ON public.document_blobs
+    FOR SELECT
+    USING (true);
+
+-- =====================================================
+-- TABLE: document_cache
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.document_cache (
+    canonical_url text PRIMARY KEY,
+    url text NOT NULL,
+    sha256 text NOT NULL REFERENCES public.document_blobs(sha256),
+    size bigint NOT NULL,
+    content_type text NOT NULL DEFAULT 'application/octet-stream',
+    etag text,
+    last_modified text,
+    auth_data_source_id uuid REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    fetched_at timestamptz NOT NULL DEFAULT now(),
+    validated_at timestamptz NOT NULL DEFAULT now(),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_cache_sha256 ON public.document_cache(sha256);
+
+-- Trigger pour updated_at
+DROP TRIGGER IF EXISTS update_document_cache_updated_at ON public.document_cache;
+CREATE TRIGGER update_document_cache_updated_at
+    BEFORE UPDATE ON public.document_cache
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.document_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to document_cache"
+    ON public.document_cache
+    FOR SELECT
+    USING (true);
@@ -0,0 +1,44 @@
+/*
+  # Archivage réel des documents importés
+
+  1. Stockage
+    - Bucket `archives` - Documents téléchargés à l'import, un répertoire par site
+      (`<site>/<fichier>`, préfixes dup_ / dup_N_ en cas de collision de nom)
+
+  2. Modifications
+    - `harvested_documents` - Fichier archivé du document
+      - `archive_path` - Chemin dans le bucket archives
+      - `archive_sha256` - Empreinte SHA-256 du fichier
+      - `archive_size` - Taille en octets
+      - `archive_mime_type` - Type MIME détecté
+      - `archived_at` - Date d'archivage
+      Un document inchangé lors d'un import suivant réutilise ce fichier sans nouveau téléchargement
+
+  3. Sécurité
+    - Accès complet au bucket archives, comme pour les tables de l'application
+*/
+
+-- =====================================================
+-- STOCKAGE: bucket archives
+-- =====================================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('archives', 'archives', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Allow all access to archives" ON storage.objects;
+CREATE POLICY "Allow all access to archives"
+    ON storage.objects
+    FOR ALL
+    TO public
+    USING (bucket_id = 'archives')
+    WITH CHECK (bucket_id = 'archives');
+
+-- =====================================================
+-- MODIFICATION: harvested_documents (fichier archivé)
+-- =====================================================
+ALTER TABLE public.harvested_documents
+    ADD COLUMN IF NOT EXISTS archive_path text,
+    ADD COLUMN IF NOT EXISTS archive_sha256 text,
+    ADD COLUMN IF NOT EXISTS archive_size bigint,
+    ADD COLUMN IF NOT EXISTS archive_mime_type text,
+    ADD COLUMN IF NOT EXISTS archived_at timestamptz;
@@ -0,0 +1,101 @@
+/*
+  # Capture WARC des exécutions de moissonnage
+
+  1. Modifications
+    - `data_sources.warc_capture` - Option par source : chaque réponse obtenue pendant une exécution
+      (robots.txt, pages de liste, sitemaps / flux, fichiers des documents) est écrite dans des
+      fichiers WARC rattachés à l'exécution, avec en-têtes de requête / réponse et horodatage
+
+  2. Stockage
+    - Bucket privé `warc` - Fichiers `<source>/<exécution>/<exécution>-00001.warc.gz`
+      (un membre gzip par enregistrement, ~20 Mo par fichier)
+
+  3. Nouvelles tables
+    - `warc_files` - Fichiers WARC d'une exécution
+      - `run_id`, `data_source_id`, `sequence`, `storage_path`, `size`, `sha256`, `record_count`
+    - `warc_records` - Index des enregistrements pour la consultation des copies archivées
+      - `record_id` - WARC-Record-ID (urn:uuid)
+      - `record_type` - response (réponse HTTP) ou resource (page rendue par le navigateur headless)
+      - `target_uri` / `canonical_url` - URL capturée (même forme que harvested_documents.canonical_url)
+      - `method`, `http_status`, `content_type`, `payload_size`, `payload_sha256`
+      - `truncated` - Contenu tronqué au-delà de 50 Mo (WARC-Truncated: length)
+      - `record_offset` / `record_length` - Position du membre gzip dans le fichier
+      - `captured_at` - WARC-Date
+
+  4. Sécurité
+    - Bucket sans politique : écrit par les fonctions de moissonnage, relu par warc-replay (service_role)
+    - Tables en lecture seule pour le navigateur
+*/
+
+-- =====================================================
+-- MODIFICATION: data_sources
+-- =====================================================
+ALTER TABLE public.data_sources
+    ADD COLUMN IF NOT EXISTS warc_capture boolean NOT NULL DEFAULT false;
+
+-- =====================================================
+-- STOCKAGE: bucket warc
+-- =====================================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('warc', 'warc', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- TABLE: warc_files
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.warc_files (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id uuid NOT NULL REFERENCES public.harvest_runs(id) ON DELETE CASCADE,
+    data_source_id uuid NOT NULL REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    sequence integer NOT NULL,
+    storage_path text NOT NULL,
+    size bigint NOT NULL,
+    sha256 text NOT NULL,
+    record_count integer NOT NULL DEFAULT 0,
+    created_at timestamptz DEFAULT now(),
+    UNIQUE (run_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_warc_files_run_id ON public.warc_files(run_id);
+
+ALTER TABLE public.warc_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to warc_files"
+    ON public.warc_files
+    FOR SELECT
+    USING (true);
+
+-- =====================================================
+-- TABLE: warc_records
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.warc_records (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    warc_file_id uuid NOT NULL REFERENCES public.warc_files(id) ON DELETE CASCADE,
+    run_id uuid NOT NULL REFERENCES public.harvest_runs(id) ON DELETE CASCADE,
+    data_source_id uuid NOT NULL REFERENCES public.data_sources(id) ON DELETE CASCADE,
+    record_id text NOT NULL,
+    record_type text NOT NULL CHECK (record_type IN ('response', 'resource')),
+    target_uri text NOT NULL,
+    canonical_url text NOT NULL,
+    method text,
+    http_status integer,
+    content_type text,
+    payload_size bigint NOT NULL DEFAULT 0,
+    payload_sha256 text,
+    truncated boolean NOT NULL DEFAULT false,
+    record_offset bigint NOT NULL,
+    record_length bigint NOT NULL,
+    captured_at timestamptz NOT NULL,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_warc_records_canonical_url ON public.warc_records(canonical_url, captured_at DESC);
+CREATE INDEX IF NOT EXISTS idx_warc_records_run_id ON public.warc_records(run_id);
+CREATE INDEX IF NOT EXISTS idx_warc_records_warc_file_id ON public.warc_records(warc_file_id);
+
+ALTER TABLE public.warc_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to warc_records"
+    ON public.warc_records
+    FOR SELECT
+    USING (true);
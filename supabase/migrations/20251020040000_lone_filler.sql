@@ -0,0 +1,56 @@
+/*
+  # Remplissage unique du cache des documents
+
+  1. Nouvelle table
+    - `document_cache_fills` - Téléchargement complet en cours d'un document pour le cache
+      (première lecture par plages du lecteur PDF) : un seul par URL canonique
+      - `canonical_url` - Clé (même forme que document_cache.canonical_url)
+      - `started_at` - Début du remplissage ; un remplissage plus ancien que le délai est repris
+
+  2. Functions
+    - `claim_document_cache_fill(canonical_url, ttl)` - Réserve le remplissage ; false si un autre est en cours
+    - `release_document_cache_fill(canonical_url)` - Libère la réservation (succès ou échec)
+
+  3. Sécurité
+    - Table sans politique ; fonctions réservées à service_role (document-proxy)
+*/
+
+-- =====================================================
+-- TABLE: document_cache_fills
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.document_cache_fills (
+    canonical_url text PRIMARY KEY,
+    started_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.document_cache_fills ENABLE ROW LEVEL SECURITY;
+
+-- Réserver le remplissage d'une URL ; une réservation expirée (fonction interrompue) est reprise
+CREATE OR REPLACE FUNCTION public.claim_document_cache_fill(
+    p_canonical_url text,
+    p_ttl_seconds integer DEFAULT 300
+)
+RETURNS boolean AS $$
+DECLARE
+    v_claimed text;
+BEGIN
+    INSERT INTO public.document_cache_fills (canonical_url, started_at)
+    VALUES (p_canonical_url, now())
+    ON CONFLICT (canonical_url) DO UPDATE
+        SET started_at = now()
+        WHERE public.document_cache_fills.started_at < now() - make_interval(secs => p_ttl_seconds)
+    RETURNING canonical_url INTO v_claimed;
+
+    RETURN v_claimed IS NOT NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION public.release_document_cache_fill(p_canonical_url text)
+RETURNS void AS $$
+BEGIN
+    DELETE FROM public.document_cache_fills WHERE canonical_url = p_canonical_url;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION public.claim_document_cache_fill(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_document_cache_fill(text) FROM PUBLIC, anon, authenticated;
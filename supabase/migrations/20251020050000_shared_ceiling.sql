@@ -0,0 +1,205 @@
+/*
+  # Plafonds partagés de la passerelle LLM
+
+  Les quotas de llm_quotas sont comptés par utilisateur ; une nouvelle session anonyme repartait
+  donc d'un quota vierge. Deux plafonds journaliers s'ajoutent, vérifiés dans la même transaction :
+
+  1. Nouvelles Tables
+    - `llm_shared_quotas` - Limites journalières partagées
+      - `scope` - project (tout le projet, toutes sessions confondues) ou anonymous_ip
+        (ensemble des sessions anonymes d'une même adresse IP)
+      - `daily_request_limit`, `daily_token_limit`
+    - `llm_shared_quota_usage` - Consommation par clé et par jour
+      - `scope_key` - « project » ou « ip:<adresse> »
+
+  2. Functions
+    - `consume_llm_quota(user_id, client_ip, anonymous)` - Réserve une requête si le quota de
+      l'utilisateur, le plafond du projet et, pour une session anonyme, celui de son adresse IP
+      ne sont pas atteints ; `limited_by` indique le plafond atteint
+    - `record_llm_tokens(user_id, tokens, client_ip, anonymous)` - Ajoute les tokens aux mêmes compteurs
+
+  3. Security
+    - Lecture seule des limites pour les utilisateurs authentifiés ; compteurs réservés à service_role
+*/
+
+-- =====================================================
+-- TABLE: llm_shared_quotas
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.llm_shared_quotas (
+    scope text PRIMARY KEY CHECK (scope IN ('project', 'anonymous_ip')),
+    daily_request_limit integer NOT NULL CHECK (daily_request_limit >= 0),
+    daily_token_limit bigint NOT NULL CHECK (daily_token_limit >= 0),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO public.llm_shared_quotas (scope, daily_request_limit, daily_token_limit)
+VALUES
+    ('project', 5000, 10000000),
+    ('anonymous_ip', 300, 750000)
+ON CONFLICT (scope) DO NOTHING;
+
+-- Trigger pour updated_at
+DROP TRIGGER IF EXISTS update_llm_shared_quotas_updated_at ON public.llm_shared_quotas;
+CREATE TRIGGER update_llm_shared_quotas_updated_at
+    BEFORE UPDATE ON public.llm_shared_quotas
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- TABLE: llm_shared_quota_usage
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.llm_shared_quota_usage (
+    scope_key text NOT NULL,
+    usage_date date NOT NULL DEFAULT current_date,
+    request_count integer NOT NULL DEFAULT 0,
+    token_count bigint NOT NULL DEFAULT 0,
+    updated_at timestamptz DEFAULT now(),
+    PRIMARY KEY (scope_key, usage_date)
+);
+
+-- RLS et politiques : limites lisibles, compteurs réservés à la fonction edge
+ALTER TABLE public.llm_shared_quotas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.llm_shared_quota_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to llm_shared_quotas"
+    ON public.llm_shared_quotas
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Compteur partagé du jour, verrouillé jusqu'à la fin de la transaction
+CREATE OR REPLACE FUNCTION public.lock_llm_shared_usage(p_scope_key text)
+RETURNS public.llm_shared_quota_usage AS $$
+DECLARE
+    v_usage public.llm_shared_quota_usage%ROWTYPE;
+BEGIN
+    INSERT INTO public.llm_shared_quota_usage (scope_key, usage_date)
+    VALUES (p_scope_key, current_date)
+    ON CONFLICT (scope_key, usage_date) DO NOTHING;
+
+    SELECT * INTO v_usage
+    FROM public.llm_shared_quota_usage
+    WHERE scope_key = p_scope_key AND usage_date = current_date
+    FOR UPDATE;
+
+    RETURN v_usage;
+END;
+$$ language 'plpgsql';
+
+-- Remplace la version par utilisateur seul
+DROP FUNCTION IF EXISTS public.consume_llm_quota(uuid);
+DROP FUNCTION IF EXISTS public.record_llm_tokens(uuid, bigint);
+
+-- Réservation d'une requête : quota de l'utilisateur, plafond du projet, plafond de l'adresse IP (sessions anonymes)
+CREATE OR REPLACE FUNCTION public.consume_llm_quota(
+    p_user_id uuid,
+    p_client_ip text DEFAULT NULL,
+    p_anonymous boolean DEFAULT false
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_request_limit integer;
+    v_token_limit bigint;
+    v_usage public.llm_quota_usage%ROWTYPE;
+    v_project_limits public.llm_shared_quotas%ROWTYPE;
+    v_ip_limits public.llm_shared_quotas%ROWTYPE;
+    v_project public.llm_shared_quota_usage%ROWTYPE;
+    v_ip public.llm_shared_quota_usage%ROWTYPE;
+    v_ip_key text;
+    v_limited_by text;
+BEGIN
+    SELECT daily_request_limit, daily_token_limit INTO v_request_limit, v_token_limit
+    FROM public.llm_quotas
+    WHERE user_id = p_user_id OR user_id IS NULL
+    ORDER BY user_id NULLS LAST
+    LIMIT 1;
+
+    v_request_limit := COALESCE(v_request_limit, 200);
+    v_token_limit := COALESCE(v_token_limit, 500000);
+
+    SELECT * INTO v_project_limits FROM public.llm_shared_quotas WHERE scope = 'project';
+    SELECT * INTO v_ip_limits FROM public.llm_shared_quotas WHERE scope = 'anonymous_ip';
+
+    -- Toujours dans le même ordre (projet, IP, utilisateur) pour éviter les interblocages
+    v_project := public.lock_llm_shared_usage('project');
+    IF p_anonymous AND p_client_ip IS NOT NULL THEN
+        v_ip_key := 'ip:' || p_client_ip;
+        v_ip := public.lock_llm_shared_usage(v_ip_key);
+    END IF;
+
+    INSERT INTO public.llm_quota_usage (user_id, usage_date)
+    VALUES (p_user_id, current_date)
+    ON CONFLICT (user_id, usage_date) DO NOTHING;
+
+    SELECT * INTO v_usage
+    FROM public.llm_quota_usage
+    WHERE user_id = p_user_id AND usage_date = current_date
+    FOR UPDATE;
+
+    IF v_project_limits.scope IS NOT NULL AND (
+        v_project.request_count >= v_project_limits.daily_request_limit
+        OR v_project.token_count >= v_project_limits.daily_token_limit
+    ) THEN
+        v_limited_by := 'project';
+    ELSIF v_ip_key IS NOT NULL AND v_ip_limits.scope IS NOT NULL AND (
+        v_ip.request_count >= v_ip_limits.daily_request_limit
+        OR v_ip.token_count >= v_ip_limits.daily_token_limit
+    ) THEN
+        v_limited_by := 'anonymous_ip';
+    ELSIF v_usage.request_count >= v_request_limit OR v_usage.token_count >= v_token_limit THEN
+        v_limited_by := 'user';
+    END IF;
+
+    IF v_limited_by IS NULL THEN
+        UPDATE public.llm_shared_quota_usage
+        SET request_count = request_count + 1,
+            updated_at = now()
+        WHERE usage_date = current_date
+          AND scope_key IN ('project', COALESCE(v_ip_key, 'project'));
+
+        UPDATE public.llm_quota_usage
+        SET request_count = request_count + 1,
+            updated_at = now()
+        WHERE user_id = p_user_id AND usage_date = current_date
+        RETURNING * INTO v_usage;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'allowed', v_limited_by IS NULL,
+        'limited_by', v_limited_by,
+        'request_count', v_usage.request_count,
+        'token_count', v_usage.token_count,
+        'request_limit', v_request_limit,
+        'token_limit', v_token_limit
+    );
+END;
+$$ language 'plpgsql';
+
+-- Tokens réellement consommés, ajoutés aux compteurs de l'utilisateur, du projet et de l'adresse IP
+CREATE OR REPLACE FUNCTION public.record_llm_tokens(
+    p_user_id uuid,
+    p_tokens bigint,
+    p_client_ip text DEFAULT NULL,
+    p_anonymous boolean DEFAULT false
+)
+RETURNS void AS $$
+BEGIN
+    UPDATE public.llm_quota_usage
+    SET token_count = token_count + GREATEST(p_tokens, 0),
+        updated_at = now()
+    WHERE user_id = p_user_id AND usage_date = current_date;
+
+    UPDATE public.llm_shared_quota_usage
+    SET token_count = token_count + GREATEST(p_tokens, 0),
+        updated_at = now()
+    WHERE usage_date = current_date
+      AND (scope_key = 'project'
+        OR (p_anonymous AND p_client_ip IS NOT NULL AND scope_key = 'ip:' || p_client_ip));
+END;
+$$ language 'plpgsql';
+
+-- Fonctions réservées à service_role : un navigateur ne doit pas pouvoir manipuler ses compteurs
+REVOKE EXECUTE ON FUNCTION public.lock_llm_shared_usage(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_llm_quota(uuid, text, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_llm_tokens(uuid, bigint, text, boolean) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,85 @@
+/*
+  # Consommation LLM enregistrée par le serveur
+
+  llm_usage était ouverte en écriture au navigateur : tokens et coût étaient déclarés par le client,
+  qui pouvait aussi effacer ou réduire sa dépense et contourner ainsi les budgets (llm_budget_status).
+
+  1. Modifications
+    - `llm_usage` - Lecture seule pour le navigateur ; les appels OpenAI sont écrits par llm-gateway
+      (service_role) à partir du usage renvoyé par le fournisseur, avec le coût calculé côté serveur
+
+  2. Functions
+    - `record_local_llm_usage(...)` - Appel d'un fournisseur sans coût (serveur local, fixtures) :
+      provider 'local' ou 'fixture' uniquement, coût toujours 0, user_id = utilisateur courant
+    - `attach_llm_usage_to_result(run_id, harvest_result_id)` - Rattache les appels d'une exécution
+      à son résultat, seulement si le résultat appartient bien à cette exécution
+
+  3. Security
+    - Politique "Allow all access to llm_usage" remplacée par une lecture seule
+    - Fonctions SECURITY DEFINER limitées aux utilisateurs authentifiés (sessions anonymes comprises)
+*/
+
+-- =====================================================
+-- POLITIQUES: llm_usage
+-- =====================================================
+DROP POLICY IF EXISTS "Allow all access to llm_usage" ON public.llm_usage;
+
+CREATE POLICY "Allow read access to llm_usage"
+    ON public.llm_usage
+    FOR SELECT
+    TO public
+    USING (true);
+
+-- Appel d'un fournisseur local ou de fixtures : aucun coût, seuls les tokens sont comptés
+CREATE OR REPLACE FUNCTION public.record_local_llm_usage(
+    p_purpose text,
+    p_provider text,
+    p_model text,
+    p_prompt_tokens integer DEFAULT 0,
+    p_completion_tokens integer DEFAULT 0,
+    p_data_source_id uuid DEFAULT NULL,
+    p_run_id uuid DEFAULT NULL,
+    p_harvest_result_id uuid DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+    IF p_provider NOT IN ('local', 'fixture') THEN
+        RAISE EXCEPTION 'Fournisseur % : consommation enregistrée par llm-gateway uniquement', p_provider;
+    END IF;
+
+    INSERT INTO public.llm_usage (
+        data_source_id, run_id, harvest_result_id, user_id, purpose, provider, model,
+        prompt_tokens, completion_tokens, total_tokens, cost
+    )
+    VALUES (
+        p_data_source_id, p_run_id, p_harvest_result_id, auth.uid(), p_purpose, p_provider, p_model,
+        GREATEST(p_prompt_tokens, 0), GREATEST(p_completion_tokens, 0),
+        GREATEST(p_prompt_tokens, 0) + GREATEST(p_completion_tokens, 0), 0
+    );
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- Le résultat d'un moissonnage n'existe qu'après l'appel LLM : rattachement a posteriori
+CREATE OR REPLACE FUNCTION public.attach_llm_usage_to_result(p_run_id uuid, p_harvest_result_id uuid)
+RETURNS integer AS $$
+DECLARE
+    v_attached integer;
+BEGIN
+    UPDATE public.llm_usage
+    SET harvest_result_id = p_harvest_result_id
+    WHERE run_id = p_run_id
+      AND harvest_result_id IS NULL
+      AND EXISTS (
+          SELECT 1 FROM public.harvest_results
+          WHERE id = p_harvest_result_id AND run_id = p_run_id
+      );
+
+    GET DIAGNOSTICS v_attached = ROW_COUNT;
+    RETURN v_attached;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_local_llm_usage(text, text, text, integer, integer, uuid, uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.attach_llm_usage_to_result(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_local_llm_usage(text, text, text, integer, integer, uuid, uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.attach_llm_usage_to_result(uuid, uuid) TO authenticated;
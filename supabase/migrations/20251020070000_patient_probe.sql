@@ -0,0 +1,153 @@
+/*
+  # Reprise du disjoncteur LLM et limite de débit partagée
+
+  Un disjoncteur ouvert mettait en pause tous les jobs 'web' ; seul un appel réussi le refermait,
+  or plus aucun job ne pouvait appeler llm-gateway : les jobs restaient en pause indéfiniment.
+  La limite de débit (requêtes et tokens par minute) était tenue en mémoire par chaque onglet.
+
+  1. Nouvelle Table
+    - `llm_rate_window` - Fenêtre d'une minute commune à tous les appels de llm-gateway (id = 1)
+      - `window_start` - Minute en cours
+      - `request_count`, `token_count` - Requêtes et tokens réservés dans la minute
+
+  2. Functions
+    - `llm_circuit_release_probe()` - Refroidissement écoulé et aucun job 'web' en file ou en cours :
+      remet en file le plus ancien job mis en pause par le disjoncteur ; son appel est l'appel d'essai
+      admis par llm_circuit_acquire (half_open), un succès referme le disjoncteur et reprend les autres
+    - `llm_rate_acquire(tokens, requests_per_minute, tokens_per_minute)` - Réserve une requête et une
+      estimation de tokens dans la minute en cours ; sinon délai avant la minute suivante
+    - `llm_rate_settle(window_start, estimated, actual)` - Corrige l'estimation avec les tokens réels
+
+  3. Planification
+    - pg_cron appelle llm_circuit_release_probe() chaque minute lorsque l'extension est installée
+
+  4. Security
+    - Fonctions réservées à service_role (llm-gateway, fonctions de moissonnage, pg_cron)
+*/
+
+-- =====================================================
+-- TABLE: llm_rate_window
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.llm_rate_window (
+    id integer PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    window_start timestamptz NOT NULL DEFAULT date_trunc('minute', now()),
+    request_count integer NOT NULL DEFAULT 0,
+    token_count bigint NOT NULL DEFAULT 0
+);
+
+INSERT INTO public.llm_rate_window (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.llm_rate_window ENABLE ROW LEVEL SECURITY;
+
+-- Appel d'essai : un seul job 'web' remis en file une fois le refroidissement écoulé
+CREATE OR REPLACE FUNCTION public.llm_circuit_release_probe()
+RETURNS uuid AS $$
+DECLARE
+    v_breaker public.llm_circuit_breaker%ROWTYPE;
+    v_job_id uuid;
+BEGIN
+    SELECT * INTO v_breaker
+    FROM public.llm_circuit_breaker
+    WHERE id = 1
+    FOR UPDATE;
+
+    IF v_breaker.state = 'closed' OR v_breaker.retry_at > now() THEN
+        RETURN NULL;
+    END IF;
+
+    -- Un job déjà en file ou en cours fera l'appel d'essai
+    IF EXISTS (
+        SELECT 1 FROM public.harvest_jobs
+        WHERE engine = 'web' AND status IN ('queued', 'running')
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE public.harvest_jobs
+    SET status = 'queued',
+        pause_reason = NULL
+    WHERE id = (
+        SELECT id FROM public.harvest_jobs
+        WHERE status = 'paused' AND pause_reason = 'circuit_breaker'
+        ORDER BY priority DESC, created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id INTO v_job_id;
+
+    RETURN v_job_id;
+END;
+$$ language 'plpgsql';
+
+-- Réserver une requête et une estimation de tokens dans la minute en cours
+CREATE OR REPLACE FUNCTION public.llm_rate_acquire(
+    p_tokens integer,
+    p_requests_per_minute integer DEFAULT 60,
+    p_tokens_per_minute integer DEFAULT 90000
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_window public.llm_rate_window%ROWTYPE;
+    v_minute timestamptz := date_trunc('minute', now());
+BEGIN
+    SELECT * INTO v_window
+    FROM public.llm_rate_window
+    WHERE id = 1
+    FOR UPDATE;
+
+    IF v_window.window_start < v_minute THEN
+        UPDATE public.llm_rate_window
+        SET window_start = v_minute,
+            request_count = 0,
+            token_count = 0
+        WHERE id = 1
+        RETURNING * INTO v_window;
+    END IF;
+
+    -- Une requête plus grosse que la limite passe seule, dans une minute encore vide
+    IF v_window.request_count + 1 > p_requests_per_minute
+       OR (v_window.token_count > 0 AND v_window.token_count + GREATEST(p_tokens, 0) > p_tokens_per_minute) THEN
+        RETURN jsonb_build_object(
+            'allowed', false,
+            'retry_after_ms', CEIL(EXTRACT(EPOCH FROM (v_window.window_start + interval '1 minute' - now())) * 1000)
+        );
+    END IF;
+
+    UPDATE public.llm_rate_window
+    SET request_count = request_count + 1,
+        token_count = token_count + GREATEST(p_tokens, 0)
+    WHERE id = 1;
+
+    RETURN jsonb_build_object('allowed', true, 'window_start', v_window.window_start);
+END;
+$$ language 'plpgsql';
+
+-- Tokens réels connus après la réponse ; sans effet si la minute est déjà passée
+CREATE OR REPLACE FUNCTION public.llm_rate_settle(
+    p_window_start timestamptz,
+    p_estimated_tokens integer,
+    p_actual_tokens integer
+)
+RETURNS void AS $$
+BEGIN
+    UPDATE public.llm_rate_window
+    SET token_count = GREATEST(token_count + p_actual_tokens - p_estimated_tokens, 0)
+    WHERE id = 1 AND window_start = p_window_start;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION public.llm_circuit_release_probe() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.llm_rate_acquire(integer, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.llm_rate_settle(timestamptz, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Appel d'essai planifié lorsque pg_cron est installé
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'llm-circuit-probe',
+      '* * * * *',
+      $cron$ SELECT public.llm_circuit_release_probe(); $cron$
+    );
+  END IF;
+END $$;
@@ -0,0 +1,21 @@
+/*
+  # Planification sur la configuration la plus récente de chaque source
+
+  Une source peut avoir plusieurs lignes harvesting_configs ; le front, les moteurs et la mise en file
+  n'utilisent que la plus récente. Les planificateurs lisaient toutes les lignes échues : une ancienne
+  configuration pouvait encore déclencher des moissonnages avec sa propre fréquence.
+
+  1. Functions
+    - `latest_harvesting_configs()` - Configuration la plus récente (created_at) de chaque source ;
+      filtres, tri, limite et jointure data_sources appliqués par l'appelant comme sur la table
+
+  2. Security
+    - SECURITY INVOKER : mêmes droits que la lecture directe de harvesting_configs
+*/
+
+CREATE OR REPLACE FUNCTION public.latest_harvesting_configs()
+RETURNS SETOF public.harvesting_configs AS $$
+    SELECT DISTINCT ON (data_source_id) *
+    FROM public.harvesting_configs
+    ORDER BY data_source_id, created_at DESC, id DESC;
+$$ language 'sql' STABLE;
@@ -0,0 +1,14 @@
+/*
+  # Cache des documents fermé au navigateur
+
+  document_cache et document_blobs étaient lisibles par anon et authenticated : n'importe qui pouvait
+  lister les URL canoniques et chemins de contenu en cache, y compris les copies obtenues avec les
+  identifiants d'une source (auth_data_source_id), que document-proxy ne sert qu'à cette source.
+
+  1. Security
+    - Politiques "Allow read access to document_cache" et "Allow read access to document_blobs"
+      supprimées : RLS active sans politique, tables lues et écrites par document-proxy seul (service_role)
+*/
+
+DROP POLICY IF EXISTS "Allow read access to document_cache" ON public.document_cache;
+DROP POLICY IF EXISTS "Allow read access to document_blobs" ON public.document_blobs;